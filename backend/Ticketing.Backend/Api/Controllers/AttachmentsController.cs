@@ -0,0 +1,162 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+[ApiController]
+[Route("api")]
+[Authorize]
+public class AttachmentsController : ControllerBase
+{
+    // Upper bound for the request body; the admin-configured MaxAttachmentSizeMB is checked in the service
+    private const long MaxUploadRequestBytes = 100L * 1024 * 1024;
+
+    private readonly IAttachmentService _attachmentService;
+
+    public AttachmentsController(IAttachmentService attachmentService)
+    {
+        _attachmentService = attachmentService;
+    }
+
+    private (Guid userId, UserRole role)? GetUserContext()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        var roleValue = User.FindFirstValue(ClaimTypes.Role);
+        if (Guid.TryParse(idValue, out var userId) && Enum.TryParse<UserRole>(roleValue, out var role))
+        {
+            return (userId, role);
+        }
+        return null;
+    }
+
+    /// <summary>
+    /// Upload a file for a ticket that is not created yet; pass the returned id in the create request
+    /// </summary>
+    [HttpPost("attachments")]
+    [RequestSizeLimit(MaxUploadRequestBytes)]
+    [RequestFormLimits(MultipartBodyLengthLimit = MaxUploadRequestBytes)]
+    public Task<IActionResult> UploadPending(IFormFile? file)
+    {
+        return Upload(null, file);
+    }
+
+    [HttpPost("tickets/{id}/attachments")]
+    [RequestSizeLimit(MaxUploadRequestBytes)]
+    [RequestFormLimits(MultipartBodyLengthLimit = MaxUploadRequestBytes)]
+    public Task<IActionResult> UploadToTicket(Guid id, IFormFile? file)
+    {
+        return Upload(id, file);
+    }
+
+    [HttpGet("tickets/{id}/attachments")]
+    public async Task<IActionResult> GetTicketAttachments(Guid id)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var attachments = await _attachmentService.GetTicketAttachmentsAsync(id, context.Value.userId, context.Value.role);
+        if (attachments == null)
+        {
+            return NotFound();
+        }
+        return Ok(attachments);
+    }
+
+    [HttpGet("tickets/{id}/attachments/zip")]
+    public async Task<IActionResult> DownloadTicketZip(Guid id)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var archive = await _attachmentService.CreateTicketZipAsync(id, context.Value.userId, context.Value.role);
+        if (archive == null)
+        {
+            return NotFound();
+        }
+        return File(archive, "application/zip", $"ticket-{id}-attachments.zip");
+    }
+
+    [HttpGet("attachments/{id}/content")]
+    public async Task<IActionResult> Download(Guid id)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var result = await _attachmentService.OpenAsync(id, context.Value.userId, context.Value.role);
+        if (result == null)
+        {
+            return NotFound();
+        }
+        return File(result.Value.Content, result.Value.Attachment.ContentType, result.Value.Attachment.FileName);
+    }
+
+    [HttpDelete("attachments/{id}")]
+    public async Task<IActionResult> Delete(Guid id)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var deleted = await _attachmentService.DeleteAsync(id, context.Value.userId, context.Value.role);
+            if (!deleted)
+            {
+                return NotFound();
+            }
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(403, new { message = ex.Message });
+        }
+    }
+
+    private async Task<IActionResult> Upload(Guid? ticketId, IFormFile? file)
+    {
+        if (file == null)
+        {
+            return BadRequest(new { message = "A file is required" });
+        }
+
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            await using var content = file.OpenReadStream();
+            var attachment = await _attachmentService.UploadAsync(
+                ticketId, context.Value.userId, context.Value.role, file.FileName, file.ContentType, file.Length, content);
+            if (attachment == null)
+            {
+                return NotFound();
+            }
+            return Ok(attachment);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(403, new { message = ex.Message });
+        }
+    }
+}
@@ -0,0 +1,110 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+/// <summary>
+/// The canned response library: staff read it while replying, admins curate it
+/// </summary>
+[ApiController]
+[Route("api")]
+[Authorize]
+public class CannedResponsesController : ControllerBase
+{
+    private readonly ICannedResponseService _cannedResponseService;
+
+    public CannedResponsesController(ICannedResponseService cannedResponseService)
+    {
+        _cannedResponseService = cannedResponseService;
+    }
+
+    private (Guid userId, UserRole role)? GetUserContext()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        var roleValue = User.FindFirstValue(ClaimTypes.Role);
+        if (Guid.TryParse(idValue, out var userId) && Enum.TryParse<UserRole>(roleValue, out var role))
+        {
+            return (userId, role);
+        }
+        return null;
+    }
+
+    [HttpGet("canned-responses")]
+    public async Task<IActionResult> GetAll()
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        // Replies are written by the support team
+        if (context.Value.role == UserRole.Client)
+        {
+            return Forbid();
+        }
+
+        var responses = await _cannedResponseService.GetAllAsync();
+        return Ok(responses);
+    }
+
+    [HttpPost("admin/canned-responses")]
+    [Authorize(Roles = nameof(UserRole.Admin))]
+    public async Task<IActionResult> Create([FromBody] CannedResponseRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        try
+        {
+            var response = await _cannedResponseService.CreateAsync(request);
+            return Ok(response);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpPut("admin/canned-responses/{id}")]
+    [Authorize(Roles = nameof(UserRole.Admin))]
+    public async Task<IActionResult> Update(Guid id, [FromBody] CannedResponseRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        try
+        {
+            var response = await _cannedResponseService.UpdateAsync(id, request);
+            if (response == null)
+            {
+                return NotFound();
+            }
+            return Ok(response);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpDelete("admin/canned-responses/{id}")]
+    [Authorize(Roles = nameof(UserRole.Admin))]
+    public async Task<IActionResult> Delete(Guid id)
+    {
+        var deleted = await _cannedResponseService.DeleteAsync(id);
+        if (!deleted)
+        {
+            return NotFound();
+        }
+        return NoContent();
+    }
+}
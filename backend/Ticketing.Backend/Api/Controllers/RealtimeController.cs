@@ -0,0 +1,163 @@
+using System.Net.WebSockets;
+using System.Security.Claims;
+using System.Text;
+using System.Text.Json;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Options;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+/// <summary>
+/// Realtime ticket events. Browsers cannot send an Authorization header on these connections, so
+/// the JWT may also come as the access_token query parameter (see Program.cs).
+/// </summary>
+[ApiController]
+[Route("api/realtime")]
+[Authorize]
+public class RealtimeController : ControllerBase
+{
+    // Comment lines keep proxies from closing an idle stream
+    private static readonly TimeSpan KeepAliveInterval = TimeSpan.FromSeconds(15);
+
+    private readonly ITicketEventBroadcaster _ticketEvents;
+    private readonly JsonSerializerOptions _jsonOptions;
+
+    public RealtimeController(ITicketEventBroadcaster ticketEvents, IOptions<Microsoft.AspNetCore.Mvc.JsonOptions> jsonOptions)
+    {
+        _ticketEvents = ticketEvents;
+        _jsonOptions = jsonOptions.Value.JsonSerializerOptions;
+    }
+
+    private (Guid userId, UserRole role)? GetUserContext()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        var roleValue = User.FindFirstValue(ClaimTypes.Role);
+        if (Guid.TryParse(idValue, out var userId) && Enum.TryParse<UserRole>(roleValue, out var role))
+        {
+            return (userId, role);
+        }
+        return null;
+    }
+
+    /// <summary>
+    /// Server-Sent Events stream; every event is one JSON `data:` line
+    /// </summary>
+    [HttpGet("tickets")]
+    public async Task StreamTickets()
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            Response.StatusCode = StatusCodes.Status401Unauthorized;
+            return;
+        }
+
+        var cancellationToken = HttpContext.RequestAborted;
+        using var subscription = _ticketEvents.Subscribe(context.Value.userId, context.Value.role);
+
+        Response.ContentType = "text/event-stream";
+        Response.Headers.CacheControl = "no-cache";
+        Response.Headers["X-Accel-Buffering"] = "no";
+        await Response.WriteAsync(": connected\n\n", cancellationToken);
+        await Response.Body.FlushAsync(cancellationToken);
+
+        try
+        {
+            await ForwardEventsAsync(subscription, async text =>
+            {
+                await Response.WriteAsync(text == null ? ": keepalive\n\n" : $"data: {text}\n\n", cancellationToken);
+                await Response.Body.FlushAsync(cancellationToken);
+            }, cancellationToken);
+        }
+        catch (OperationCanceledException)
+        {
+            // The client went away
+        }
+    }
+
+    /// <summary>
+    /// WebSocket channel for browsers or proxies without SSE; every event is one text frame
+    /// </summary>
+    [HttpGet("tickets/ws")]
+    public async Task StreamTicketsOverWebSocket()
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            Response.StatusCode = StatusCodes.Status401Unauthorized;
+            return;
+        }
+        if (!HttpContext.WebSockets.IsWebSocketRequest)
+        {
+            Response.StatusCode = StatusCodes.Status400BadRequest;
+            return;
+        }
+
+        var cancellationToken = HttpContext.RequestAborted;
+        using var subscription = _ticketEvents.Subscribe(context.Value.userId, context.Value.role);
+        using var socket = await HttpContext.WebSockets.AcceptWebSocketAsync();
+
+        // The channel is one-way; a close frame from the client is the only message expected
+        using var stop = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+        var receiving = socket.ReceiveAsync(new ArraySegment<byte>(new byte[256]), stop.Token);
+        var forwarding = ForwardEventsAsync(subscription, async text =>
+        {
+            if (text != null)
+            {
+                await socket.SendAsync(Encoding.UTF8.GetBytes(text), WebSocketMessageType.Text, true, stop.Token);
+            }
+        }, stop.Token);
+
+        await Task.WhenAny(receiving, forwarding);
+        stop.Cancel();
+        try
+        {
+            await Task.WhenAll(receiving, forwarding);
+        }
+        catch (Exception ex) when (ex is OperationCanceledException or WebSocketException)
+        {
+            // The client went away or closed the socket
+        }
+
+        if (socket.State is WebSocketState.Open or WebSocketState.CloseReceived)
+        {
+            await socket.CloseAsync(WebSocketCloseStatus.NormalClosure, null, CancellationToken.None);
+        }
+    }
+
+    /// <summary>
+    /// Hand every event to `write` as JSON, and null whenever KeepAliveInterval passes without one
+    /// </summary>
+    private async Task ForwardEventsAsync(TicketEventSubscription subscription, Func<string?, Task> write, CancellationToken cancellationToken)
+    {
+        while (!cancellationToken.IsCancellationRequested)
+        {
+            using var keepAlive = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+            keepAlive.CancelAfter(KeepAliveInterval);
+
+            bool hasEvents;
+            try
+            {
+                hasEvents = await subscription.Events.WaitToReadAsync(keepAlive.Token);
+            }
+            catch (OperationCanceledException) when (!cancellationToken.IsCancellationRequested)
+            {
+                await write(null);
+                continue;
+            }
+
+            if (!hasEvents)
+            {
+                return;
+            }
+            while (subscription.Events.TryRead(out var ticketEvent))
+            {
+                await write(JsonSerializer.Serialize(ticketEvent, _jsonOptions));
+            }
+        }
+    }
+}
@@ -0,0 +1,111 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+[ApiController]
+[Route("api/ticket-views")]
+[Authorize(Roles = nameof(UserRole.Admin))]
+public class SavedTicketViewsController : ControllerBase
+{
+    private readonly ISavedTicketViewService _viewService;
+
+    public SavedTicketViewsController(ISavedTicketViewService viewService)
+    {
+        _viewService = viewService;
+    }
+
+    private Guid? GetUserId()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        return Guid.TryParse(idValue, out var userId) ? userId : null;
+    }
+
+    [HttpGet]
+    public async Task<IActionResult> GetViews()
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        var views = await _viewService.GetViewsAsync(userId.Value);
+        return Ok(views);
+    }
+
+    [HttpPost]
+    public async Task<IActionResult> CreateView([FromBody] SavedTicketViewRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Name))
+        {
+            return BadRequest("Name is required");
+        }
+
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        var view = await _viewService.CreateViewAsync(userId.Value, request);
+        return Ok(view);
+    }
+
+    [HttpPut("{id}")]
+    public async Task<IActionResult> UpdateView(Guid id, [FromBody] SavedTicketViewRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Name))
+        {
+            return BadRequest("Name is required");
+        }
+
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var view = await _viewService.UpdateViewAsync(id, userId.Value, request);
+            if (view == null)
+            {
+                return NotFound();
+            }
+            return Ok(view);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(403, new { message = ex.Message });
+        }
+    }
+
+    [HttpDelete("{id}")]
+    public async Task<IActionResult> DeleteView(Guid id)
+    {
+        var userId = GetUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var deleted = await _viewService.DeleteViewAsync(id, userId.Value);
+            if (!deleted)
+            {
+                return NotFound();
+            }
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(403, new { message = ex.Message });
+        }
+    }
+}
@@ -50,5 +50,72 @@ public class SettingsController : ControllerBase
             return StatusCode(500, new { message = "خطا در به‌روزرسانی تنظیمات سیستم", error = ex.Message });
         }
     }
-}
 
+    /// <summary>
+    /// Get the SLA policy; every signed-in user needs it to evaluate ticket deadlines
+    /// </summary>
+    [HttpGet("sla")]
+    [Authorize]
+    public async Task<ActionResult<SlaPolicyResponse>> GetSlaPolicy()
+    {
+        var policy = await _systemSettingsService.GetSlaPolicyAsync();
+        return Ok(policy);
+    }
+
+    /// <summary>
+    /// Replace the SLA policy (Admin only)
+    /// </summary>
+    [HttpPut("sla")]
+    [Authorize(Roles = nameof(UserRole.Admin))]
+    public async Task<ActionResult<SlaPolicyResponse>> UpdateSlaPolicy([FromBody] SlaPolicyRequest policy)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        try
+        {
+            var updated = await _systemSettingsService.UpdateSlaPolicyAsync(policy);
+            return Ok(updated);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Get the ticket lifecycle rules; every signed-in user needs them (reopen window, CSAT survey)
+    /// </summary>
+    [HttpGet("workflow")]
+    [Authorize]
+    public async Task<ActionResult<WorkflowSettingsResponse>> GetWorkflowSettings()
+    {
+        var settings = await _systemSettingsService.GetWorkflowSettingsAsync();
+        return Ok(settings);
+    }
+
+    /// <summary>
+    /// Replace the ticket lifecycle rules (Admin only)
+    /// </summary>
+    [HttpPut("workflow")]
+    [Authorize(Roles = nameof(UserRole.Admin))]
+    public async Task<ActionResult<WorkflowSettingsResponse>> UpdateWorkflowSettings([FromBody] WorkflowSettingsRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        try
+        {
+            var updated = await _systemSettingsService.UpdateWorkflowSettingsAsync(request);
+            return Ok(updated);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+}
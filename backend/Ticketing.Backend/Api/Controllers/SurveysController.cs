@@ -0,0 +1,79 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+[ApiController]
+[Route("api")]
+[Authorize]
+public class SurveysController : ControllerBase
+{
+    private readonly ISurveyService _surveyService;
+
+    public SurveysController(ISurveyService surveyService)
+    {
+        _surveyService = surveyService;
+    }
+
+    private (Guid userId, UserRole role)? GetUserContext()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        var roleValue = User.FindFirstValue(ClaimTypes.Role);
+        if (Guid.TryParse(idValue, out var userId) && Enum.TryParse<UserRole>(roleValue, out var role))
+        {
+            return (userId, role);
+        }
+        return null;
+    }
+
+    [HttpGet("surveys")]
+    public async Task<IActionResult> GetSurveys()
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var surveys = await _surveyService.GetSurveysAsync(context.Value.userId, context.Value.role);
+        return Ok(surveys);
+    }
+
+    [HttpPost("tickets/{id}/survey")]
+    [Authorize(Roles = nameof(UserRole.Client))]
+    public async Task<IActionResult> SubmitSurvey(Guid id, [FromBody] TicketSurveySubmitRequest request)
+    {
+        if (request.Rating < 1 || request.Rating > 5)
+        {
+            return BadRequest("Rating must be between 1 and 5");
+        }
+
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var survey = await _surveyService.SubmitSurveyAsync(id, context.Value.userId, request);
+            if (survey == null)
+            {
+                return Forbid();
+            }
+            return Ok(survey);
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return Conflict(new { message = ex.Message });
+        }
+    }
+}
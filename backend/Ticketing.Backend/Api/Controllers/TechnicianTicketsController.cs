@@ -1,6 +1,7 @@
 using System.Security.Claims;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.DTOs;
 using Ticketing.Backend.Application.Services;
 using Ticketing.Backend.Domain.Enums;
 
@@ -31,11 +32,12 @@ public class TechnicianTicketsController : ControllerBase
     }
 
     /// <summary>
-    /// Get tickets assigned to the current technician
+    /// Get tickets assigned to the current technician. Takes the same filters, sort and paging as
+    /// GET /api/tickets.
     /// </summary>
     [HttpGet("tickets")]
     [Authorize(Roles = nameof(UserRole.Technician))]
-    public async Task<IActionResult> GetMyTickets()
+    public async Task<IActionResult> GetMyTickets([FromQuery] TicketListQuery query)
     {
         var userId = GetCurrentUserId();
         if (userId == null)
@@ -43,17 +45,40 @@ public class TechnicianTicketsController : ControllerBase
             return Unauthorized();
         }
 
-        var tickets = await _ticketService.GetTicketsAsync(
-            userId.Value,
-            UserRole.Technician,
-            status: null,
-            priority: null,
-            assignedTo: null,
-            createdBy: null,
-            search: null
-        );
-
-        return Ok(tickets);
+        try
+        {
+            if (query.Page.HasValue)
+            {
+                return Ok(await _ticketService.GetTicketPageAsync(userId.Value, UserRole.Technician, query));
+            }
+            return Ok(await _ticketService.GetTicketsAsync(userId.Value, UserRole.Technician, query));
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
     }
-}
 
+    /// <summary>
+    /// Number of the current technician's matching tickets in every status
+    /// </summary>
+    [HttpGet("tickets/status-counts")]
+    [Authorize(Roles = nameof(UserRole.Technician))]
+    public async Task<IActionResult> GetMyStatusCounts([FromQuery] TicketListQuery query)
+    {
+        var userId = GetCurrentUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            return Ok(await _ticketService.GetStatusCountsAsync(userId.Value, UserRole.Technician, query));
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+}
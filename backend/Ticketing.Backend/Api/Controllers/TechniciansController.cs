@@ -30,6 +30,16 @@ public class TechniciansController : ControllerBase
         return Ok(technicians);
     }
 
+    /// <summary>
+    /// Get the assignment profiles of all technicians
+    /// </summary>
+    [HttpGet("profiles")]
+    public async Task<IActionResult> GetTechnicianProfiles()
+    {
+        var profiles = await _technicianService.GetTechnicianProfilesAsync();
+        return Ok(profiles);
+    }
+
     /// <summary>
     /// Get technician by ID
     /// </summary>
@@ -101,6 +111,32 @@ public class TechniciansController : ControllerBase
         return Ok(technician);
     }
 
+    /// <summary>
+    /// Replace a technician's specialties, certifications, languages, working hours and capacity
+    /// </summary>
+    [HttpPut("{id}/profile")]
+    public async Task<IActionResult> UpdateTechnicianProfile(Guid id, [FromBody] TechnicianProfileUpdateRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        try
+        {
+            var profile = await _technicianService.UpdateTechnicianProfileAsync(id, request);
+            if (profile == null)
+            {
+                return NotFound();
+            }
+            return Ok(profile);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Update technician status (active/inactive)
     /// </summary>
@@ -0,0 +1,106 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+[ApiController]
+[Route("api")]
+[Authorize]
+public class TicketLinksController : ControllerBase
+{
+    private readonly ITicketLinkService _linkService;
+
+    public TicketLinksController(ITicketLinkService linkService)
+    {
+        _linkService = linkService;
+    }
+
+    private (Guid userId, UserRole role)? GetUserContext()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        var roleValue = User.FindFirstValue(ClaimTypes.Role);
+        if (Guid.TryParse(idValue, out var userId) && Enum.TryParse<UserRole>(roleValue, out var role))
+        {
+            return (userId, role);
+        }
+        return null;
+    }
+
+    [HttpGet("tickets/{id}/links")]
+    public async Task<IActionResult> GetLinks(Guid id)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var links = await _linkService.GetLinksAsync(id, context.Value.userId, context.Value.role);
+        if (links == null)
+        {
+            return NotFound();
+        }
+        return Ok(links);
+    }
+
+    [HttpPost("tickets/{id}/links")]
+    public async Task<IActionResult> CreateLink(Guid id, [FromBody] TicketLinkCreateRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        // Links are kept by the support team
+        if (context.Value.role == UserRole.Client)
+        {
+            return Forbid();
+        }
+
+        try
+        {
+            var link = await _linkService.CreateLinkAsync(id, context.Value.userId, context.Value.role, request);
+            if (link == null)
+            {
+                return NotFound();
+            }
+            return Ok(link);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    [HttpDelete("ticket-links/{id}")]
+    public async Task<IActionResult> DeleteLink(Guid id)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        if (context.Value.role == UserRole.Client)
+        {
+            return Forbid();
+        }
+
+        var deleted = await _linkService.DeleteLinkAsync(id, context.Value.userId, context.Value.role);
+        if (!deleted)
+        {
+            return NotFound();
+        }
+        return NoContent();
+    }
+}
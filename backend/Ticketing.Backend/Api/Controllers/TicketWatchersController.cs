@@ -0,0 +1,108 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+[ApiController]
+[Route("api/tickets")]
+[Authorize]
+public class TicketWatchersController : ControllerBase
+{
+    private readonly ITicketWatcherService _watcherService;
+    private readonly ITicketService _ticketService;
+
+    public TicketWatchersController(ITicketWatcherService watcherService, ITicketService ticketService)
+    {
+        _watcherService = watcherService;
+        _ticketService = ticketService;
+    }
+
+    private (Guid userId, UserRole role)? GetUserContext()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        var roleValue = User.FindFirstValue(ClaimTypes.Role);
+        if (Guid.TryParse(idValue, out var userId) && Enum.TryParse<UserRole>(roleValue, out var role))
+        {
+            return (userId, role);
+        }
+        return null;
+    }
+
+    /// <summary>
+    /// Tickets the current user watches without being their requester or assignee
+    /// </summary>
+    [HttpGet("watching")]
+    public async Task<IActionResult> GetWatchedTickets()
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var tickets = await _ticketService.GetWatchedTicketsAsync(context.Value.userId);
+        return Ok(tickets);
+    }
+
+    [HttpGet("{id}/watchers")]
+    public async Task<IActionResult> GetWatchers(Guid id)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var watchers = await _watcherService.GetWatchersAsync(id, context.Value.userId, context.Value.role);
+        if (watchers == null)
+        {
+            return NotFound();
+        }
+        return Ok(watchers);
+    }
+
+    [HttpPost("{id}/watchers")]
+    public async Task<IActionResult> AddWatcher(Guid id, [FromBody] TicketWatcherAddRequest request)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var watcher = await _watcherService.AddWatcherAsync(id, context.Value.userId, context.Value.role, request.UserId);
+            if (watcher == null)
+            {
+                return NotFound();
+            }
+            return Ok(watcher);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(403, new { message = ex.Message });
+        }
+    }
+
+    [HttpDelete("{id}/watchers/{userId}")]
+    public async Task<IActionResult> RemoveWatcher(Guid id, Guid userId)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var removed = await _watcherService.RemoveWatcherAsync(id, context.Value.userId, context.Value.role, userId);
+        if (!removed)
+        {
+            return NotFound();
+        }
+        return NoContent();
+    }
+}
@@ -13,11 +13,15 @@ namespace Ticketing.Backend.Api.Controllers;
 public class TicketsController : ControllerBase
 {
     private readonly ITicketService _ticketService;
+    private readonly ITicketActivityService _ticketActivity;
+    private readonly ITicketBulkService _bulkService;
     private readonly ILogger<TicketsController> _logger;
 
-    public TicketsController(ITicketService ticketService, ILogger<TicketsController> logger)
+    public TicketsController(ITicketService ticketService, ITicketActivityService ticketActivity, ITicketBulkService bulkService, ILogger<TicketsController> logger)
     {
         _ticketService = ticketService;
+        _ticketActivity = ticketActivity;
+        _bulkService = bulkService;
         _logger = logger;
     }
 
@@ -33,8 +37,12 @@ public class TicketsController : ControllerBase
         return null;
     }
 
+    /// <summary>
+    /// List tickets. With a page parameter the result is one page with the total count
+    /// ({ items, totalCount, page, pageSize }); without it, every matching ticket as an array.
+    /// </summary>
     [HttpGet]
-    public async Task<IActionResult> GetTickets([FromQuery] TicketStatus? status, [FromQuery] TicketPriority? priority, [FromQuery] Guid? assignedTo, [FromQuery] Guid? createdBy, [FromQuery] string? search)
+    public async Task<IActionResult> GetTickets([FromQuery] TicketListQuery query)
     {
         var context = GetUserContext();
         if (context == null)
@@ -42,9 +50,41 @@ public class TicketsController : ControllerBase
             return Unauthorized();
         }
 
-        // Service method applies role-based filtering (clients see their own tickets, technicians see assignments)
-        var tickets = await _ticketService.GetTicketsAsync(context.Value.userId, context.Value.role, status, priority, assignedTo, createdBy, search);
-        return Ok(tickets);
+        try
+        {
+            // Service methods apply role-based filtering (clients see their own tickets, technicians see assignments)
+            if (query.Page.HasValue)
+            {
+                return Ok(await _ticketService.GetTicketPageAsync(context.Value.userId, context.Value.role, query));
+            }
+            return Ok(await _ticketService.GetTicketsAsync(context.Value.userId, context.Value.role, query));
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Number of matching tickets in every status; the status filter of the query is ignored
+    /// </summary>
+    [HttpGet("status-counts")]
+    public async Task<IActionResult> GetStatusCounts([FromQuery] TicketListQuery query)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            return Ok(await _ticketService.GetStatusCountsAsync(context.Value.userId, context.Value.role, query));
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
     }
 
     [HttpGet("{id}")]
@@ -103,12 +143,41 @@ public class TicketsController : ControllerBase
             return Unauthorized();
         }
 
-        var ticket = await _ticketService.UpdateTicketAsync(id, context.Value.userId, context.Value.role, request);
-        if (ticket == null)
+        try
+        {
+            var ticket = await _ticketService.UpdateTicketAsync(id, context.Value.userId, context.Value.role, request);
+            if (ticket == null)
+            {
+                return Forbid();
+            }
+            return Ok(ticket);
+        }
+        catch (InvalidOperationException ex)
         {
-            return Forbid();
+            return BadRequest(new { message = ex.Message });
         }
-        return Ok(ticket);
+    }
+
+    /// <summary>
+    /// Apply changes to several tickets; the response has one result per ticket
+    /// </summary>
+    [HttpPost("bulk")]
+    [Authorize(Roles = nameof(UserRole.Admin))]
+    public async Task<IActionResult> BulkUpdateTickets([FromBody] TicketBulkUpdateRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var response = await _bulkService.UpdateTicketsAsync(context.Value.userId, request);
+        return Ok(response);
     }
 
     [HttpPut("{id}/assign-technician")]
@@ -120,7 +189,7 @@ public class TicketsController : ControllerBase
             return BadRequest(ModelState);
         }
 
-        var ticket = await _ticketService.AssignTicketAsync(id, request.TechnicianId);
+        var ticket = await _ticketService.AssignTicketAsync(id, request.TechnicianId, GetUserContext()?.userId);
         if (ticket == null)
         {
             return BadRequest("Ticket not found or technician is inactive");
@@ -128,12 +197,24 @@ public class TicketsController : ControllerBase
         return Ok(ticket);
     }
 
+    [HttpDelete("{id}/assign-technician")]
+    [Authorize(Roles = nameof(UserRole.Admin))]
+    public async Task<IActionResult> UnassignTechnician(Guid id)
+    {
+        var ticket = await _ticketService.UnassignTicketAsync(id, GetUserContext()?.userId);
+        if (ticket == null)
+        {
+            return NotFound();
+        }
+        return Ok(ticket);
+    }
+
     [HttpPost("{id}/assign")]
     [Authorize(Roles = nameof(UserRole.Admin))]
     [Obsolete("Use PUT /api/tickets/{id}/assign-technician instead")]
     public async Task<IActionResult> AssignTicket(Guid id, [FromBody] Guid technicianId)
     {
-        var ticket = await _ticketService.AssignTicketAsync(id, technicianId);
+        var ticket = await _ticketService.AssignTicketAsync(id, technicianId, GetUserContext()?.userId);
         if (ticket == null)
         {
             return NotFound();
@@ -154,6 +235,26 @@ public class TicketsController : ControllerBase
         return Ok(messages);
     }
 
+    /// <summary>
+    /// Field change history of a ticket (status, priority, assignment, due date, category), oldest first
+    /// </summary>
+    [HttpGet("{id}/activity")]
+    public async Task<IActionResult> GetActivity(Guid id)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var ticket = await _ticketService.GetTicketAsync(id, context.Value.userId, context.Value.role);
+        if (ticket == null)
+        {
+            return NotFound();
+        }
+        return Ok(await _ticketActivity.GetActivityAsync(id));
+    }
+
     [HttpPost("{id}/messages")]
     public async Task<IActionResult> AddMessage(Guid id, [FromBody] TicketMessageRequest request)
     {
@@ -165,7 +266,7 @@ public class TicketsController : ControllerBase
 
         try
         {
-            var message = await _ticketService.AddMessageAsync(id, context.Value.userId, request.Message, request.Status);
+            var message = await _ticketService.AddMessageAsync(id, context.Value.userId, request.Message, request.Status, request.IsInternal);
             if (message == null)
             {
                 return NotFound();
@@ -178,6 +279,63 @@ public class TicketsController : ControllerBase
         }
     }
 
+    [HttpPost("{id}/reopen")]
+    public async Task<IActionResult> ReopenTicket(Guid id, [FromBody] TicketReopenRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Reason))
+        {
+            return BadRequest("A reason is required to reopen a ticket");
+        }
+
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var ticket = await _ticketService.ReopenTicketAsync(id, context.Value.userId, context.Value.role, request.Reason.Trim());
+            if (ticket == null)
+            {
+                return Forbid();
+            }
+            return Ok(ticket);
+        }
+        catch (StatusChangeForbiddenException ex)
+        {
+            return StatusCode(403, new { message = ex.Message, error = "STATUS_CHANGE_FORBIDDEN" });
+        }
+    }
+
+    /// <summary>
+    /// Merge the duplicate ticket of the request into this one (Admin only)
+    /// </summary>
+    [HttpPost("{id}/merge")]
+    [Authorize(Roles = nameof(UserRole.Admin))]
+    public async Task<IActionResult> MergeTicket(Guid id, [FromBody] TicketMergeRequest request)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var ticket = await _ticketService.MergeTicketsAsync(id, request.SourceTicketId, context.Value.userId);
+            if (ticket == null)
+            {
+                return NotFound();
+            }
+            return Ok(ticket);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Get tickets for calendar view (Admin only)
     /// </summary>
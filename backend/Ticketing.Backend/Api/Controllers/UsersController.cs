@@ -14,11 +14,13 @@ public class UsersController : ControllerBase
 {
     private readonly IUserService _userService;
     private readonly IUserPreferencesService _preferencesService;
+    private readonly IPushNotificationService _pushNotificationService;
 
-    public UsersController(IUserService userService, IUserPreferencesService preferencesService)
+    public UsersController(IUserService userService, IUserPreferencesService preferencesService, IPushNotificationService pushNotificationService)
     {
         _userService = userService;
         _preferencesService = preferencesService;
+        _pushNotificationService = pushNotificationService;
     }
 
     [HttpGet]
@@ -37,6 +39,23 @@ public class UsersController : ControllerBase
         return Ok(users);
     }
 
+    /// <summary>
+    /// Search users that may be added as ticket watchers, scoped by the caller's role
+    /// </summary>
+    [HttpGet("directory")]
+    [Authorize]
+    public async Task<IActionResult> SearchDirectory([FromQuery] string? search)
+    {
+        var userId = GetCurrentUserId();
+        if (userId == null || !Enum.TryParse<UserRole>(User.FindFirstValue(ClaimTypes.Role), out var role))
+        {
+            return Unauthorized();
+        }
+
+        var users = await _userService.SearchDirectoryAsync(userId.Value, role, search);
+        return Ok(users);
+    }
+
     /// <summary>
     /// Get current user's preferences
     /// </summary>
@@ -85,8 +104,15 @@ public class UsersController : ControllerBase
             return Unauthorized();
         }
 
-        var preferences = await _preferencesService.UpdatePreferencesAsync(userId.Value, request);
-        return Ok(preferences);
+        try
+        {
+            var preferences = await _preferencesService.UpdatePreferencesAsync(userId.Value, request);
+            return Ok(preferences);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
     }
 
     /// <summary>
@@ -128,6 +154,57 @@ public class UsersController : ControllerBase
         return Ok(preferences);
     }
 
+    /// <summary>
+    /// Register this browser's Web Push subscription for the current user
+    /// </summary>
+    [HttpPost("me/push-subscriptions")]
+    [Authorize]
+    public async Task<IActionResult> SubscribeToPush([FromBody] PushSubscriptionRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userId = GetCurrentUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            await _pushNotificationService.SubscribeAsync(userId.Value, request);
+            return NoContent();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Remove a Web Push subscription of the current user
+    /// </summary>
+    [HttpDelete("me/push-subscriptions")]
+    [Authorize]
+    public async Task<IActionResult> UnsubscribeFromPush([FromBody] PushSubscriptionDeleteRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userId = GetCurrentUserId();
+        if (userId == null)
+        {
+            return Unauthorized();
+        }
+
+        var removed = await _pushNotificationService.UnsubscribeAsync(userId.Value, request.Endpoint);
+        return removed ? NoContent() : NotFound();
+    }
+
     private Guid? GetCurrentUserId()
     {
         // Try multiple claim types to find user ID (same logic as AuthController)
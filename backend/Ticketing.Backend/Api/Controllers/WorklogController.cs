@@ -0,0 +1,110 @@
+using System.Security.Claims;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Application.Services;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Api.Controllers;
+
+[ApiController]
+[Route("api")]
+[Authorize]
+public class WorklogController : ControllerBase
+{
+    private readonly IWorklogService _worklogService;
+
+    public WorklogController(IWorklogService worklogService)
+    {
+        _worklogService = worklogService;
+    }
+
+    private (Guid userId, UserRole role)? GetUserContext()
+    {
+        var idValue = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        var roleValue = User.FindFirstValue(ClaimTypes.Role);
+        if (Guid.TryParse(idValue, out var userId) && Enum.TryParse<UserRole>(roleValue, out var role))
+        {
+            return (userId, role);
+        }
+        return null;
+    }
+
+    [HttpGet("tickets/{id}/worklog")]
+    public async Task<IActionResult> GetTicketWorklog(Guid id)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        // Worklog is internal to the support team
+        if (context.Value.role == UserRole.Client)
+        {
+            return Forbid();
+        }
+
+        var entries = await _worklogService.GetTicketWorklogAsync(id);
+        if (entries == null)
+        {
+            return NotFound();
+        }
+        return Ok(entries);
+    }
+
+    [HttpPost("tickets/{id}/worklog")]
+    [Authorize(Roles = nameof(UserRole.Technician))]
+    public async Task<IActionResult> AddEntry(Guid id, [FromBody] WorklogCreateRequest request)
+    {
+        if (request.Minutes <= 0)
+        {
+            return BadRequest("Minutes must be positive");
+        }
+
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        var entry = await _worklogService.AddEntryAsync(id, context.Value.userId, request);
+        if (entry == null)
+        {
+            return Forbid();
+        }
+        return Ok(entry);
+    }
+
+    [HttpDelete("worklog/{id}")]
+    public async Task<IActionResult> DeleteEntry(Guid id)
+    {
+        var context = GetUserContext();
+        if (context == null)
+        {
+            return Unauthorized();
+        }
+
+        try
+        {
+            var deleted = await _worklogService.DeleteEntryAsync(id, context.Value.userId, context.Value.role);
+            if (!deleted)
+            {
+                return NotFound();
+            }
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(403, new { message = ex.Message });
+        }
+    }
+
+    [HttpGet("reports/worklog")]
+    [Authorize(Roles = nameof(UserRole.Admin))]
+    public async Task<IActionResult> GetReport([FromQuery] DateTime? from)
+    {
+        var entries = await _worklogService.GetReportAsync(from);
+        return Ok(entries);
+    }
+}
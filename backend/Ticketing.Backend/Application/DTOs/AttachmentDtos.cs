@@ -0,0 +1,14 @@
+namespace Ticketing.Backend.Application.DTOs;
+
+public class AttachmentResponse
+{
+    public Guid Id { get; set; }
+    public Guid? TicketId { get; set; }
+    public string FileName { get; set; } = string.Empty;
+    public string FileUrl { get; set; } = string.Empty; // Authorized download route of the content
+    public string ContentType { get; set; } = string.Empty;
+    public long Size { get; set; }
+    public Guid? UploadedByUserId { get; set; }
+    public string? UploadedByName { get; set; }
+    public DateTime UploadedAt { get; set; }
+}
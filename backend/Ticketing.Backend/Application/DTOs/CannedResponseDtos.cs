@@ -0,0 +1,32 @@
+using System.ComponentModel.DataAnnotations;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Application.DTOs;
+
+public class CannedResponseRequest
+{
+    [Required]
+    [MaxLength(200)]
+    public string Title { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(4000)]
+    public string Body { get; set; } = string.Empty;
+
+    public int? CategoryId { get; set; }
+    public int? SubcategoryId { get; set; } // Only together with its category
+    public TicketStatus? SetStatus { get; set; }
+    public TicketPriority? SetPriority { get; set; }
+}
+
+public class CannedResponseDto
+{
+    public Guid Id { get; set; }
+    public string Title { get; set; } = string.Empty;
+    public string Body { get; set; } = string.Empty;
+    public int? CategoryId { get; set; }
+    public int? SubcategoryId { get; set; }
+    public TicketStatus? SetStatus { get; set; }
+    public TicketPriority? SetPriority { get; set; }
+    public DateTime? UpdatedAt { get; set; }
+}
@@ -6,4 +6,5 @@ public class NotificationDto
     public string Message { get; set; } = string.Empty;
     public bool IsRead { get; set; }
     public DateTime CreatedAt { get; set; }
+    public Guid? TicketId { get; set; }
 }
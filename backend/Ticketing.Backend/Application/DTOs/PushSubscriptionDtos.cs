@@ -0,0 +1,21 @@
+namespace Ticketing.Backend.Application.DTOs;
+
+/// <summary>
+/// PushSubscription.toJSON() of the browser
+/// </summary>
+public class PushSubscriptionRequest
+{
+    public string Endpoint { get; set; } = string.Empty;
+    public PushSubscriptionKeys Keys { get; set; } = new();
+}
+
+public class PushSubscriptionKeys
+{
+    public string P256dh { get; set; } = string.Empty;
+    public string Auth { get; set; } = string.Empty;
+}
+
+public class PushSubscriptionDeleteRequest
+{
+    public string Endpoint { get; set; } = string.Empty;
+}
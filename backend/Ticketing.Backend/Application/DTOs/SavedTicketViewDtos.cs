@@ -0,0 +1,22 @@
+using System.Text.Json;
+
+namespace Ticketing.Backend.Application.DTOs;
+
+public class SavedTicketViewRequest
+{
+    public string Name { get; set; } = string.Empty;
+    public bool Shared { get; set; }
+    public JsonElement State { get; set; }
+}
+
+public class SavedTicketViewDto
+{
+    public Guid Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public Guid OwnerUserId { get; set; }
+    public string OwnerName { get; set; } = string.Empty;
+    public bool Shared { get; set; }
+    public JsonElement State { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime? UpdatedAt { get; set; }
+}
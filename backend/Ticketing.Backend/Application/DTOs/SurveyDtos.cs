@@ -0,0 +1,25 @@
+using System.Text.Json;
+
+namespace Ticketing.Backend.Application.DTOs;
+
+public class TicketSurveySubmitRequest
+{
+    public int Rating { get; set; }
+    public string? Comment { get; set; }
+    public Dictionary<string, JsonElement> Answers { get; set; } = new();
+}
+
+public class TicketSurveyResponse
+{
+    public Guid Id { get; set; }
+    public Guid TicketId { get; set; }
+    public int Rating { get; set; }
+    public string? Comment { get; set; }
+    public Dictionary<string, JsonElement> Answers { get; set; } = new();
+    public Guid? TechnicianId { get; set; }
+    public string? TechnicianName { get; set; }
+    public int? CategoryId { get; set; }
+    public string? CategoryName { get; set; }
+    public Guid SubmittedByUserId { get; set; }
+    public DateTime SubmittedAt { get; set; }
+}
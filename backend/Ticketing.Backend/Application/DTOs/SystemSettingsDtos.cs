@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using System.Text.Json;
 using Ticketing.Backend.Domain.Enums;
 
 namespace Ticketing.Backend.Application.DTOs;
@@ -98,3 +99,122 @@ public class SystemSettingsUpdateRequest
     public List<string> AllowedEmailDomains { get; set; } = new();
 }
 
+public class SlaPolicyResponse
+{
+    /// <summary>
+    /// The policy as the admin panel saved it; null until one was saved
+    /// </summary>
+    public JsonElement? Policy { get; set; }
+    public int ResponseSlaHours { get; set; }
+}
+
+/// <summary>
+/// SLA policy as the admin panel edits it (frontend lib/sla.ts SlaPolicy)
+/// </summary>
+public class SlaPolicyRequest
+{
+    [Required]
+    public SlaPriorityTargets Priorities { get; set; } = new();
+
+    /// <summary>
+    /// Per-category overrides keyed by category slug
+    /// </summary>
+    public Dictionary<string, SlaTargetOverride> Categories { get; set; } = new();
+
+    /// <summary>
+    /// Working hours per weekday (0 = Sunday ... 6 = Saturday); null means closed
+    /// </summary>
+    public Dictionary<int, SlaBusinessDayHours?> BusinessHours { get; set; } = new();
+
+    public bool ObserveHolidays { get; set; } = true;
+
+    /// <summary>
+    /// Additional closed dates as yyyy-MM-dd
+    /// </summary>
+    public List<string> ExtraHolidays { get; set; } = new();
+
+    [Range(0, 1, ErrorMessage = "آستانه در معرض نقض باید بین ۰ و ۱ باشد")]
+    public double AtRiskThreshold { get; set; } = 0.25;
+}
+
+public class SlaPriorityTargets
+{
+    [Required]
+    public SlaTargets Low { get; set; } = new();
+    [Required]
+    public SlaTargets Medium { get; set; } = new();
+    [Required]
+    public SlaTargets High { get; set; } = new();
+    [Required]
+    public SlaTargets Urgent { get; set; } = new();
+}
+
+public class SlaTargets
+{
+    [Range(0.25, 8760, ErrorMessage = "زمان پاسخ باید بین ۰٫۲۵ تا ۸۷۶۰ ساعت باشد")]
+    public double ResponseHours { get; set; }
+
+    [Range(0.25, 8760, ErrorMessage = "زمان حل باید بین ۰٫۲۵ تا ۸۷۶۰ ساعت باشد")]
+    public double ResolutionHours { get; set; }
+}
+
+public class SlaTargetOverride
+{
+    [Range(0.25, 8760, ErrorMessage = "زمان پاسخ باید بین ۰٫۲۵ تا ۸۷۶۰ ساعت باشد")]
+    public double? ResponseHours { get; set; }
+
+    [Range(0.25, 8760, ErrorMessage = "زمان حل باید بین ۰٫۲۵ تا ۸۷۶۰ ساعت باشد")]
+    public double? ResolutionHours { get; set; }
+}
+
+public class SlaBusinessDayHours
+{
+    [Range(0, 24, ErrorMessage = "ساعت شروع باید بین ۰ تا ۲۴ باشد")]
+    public double StartHour { get; set; }
+
+    [Range(0, 24, ErrorMessage = "ساعت پایان باید بین ۰ تا ۲۴ باشد")]
+    public double EndHour { get; set; }
+}
+
+public class WorkflowSettingsResponse
+{
+    public int ReopenWindowDays { get; set; }
+    public bool ResolveChildrenWithParent { get; set; }
+    public bool CsatEnabled { get; set; }
+    public List<CsatQuestion> CsatQuestions { get; set; } = new();
+}
+
+/// <summary>
+/// Ticket lifecycle rules as the admin panel edits them (frontend lib/ticket-workflow.ts WorkflowSettings)
+/// </summary>
+public class WorkflowSettingsRequest
+{
+    [Range(0, 365, ErrorMessage = "مهلت بازگشایی باید بین ۰ تا ۳۶۵ روز باشد")]
+    public int ReopenWindowDays { get; set; } = 7;
+
+    public bool ResolveChildrenWithParent { get; set; } = true;
+    public bool CsatEnabled { get; set; } = true;
+
+    [MaxLength(20, ErrorMessage = "نظرسنجی حداکثر ۲۰ سؤال می‌تواند داشته باشد")]
+    public List<CsatQuestion> CsatQuestions { get; set; } = new();
+}
+
+/// <summary>
+/// Question asked after the star rating of the satisfaction survey
+/// </summary>
+public class CsatQuestion
+{
+    [Required]
+    [MaxLength(50)]
+    public string Id { get; set; } = string.Empty;
+
+    [Required(ErrorMessage = "متن سؤال الزامی است")]
+    [MaxLength(500)]
+    public string Text { get; set; } = string.Empty;
+
+    [Required]
+    [RegularExpression("^(rating|yes-no|text)$", ErrorMessage = "Type must be rating, yes-no, or text")]
+    public string Type { get; set; } = "rating";
+
+    public bool Required { get; set; }
+}
@@ -1,3 +1,5 @@
+using System.ComponentModel.DataAnnotations;
+
 namespace Ticketing.Backend.Application.DTOs;
 
 public class TechnicianResponse
@@ -49,3 +51,49 @@ public class TechnicianLinkUserRequest
     public Guid UserId { get; set; }
 }
 
+
+public class TechnicianWorkingDay
+{
+    /// <summary>
+    /// 0 = Sunday ... 6 = Saturday
+    /// </summary>
+    [Range(0, 6)]
+    public int DayOfWeek { get; set; }
+
+    [Range(0, 24)]
+    public double StartHour { get; set; }
+
+    [Range(0, 24)]
+    public double EndHour { get; set; }
+}
+
+/// <summary>
+/// Skills and capacity used for ticket assignment, with statistics from the technician's tickets
+/// </summary>
+public class TechnicianProfileResponse
+{
+    public Guid TechnicianId { get; set; }
+    public List<int> SpecialtyCategoryIds { get; set; } = new();
+    public List<string> Certifications { get; set; } = new();
+    public List<string> Languages { get; set; } = new();
+    public List<TechnicianWorkingDay> WorkingHours { get; set; } = new();
+    public int MaxActiveTickets { get; set; }
+    /// <summary>
+    /// Assigned tickets that are new, in progress or waiting for the client
+    /// </summary>
+    public int ActiveTickets { get; set; }
+    public int CompletedTickets { get; set; }
+    public double? AverageRating { get; set; }
+    public double? AverageResponseHours { get; set; }
+}
+
+public class TechnicianProfileUpdateRequest
+{
+    public List<int> SpecialtyCategoryIds { get; set; } = new();
+    public List<string> Certifications { get; set; } = new();
+    public List<string> Languages { get; set; } = new();
+    public List<TechnicianWorkingDay> WorkingHours { get; set; } = new();
+
+    [Range(1, 100)]
+    public int MaxActiveTickets { get; set; } = 5;
+}
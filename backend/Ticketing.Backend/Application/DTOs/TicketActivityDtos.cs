@@ -0,0 +1,13 @@
+namespace Ticketing.Backend.Application.DTOs;
+
+public class TicketActivityDto
+{
+    public Guid Id { get; set; }
+    public Guid TicketId { get; set; }
+    public string Field { get; set; } = string.Empty;
+    public string? OldValue { get; set; }
+    public string? NewValue { get; set; }
+    public Guid? ActorUserId { get; set; }
+    public string ActorName { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; }
+}
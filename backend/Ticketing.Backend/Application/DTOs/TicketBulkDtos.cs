@@ -0,0 +1,37 @@
+using System.ComponentModel.DataAnnotations;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Application.DTOs;
+
+public class TicketBulkUpdateRequest
+{
+    [Required]
+    [MinLength(1)]
+    [MaxLength(50, ErrorMessage = "هر درخواست حداکثر ۵۰ تیکت را تغییر می‌دهد")]
+    public List<TicketBulkUpdateItem> Items { get; set; } = new();
+}
+
+public class TicketBulkUpdateItem
+{
+    public Guid TicketId { get; set; }
+    public TicketStatus? Status { get; set; }
+    public TicketPriority? Priority { get; set; }
+    public Guid? TechnicianId { get; set; } // Technician.Id to assign the ticket to
+    public bool UnassignTechnician { get; set; }
+    public int? CategoryId { get; set; }
+    public Guid? AddWatcherUserId { get; set; }
+    public Guid? RemoveWatcherUserId { get; set; }
+}
+
+public class TicketBulkUpdateResult
+{
+    public Guid TicketId { get; set; }
+    public bool Success { get; set; }
+    public string? Error { get; set; } // Why this ticket was refused; the others are still applied
+    public TicketResponse? Ticket { get; set; }
+}
+
+public class TicketBulkUpdateResponse
+{
+    public List<TicketBulkUpdateResult> Results { get; set; } = new();
+}
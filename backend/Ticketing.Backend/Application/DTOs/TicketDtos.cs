@@ -9,6 +9,10 @@ public class TicketCreateRequest
     public int CategoryId { get; set; }
     public int? SubcategoryId { get; set; }
     public TicketPriority Priority { get; set; }
+    /// <summary>
+    /// Pending uploads (POST /api/attachments) of the creating user to link to the new ticket
+    /// </summary>
+    public List<Guid> AttachmentIds { get; set; } = new();
 }
 
 public class TicketUpdateRequest
@@ -18,6 +22,11 @@ public class TicketUpdateRequest
     public Guid? AssignedToUserId { get; set; }
     public DateTime? DueDate { get; set; }
     public string? Description { get; set; }
+    /// <summary>
+    /// Move the ticket to another category (Admin only). Clears the subcategory, which belongs to
+    /// the old category.
+    /// </summary>
+    public int? CategoryId { get; set; }
 }
 
 public class TicketResponse
@@ -37,6 +46,7 @@ public class TicketResponse
     public string? CreatedByPhoneNumber { get; set; }
     public string? CreatedByDepartment { get; set; }
     public Guid? AssignedToUserId { get; set; }
+    public Guid? TechnicianId { get; set; } // Technician.Id for assign-technician; null when unassigned
     public string? AssignedToName { get; set; }
     public string? AssignedToEmail { get; set; }
     public string? AssignedToPhoneNumber { get; set; }
@@ -44,12 +54,77 @@ public class TicketResponse
     public DateTime CreatedAt { get; set; }
     public DateTime? UpdatedAt { get; set; }
     public DateTime? DueDate { get; set; }
+    public int ReopenCount { get; set; }
+    public DateTime? FirstResponseAt { get; set; }
+    public DateTime? ResolvedAt { get; set; }
+    public Guid? MergedIntoTicketId { get; set; }
+    public int ChildTicketCount { get; set; }
+}
+
+/// <summary>
+/// Filters, sort and paging of GET /api/tickets and GET /api/technician/tickets. Status and
+/// priority may repeat in the query string to match any of several values.
+/// </summary>
+public class TicketListQuery
+{
+    public List<TicketStatus> Status { get; set; } = new();
+    public List<TicketPriority> Priority { get; set; } = new();
+    public int? CategoryId { get; set; }
+    /// <summary>
+    /// Assignee user id, or "unassigned" for tickets without an assignee
+    /// </summary>
+    public string? AssignedTo { get; set; }
+    public Guid? CreatedBy { get; set; }
+    /// <summary>
+    /// First creation day to include
+    /// </summary>
+    public DateTime? CreatedFrom { get; set; }
+    /// <summary>
+    /// Last creation day to include
+    /// </summary>
+    public DateTime? CreatedTo { get; set; }
+    /// <summary>
+    /// Words matched against the ticket id, title, description, requester and assignee after
+    /// Persian normalization; every word must match
+    /// </summary>
+    public string? Search { get; set; }
+    /// <summary>
+    /// createdAt (default), updatedAt, priority, status, dueDate or title
+    /// </summary>
+    public string? SortBy { get; set; }
+    /// <summary>
+    /// asc or desc (default)
+    /// </summary>
+    public string? SortDirection { get; set; }
+    /// <summary>
+    /// 1-based page. Without it the whole matching list is returned as a plain array.
+    /// </summary>
+    public int? Page { get; set; }
+    public int PageSize { get; set; } = 25;
+}
+
+public class TicketListResponse
+{
+    public IEnumerable<TicketResponse> Items { get; set; } = Enumerable.Empty<TicketResponse>();
+    public int TotalCount { get; set; }
+    public int Page { get; set; }
+    public int PageSize { get; set; }
+}
+
+public class TicketStatusCountResponse
+{
+    public TicketStatus Status { get; set; }
+    public int Count { get; set; }
 }
 
 public class TicketMessageRequest
 {
     public string Message { get; set; } = string.Empty;
     public TicketStatus? Status { get; set; }
+    /// <summary>
+    /// Staff-only note: never returned to or notified to the client. Ignored when a client posts.
+    /// </summary>
+    public bool IsInternal { get; set; }
 }
 
 public class TicketMessageDto
@@ -61,6 +136,7 @@ public class TicketMessageDto
     public string Message { get; set; } = string.Empty;
     public DateTime CreatedAt { get; set; }
     public TicketStatus? Status { get; set; }
+    public bool IsInternal { get; set; }
 }
 
 public class TicketCalendarResponse
@@ -79,4 +155,14 @@ public class TicketCalendarResponse
 public class AssignTechnicianRequest
 {
     public Guid TechnicianId { get; set; }
+}
+
+public class TicketReopenRequest
+{
+    public string Reason { get; set; } = string.Empty;
+}
+
+public class TicketMergeRequest
+{
+    public Guid SourceTicketId { get; set; } // Duplicate that is closed into the ticket of the route
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+namespace Ticketing.Backend.Application.DTOs;
+
+/// <summary>
+/// Event pushed over GET /api/realtime/tickets (SSE) and /api/realtime/tickets/ws (WebSocket)
+/// </summary>
+public class TicketRealtimeEvent
+{
+    public const string TicketCreated = "ticket-created";
+    public const string TicketUpdated = "ticket-updated";
+    public const string MessageAdded = "message-added";
+    public const string TicketAssigned = "ticket-assigned";
+
+    public string Type { get; set; } = string.Empty;
+    public Guid TicketId { get; set; }
+    /// <summary>
+    /// Current state of the ticket; left out of message-added
+    /// </summary>
+    public TicketResponse? Ticket { get; set; }
+    public TicketMessageDto? Message { get; set; }
+    public Guid? ActorUserId { get; set; }
+    public DateTime OccurredAt { get; set; }
+}
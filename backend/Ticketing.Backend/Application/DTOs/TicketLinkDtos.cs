@@ -0,0 +1,27 @@
+using System.ComponentModel.DataAnnotations;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Application.DTOs;
+
+public class TicketLinkCreateRequest
+{
+    [Required]
+    [RegularExpression("^(parent|related|blocks)$")]
+    public string Type { get; set; } = string.Empty;
+
+    public Guid TargetTicketId { get; set; }
+}
+
+public class TicketLinkDto
+{
+    public Guid Id { get; set; }
+    public string Type { get; set; } = string.Empty;
+    public Guid SourceTicketId { get; set; }
+    public string? SourceTitle { get; set; }
+    public TicketStatus SourceStatus { get; set; }
+    public Guid TargetTicketId { get; set; }
+    public string? TargetTitle { get; set; }
+    public TicketStatus TargetStatus { get; set; }
+    public string? CreatedByName { get; set; }
+    public DateTime CreatedAt { get; set; }
+}
@@ -0,0 +1,19 @@
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Application.DTOs;
+
+public class TicketWatcherAddRequest
+{
+    public Guid UserId { get; set; }
+}
+
+public class TicketWatcherDto
+{
+    public Guid UserId { get; set; }
+    public string FullName { get; set; } = string.Empty;
+    public string Email { get; set; } = string.Empty;
+    public UserRole Role { get; set; }
+    public string? Department { get; set; }
+    public Guid? AddedByUserId { get; set; }
+    public DateTime AddedAt { get; set; }
+}
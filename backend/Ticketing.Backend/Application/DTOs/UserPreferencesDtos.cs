@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using System.Text.Json.Serialization;
 
 namespace Ticketing.Backend.Application.DTOs;
 
@@ -10,6 +11,8 @@ public class UserPreferencesResponse
     public string Direction { get; set; } = "rtl"; // Derived from language: "fa" -> "rtl", "en" -> "ltr"
     public string Timezone { get; set; } = "Asia/Tehran";
     public NotificationPreferencesResponse Notifications { get; set; } = new();
+    public TicketBoardPreferences? TicketBoard { get; set; } // Null until the user first changes the board
+    public Guid? DefaultTicketViewId { get; set; }
 }
 
 public class NotificationPreferencesResponse
@@ -52,5 +55,52 @@ public class UserPreferencesUpdateRequest
     [Required]
     [MaxLength(100)]
     public string Timezone { get; set; } = "Asia/Tehran";
+
+    public TicketBoardPreferences? TicketBoard { get; set; } // Null leaves the stored board as it is
+    public Guid? DefaultTicketViewId { get; set; } // Null clears the default view
+}
+
+public class TicketBoardPreferences
+{
+    [Required]
+    [RegularExpression("^(list|board)$", ErrorMessage = "View must be list or board")]
+    public string View { get; set; } = "list";
+
+    public bool Swimlanes { get; set; }
+
+    [Required]
+    public TicketBoardWipLimits WipLimits { get; set; } = new();
+}
+
+/// <summary>
+/// Maximum tickets per status column, keyed by the status names used in ticket payloads; a
+/// missing status has no limit
+/// </summary>
+public class TicketBoardWipLimits
+{
+    [JsonPropertyName("New")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    [Range(1, 999)]
+    public int? New { get; set; }
+
+    [JsonPropertyName("InProgress")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    [Range(1, 999)]
+    public int? InProgress { get; set; }
+
+    [JsonPropertyName("WaitingForClient")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    [Range(1, 999)]
+    public int? WaitingForClient { get; set; }
+
+    [JsonPropertyName("Resolved")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    [Range(1, 999)]
+    public int? Resolved { get; set; }
+
+    [JsonPropertyName("Closed")]
+    [JsonIgnore(Condition = JsonIgnoreCondition.WhenWritingNull)]
+    [Range(1, 999)]
+    public int? Closed { get; set; }
 }
 
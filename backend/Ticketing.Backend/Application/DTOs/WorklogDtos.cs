@@ -0,0 +1,25 @@
+namespace Ticketing.Backend.Application.DTOs;
+
+public class WorklogCreateRequest
+{
+    public int Minutes { get; set; }
+    public string? Note { get; set; }
+    public bool Billable { get; set; }
+    public DateTime? StartedAt { get; set; }
+}
+
+public class WorklogEntryDto
+{
+    public Guid Id { get; set; }
+    public Guid TicketId { get; set; }
+    public Guid TechnicianId { get; set; } // User.Id of the technician who logged the time
+    public string TechnicianName { get; set; } = string.Empty;
+    public int Minutes { get; set; }
+    public string? Note { get; set; }
+    public bool Billable { get; set; }
+    public DateTime? StartedAt { get; set; }
+    public DateTime LoggedAt { get; set; }
+    public int? CategoryId { get; set; }
+    public string? CategoryName { get; set; }
+    public string? Department { get; set; } // Department of the ticket's requester
+}
@@ -0,0 +1,251 @@
+using System.IO.Compression;
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Data;
+using Ticketing.Backend.Infrastructure.Storage;
+
+namespace Ticketing.Backend.Application.Services;
+
+public interface IAttachmentService
+{
+    Task<AttachmentResponse?> UploadAsync(Guid? ticketId, Guid userId, UserRole role, string fileName, string contentType, long size, Stream content);
+    Task<IEnumerable<AttachmentResponse>?> GetTicketAttachmentsAsync(Guid ticketId, Guid userId, UserRole role);
+    Task<(AttachmentResponse Attachment, Stream Content)?> OpenAsync(Guid attachmentId, Guid userId, UserRole role);
+    Task<Stream?> CreateTicketZipAsync(Guid ticketId, Guid userId, UserRole role);
+    Task<bool> DeleteAsync(Guid attachmentId, Guid userId, UserRole role);
+}
+
+public class AttachmentService : IAttachmentService
+{
+    // Content types the upload form accepts, with the extensions each may be stored under
+    private static readonly Dictionary<string, string[]> AllowedTypes = new(StringComparer.OrdinalIgnoreCase)
+    {
+        ["image/jpeg"] = new[] { ".jpg", ".jpeg" },
+        ["image/png"] = new[] { ".png" },
+        ["image/gif"] = new[] { ".gif" },
+        ["application/pdf"] = new[] { ".pdf" },
+        ["text/plain"] = new[] { ".txt", ".log" },
+        ["application/msword"] = new[] { ".doc" },
+        ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"] = new[] { ".docx" },
+        ["application/vnd.ms-excel"] = new[] { ".xls" },
+        ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"] = new[] { ".xlsx" }
+    };
+
+    private readonly AppDbContext _context;
+    private readonly ITicketService _ticketService;
+    private readonly ISystemSettingsService _systemSettingsService;
+    private readonly IAttachmentStorage _storage;
+
+    public AttachmentService(
+        AppDbContext context,
+        ITicketService ticketService,
+        ISystemSettingsService systemSettingsService,
+        IAttachmentStorage storage)
+    {
+        _context = context;
+        _ticketService = ticketService;
+        _systemSettingsService = systemSettingsService;
+        _storage = storage;
+    }
+
+    /// <summary>
+    /// Store an uploaded file. Without a ticket id the attachment stays pending until the uploader
+    /// creates a ticket with it. Returns null when the ticket is missing or hidden from the user;
+    /// throws InvalidOperationException when the file breaks the size or type rules.
+    /// </summary>
+    public async Task<AttachmentResponse?> UploadAsync(Guid? ticketId, Guid userId, UserRole role, string fileName, string contentType, long size, Stream content)
+    {
+        if (ticketId.HasValue && await _ticketService.GetTicketAsync(ticketId.Value, userId, role) == null)
+        {
+            return null;
+        }
+
+        var settings = await _systemSettingsService.GetSystemSettingsAsync();
+        if (role == UserRole.Client && !settings.AllowClientAttachments)
+        {
+            throw new UnauthorizedAccessException("Attachments from clients are disabled.");
+        }
+
+        var extension = Path.GetExtension(fileName).ToLowerInvariant();
+        if (!AllowedTypes.TryGetValue(contentType, out var extensions) || !extensions.Contains(extension))
+        {
+            throw new InvalidOperationException("This file type is not allowed.");
+        }
+        if (size <= 0)
+        {
+            throw new InvalidOperationException("The file is empty.");
+        }
+        if (size > settings.MaxAttachmentSizeMB * 1024L * 1024L)
+        {
+            throw new InvalidOperationException($"Files may not be larger than {settings.MaxAttachmentSizeMB} MB.");
+        }
+
+        var attachmentId = Guid.NewGuid();
+        var attachment = new Attachment
+        {
+            Id = attachmentId,
+            TicketId = ticketId,
+            FileName = Path.GetFileName(fileName),
+            FileUrl = $"/api/attachments/{attachmentId}/content",
+            ContentType = contentType.ToLowerInvariant(),
+            Size = size,
+            StoredFileName = await _storage.SaveAsync(content, extension),
+            UploadedByUserId = userId,
+            UploadedAt = DateTime.UtcNow
+        };
+
+        _context.Attachments.Add(attachment);
+        await _context.SaveChangesAsync();
+
+        var saved = await _context.Attachments
+            .Include(a => a.UploadedByUser)
+            .FirstAsync(a => a.Id == attachment.Id);
+        return MapToResponse(saved);
+    }
+
+    /// <summary>
+    /// Attachments of a ticket the user can open, oldest first; null when the ticket is missing or hidden
+    /// </summary>
+    public async Task<IEnumerable<AttachmentResponse>?> GetTicketAttachmentsAsync(Guid ticketId, Guid userId, UserRole role)
+    {
+        if (await _ticketService.GetTicketAsync(ticketId, userId, role) == null)
+        {
+            return null;
+        }
+
+        var attachments = await _context.Attachments
+            .Include(a => a.UploadedByUser)
+            .Where(a => a.TicketId == ticketId)
+            .OrderBy(a => a.UploadedAt)
+            .ToListAsync();
+
+        return attachments.Select(MapToResponse);
+    }
+
+    /// <summary>
+    /// Open the content of an attachment. Pending uploads are only readable by their uploader.
+    /// </summary>
+    public async Task<(AttachmentResponse Attachment, Stream Content)?> OpenAsync(Guid attachmentId, Guid userId, UserRole role)
+    {
+        var attachment = await FindReadableAsync(attachmentId, userId, role);
+        if (attachment == null)
+        {
+            return null;
+        }
+
+        var content = _storage.OpenRead(attachment.StoredFileName);
+        if (content == null)
+        {
+            return null;
+        }
+
+        return (MapToResponse(attachment), content);
+    }
+
+    /// <summary>
+    /// Bundle every attachment of a ticket into one zip archive; null when the ticket is missing or hidden
+    /// </summary>
+    public async Task<Stream?> CreateTicketZipAsync(Guid ticketId, Guid userId, UserRole role)
+    {
+        if (await _ticketService.GetTicketAsync(ticketId, userId, role) == null)
+        {
+            return null;
+        }
+
+        var attachments = await _context.Attachments
+            .Where(a => a.TicketId == ticketId)
+            .OrderBy(a => a.UploadedAt)
+            .ToListAsync();
+
+        var archiveStream = new MemoryStream();
+        using (var archive = new ZipArchive(archiveStream, ZipArchiveMode.Create, leaveOpen: true))
+        {
+            var usedNames = new HashSet<string>(StringComparer.OrdinalIgnoreCase);
+            foreach (var attachment in attachments)
+            {
+                await using var content = _storage.OpenRead(attachment.StoredFileName);
+                if (content == null)
+                {
+                    continue;
+                }
+
+                var entry = archive.CreateEntry(GetUniqueEntryName(attachment.FileName, usedNames));
+                await using var entryStream = entry.Open();
+                await content.CopyToAsync(entryStream);
+            }
+        }
+
+        archiveStream.Position = 0;
+        return archiveStream;
+    }
+
+    /// <summary>
+    /// Delete an attachment and its file. Pending uploads are deleted by their uploader; attachments
+    /// of a ticket by their uploader or an admin. Throws UnauthorizedAccessException otherwise.
+    /// </summary>
+    public async Task<bool> DeleteAsync(Guid attachmentId, Guid userId, UserRole role)
+    {
+        var attachment = await FindReadableAsync(attachmentId, userId, role);
+        if (attachment == null)
+        {
+            return false;
+        }
+
+        if (attachment.UploadedByUserId != userId && (attachment.TicketId == null || role != UserRole.Admin))
+        {
+            throw new UnauthorizedAccessException("Only the uploader or an admin can delete an attachment.");
+        }
+
+        _context.Attachments.Remove(attachment);
+        await _context.SaveChangesAsync();
+        _storage.Delete(attachment.StoredFileName);
+        return true;
+    }
+
+    private async Task<Attachment?> FindReadableAsync(Guid attachmentId, Guid userId, UserRole role)
+    {
+        var attachment = await _context.Attachments
+            .Include(a => a.UploadedByUser)
+            .FirstOrDefaultAsync(a => a.Id == attachmentId);
+        if (attachment == null)
+        {
+            return null;
+        }
+
+        if (attachment.TicketId == null)
+        {
+            return attachment.UploadedByUserId == userId ? attachment : null;
+        }
+
+        return await _ticketService.GetTicketAsync(attachment.TicketId.Value, userId, role) == null ? null : attachment;
+    }
+
+    private static string GetUniqueEntryName(string fileName, HashSet<string> usedNames)
+    {
+        var name = fileName;
+        var counter = 1;
+        while (!usedNames.Add(name))
+        {
+            name = $"{Path.GetFileNameWithoutExtension(fileName)} ({counter++}){Path.GetExtension(fileName)}";
+        }
+        return name;
+    }
+
+    private static AttachmentResponse MapToResponse(Attachment attachment)
+    {
+        return new AttachmentResponse
+        {
+            Id = attachment.Id,
+            TicketId = attachment.TicketId,
+            FileName = attachment.FileName,
+            FileUrl = attachment.FileUrl,
+            ContentType = attachment.ContentType,
+            Size = attachment.Size,
+            UploadedByUserId = attachment.UploadedByUserId,
+            UploadedByName = attachment.UploadedByUser?.FullName,
+            UploadedAt = attachment.UploadedAt
+        };
+    }
+}
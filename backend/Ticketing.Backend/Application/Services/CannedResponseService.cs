@@ -0,0 +1,129 @@
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+public interface ICannedResponseService
+{
+    Task<IEnumerable<CannedResponseDto>> GetAllAsync();
+    Task<CannedResponseDto> CreateAsync(CannedResponseRequest request);
+    Task<CannedResponseDto?> UpdateAsync(Guid id, CannedResponseRequest request);
+    Task<bool> DeleteAsync(Guid id);
+}
+
+public class CannedResponseService : ICannedResponseService
+{
+    private readonly AppDbContext _context;
+
+    public CannedResponseService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<IEnumerable<CannedResponseDto>> GetAllAsync()
+    {
+        var responses = await _context.CannedResponses
+            .OrderBy(r => r.Title)
+            .ToListAsync();
+
+        return responses.Select(MapToDto);
+    }
+
+    /// <summary>
+    /// Throws InvalidOperationException when the category or subcategory is unknown
+    /// </summary>
+    public async Task<CannedResponseDto> CreateAsync(CannedResponseRequest request)
+    {
+        await ValidateScopeAsync(request);
+
+        var response = new CannedResponse
+        {
+            Id = Guid.NewGuid(),
+            CreatedAt = DateTime.UtcNow
+        };
+        Apply(response, request);
+
+        _context.CannedResponses.Add(response);
+        await _context.SaveChangesAsync();
+        return MapToDto(response);
+    }
+
+    /// <summary>
+    /// Returns null when the reply does not exist. Throws InvalidOperationException when the
+    /// category or subcategory is unknown.
+    /// </summary>
+    public async Task<CannedResponseDto?> UpdateAsync(Guid id, CannedResponseRequest request)
+    {
+        var response = await _context.CannedResponses.FirstOrDefaultAsync(r => r.Id == id);
+        if (response == null)
+        {
+            return null;
+        }
+
+        await ValidateScopeAsync(request);
+
+        Apply(response, request);
+        response.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+        return MapToDto(response);
+    }
+
+    public async Task<bool> DeleteAsync(Guid id)
+    {
+        var response = await _context.CannedResponses.FirstOrDefaultAsync(r => r.Id == id);
+        if (response == null)
+        {
+            return false;
+        }
+
+        _context.CannedResponses.Remove(response);
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    private async Task ValidateScopeAsync(CannedResponseRequest request)
+    {
+        if (request.SubcategoryId.HasValue)
+        {
+            if (!request.CategoryId.HasValue)
+            {
+                throw new InvalidOperationException("A subcategory can only be set together with its category.");
+            }
+            if (!await _context.Subcategories.AnyAsync(s => s.Id == request.SubcategoryId.Value && s.CategoryId == request.CategoryId.Value))
+            {
+                throw new InvalidOperationException("The subcategory does not belong to the category.");
+            }
+        }
+        else if (request.CategoryId.HasValue && !await _context.Categories.AnyAsync(c => c.Id == request.CategoryId.Value))
+        {
+            throw new InvalidOperationException("The category does not exist.");
+        }
+    }
+
+    private static void Apply(CannedResponse response, CannedResponseRequest request)
+    {
+        response.Title = request.Title.Trim();
+        response.Body = request.Body;
+        response.CategoryId = request.CategoryId;
+        response.SubcategoryId = request.SubcategoryId;
+        response.SetStatus = request.SetStatus;
+        response.SetPriority = request.SetPriority;
+    }
+
+    private static CannedResponseDto MapToDto(CannedResponse response)
+    {
+        return new CannedResponseDto
+        {
+            Id = response.Id,
+            Title = response.Title,
+            Body = response.Body,
+            CategoryId = response.CategoryId,
+            SubcategoryId = response.SubcategoryId,
+            SetStatus = response.SetStatus,
+            SetPriority = response.SetPriority,
+            UpdatedAt = response.UpdatedAt ?? response.CreatedAt
+        };
+    }
+}
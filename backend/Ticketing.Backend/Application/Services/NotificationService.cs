@@ -8,16 +8,18 @@ public interface INotificationService
 {
     Task<IEnumerable<NotificationDto>> GetNotificationsAsync(Guid userId);
     Task<bool> MarkAsReadAsync(Guid notificationId, Guid userId);
-    Task CreateNotificationAsync(Guid userId, string message);
+    Task CreateNotificationAsync(Guid userId, string message, Guid? ticketId = null);
 }
 
 public class NotificationService : INotificationService
 {
     private readonly AppDbContext _context;
+    private readonly IPushNotificationService _pushNotificationService;
 
-    public NotificationService(AppDbContext context)
+    public NotificationService(AppDbContext context, IPushNotificationService pushNotificationService)
     {
         _context = context;
+        _pushNotificationService = pushNotificationService;
     }
 
     public async Task<IEnumerable<NotificationDto>> GetNotificationsAsync(Guid userId)
@@ -30,7 +32,8 @@ public class NotificationService : INotificationService
                 Id = n.Id,
                 Message = n.Message,
                 IsRead = n.IsRead,
-                CreatedAt = n.CreatedAt
+                CreatedAt = n.CreatedAt,
+                TicketId = n.TicketId
             })
             .ToListAsync();
     }
@@ -48,7 +51,7 @@ public class NotificationService : INotificationService
         return true;
     }
 
-    public async Task CreateNotificationAsync(Guid userId, string message)
+    public async Task CreateNotificationAsync(Guid userId, string message, Guid? ticketId = null)
     {
         var notification = new Domain.Entities.Notification
         {
@@ -56,10 +59,14 @@ public class NotificationService : INotificationService
             UserId = userId,
             Message = message,
             IsRead = false,
-            CreatedAt = DateTime.UtcNow
+            CreatedAt = DateTime.UtcNow,
+            TicketId = ticketId
         };
 
         _context.Notifications.Add(notification);
         await _context.SaveChangesAsync();
+
+        // Reaches the user's browsers even when no tab of the app is open
+        await _pushNotificationService.SendAsync(userId, message, ticketId);
     }
 }
@@ -0,0 +1,132 @@
+using System.Text.Json;
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Infrastructure.Data;
+using Ticketing.Backend.Infrastructure.Push;
+
+namespace Ticketing.Backend.Application.Services;
+
+public interface IPushNotificationService
+{
+    Task SubscribeAsync(Guid userId, PushSubscriptionRequest request);
+    Task<bool> UnsubscribeAsync(Guid userId, string endpoint);
+    /// <summary>
+    /// Push a notification to every browser the user subscribed, unless they turned push off
+    /// </summary>
+    Task SendAsync(Guid userId, string message, Guid? ticketId);
+}
+
+public class PushNotificationService : IPushNotificationService
+{
+    private static readonly JsonSerializerOptions PayloadJsonOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly AppDbContext _context;
+    private readonly IWebPushSender _sender;
+    private readonly WebPushSettings _settings;
+
+    public PushNotificationService(AppDbContext context, IWebPushSender sender, WebPushSettings settings)
+    {
+        _context = context;
+        _sender = sender;
+        _settings = settings;
+    }
+
+    /// <summary>
+    /// Store a browser's subscription. Throws InvalidOperationException when it is incomplete.
+    /// </summary>
+    public async Task SubscribeAsync(Guid userId, PushSubscriptionRequest request)
+    {
+        if (!Uri.TryCreate(request.Endpoint, UriKind.Absolute, out var endpoint) || endpoint.Scheme != Uri.UriSchemeHttps)
+        {
+            throw new InvalidOperationException("The subscription endpoint must be an https URL.");
+        }
+        if (string.IsNullOrWhiteSpace(request.Keys.P256dh) || string.IsNullOrWhiteSpace(request.Keys.Auth))
+        {
+            throw new InvalidOperationException("The subscription keys are missing.");
+        }
+
+        // The same browser may have been subscribed by another account before
+        var subscription = await _context.PushSubscriptions.FirstOrDefaultAsync(s => s.Endpoint == request.Endpoint);
+        if (subscription == null)
+        {
+            subscription = new PushSubscription
+            {
+                Id = Guid.NewGuid(),
+                Endpoint = request.Endpoint,
+                CreatedAt = DateTime.UtcNow
+            };
+            _context.PushSubscriptions.Add(subscription);
+        }
+
+        subscription.UserId = userId;
+        subscription.P256dh = request.Keys.P256dh;
+        subscription.Auth = request.Keys.Auth;
+        await _context.SaveChangesAsync();
+    }
+
+    public async Task<bool> UnsubscribeAsync(Guid userId, string endpoint)
+    {
+        var subscription = await _context.PushSubscriptions
+            .FirstOrDefaultAsync(s => s.Endpoint == endpoint && s.UserId == userId);
+        if (subscription == null)
+        {
+            return false;
+        }
+
+        _context.PushSubscriptions.Remove(subscription);
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    public async Task SendAsync(Guid userId, string message, Guid? ticketId)
+    {
+        if (!_settings.IsConfigured)
+        {
+            return;
+        }
+
+        var pushEnabled = await _context.UserPreferences
+            .Where(p => p.UserId == userId)
+            .Select(p => (bool?)p.PushEnabled)
+            .FirstOrDefaultAsync() ?? true;
+        if (!pushEnabled)
+        {
+            return;
+        }
+
+        var subscriptions = await _context.PushSubscriptions
+            .Where(s => s.UserId == userId)
+            .ToListAsync();
+        if (subscriptions.Count == 0)
+        {
+            return;
+        }
+
+        // Same shape the service worker reads; the tag matches the in-app desktop notifications
+        // of the ticket, so an open tab and a push do not show the same event twice
+        var payload = JsonSerializer.Serialize(new
+        {
+            title = "اعلان جدید",
+            body = message,
+            ticketId,
+            tag = ticketId.HasValue ? $"ticket-{ticketId}" : null
+        }, PayloadJsonOptions);
+
+        var expired = new List<PushSubscription>();
+        foreach (var subscription in subscriptions)
+        {
+            var result = await _sender.SendAsync(subscription.Endpoint, subscription.P256dh, subscription.Auth, payload);
+            if (result == WebPushResult.Expired)
+            {
+                expired.Add(subscription);
+            }
+        }
+
+        if (expired.Count > 0)
+        {
+            _context.PushSubscriptions.RemoveRange(expired);
+            await _context.SaveChangesAsync();
+        }
+    }
+}
@@ -0,0 +1,125 @@
+using System.Text.Json;
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+public interface ISavedTicketViewService
+{
+    Task<IEnumerable<SavedTicketViewDto>> GetViewsAsync(Guid userId);
+    Task<SavedTicketViewDto> CreateViewAsync(Guid userId, SavedTicketViewRequest request);
+    Task<SavedTicketViewDto?> UpdateViewAsync(Guid viewId, Guid userId, SavedTicketViewRequest request);
+    Task<bool> DeleteViewAsync(Guid viewId, Guid userId);
+}
+
+public class SavedTicketViewService : ISavedTicketViewService
+{
+    private readonly AppDbContext _context;
+
+    public SavedTicketViewService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    /// <summary>
+    /// The user's own views plus the views other admins shared
+    /// </summary>
+    public async Task<IEnumerable<SavedTicketViewDto>> GetViewsAsync(Guid userId)
+    {
+        var views = await _context.SavedTicketViews
+            .Include(v => v.Owner)
+            .Where(v => v.OwnerUserId == userId || v.Shared)
+            .OrderBy(v => v.Name)
+            .ToListAsync();
+
+        return views.Select(MapToDto);
+    }
+
+    public async Task<SavedTicketViewDto> CreateViewAsync(Guid userId, SavedTicketViewRequest request)
+    {
+        var view = new SavedTicketView
+        {
+            Id = Guid.NewGuid(),
+            OwnerUserId = userId,
+            Name = request.Name.Trim(),
+            Shared = request.Shared,
+            StateJson = request.State.GetRawText(),
+            CreatedAt = DateTime.UtcNow
+        };
+
+        _context.SavedTicketViews.Add(view);
+        await _context.SaveChangesAsync();
+
+        var saved = await _context.SavedTicketViews
+            .Include(v => v.Owner)
+            .FirstAsync(v => v.Id == view.Id);
+        return MapToDto(saved);
+    }
+
+    /// <summary>
+    /// Rename, re-share or overwrite a view. Returns null when it does not exist; throws
+    /// UnauthorizedAccessException when it belongs to someone else.
+    /// </summary>
+    public async Task<SavedTicketViewDto?> UpdateViewAsync(Guid viewId, Guid userId, SavedTicketViewRequest request)
+    {
+        var view = await _context.SavedTicketViews
+            .Include(v => v.Owner)
+            .FirstOrDefaultAsync(v => v.Id == viewId);
+        if (view == null)
+        {
+            return null;
+        }
+
+        if (view.OwnerUserId != userId)
+        {
+            throw new UnauthorizedAccessException("Only the owner can change a saved view.");
+        }
+
+        view.Name = request.Name.Trim();
+        view.Shared = request.Shared;
+        view.StateJson = request.State.GetRawText();
+        view.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        return MapToDto(view);
+    }
+
+    /// <summary>
+    /// Delete a view. Returns false when it does not exist; throws UnauthorizedAccessException when
+    /// it belongs to someone else.
+    /// </summary>
+    public async Task<bool> DeleteViewAsync(Guid viewId, Guid userId)
+    {
+        var view = await _context.SavedTicketViews.FirstOrDefaultAsync(v => v.Id == viewId);
+        if (view == null)
+        {
+            return false;
+        }
+
+        if (view.OwnerUserId != userId)
+        {
+            throw new UnauthorizedAccessException("Only the owner can delete a saved view.");
+        }
+
+        _context.SavedTicketViews.Remove(view);
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    private static SavedTicketViewDto MapToDto(SavedTicketView view)
+    {
+        return new SavedTicketViewDto
+        {
+            Id = view.Id,
+            Name = view.Name,
+            OwnerUserId = view.OwnerUserId,
+            OwnerName = view.Owner?.FullName ?? string.Empty,
+            Shared = view.Shared,
+            State = JsonSerializer.Deserialize<JsonElement>(view.StateJson),
+            CreatedAt = view.CreatedAt,
+            UpdatedAt = view.UpdatedAt
+        };
+    }
+}
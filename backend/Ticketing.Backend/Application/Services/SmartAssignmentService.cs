@@ -16,12 +16,14 @@ public class SmartAssignmentService : ISmartAssignmentService
 {
     private readonly AppDbContext _context;
     private readonly ITechnicianService _technicianService;
+    private readonly ITicketActivityService _ticketActivity;
     private readonly ILogger<SmartAssignmentService> _logger;
 
-    public SmartAssignmentService(AppDbContext context, ITechnicianService technicianService, ILogger<SmartAssignmentService> logger)
+    public SmartAssignmentService(AppDbContext context, ITechnicianService technicianService, ITicketActivityService ticketActivity, ILogger<SmartAssignmentService> logger)
     {
         _context = context;
         _technicianService = technicianService;
+        _ticketActivity = ticketActivity;
         _logger = logger;
     }
 
@@ -87,12 +89,16 @@ public class SmartAssignmentService : ISmartAssignmentService
             return null; // Do NOT assign - ticket would remain unassigned in queries
         }
 
+        var before = await _ticketActivity.CaptureAsync(ticket);
+
         // Assign technician to ticket - set BOTH TechnicianId AND AssignedToUserId for consistency
         ticket.TechnicianId = selectedTechnician.TechnicianId;
         ticket.AssignedToUserId = technician.UserId; // CRITICAL: Set to Technician.UserId for filtering/queries
         ticket.Status = TicketStatus.InProgress;
         ticket.UpdatedAt = DateTime.UtcNow;
 
+        // Recorded without an actor: nobody picked this technician by hand
+        await _ticketActivity.RecordChangesAsync(before, ticket, null);
         await _context.SaveChangesAsync();
 
         _logger.LogInformation(
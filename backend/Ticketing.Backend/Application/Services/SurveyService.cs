@@ -0,0 +1,161 @@
+using System.Text.Json;
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+public interface ISurveyService
+{
+    Task<IEnumerable<TicketSurveyResponse>> GetSurveysAsync(Guid userId, UserRole role);
+    Task<TicketSurveyResponse?> SubmitSurveyAsync(Guid ticketId, Guid userId, TicketSurveySubmitRequest request);
+}
+
+public class SurveyService : ISurveyService
+{
+    private readonly AppDbContext _context;
+    private readonly ISystemSettingsService _settingsService;
+
+    public SurveyService(AppDbContext context, ISystemSettingsService settingsService)
+    {
+        _context = context;
+        _settingsService = settingsService;
+    }
+
+    /// <summary>
+    /// Clients get the surveys they submitted, technicians the surveys on tickets they handle and
+    /// admins all of them
+    /// </summary>
+    public async Task<IEnumerable<TicketSurveyResponse>> GetSurveysAsync(Guid userId, UserRole role)
+    {
+        var query = _context.TicketSurveys
+            .Include(s => s.Technician)
+            .Include(s => s.Ticket)
+                .ThenInclude(t => t!.Category)
+            .AsQueryable();
+
+        if (role == UserRole.Client)
+        {
+            query = query.Where(s => s.SubmittedByUserId == userId);
+        }
+        else if (role == UserRole.Technician)
+        {
+            query = query.Where(s => s.Ticket!.TechnicianId == userId || s.Ticket.AssignedToUserId == userId);
+        }
+
+        var surveys = await query
+            .OrderByDescending(s => s.SubmittedAt)
+            .ToListAsync();
+
+        return surveys.Select(MapToResponse);
+    }
+
+    /// <summary>
+    /// Record the client's survey for their resolved or closed ticket. The answers are checked
+    /// against the question set in the workflow settings; ArgumentException when they do not fit.
+    /// Returns null when the ticket does not exist or belongs to someone else.
+    /// </summary>
+    public async Task<TicketSurveyResponse?> SubmitSurveyAsync(Guid ticketId, Guid userId, TicketSurveySubmitRequest request)
+    {
+        var ticket = await _context.Tickets.FirstOrDefaultAsync(t => t.Id == ticketId);
+        if (ticket == null || ticket.CreatedByUserId != userId)
+        {
+            return null;
+        }
+
+        if (ticket.Status != TicketStatus.Resolved && ticket.Status != TicketStatus.Closed)
+        {
+            throw new InvalidOperationException("Only resolved or closed tickets can be surveyed.");
+        }
+
+        if (await _context.TicketSurveys.AnyAsync(s => s.TicketId == ticketId))
+        {
+            throw new InvalidOperationException("A survey was already submitted for this ticket.");
+        }
+
+        var workflow = await _settingsService.GetWorkflowSettingsAsync();
+        if (!workflow.CsatEnabled)
+        {
+            throw new InvalidOperationException("Satisfaction surveys are turned off.");
+        }
+        ValidateAnswers(workflow.CsatQuestions, request.Answers);
+
+        var survey = new TicketSurvey
+        {
+            Id = Guid.NewGuid(),
+            TicketId = ticketId,
+            SubmittedByUserId = userId,
+            TechnicianId = ticket.TechnicianId,
+            Rating = request.Rating,
+            Comment = string.IsNullOrWhiteSpace(request.Comment) ? null : request.Comment.Trim(),
+            AnswersJson = JsonSerializer.Serialize(request.Answers),
+            SubmittedAt = DateTime.UtcNow
+        };
+
+        _context.TicketSurveys.Add(survey);
+        await _context.SaveChangesAsync();
+
+        var saved = await _context.TicketSurveys
+            .Include(s => s.Technician)
+            .Include(s => s.Ticket)
+                .ThenInclude(t => t!.Category)
+            .FirstAsync(s => s.Id == survey.Id);
+        return MapToResponse(saved);
+    }
+
+    /// <summary>
+    /// Every answer must belong to a configured question and match its type, and every required
+    /// question must be answered
+    /// </summary>
+    private static void ValidateAnswers(List<CsatQuestion> questions, Dictionary<string, JsonElement> answers)
+    {
+        var questionsById = questions.ToDictionary(q => q.Id, StringComparer.Ordinal);
+
+        foreach (var (questionId, answer) in answers)
+        {
+            if (!questionsById.TryGetValue(questionId, out var question))
+            {
+                throw new ArgumentException($"Unknown survey question '{questionId}'.");
+            }
+
+            var valid = question.Type switch
+            {
+                "rating" => answer.ValueKind == JsonValueKind.Number && answer.TryGetInt32(out var rating) && rating >= 1 && rating <= 5,
+                "yes-no" => answer.ValueKind is JsonValueKind.True or JsonValueKind.False,
+                _ => answer.ValueKind == JsonValueKind.String && answer.GetString()!.Length <= 2000
+            };
+            if (!valid)
+            {
+                throw new ArgumentException($"The answer to survey question '{questionId}' is invalid.");
+            }
+        }
+
+        var missing = questions.FirstOrDefault(q => q.Required
+            && (!answers.TryGetValue(q.Id, out var answer)
+                || (answer.ValueKind == JsonValueKind.String && string.IsNullOrWhiteSpace(answer.GetString()))));
+        if (missing != null)
+        {
+            throw new ArgumentException($"Survey question '{missing.Id}' must be answered.");
+        }
+    }
+
+    private static TicketSurveyResponse MapToResponse(TicketSurvey survey)
+    {
+        return new TicketSurveyResponse
+        {
+            Id = survey.Id,
+            TicketId = survey.TicketId,
+            Rating = survey.Rating,
+            Comment = survey.Comment,
+            Answers = JsonSerializer.Deserialize<Dictionary<string, JsonElement>>(survey.AnswersJson) ?? new(),
+            TechnicianId = survey.TechnicianId,
+            TechnicianName = survey.Technician?.FullName,
+            CategoryId = survey.Ticket?.CategoryId,
+            CategoryName = survey.Ticket?.Category?.Name,
+            SubmittedByUserId = survey.SubmittedByUserId,
+            SubmittedAt = survey.SubmittedAt
+        };
+    }
+}
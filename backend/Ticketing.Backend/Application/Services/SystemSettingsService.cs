@@ -1,3 +1,4 @@
+using System.Globalization;
 using System.Text.Json;
 using Microsoft.EntityFrameworkCore;
 using Ticketing.Backend.Application.DTOs;
@@ -10,10 +11,18 @@ public interface ISystemSettingsService
 {
     Task<SystemSettingsResponse> GetSystemSettingsAsync();
     Task<SystemSettingsResponse> UpdateSystemSettingsAsync(SystemSettingsUpdateRequest request);
+    Task<SlaPolicyResponse> GetSlaPolicyAsync();
+    Task<SlaPolicyResponse> UpdateSlaPolicyAsync(SlaPolicyRequest policy);
+    Task<WorkflowSettingsResponse> GetWorkflowSettingsAsync();
+    Task<WorkflowSettingsResponse> UpdateWorkflowSettingsAsync(WorkflowSettingsRequest request);
 }
 
 public class SystemSettingsService : ISystemSettingsService
 {
+    // Dictionary keys (category slugs, weekdays) are stored as given
+    private static readonly JsonSerializerOptions SlaPolicyJsonOptions = new(JsonSerializerDefaults.Web);
+    private static readonly JsonSerializerOptions WorkflowJsonOptions = new(JsonSerializerDefaults.Web);
+
     private readonly AppDbContext _context;
 
     public SystemSettingsService(AppDbContext context)
@@ -93,6 +102,144 @@ public class SystemSettingsService : ISystemSettingsService
         return MapToResponse(settings);
     }
 
+    /// <summary>
+    /// The saved SLA policy, with the response SLA hours the frontend seeds its default from
+    /// </summary>
+    public async Task<SlaPolicyResponse> GetSlaPolicyAsync()
+    {
+        var settings = await _context.SystemSettings
+            .FirstOrDefaultAsync(s => s.Id == 1) ?? new SystemSettings();
+
+        return MapToSlaPolicyResponse(settings);
+    }
+
+    /// <summary>
+    /// Replace the SLA policy. Throws InvalidOperationException for rules the request
+    /// attributes cannot express (weekdays, working windows, holiday dates).
+    /// </summary>
+    public async Task<SlaPolicyResponse> UpdateSlaPolicyAsync(SlaPolicyRequest policy)
+    {
+        ValidateSlaPolicy(policy);
+
+        var settings = await _context.SystemSettings
+            .FirstOrDefaultAsync(s => s.Id == 1);
+
+        if (settings == null)
+        {
+            settings = new SystemSettings
+            {
+                Id = 1,
+                CreatedAt = DateTime.UtcNow
+            };
+            _context.SystemSettings.Add(settings);
+        }
+
+        settings.SlaPolicyJson = JsonSerializer.Serialize(policy, SlaPolicyJsonOptions);
+        settings.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+
+        return MapToSlaPolicyResponse(settings);
+    }
+
+    /// <summary>
+    /// The ticket lifecycle rules; every signed-in user needs them (reopen window, CSAT survey)
+    /// </summary>
+    public async Task<WorkflowSettingsResponse> GetWorkflowSettingsAsync()
+    {
+        var settings = await _context.SystemSettings
+            .FirstOrDefaultAsync(s => s.Id == 1) ?? new SystemSettings();
+
+        return MapToWorkflowResponse(settings);
+    }
+
+    /// <summary>
+    /// Replace the ticket lifecycle rules. Throws InvalidOperationException when two survey
+    /// questions share an id.
+    /// </summary>
+    public async Task<WorkflowSettingsResponse> UpdateWorkflowSettingsAsync(WorkflowSettingsRequest request)
+    {
+        var questionIds = request.CsatQuestions.Select(q => q.Id.Trim()).ToList();
+        if (questionIds.Distinct(StringComparer.Ordinal).Count() != questionIds.Count)
+        {
+            throw new InvalidOperationException("شناسه سؤال‌های نظرسنجی باید یکتا باشد");
+        }
+
+        var settings = await _context.SystemSettings
+            .FirstOrDefaultAsync(s => s.Id == 1);
+
+        if (settings == null)
+        {
+            settings = new SystemSettings
+            {
+                Id = 1,
+                CreatedAt = DateTime.UtcNow
+            };
+            _context.SystemSettings.Add(settings);
+        }
+
+        settings.ReopenWindowDays = request.ReopenWindowDays;
+        settings.ResolveChildrenWithParent = request.ResolveChildrenWithParent;
+        settings.CsatEnabled = request.CsatEnabled;
+        settings.CsatQuestionsJson = JsonSerializer.Serialize(request.CsatQuestions.Select(q => new CsatQuestion
+        {
+            Id = q.Id.Trim(),
+            Text = q.Text.Trim(),
+            Type = q.Type,
+            Required = q.Required
+        }), WorkflowJsonOptions);
+        settings.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+
+        return MapToWorkflowResponse(settings);
+    }
+
+    private static WorkflowSettingsResponse MapToWorkflowResponse(SystemSettings settings)
+    {
+        return new WorkflowSettingsResponse
+        {
+            ReopenWindowDays = settings.ReopenWindowDays,
+            ResolveChildrenWithParent = settings.ResolveChildrenWithParent,
+            CsatEnabled = settings.CsatEnabled,
+            CsatQuestions = JsonSerializer.Deserialize<List<CsatQuestion>>(settings.CsatQuestionsJson, WorkflowJsonOptions) ?? new()
+        };
+    }
+
+    private static void ValidateSlaPolicy(SlaPolicyRequest policy)
+    {
+        foreach (var (weekday, hours) in policy.BusinessHours)
+        {
+            if (weekday < 0 || weekday > 6)
+            {
+                throw new InvalidOperationException("روز هفته باید بین ۰ تا ۶ باشد");
+            }
+            if (hours != null && hours.EndHour <= hours.StartHour)
+            {
+                throw new InvalidOperationException("ساعت پایان کار باید بعد از ساعت شروع باشد");
+            }
+        }
+
+        foreach (var date in policy.ExtraHolidays)
+        {
+            if (!DateOnly.TryParseExact(date, "yyyy-MM-dd", CultureInfo.InvariantCulture, DateTimeStyles.None, out _))
+            {
+                throw new InvalidOperationException($"تاریخ تعطیل نامعتبر است: {date}");
+            }
+        }
+    }
+
+    private static SlaPolicyResponse MapToSlaPolicyResponse(SystemSettings settings)
+    {
+        return new SlaPolicyResponse
+        {
+            Policy = string.IsNullOrWhiteSpace(settings.SlaPolicyJson)
+                ? null
+                : JsonSerializer.Deserialize<JsonElement>(settings.SlaPolicyJson),
+            ResponseSlaHours = settings.ResponseSlaHours
+        };
+    }
+
     private SystemSettingsResponse MapToResponse(SystemSettings settings)
     {
         // Deserialize AllowedEmailDomains from JSON string
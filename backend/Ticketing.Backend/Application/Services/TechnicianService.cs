@@ -1,3 +1,4 @@
+using System.Text.Json;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
 using Ticketing.Backend.Application.DTOs;
@@ -28,10 +29,14 @@ public interface ITechnicianService
     Task<bool> UpdateTechnicianStatusAsync(Guid id, bool isActive);
     Task<bool> IsTechnicianActiveAsync(Guid id);
     Task<(LinkUserResult result, TechnicianResponse? technician)> LinkUserAsync(Guid technicianId, Guid userId);
+    Task<IEnumerable<TechnicianProfileResponse>> GetTechnicianProfilesAsync();
+    Task<TechnicianProfileResponse?> UpdateTechnicianProfileAsync(Guid id, TechnicianProfileUpdateRequest request);
 }
 
 public class TechnicianService : ITechnicianService
 {
+    private static readonly JsonSerializerOptions ProfileJsonOptions = new(JsonSerializerDefaults.Web);
+
     private readonly AppDbContext _context;
     private readonly ILogger<TechnicianService> _logger;
 
@@ -171,6 +176,101 @@ public class TechnicianService : ITechnicianService
         return (LinkUserResult.Success, MapToResponse(technician));
     }
 
+    /// <summary>
+    /// Assignment profiles of every technician, with load, completed tickets, average survey
+    /// rating and average first response time taken from their tickets
+    /// </summary>
+    public async Task<IEnumerable<TechnicianProfileResponse>> GetTechnicianProfilesAsync()
+    {
+        var technicians = await _context.Technicians
+            .OrderBy(t => t.FullName)
+            .ToListAsync();
+
+        var ticketStats = await _context.Tickets
+            .Where(t => t.TechnicianId != null)
+            .GroupBy(t => t.TechnicianId!.Value)
+            .Select(g => new
+            {
+                TechnicianId = g.Key,
+                Active = g.Count(t => t.Status == TicketStatus.New || t.Status == TicketStatus.InProgress || t.Status == TicketStatus.WaitingForClient),
+                Completed = g.Count(t => t.Status == TicketStatus.Resolved || t.Status == TicketStatus.Closed)
+            })
+            .ToDictionaryAsync(s => s.TechnicianId);
+
+        var ratings = await _context.TicketSurveys
+            .Where(s => s.TechnicianId != null)
+            .GroupBy(s => s.TechnicianId!.Value)
+            .Select(g => new { TechnicianId = g.Key, Average = g.Average(s => (double)s.Rating) })
+            .ToDictionaryAsync(r => r.TechnicianId, r => r.Average);
+
+        // SQLite cannot subtract dates in a query, so the response times are averaged here
+        var responseTimes = (await _context.Tickets
+                .Where(t => t.TechnicianId != null && t.FirstResponseAt != null)
+                .Select(t => new { TechnicianId = t.TechnicianId!.Value, t.CreatedAt, FirstResponseAt = t.FirstResponseAt!.Value })
+                .ToListAsync())
+            .GroupBy(t => t.TechnicianId)
+            .ToDictionary(g => g.Key, g => g.Average(t => (t.FirstResponseAt - t.CreatedAt).TotalHours));
+
+        return technicians.Select(technician =>
+        {
+            var profile = MapToProfileResponse(technician);
+            if (ticketStats.TryGetValue(technician.Id, out var stats))
+            {
+                profile.ActiveTickets = stats.Active;
+                profile.CompletedTickets = stats.Completed;
+            }
+            profile.AverageRating = ratings.TryGetValue(technician.Id, out var rating) ? Math.Round(rating, 2) : null;
+            profile.AverageResponseHours = responseTimes.TryGetValue(technician.Id, out var hours) ? Math.Round(hours, 1) : null;
+            return profile;
+        }).ToList();
+    }
+
+    /// <summary>
+    /// Replace a technician's assignment profile. Returns null when the technician does not exist;
+    /// throws InvalidOperationException for unknown categories or an empty working window.
+    /// </summary>
+    public async Task<TechnicianProfileResponse?> UpdateTechnicianProfileAsync(Guid id, TechnicianProfileUpdateRequest request)
+    {
+        var technician = await _context.Technicians.FirstOrDefaultAsync(t => t.Id == id);
+        if (technician == null)
+        {
+            return null;
+        }
+
+        var categoryIds = request.SpecialtyCategoryIds.Distinct().ToList();
+        var knownCategoryCount = await _context.Categories.CountAsync(c => categoryIds.Contains(c.Id));
+        if (knownCategoryCount != categoryIds.Count)
+        {
+            throw new InvalidOperationException("One or more specialty categories do not exist.");
+        }
+        if (request.WorkingHours.Any(day => day.EndHour <= day.StartHour))
+        {
+            throw new InvalidOperationException("Working hours must end after they start.");
+        }
+
+        technician.SpecialtyCategoryIdsJson = JsonSerializer.Serialize(categoryIds, ProfileJsonOptions);
+        technician.CertificationsJson = JsonSerializer.Serialize(CleanList(request.Certifications), ProfileJsonOptions);
+        technician.LanguagesJson = JsonSerializer.Serialize(CleanList(request.Languages), ProfileJsonOptions);
+        technician.WorkingHoursJson = JsonSerializer.Serialize(request.WorkingHours, ProfileJsonOptions);
+        technician.MaxActiveTickets = request.MaxActiveTickets;
+        await _context.SaveChangesAsync();
+
+        return (await GetTechnicianProfilesAsync()).First(p => p.TechnicianId == id);
+    }
+
+    private static List<string> CleanList(IEnumerable<string> values) =>
+        values.Select(v => v.Trim()).Where(v => v.Length > 0).Distinct().ToList();
+
+    private static TechnicianProfileResponse MapToProfileResponse(Technician technician) => new()
+    {
+        TechnicianId = technician.Id,
+        SpecialtyCategoryIds = JsonSerializer.Deserialize<List<int>>(technician.SpecialtyCategoryIdsJson, ProfileJsonOptions) ?? new(),
+        Certifications = JsonSerializer.Deserialize<List<string>>(technician.CertificationsJson, ProfileJsonOptions) ?? new(),
+        Languages = JsonSerializer.Deserialize<List<string>>(technician.LanguagesJson, ProfileJsonOptions) ?? new(),
+        WorkingHours = JsonSerializer.Deserialize<List<TechnicianWorkingDay>>(technician.WorkingHoursJson, ProfileJsonOptions) ?? new(),
+        MaxActiveTickets = technician.MaxActiveTickets
+    };
+
     private static TechnicianResponse MapToResponse(Technician technician) => new()
     {
         Id = technician.Id,
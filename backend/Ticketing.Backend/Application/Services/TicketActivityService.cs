@@ -0,0 +1,140 @@
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+/// <summary>
+/// The audited fields of a ticket in the form they are stored in the history: enum names for
+/// status and priority, display names for the assignee and category, ISO 8601 for the due date
+/// </summary>
+public record TicketFieldValues(string Status, string Priority, string? Assignment, string? DueDate, string? Category);
+
+public interface ITicketActivityService
+{
+    Task<TicketFieldValues> CaptureAsync(Ticket ticket);
+    /// <summary>
+    /// Add a history row for every audited field that differs from `before`. The rows are saved
+    /// with the caller's next SaveChangesAsync.
+    /// </summary>
+    Task RecordChangesAsync(TicketFieldValues before, Ticket ticket, Guid? actorUserId);
+    Task<IEnumerable<TicketActivityDto>> GetActivityAsync(Guid ticketId);
+}
+
+public class TicketActivityService : ITicketActivityService
+{
+    // Shown as the actor of changes nobody made by hand
+    private const string SystemActorName = "سیستم";
+
+    private readonly AppDbContext _context;
+
+    public TicketActivityService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<TicketFieldValues> CaptureAsync(Ticket ticket)
+    {
+        return new TicketFieldValues(
+            ticket.Status.ToString(),
+            ticket.Priority.ToString(),
+            await GetAssigneeNameAsync(ticket),
+            ticket.DueDate?.ToString("o"),
+            await GetCategoryNameAsync(ticket));
+    }
+
+    public async Task RecordChangesAsync(TicketFieldValues before, Ticket ticket, Guid? actorUserId)
+    {
+        var after = await CaptureAsync(ticket);
+        var changes = new (string Field, string? OldValue, string? NewValue)[]
+        {
+            ("status", before.Status, after.Status),
+            ("priority", before.Priority, after.Priority),
+            ("assignment", before.Assignment, after.Assignment),
+            ("dueDate", before.DueDate, after.DueDate),
+            ("category", before.Category, after.Category)
+        };
+
+        var createdAt = DateTime.UtcNow;
+        foreach (var change in changes.Where(c => c.OldValue != c.NewValue))
+        {
+            _context.TicketActivities.Add(new TicketActivity
+            {
+                Id = Guid.NewGuid(),
+                TicketId = ticket.Id,
+                Field = change.Field,
+                OldValue = change.OldValue,
+                NewValue = change.NewValue,
+                ActorUserId = actorUserId,
+                CreatedAt = createdAt
+            });
+        }
+    }
+
+    /// <summary>
+    /// Field changes of a ticket, oldest first. Access to the ticket is checked by the caller.
+    /// </summary>
+    public async Task<IEnumerable<TicketActivityDto>> GetActivityAsync(Guid ticketId)
+    {
+        return await _context.TicketActivities
+            .Where(a => a.TicketId == ticketId)
+            .OrderBy(a => a.CreatedAt)
+            .Select(a => new TicketActivityDto
+            {
+                Id = a.Id,
+                TicketId = a.TicketId,
+                Field = a.Field,
+                OldValue = a.OldValue,
+                NewValue = a.NewValue,
+                ActorUserId = a.ActorUserId,
+                ActorName = a.ActorUser != null ? a.ActorUser.FullName : SystemActorName,
+                CreatedAt = a.CreatedAt
+            })
+            .ToListAsync();
+    }
+
+    // Same rule as the ticket response: the technician's name, or the user's when no technician is set
+    private async Task<string?> GetAssigneeNameAsync(Ticket ticket)
+    {
+        if (ticket.AssignedToUserId == null)
+        {
+            return null;
+        }
+
+        if (ticket.TechnicianId.HasValue)
+        {
+            var technicianName = await _context.Technicians
+                .Where(t => t.Id == ticket.TechnicianId.Value)
+                .Select(t => t.FullName)
+                .FirstOrDefaultAsync();
+            if (technicianName != null)
+            {
+                return technicianName;
+            }
+        }
+
+        return await _context.Users
+            .Where(u => u.Id == ticket.AssignedToUserId.Value)
+            .Select(u => u.FullName)
+            .FirstOrDefaultAsync();
+    }
+
+    private async Task<string?> GetCategoryNameAsync(Ticket ticket)
+    {
+        var categoryName = await _context.Categories
+            .Where(c => c.Id == ticket.CategoryId)
+            .Select(c => c.Name)
+            .FirstOrDefaultAsync();
+        if (ticket.SubcategoryId == null)
+        {
+            return categoryName;
+        }
+
+        var subcategoryName = await _context.Subcategories
+            .Where(s => s.Id == ticket.SubcategoryId.Value)
+            .Select(s => s.Name)
+            .FirstOrDefaultAsync();
+        return subcategoryName == null ? categoryName : $"{categoryName} / {subcategoryName}";
+    }
+}
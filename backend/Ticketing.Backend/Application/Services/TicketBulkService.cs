@@ -0,0 +1,98 @@
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+public interface ITicketBulkService
+{
+    Task<TicketBulkUpdateResponse> UpdateTicketsAsync(Guid actorUserId, TicketBulkUpdateRequest request);
+}
+
+public class TicketBulkService : ITicketBulkService
+{
+    private readonly AppDbContext _context;
+    private readonly ITicketService _ticketService;
+    private readonly ITicketWatcherService _watcherService;
+    private readonly ILogger<TicketBulkService> _logger;
+
+    public TicketBulkService(AppDbContext context, ITicketService ticketService, ITicketWatcherService watcherService, ILogger<TicketBulkService> logger)
+    {
+        _context = context;
+        _ticketService = ticketService;
+        _watcherService = watcherService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Apply an admin's bulk changes ticket by ticket. A ticket that fails does not stop the
+    /// others; its result carries the reason.
+    /// </summary>
+    public async Task<TicketBulkUpdateResponse> UpdateTicketsAsync(Guid actorUserId, TicketBulkUpdateRequest request)
+    {
+        var response = new TicketBulkUpdateResponse();
+        foreach (var item in request.Items)
+        {
+            try
+            {
+                var ticket = await UpdateTicketAsync(actorUserId, item);
+                response.Results.Add(new TicketBulkUpdateResult { TicketId = item.TicketId, Success = true, Ticket = ticket });
+            }
+            catch (Exception ex) when (ex is InvalidOperationException or UnauthorizedAccessException or DbUpdateException)
+            {
+                _logger.LogWarning(ex, "Bulk update failed for ticket {TicketId}", item.TicketId);
+                // Drop whatever the failed ticket left tracked so the next one saves only its own changes
+                _context.ChangeTracker.Clear();
+                response.Results.Add(new TicketBulkUpdateResult { TicketId = item.TicketId, Success = false, Error = ex.Message });
+            }
+        }
+        return response;
+    }
+
+    /// <summary>
+    /// Apply one item in the order a user would: assignment first, then the remaining fields, then
+    /// watchers. Throws InvalidOperationException with the reason when a step is refused.
+    /// </summary>
+    private async Task<TicketResponse?> UpdateTicketAsync(Guid actorUserId, TicketBulkUpdateItem item)
+    {
+        if (!await _context.Tickets.AnyAsync(t => t.Id == item.TicketId))
+        {
+            throw new InvalidOperationException("تیکت یافت نشد");
+        }
+
+        if (item.TechnicianId.HasValue)
+        {
+            if (await _ticketService.AssignTicketAsync(item.TicketId, item.TechnicianId.Value, actorUserId) == null)
+            {
+                throw new InvalidOperationException("تکنسین یافت نشد یا غیرفعال است");
+            }
+        }
+        else if (item.UnassignTechnician)
+        {
+            await _ticketService.UnassignTicketAsync(item.TicketId, actorUserId);
+        }
+
+        if (item.Status.HasValue || item.Priority.HasValue || item.CategoryId.HasValue)
+        {
+            await _ticketService.UpdateTicketAsync(item.TicketId, actorUserId, UserRole.Admin, new TicketUpdateRequest
+            {
+                Status = item.Status,
+                Priority = item.Priority,
+                CategoryId = item.CategoryId
+            });
+        }
+
+        if (item.AddWatcherUserId.HasValue
+            && await _watcherService.AddWatcherAsync(item.TicketId, actorUserId, UserRole.Admin, item.AddWatcherUserId.Value) == null)
+        {
+            throw new InvalidOperationException("کاربر ناظر یافت نشد");
+        }
+        if (item.RemoveWatcherUserId.HasValue)
+        {
+            await _watcherService.RemoveWatcherAsync(item.TicketId, actorUserId, UserRole.Admin, item.RemoveWatcherUserId.Value);
+        }
+
+        return await _ticketService.GetTicketAsync(item.TicketId, actorUserId, UserRole.Admin);
+    }
+}
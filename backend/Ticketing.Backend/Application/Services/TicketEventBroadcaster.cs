@@ -0,0 +1,88 @@
+using System.Collections.Concurrent;
+using System.Threading.Channels;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Application.Services;
+
+public interface ITicketEventBroadcaster
+{
+    TicketEventSubscription Subscribe(Guid userId, UserRole role);
+    /// <summary>
+    /// Deliver an event to the open subscriptions of the given users and of every admin.
+    /// With staffOnly, client subscriptions never receive it (internal notes).
+    /// </summary>
+    void Publish(TicketRealtimeEvent ticketEvent, IReadOnlyCollection<Guid> recipientUserIds, bool staffOnly = false);
+}
+
+/// <summary>
+/// Events for one open realtime connection; dispose it when the connection ends
+/// </summary>
+public sealed class TicketEventSubscription : IDisposable
+{
+    private readonly Action<TicketEventSubscription> _unsubscribe;
+
+    internal TicketEventSubscription(Guid userId, UserRole role, Channel<TicketRealtimeEvent> channel, Action<TicketEventSubscription> unsubscribe)
+    {
+        UserId = userId;
+        Role = role;
+        Channel = channel;
+        _unsubscribe = unsubscribe;
+    }
+
+    public Guid UserId { get; }
+    public UserRole Role { get; }
+    internal Channel<TicketRealtimeEvent> Channel { get; }
+    public ChannelReader<TicketRealtimeEvent> Events => Channel.Reader;
+
+    public void Dispose()
+    {
+        _unsubscribe(this);
+    }
+}
+
+/// <summary>
+/// In-process fan-out of ticket events to the realtime connections of this server instance
+/// </summary>
+public class TicketEventBroadcaster : ITicketEventBroadcaster
+{
+    // A connection that stops reading loses its oldest events instead of holding up publishers
+    private const int SubscriptionBufferSize = 100;
+
+    private readonly ConcurrentDictionary<TicketEventSubscription, byte> _subscriptions = new();
+
+    public TicketEventSubscription Subscribe(Guid userId, UserRole role)
+    {
+        var channel = Channel.CreateBounded<TicketRealtimeEvent>(new BoundedChannelOptions(SubscriptionBufferSize)
+        {
+            FullMode = BoundedChannelFullMode.DropOldest,
+            SingleReader = true
+        });
+        var subscription = new TicketEventSubscription(userId, role, channel, Unsubscribe);
+        _subscriptions.TryAdd(subscription, 0);
+        return subscription;
+    }
+
+    public void Publish(TicketRealtimeEvent ticketEvent, IReadOnlyCollection<Guid> recipientUserIds, bool staffOnly = false)
+    {
+        foreach (var subscription in _subscriptions.Keys)
+        {
+            if (staffOnly && subscription.Role == UserRole.Client)
+            {
+                continue;
+            }
+            if (subscription.Role == UserRole.Admin || recipientUserIds.Contains(subscription.UserId))
+            {
+                subscription.Channel.Writer.TryWrite(ticketEvent);
+            }
+        }
+    }
+
+    private void Unsubscribe(TicketEventSubscription subscription)
+    {
+        if (_subscriptions.TryRemove(subscription, out _))
+        {
+            subscription.Channel.Writer.TryComplete();
+        }
+    }
+}
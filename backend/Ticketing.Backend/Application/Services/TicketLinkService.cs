@@ -0,0 +1,154 @@
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+public interface ITicketLinkService
+{
+    Task<IEnumerable<TicketLinkDto>?> GetLinksAsync(Guid ticketId, Guid userId, UserRole role);
+    Task<TicketLinkDto?> CreateLinkAsync(Guid sourceTicketId, Guid userId, UserRole role, TicketLinkCreateRequest request);
+    Task<bool> DeleteLinkAsync(Guid linkId, Guid userId, UserRole role);
+}
+
+public class TicketLinkService : ITicketLinkService
+{
+    private readonly AppDbContext _context;
+    private readonly ITicketService _ticketService;
+
+    public TicketLinkService(AppDbContext context, ITicketService ticketService)
+    {
+        _context = context;
+        _ticketService = ticketService;
+    }
+
+    /// <summary>
+    /// Links in which the ticket is either side; null when the ticket is missing or hidden from the user
+    /// </summary>
+    public async Task<IEnumerable<TicketLinkDto>?> GetLinksAsync(Guid ticketId, Guid userId, UserRole role)
+    {
+        if (await _ticketService.GetTicketAsync(ticketId, userId, role) == null)
+        {
+            return null;
+        }
+
+        return await _context.TicketLinks
+            .Where(l => l.SourceTicketId == ticketId || l.TargetTicketId == ticketId)
+            .OrderBy(l => l.CreatedAt)
+            .Select(l => new TicketLinkDto
+            {
+                Id = l.Id,
+                Type = l.Type,
+                SourceTicketId = l.SourceTicketId,
+                SourceTitle = l.SourceTicket!.Title,
+                SourceStatus = l.SourceTicket.Status,
+                TargetTicketId = l.TargetTicketId,
+                TargetTitle = l.TargetTicket!.Title,
+                TargetStatus = l.TargetTicket.Status,
+                CreatedByName = l.CreatedByUser != null ? l.CreatedByUser.FullName : null,
+                CreatedAt = l.CreatedAt
+            })
+            .ToListAsync();
+    }
+
+    /// <summary>
+    /// Link two tickets the user can open. Returns null when either is missing or hidden from them;
+    /// throws InvalidOperationException for a link to itself, a second link between the same
+    /// tickets or a parent link that would make a ticket its own ancestor.
+    /// </summary>
+    public async Task<TicketLinkDto?> CreateLinkAsync(Guid sourceTicketId, Guid userId, UserRole role, TicketLinkCreateRequest request)
+    {
+        if (sourceTicketId == request.TargetTicketId)
+        {
+            throw new InvalidOperationException("یک تیکت را نمی‌توان به خودش پیوند داد");
+        }
+
+        if (await _ticketService.GetTicketAsync(sourceTicketId, userId, role) == null
+            || await _ticketService.GetTicketAsync(request.TargetTicketId, userId, role) == null)
+        {
+            return null;
+        }
+
+        var exists = await _context.TicketLinks.AnyAsync(l =>
+            (l.SourceTicketId == sourceTicketId && l.TargetTicketId == request.TargetTicketId)
+            || (l.SourceTicketId == request.TargetTicketId && l.TargetTicketId == sourceTicketId));
+        if (exists)
+        {
+            throw new InvalidOperationException("این دو تیکت قبلا به هم پیوند داده شده‌اند");
+        }
+
+        if (request.Type == TicketLinkTypes.Parent && await IsAncestorAsync(request.TargetTicketId, sourceTicketId))
+        {
+            throw new InvalidOperationException("این پیوند یک چرخه والد و فرزند ایجاد می‌کند");
+        }
+
+        var link = new TicketLink
+        {
+            Id = Guid.NewGuid(),
+            SourceTicketId = sourceTicketId,
+            TargetTicketId = request.TargetTicketId,
+            Type = request.Type,
+            CreatedByUserId = userId,
+            CreatedAt = DateTime.UtcNow
+        };
+        _context.TicketLinks.Add(link);
+        await _context.SaveChangesAsync();
+
+        var links = await GetLinksAsync(sourceTicketId, userId, role);
+        return links?.FirstOrDefault(l => l.Id == link.Id);
+    }
+
+    /// <summary>
+    /// Remove a link from a ticket the user can open. Returns false when there is no such link or
+    /// the user cannot see its source ticket.
+    /// </summary>
+    public async Task<bool> DeleteLinkAsync(Guid linkId, Guid userId, UserRole role)
+    {
+        var link = await _context.TicketLinks.FirstOrDefaultAsync(l => l.Id == linkId);
+        if (link == null
+            || (await _ticketService.GetTicketAsync(link.SourceTicketId, userId, role) == null
+                && await _ticketService.GetTicketAsync(link.TargetTicketId, userId, role) == null))
+        {
+            return false;
+        }
+
+        _context.TicketLinks.Remove(link);
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    /// <summary>
+    /// Whether `candidateId` is `ticketId` itself or one of its parents, grandparents, ...
+    /// </summary>
+    private async Task<bool> IsAncestorAsync(Guid candidateId, Guid ticketId)
+    {
+        var visited = new HashSet<Guid>();
+        var pending = new Queue<Guid>();
+        pending.Enqueue(ticketId);
+
+        while (pending.Count > 0)
+        {
+            var current = pending.Dequeue();
+            if (current == candidateId)
+            {
+                return true;
+            }
+            if (!visited.Add(current))
+            {
+                continue;
+            }
+
+            var parents = await _context.TicketLinks
+                .Where(l => l.TargetTicketId == current && l.Type == TicketLinkTypes.Parent)
+                .Select(l => l.SourceTicketId)
+                .ToListAsync();
+            foreach (var parent in parents)
+            {
+                pending.Enqueue(parent);
+            }
+        }
+        return false;
+    }
+}
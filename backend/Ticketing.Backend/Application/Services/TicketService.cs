@@ -16,48 +16,110 @@ public class StatusChangeForbiddenException : Exception
 
 public interface ITicketService
 {
-    Task<IEnumerable<TicketResponse>> GetTicketsAsync(Guid userId, UserRole role, TicketStatus? status, TicketPriority? priority, Guid? assignedTo, Guid? createdBy, string? search);
+    Task<IEnumerable<TicketResponse>> GetTicketsAsync(Guid userId, UserRole role, TicketListQuery query);
+    Task<TicketListResponse> GetTicketPageAsync(Guid userId, UserRole role, TicketListQuery query);
+    Task<IEnumerable<TicketStatusCountResponse>> GetStatusCountsAsync(Guid userId, UserRole role, TicketListQuery query);
     Task<TicketResponse?> GetTicketAsync(Guid id, Guid userId, UserRole role);
+    Task<IEnumerable<TicketResponse>> GetWatchedTicketsAsync(Guid userId);
     Task<TicketResponse?> CreateTicketAsync(Guid userId, TicketCreateRequest request);
     Task<TicketResponse?> UpdateTicketAsync(Guid id, Guid userId, UserRole role, TicketUpdateRequest request);
-    Task<TicketResponse?> AssignTicketAsync(Guid id, Guid technicianId);
+    Task<TicketResponse?> AssignTicketAsync(Guid id, Guid technicianId, Guid? actorUserId);
+    Task<TicketResponse?> UnassignTicketAsync(Guid id, Guid? actorUserId);
     Task<IEnumerable<TicketMessageDto>> GetMessagesAsync(Guid ticketId, Guid userId, UserRole role);
-    Task<TicketMessageDto?> AddMessageAsync(Guid ticketId, Guid authorId, string message, TicketStatus? status = null);
+    Task<TicketMessageDto?> AddMessageAsync(Guid ticketId, Guid authorId, string message, TicketStatus? status = null, bool isInternal = false);
+    Task<TicketResponse?> ReopenTicketAsync(Guid id, Guid userId, UserRole role, string reason);
+    Task<TicketResponse?> MergeTicketsAsync(Guid targetId, Guid sourceId, Guid actorUserId);
     Task<IEnumerable<TicketCalendarResponse>> GetCalendarTicketsAsync(DateTime startDate, DateTime endDate);
 }
 
 public class TicketService : ITicketService
 {
+    // The admin list's SLA filter is evaluated in the browser and loads this many tickets at once
+    private const int MaxTicketPageSize = 1000;
+
     private readonly AppDbContext _context;
     private readonly INotificationService _notificationService;
     private readonly ITechnicianService _technicianService;
     private readonly ISystemSettingsService _systemSettingsService;
     private readonly ISmartAssignmentService _smartAssignmentService;
+    private readonly ITicketEventBroadcaster _ticketEvents;
+    private readonly ITicketActivityService _ticketActivity;
 
     public TicketService(
         AppDbContext context, 
         INotificationService notificationService, 
         ITechnicianService technicianService,
         ISystemSettingsService systemSettingsService,
-        ISmartAssignmentService smartAssignmentService)
+        ISmartAssignmentService smartAssignmentService,
+        ITicketEventBroadcaster ticketEvents,
+        ITicketActivityService ticketActivity)
     {
         _context = context;
         _notificationService = notificationService;
         _technicianService = technicianService;
         _systemSettingsService = systemSettingsService;
         _smartAssignmentService = smartAssignmentService;
+        _ticketEvents = ticketEvents;
+        _ticketActivity = ticketActivity;
     }
 
-    public async Task<IEnumerable<TicketResponse>> GetTicketsAsync(Guid userId, UserRole role, TicketStatus? status, TicketPriority? priority, Guid? assignedTo, Guid? createdBy, string? search)
+    /// <summary>
+    /// Every ticket visible to the user that matches the query, sorted but not paged.
+    /// Throws InvalidOperationException for an unknown assignee filter.
+    /// </summary>
+    public async Task<IEnumerable<TicketResponse>> GetTicketsAsync(Guid userId, UserRole role, TicketListQuery query)
     {
-        // Start building a query with all the relationships we need for mapping
-        var query = _context.Tickets
-            .Include(t => t.Category)
-            .Include(t => t.Subcategory)
-            .Include(t => t.CreatedByUser)
-            .Include(t => t.AssignedToUser)
-            .Include(t => t.Technician)
-            .AsQueryable();
+        var tickets = await ApplySort(IncludeRelations(BuildListQuery(userId, role, query, filterStatus: true)), query).ToListAsync();
+        return tickets.Select(MapToResponse);
+    }
+
+    /// <summary>
+    /// One page of the tickets visible to the user that match the query, with the total count.
+    /// Throws InvalidOperationException for an unknown assignee filter.
+    /// </summary>
+    public async Task<TicketListResponse> GetTicketPageAsync(Guid userId, UserRole role, TicketListQuery query)
+    {
+        var page = Math.Max(query.Page ?? 1, 1);
+        var pageSize = Math.Clamp(query.PageSize, 1, MaxTicketPageSize);
+        var filtered = BuildListQuery(userId, role, query, filterStatus: true);
+
+        var totalCount = await filtered.CountAsync();
+        var tickets = await ApplySort(IncludeRelations(filtered), query)
+            .Skip((page - 1) * pageSize)
+            .Take(pageSize)
+            .ToListAsync();
+
+        return new TicketListResponse
+        {
+            Items = tickets.Select(MapToResponse),
+            TotalCount = totalCount,
+            Page = page,
+            PageSize = pageSize
+        };
+    }
+
+    /// <summary>
+    /// How many visible tickets match the query in each status. The query's own status filter and
+    /// paging are ignored, so every status is counted.
+    /// </summary>
+    public async Task<IEnumerable<TicketStatusCountResponse>> GetStatusCountsAsync(Guid userId, UserRole role, TicketListQuery query)
+    {
+        var counts = await BuildListQuery(userId, role, query, filterStatus: false)
+            .GroupBy(t => t.Status)
+            .Select(g => new { Status = g.Key, Count = g.Count() })
+            .ToDictionaryAsync(c => c.Status, c => c.Count);
+
+        return Enum.GetValues<TicketStatus>().Select(status => new TicketStatusCountResponse
+        {
+            Status = status,
+            Count = counts.GetValueOrDefault(status)
+        });
+    }
+
+    private IQueryable<Ticket> BuildListQuery(Guid userId, UserRole role, TicketListQuery listQuery, bool filterStatus)
+    {
+        // Relationships for mapping are included by the callers that load tickets, not by the counts
+        var query = _context.Tickets.AsQueryable();
 
         // Restrict tickets based on role
         query = role switch
@@ -67,29 +129,84 @@ public class TicketService : ITicketService
             _ => query
         };
 
-        if (status.HasValue)
+        if (filterStatus && listQuery.Status.Count > 0)
         {
-            query = query.Where(t => t.Status == status.Value);
+            query = query.Where(t => listQuery.Status.Contains(t.Status));
+        }
+        if (listQuery.Priority.Count > 0)
+        {
+            query = query.Where(t => listQuery.Priority.Contains(t.Priority));
+        }
+        if (listQuery.CategoryId.HasValue)
+        {
+            query = query.Where(t => t.CategoryId == listQuery.CategoryId.Value);
+        }
+        if (!string.IsNullOrWhiteSpace(listQuery.AssignedTo))
+        {
+            if (string.Equals(listQuery.AssignedTo, "unassigned", StringComparison.OrdinalIgnoreCase))
+            {
+                query = query.Where(t => t.AssignedToUserId == null);
+            }
+            else if (Guid.TryParse(listQuery.AssignedTo, out var assignedTo))
+            {
+                query = query.Where(t => t.AssignedToUserId == assignedTo);
+            }
+            else
+            {
+                throw new InvalidOperationException("assignedTo must be a user id or \"unassigned\".");
+            }
         }
-        if (priority.HasValue)
+        if (listQuery.CreatedBy.HasValue)
         {
-            query = query.Where(t => t.Priority == priority.Value);
+            query = query.Where(t => t.CreatedByUserId == listQuery.CreatedBy.Value);
         }
-        if (assignedTo.HasValue)
+        if (listQuery.CreatedFrom.HasValue)
         {
-            query = query.Where(t => t.AssignedToUserId == assignedTo.Value);
+            var from = listQuery.CreatedFrom.Value.Date;
+            query = query.Where(t => t.CreatedAt >= from);
         }
-        if (createdBy.HasValue)
+        if (listQuery.CreatedTo.HasValue)
         {
-            query = query.Where(t => t.CreatedByUserId == createdBy.Value);
+            var to = listQuery.CreatedTo.Value.Date.AddDays(1);
+            query = query.Where(t => t.CreatedAt < to);
         }
-        if (!string.IsNullOrWhiteSpace(search))
+
+        // SearchText is stored normalized, so folding the words the same way makes spelling variants match
+        var words = TicketSearchText.Normalize(listQuery.Search).Split(' ', StringSplitOptions.RemoveEmptyEntries);
+        foreach (var word in words)
         {
-            query = query.Where(t => t.Title.Contains(search) || t.Description.Contains(search));
+            query = query.Where(t => t.SearchText.Contains(word));
         }
 
-        var tickets = await query.OrderByDescending(t => t.CreatedAt).ToListAsync();
-        return tickets.Select(MapToResponse);
+        return query;
+    }
+
+    private static IQueryable<Ticket> IncludeRelations(IQueryable<Ticket> query)
+    {
+        return query
+            .Include(t => t.Category)
+            .Include(t => t.Subcategory)
+            .Include(t => t.CreatedByUser)
+            .Include(t => t.AssignedToUser)
+            .Include(t => t.Technician)
+            .Include(t => t.OutgoingLinks.Where(l => l.Type == TicketLinkTypes.Parent));
+    }
+
+    private static IQueryable<Ticket> ApplySort(IQueryable<Ticket> query, TicketListQuery listQuery)
+    {
+        var ascending = string.Equals(listQuery.SortDirection, "asc", StringComparison.OrdinalIgnoreCase);
+        IOrderedQueryable<Ticket> sorted = listQuery.SortBy?.ToLowerInvariant() switch
+        {
+            "updatedat" => ascending ? query.OrderBy(t => t.UpdatedAt) : query.OrderByDescending(t => t.UpdatedAt),
+            "priority" => ascending ? query.OrderBy(t => t.Priority) : query.OrderByDescending(t => t.Priority),
+            "status" => ascending ? query.OrderBy(t => t.Status) : query.OrderByDescending(t => t.Status),
+            "duedate" => ascending ? query.OrderBy(t => t.DueDate) : query.OrderByDescending(t => t.DueDate),
+            "title" => ascending ? query.OrderBy(t => t.Title) : query.OrderByDescending(t => t.Title),
+            _ => ascending ? query.OrderBy(t => t.CreatedAt) : query.OrderByDescending(t => t.CreatedAt)
+        };
+
+        // Ties fall back to the newest ticket first and then the id, so pages never overlap
+        return sorted.ThenByDescending(t => t.CreatedAt).ThenBy(t => t.Id);
     }
 
     public async Task<TicketResponse?> GetTicketAsync(Guid id, Guid userId, UserRole role)
@@ -100,6 +217,7 @@ public class TicketService : ITicketService
             .Include(t => t.CreatedByUser)
             .Include(t => t.AssignedToUser)
             .Include(t => t.Technician)
+            .Include(t => t.OutgoingLinks.Where(l => l.Type == TicketLinkTypes.Parent))
             .FirstOrDefaultAsync(t => t.Id == id);
 
         if (ticket == null)
@@ -107,12 +225,15 @@ public class TicketService : ITicketService
             return null;
         }
 
-        if (role == UserRole.Client && ticket.CreatedByUserId != userId)
+        var isParticipant = role switch
         {
-            return null;
-        }
+            UserRole.Client => ticket.CreatedByUserId == userId,
+            UserRole.Technician => ticket.TechnicianId == userId || ticket.AssignedToUserId == userId,
+            _ => true
+        };
 
-        if (role == UserRole.Technician && ticket.TechnicianId != userId && ticket.AssignedToUserId != userId)
+        // Watchers may read a ticket they are not a participant of
+        if (!isParticipant && !await _context.TicketWatchers.AnyAsync(w => w.TicketId == id && w.UserId == userId))
         {
             return null;
         }
@@ -120,6 +241,23 @@ public class TicketService : ITicketService
         return MapToResponse(ticket);
     }
 
+    public async Task<IEnumerable<TicketResponse>> GetWatchedTicketsAsync(Guid userId)
+    {
+        var tickets = await _context.Tickets
+            .Include(t => t.Category)
+            .Include(t => t.Subcategory)
+            .Include(t => t.CreatedByUser)
+            .Include(t => t.AssignedToUser)
+            .Include(t => t.Technician)
+            .Include(t => t.OutgoingLinks.Where(l => l.Type == TicketLinkTypes.Parent))
+            .Where(t => _context.TicketWatchers.Any(w => w.TicketId == t.Id && w.UserId == userId))
+            .Where(t => t.CreatedByUserId != userId && t.AssignedToUserId != userId)
+            .OrderByDescending(t => t.UpdatedAt ?? t.CreatedAt)
+            .ToListAsync();
+
+        return tickets.Select(MapToResponse);
+    }
+
     public async Task<TicketResponse?> CreateTicketAsync(Guid userId, TicketCreateRequest request)
     {
         // Clients create tickets for themselves; the role check happens in the controller
@@ -137,6 +275,19 @@ public class TicketService : ITicketService
         };
 
         _context.Tickets.Add(ticket);
+
+        // Files uploaded while the form was open; only the creator's own pending uploads are linked
+        if (request.AttachmentIds.Count > 0)
+        {
+            var pendingAttachments = await _context.Attachments
+                .Where(a => request.AttachmentIds.Contains(a.Id) && a.TicketId == null && a.UploadedByUserId == userId)
+                .ToListAsync();
+            foreach (var attachment in pendingAttachments)
+            {
+                attachment.TicketId = ticket.Id;
+            }
+        }
+
         await _context.SaveChangesAsync();
 
         // NOTE: Auto-assignment on ticket creation is DISABLED by design.
@@ -152,9 +303,15 @@ public class TicketService : ITicketService
             .Include(t => t.Technician)
             .FirstAsync(t => t.Id == ticket.Id);
 
-        return MapToResponse(ticket);
+        var response = MapToResponse(ticket);
+        await PublishTicketEventAsync(TicketRealtimeEvent.TicketCreated, response, userId);
+        return response;
     }
 
+    /// <summary>
+    /// Apply the fields of `request` the role may change. Returns null when the ticket is missing or
+    /// hidden from the user; throws InvalidOperationException for an unknown category.
+    /// </summary>
     public async Task<TicketResponse?> UpdateTicketAsync(Guid id, Guid userId, UserRole role, TicketUpdateRequest request)
     {
         var ticket = await _context.Tickets.FirstOrDefaultAsync(t => t.Id == id);
@@ -173,6 +330,14 @@ public class TicketService : ITicketService
             return null;
         }
 
+        var categoryChanged = role == UserRole.Admin && request.CategoryId.HasValue && request.CategoryId.Value != ticket.CategoryId;
+        if (categoryChanged && !await _context.Categories.AnyAsync(c => c.Id == request.CategoryId!.Value))
+        {
+            throw new InvalidOperationException("دسته‌بندی انتخاب‌شده وجود ندارد");
+        }
+
+        var before = await _ticketActivity.CaptureAsync(ticket);
+
         if (request.Description != null && role != UserRole.Technician)
         {
             ticket.Description = request.Description;
@@ -183,6 +348,7 @@ public class TicketService : ITicketService
             ticket.Priority = request.Priority.Value;
         }
 
+        var previousStatus = ticket.Status;
         if (request.Status.HasValue)
         {
             if (role == UserRole.Client)
@@ -209,16 +375,39 @@ public class TicketService : ITicketService
             {
                 ticket.AssignedToUserId = request.AssignedToUserId.Value;
             }
-            ticket.DueDate = request.DueDate;
+            if (request.DueDate.HasValue)
+            {
+                ticket.DueDate = request.DueDate.Value;
+            }
+
+            if (categoryChanged)
+            {
+                ticket.CategoryId = request.CategoryId!.Value;
+                ticket.SubcategoryId = null;
+            }
         }
 
         ticket.UpdatedAt = DateTime.UtcNow;
+        await _ticketActivity.RecordChangesAsync(before, ticket, userId);
+        var resolvedChildIds = await ResolveChildTicketsAsync(ticket, previousStatus, userId);
         await _context.SaveChangesAsync();
 
+        if (ticket.Status != previousStatus)
+        {
+            await NotifyWatchersAsync(ticket, $"Status of ticket '{ticket.Title}' changed to {ticket.Status}", userId);
+        }
+
+        var updated = await GetTicketAsync(id, Guid.Empty, UserRole.Admin);
+        if (updated != null)
+        {
+            await PublishTicketEventAsync(TicketRealtimeEvent.TicketUpdated, updated, userId);
+        }
+        await PublishTicketUpdatesAsync(resolvedChildIds, userId);
+
         return await GetTicketAsync(id, userId, role);
     }
 
-    public async Task<TicketResponse?> AssignTicketAsync(Guid id, Guid technicianId)
+    public async Task<TicketResponse?> AssignTicketAsync(Guid id, Guid technicianId, Guid? actorUserId)
     {
         var ticket = await _context.Tickets.FirstOrDefaultAsync(t => t.Id == id);
         if (ticket == null)
@@ -235,14 +424,55 @@ public class TicketService : ITicketService
             return null; // Technician not found or inactive
         }
 
+        var before = await _ticketActivity.CaptureAsync(ticket);
+
         // Set both TechnicianId (for display/navigation) and AssignedToUserId (for filtering/queries)
         ticket.TechnicianId = technicianId;
         ticket.AssignedToUserId = technician.UserId; // CRITICAL: Set to Technician.UserId (User.Id), not null
         ticket.Status = TicketStatus.InProgress;
         ticket.UpdatedAt = DateTime.UtcNow;
+        await _ticketActivity.RecordChangesAsync(before, ticket, actorUserId);
         await _context.SaveChangesAsync();
 
-        return await GetTicketAsync(id, Guid.Empty, UserRole.Admin);
+        if (technician.UserId.HasValue)
+        {
+            await _notificationService.CreateNotificationAsync(technician.UserId.Value, $"Ticket '{ticket.Title}' was assigned to you", ticket.Id);
+        }
+
+        var response = await GetTicketAsync(id, Guid.Empty, UserRole.Admin);
+        if (response != null)
+        {
+            await PublishTicketEventAsync(TicketRealtimeEvent.TicketAssigned, response, null);
+        }
+        return response;
+    }
+
+    /// <summary>
+    /// Remove the technician from a ticket. The status is left as it is.
+    /// </summary>
+    public async Task<TicketResponse?> UnassignTicketAsync(Guid id, Guid? actorUserId)
+    {
+        var ticket = await _context.Tickets.FirstOrDefaultAsync(t => t.Id == id);
+        if (ticket == null)
+        {
+            return null;
+        }
+
+        var before = await _ticketActivity.CaptureAsync(ticket);
+        var previousAssigneeId = ticket.AssignedToUserId;
+        ticket.TechnicianId = null;
+        ticket.AssignedToUserId = null;
+        ticket.UpdatedAt = DateTime.UtcNow;
+        await _ticketActivity.RecordChangesAsync(before, ticket, actorUserId);
+        await _context.SaveChangesAsync();
+
+        var response = await GetTicketAsync(id, Guid.Empty, UserRole.Admin);
+        if (response != null)
+        {
+            // The former assignee drops the ticket from their list
+            await PublishTicketEventAsync(TicketRealtimeEvent.TicketUpdated, response, null, previousAssigneeId);
+        }
+        return response;
     }
 
     public async Task<IEnumerable<TicketMessageDto>> GetMessagesAsync(Guid ticketId, Guid userId, UserRole role)
@@ -256,6 +486,8 @@ public class TicketService : ITicketService
         return await _context.TicketMessages
             .Include(m => m.AuthorUser)
             .Where(m => m.TicketId == ticketId)
+            // Internal notes are staff-only
+            .Where(m => role != UserRole.Client || !m.IsInternal)
             .OrderBy(m => m.CreatedAt)
             .Select(m => new TicketMessageDto
             {
@@ -265,12 +497,13 @@ public class TicketService : ITicketService
                 AuthorEmail = m.AuthorUser.Email,
                 Message = m.Message,
                 CreatedAt = m.CreatedAt,
-                Status = m.Status
+                Status = m.Status,
+                IsInternal = m.IsInternal
             })
             .ToListAsync();
     }
 
-    public async Task<TicketMessageDto?> AddMessageAsync(Guid ticketId, Guid authorId, string message, TicketStatus? status = null)
+    public async Task<TicketMessageDto?> AddMessageAsync(Guid ticketId, Guid authorId, string message, TicketStatus? status = null, bool isInternal = false)
     {
         var ticket = await _context.Tickets.FirstOrDefaultAsync(t => t.Id == ticketId);
         if (ticket == null)
@@ -303,6 +536,9 @@ public class TicketService : ITicketService
         // REOPEN (InProgress from Resolved/Closed): All roles allowed
         // Other status changes: Technician & Admin only
         // ═══════════════════════════════════════════════════════════════════════════════
+        var before = await _ticketActivity.CaptureAsync(ticket);
+        var previousStatus = ticket.Status;
+        var reopened = false;
         if (status.HasValue)
         {
             var newStatus = status.Value;
@@ -321,10 +557,16 @@ public class TicketService : ITicketService
                     throw new StatusChangeForbiddenException("Clients cannot close tickets. Only Technicians and Admins can set status to Resolved or Closed.");
                 }
 
+                if (isReopening && !await IsWithinReopenWindowAsync(ticket))
+                {
+                    throw new StatusChangeForbiddenException("The reopen window for this ticket has passed.");
+                }
+
                 // Client can only set: InProgress (reopen), WaitingForClient
                 if (isReopening || newStatus == TicketStatus.WaitingForClient)
                 {
                     ticket.Status = newStatus;
+                    reopened = isReopening;
                 }
                 // Other status changes by Client are silently ignored (no error, just don't apply)
             }
@@ -332,11 +574,22 @@ public class TicketService : ITicketService
             {
                 // Technician & Admin can set any status
                 ticket.Status = newStatus;
+                reopened = isReopening;
             }
         }
 
+        if (reopened)
+        {
+            ticket.ReopenCount++;
+        }
         ticket.UpdatedAt = DateTime.UtcNow;
 
+        // The SLA response clock stops at the first reply from staff the client can read
+        if (ticket.FirstResponseAt == null && author.Role != UserRole.Client && authorId != ticket.CreatedByUserId && !isInternal)
+        {
+            ticket.FirstResponseAt = DateTime.UtcNow;
+        }
+
         var ticketMessage = new TicketMessage
         {
             Id = Guid.NewGuid(),
@@ -344,17 +597,31 @@ public class TicketService : ITicketService
             AuthorUserId = authorId,
             Message = message,
             CreatedAt = DateTime.UtcNow,
-            Status = status ?? ticket.Status
+            Status = status ?? ticket.Status,
+            // Clients cannot write staff-only notes
+            IsInternal = isInternal && author.Role != UserRole.Client
         };
 
         _context.TicketMessages.Add(ticketMessage);
+        await _ticketActivity.RecordChangesAsync(before, ticket, authorId);
+        var resolvedChildIds = await ResolveChildTicketsAsync(ticket, previousStatus, authorId);
         await _context.SaveChangesAsync();
 
-        // Notify opposite participant
+        var previousAssigneeId = ticket.AssignedToUserId;
+        if (reopened)
+        {
+            await RouteReopenedTicketAsync(ticket);
+        }
+
+        // Notify opposite participant; internal notes never reach the client
         var notifyUserId = ticket.AssignedToUserId == authorId ? ticket.CreatedByUserId : ticket.AssignedToUserId ?? ticket.CreatedByUserId;
-        await _notificationService.CreateNotificationAsync(notifyUserId, $"New message on ticket '{ticket.Title}'");
+        if (!ticketMessage.IsInternal || notifyUserId != ticket.CreatedByUserId)
+        {
+            await _notificationService.CreateNotificationAsync(notifyUserId, $"New message on ticket '{ticket.Title}'", ticket.Id);
+        }
+        await NotifyWatchersAsync(ticket, $"New message on ticket '{ticket.Title}'", authorId, notifyUserId, staffOnly: ticketMessage.IsInternal);
 
-        return await _context.TicketMessages
+        var messageDto = await _context.TicketMessages
             .Include(m => m.AuthorUser)
             .Where(m => m.Id == ticketMessage.Id)
             .Select(m => new TicketMessageDto
@@ -365,9 +632,282 @@ public class TicketService : ITicketService
                 AuthorEmail = m.AuthorUser.Email,
                 Message = m.Message,
                 CreatedAt = m.CreatedAt,
-                Status = m.Status
+                Status = m.Status,
+                IsInternal = m.IsInternal
             })
             .FirstAsync();
+
+        var current = await GetTicketAsync(ticketId, Guid.Empty, UserRole.Admin);
+        if (current != null)
+        {
+            await PublishTicketEventAsync(TicketRealtimeEvent.MessageAdded, current, authorId, previousAssigneeId, messageDto);
+            // A reopen may have handed the ticket to another technician
+            if (current.AssignedToUserId != previousAssigneeId)
+            {
+                await PublishTicketEventAsync(TicketRealtimeEvent.TicketAssigned, current, null, previousAssigneeId);
+            }
+        }
+        await PublishTicketUpdatesAsync(resolvedChildIds, authorId);
+
+        return messageDto;
+    }
+
+    /// <summary>
+    /// Push a ticket event to the requester, the assignee, the watchers and admins (plus a former
+    /// assignee when given). Message events carry the message instead of the ticket; internal notes
+    /// only reach staff.
+    /// </summary>
+    private async Task PublishTicketEventAsync(string type, TicketResponse ticket, Guid? actorUserId, Guid? previousAssigneeId = null, TicketMessageDto? message = null)
+    {
+        var recipients = await _context.TicketWatchers
+            .Where(w => w.TicketId == ticket.Id)
+            .Select(w => w.UserId)
+            .ToListAsync();
+        recipients.Add(ticket.CreatedByUserId);
+        if (ticket.AssignedToUserId.HasValue)
+        {
+            recipients.Add(ticket.AssignedToUserId.Value);
+        }
+        if (previousAssigneeId.HasValue)
+        {
+            recipients.Add(previousAssigneeId.Value);
+        }
+
+        _ticketEvents.Publish(new TicketRealtimeEvent
+        {
+            Type = type,
+            TicketId = ticket.Id,
+            Ticket = message == null ? ticket : null,
+            Message = message,
+            ActorUserId = actorUserId,
+            OccurredAt = DateTime.UtcNow
+        }, recipients, staffOnly: message?.IsInternal == true);
+    }
+
+    /// <summary>
+    /// Notify the ticket's watchers, skipping the given users (who were told already or caused the
+    /// change). With staffOnly, client watchers are skipped too, as for internal notes.
+    /// </summary>
+    private async Task NotifyWatchersAsync(Ticket ticket, string message, Guid excludedUserId, Guid? alsoExcludedUserId = null, bool staffOnly = false)
+    {
+        var watcherIds = await _context.TicketWatchers
+            .Where(w => w.TicketId == ticket.Id && w.UserId != excludedUserId && w.UserId != alsoExcludedUserId)
+            .Where(w => !staffOnly || w.User!.Role != UserRole.Client)
+            .Select(w => w.UserId)
+            .ToListAsync();
+
+        foreach (var watcherId in watcherIds)
+        {
+            await _notificationService.CreateNotificationAsync(watcherId, message, ticket.Id);
+        }
+    }
+
+    /// <summary>
+    /// Reopen a resolved or closed ticket: the reason is posted to the thread and the ticket
+    /// goes back to InProgress, counted and routed like any other reopen in AddMessageAsync
+    /// </summary>
+    public async Task<TicketResponse?> ReopenTicketAsync(Guid id, Guid userId, UserRole role, string reason)
+    {
+        var ticket = await _context.Tickets.FirstOrDefaultAsync(t => t.Id == id);
+        if (ticket == null)
+        {
+            return null;
+        }
+
+        if (ticket.Status != TicketStatus.Resolved && ticket.Status != TicketStatus.Closed)
+        {
+            throw new StatusChangeForbiddenException("Only resolved or closed tickets can be reopened.");
+        }
+
+        var message = await AddMessageAsync(id, userId, $"درخواست بازگشایی تیکت:\n{reason}", TicketStatus.InProgress);
+        if (message == null)
+        {
+            return null;
+        }
+
+        return await GetTicketAsync(id, userId, role);
+    }
+
+    /// <summary>
+    /// Close a duplicate ticket into the surviving one: its messages and attachments move to the
+    /// target, a note on each ticket says where the conversation continues and the source is closed
+    /// with MergedIntoTicketId set, all in one transaction. Returns null when either ticket does
+    /// not exist; throws InvalidOperationException when the pair cannot be merged.
+    /// </summary>
+    public async Task<TicketResponse?> MergeTicketsAsync(Guid targetId, Guid sourceId, Guid actorUserId)
+    {
+        if (targetId == sourceId)
+        {
+            throw new InvalidOperationException("A ticket cannot be merged into itself.");
+        }
+
+        var target = await _context.Tickets.FirstOrDefaultAsync(t => t.Id == targetId);
+        var source = await _context.Tickets.FirstOrDefaultAsync(t => t.Id == sourceId);
+        if (target == null || source == null)
+        {
+            return null;
+        }
+
+        if (source.MergedIntoTicketId.HasValue)
+        {
+            throw new InvalidOperationException("The ticket was already merged into another ticket.");
+        }
+        if (target.MergedIntoTicketId.HasValue)
+        {
+            throw new InvalidOperationException("A ticket cannot be merged into a ticket that was itself merged.");
+        }
+
+        var sourceAssigneeId = source.AssignedToUserId;
+        var now = DateTime.UtcNow;
+
+        await using var tx = await _context.Database.BeginTransactionAsync();
+
+        var messages = await _context.TicketMessages.Where(m => m.TicketId == sourceId).ToListAsync();
+        foreach (var message in messages)
+        {
+            message.TicketId = targetId;
+        }
+
+        var attachments = await _context.Attachments.Where(a => a.TicketId == sourceId).ToListAsync();
+        foreach (var attachment in attachments)
+        {
+            attachment.TicketId = targetId;
+        }
+
+        _context.TicketMessages.Add(new TicketMessage
+        {
+            Id = Guid.NewGuid(),
+            TicketId = targetId,
+            AuthorUserId = actorUserId,
+            Message = $"تیکت {sourceId} که برای همین مشکل ثبت شده بود با این تیکت ادغام شد. پیگیری از این تیکت ادامه می‌یابد.",
+            CreatedAt = now,
+            Status = target.Status
+        });
+        target.UpdatedAt = now;
+
+        var before = await _ticketActivity.CaptureAsync(source);
+        source.Status = TicketStatus.Closed;
+        source.MergedIntoTicketId = targetId;
+        source.UpdatedAt = now;
+        _context.TicketMessages.Add(new TicketMessage
+        {
+            Id = Guid.NewGuid(),
+            TicketId = sourceId,
+            AuthorUserId = actorUserId,
+            Message = $"این تیکت تکراری تشخیص داده شد و با تیکت {targetId} ادغام شد. لطفا پیگیری را در تیکت {targetId} ادامه دهید.",
+            CreatedAt = now,
+            Status = TicketStatus.Closed
+        });
+        await _ticketActivity.RecordChangesAsync(before, source, actorUserId);
+
+        await _context.SaveChangesAsync();
+        await tx.CommitAsync();
+
+        foreach (var requesterId in new[] { source.CreatedByUserId, target.CreatedByUserId }.Distinct())
+        {
+            if (requesterId != actorUserId)
+            {
+                await _notificationService.CreateNotificationAsync(requesterId, $"Ticket '{source.Title}' was merged into ticket '{target.Title}'", targetId);
+            }
+        }
+
+        var closed = await GetTicketAsync(sourceId, Guid.Empty, UserRole.Admin);
+        if (closed != null)
+        {
+            await PublishTicketEventAsync(TicketRealtimeEvent.TicketUpdated, closed, actorUserId, sourceAssigneeId);
+        }
+        var response = await GetTicketAsync(targetId, Guid.Empty, UserRole.Admin);
+        if (response != null)
+        {
+            await PublishTicketEventAsync(TicketRealtimeEvent.TicketUpdated, response, actorUserId);
+        }
+        return response;
+    }
+
+    /// <summary>
+    /// When a parent ticket becomes resolved and the workflow settings ask for it, resolve its open
+    /// child tickets as well. The changes are saved with the parent's; returns the children's ids.
+    /// </summary>
+    private async Task<List<Guid>> ResolveChildTicketsAsync(Ticket parent, TicketStatus previousStatus, Guid actorUserId)
+    {
+        if (parent.Status != TicketStatus.Resolved || previousStatus == TicketStatus.Resolved)
+        {
+            return new List<Guid>();
+        }
+
+        var workflow = await _systemSettingsService.GetWorkflowSettingsAsync();
+        if (!workflow.ResolveChildrenWithParent)
+        {
+            return new List<Guid>();
+        }
+
+        var children = await _context.TicketLinks
+            .Where(l => l.SourceTicketId == parent.Id && l.Type == TicketLinkTypes.Parent)
+            .Select(l => l.TargetTicket!)
+            .Where(t => t.Status == TicketStatus.New || t.Status == TicketStatus.InProgress || t.Status == TicketStatus.WaitingForClient)
+            .ToListAsync();
+
+        foreach (var child in children)
+        {
+            var before = await _ticketActivity.CaptureAsync(child);
+            child.Status = TicketStatus.Resolved;
+            child.UpdatedAt = DateTime.UtcNow;
+            await _ticketActivity.RecordChangesAsync(before, child, actorUserId);
+        }
+        return children.Select(t => t.Id).ToList();
+    }
+
+    private async Task PublishTicketUpdatesAsync(IEnumerable<Guid> ticketIds, Guid actorUserId)
+    {
+        foreach (var ticketId in ticketIds)
+        {
+            var ticket = await GetTicketAsync(ticketId, Guid.Empty, UserRole.Admin);
+            if (ticket != null)
+            {
+                await PublishTicketEventAsync(TicketRealtimeEvent.TicketUpdated, ticket, actorUserId);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Clients may reopen a ticket only within the configured number of days after it was resolved
+    /// </summary>
+    private async Task<bool> IsWithinReopenWindowAsync(Ticket ticket)
+    {
+        var workflow = await _systemSettingsService.GetWorkflowSettingsAsync();
+        if (workflow.ReopenWindowDays <= 0)
+        {
+            return false;
+        }
+
+        // Tickets resolved before ResolvedAt was recorded fall back to their last update
+        var resolvedAt = ticket.ResolvedAt ?? ticket.UpdatedAt ?? ticket.CreatedAt;
+        return DateTime.UtcNow <= resolvedAt.AddDays(workflow.ReopenWindowDays);
+    }
+
+    /// <summary>
+    /// A reopened ticket stays with the technician who handled it while they are active;
+    /// otherwise it is unassigned and handed to smart assignment (left unassigned if nobody is eligible)
+    /// </summary>
+    private async Task RouteReopenedTicketAsync(Ticket ticket)
+    {
+        if (ticket.TechnicianId.HasValue)
+        {
+            var technician = await _context.Technicians.FirstOrDefaultAsync(t => t.Id == ticket.TechnicianId.Value);
+            if (technician != null && technician.IsActive && technician.UserId != null)
+            {
+                return;
+            }
+        }
+
+        // The hand-off is the system's doing, not the user's who reopened the ticket
+        var before = await _ticketActivity.CaptureAsync(ticket);
+        ticket.TechnicianId = null;
+        ticket.AssignedToUserId = null;
+        await _ticketActivity.RecordChangesAsync(before, ticket, null);
+        await _context.SaveChangesAsync();
+
+        await _smartAssignmentService.AssignTechnicianToTicketAsync(ticket.Id);
     }
 
     // ═══════════════════════════════════════════════════════════════════════════════
@@ -399,6 +939,7 @@ public class TicketService : ITicketService
             CreatedByPhoneNumber = ticket.CreatedByUser?.PhoneNumber,
             CreatedByDepartment = ticket.CreatedByUser?.Department,
             AssignedToUserId = ticket.AssignedToUserId,
+            TechnicianId = isAssigned ? ticket.TechnicianId : null,
             // Only populate assigned fields when truly assigned
             AssignedToName = isAssigned ? (ticket.Technician?.FullName ?? ticket.AssignedToUser?.FullName) : null,
             AssignedToEmail = isAssigned ? (ticket.Technician?.Email ?? ticket.AssignedToUser?.Email) : null,
@@ -406,7 +947,13 @@ public class TicketService : ITicketService
             AssignedTechnicianName = isAssigned ? (ticket.Technician?.FullName ?? ticket.AssignedToUser?.FullName) : null,
             CreatedAt = ticket.CreatedAt,
             UpdatedAt = ticket.UpdatedAt,
-            DueDate = ticket.DueDate
+            DueDate = ticket.DueDate,
+            ReopenCount = ticket.ReopenCount,
+            FirstResponseAt = ticket.FirstResponseAt,
+            ResolvedAt = ticket.ResolvedAt,
+            MergedIntoTicketId = ticket.MergedIntoTicketId,
+            // Counted when the query included the parent links
+            ChildTicketCount = ticket.OutgoingLinks.Count(l => l.Type == TicketLinkTypes.Parent)
         };
     }
 
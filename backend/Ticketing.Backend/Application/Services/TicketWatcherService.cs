@@ -0,0 +1,145 @@
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+public interface ITicketWatcherService
+{
+    Task<IEnumerable<TicketWatcherDto>?> GetWatchersAsync(Guid ticketId, Guid userId, UserRole role);
+    Task<TicketWatcherDto?> AddWatcherAsync(Guid ticketId, Guid actorId, UserRole role, Guid watcherUserId);
+    Task<bool> RemoveWatcherAsync(Guid ticketId, Guid actorId, UserRole role, Guid watcherUserId);
+}
+
+public class TicketWatcherService : ITicketWatcherService
+{
+    private readonly AppDbContext _context;
+    private readonly ITicketService _ticketService;
+
+    public TicketWatcherService(AppDbContext context, ITicketService ticketService)
+    {
+        _context = context;
+        _ticketService = ticketService;
+    }
+
+    /// <summary>
+    /// Watchers of a ticket the user can open; null when the ticket is missing or hidden from them
+    /// </summary>
+    public async Task<IEnumerable<TicketWatcherDto>?> GetWatchersAsync(Guid ticketId, Guid userId, UserRole role)
+    {
+        if (await _ticketService.GetTicketAsync(ticketId, userId, role) == null)
+        {
+            return null;
+        }
+
+        return await _context.TicketWatchers
+            .Where(w => w.TicketId == ticketId)
+            .OrderBy(w => w.AddedAt)
+            .Select(w => new TicketWatcherDto
+            {
+                UserId = w.UserId,
+                FullName = w.User!.FullName,
+                Email = w.User.Email,
+                Role = w.User.Role,
+                Department = w.User.Department,
+                AddedByUserId = w.AddedByUserId,
+                AddedAt = w.AddedAt
+            })
+            .ToListAsync();
+    }
+
+    /// <summary>
+    /// Add a watcher. Admins add anyone, technicians only themselves and clients colleagues of
+    /// their own department. Throws UnauthorizedAccessException when the rules forbid it.
+    /// </summary>
+    public async Task<TicketWatcherDto?> AddWatcherAsync(Guid ticketId, Guid actorId, UserRole role, Guid watcherUserId)
+    {
+        if (role == UserRole.Technician)
+        {
+            if (watcherUserId != actorId)
+            {
+                throw new UnauthorizedAccessException("Technicians can only watch tickets themselves.");
+            }
+
+            // Technicians follow tickets they are not assigned to and cannot open yet
+            if (!await _context.Tickets.AnyAsync(t => t.Id == ticketId))
+            {
+                return null;
+            }
+        }
+        else if (await _ticketService.GetTicketAsync(ticketId, actorId, role) == null)
+        {
+            return null;
+        }
+
+        var candidate = await _context.Users.FirstOrDefaultAsync(u => u.Id == watcherUserId);
+        if (candidate == null)
+        {
+            return null;
+        }
+
+        if (role == UserRole.Client)
+        {
+            var actor = await _context.Users.FirstAsync(u => u.Id == actorId);
+            if (watcherUserId == actorId
+                || candidate.Role != UserRole.Client
+                || string.IsNullOrWhiteSpace(actor.Department)
+                || candidate.Department != actor.Department)
+            {
+                throw new UnauthorizedAccessException("Clients can only add colleagues of their own department.");
+            }
+        }
+
+        var watcher = await _context.TicketWatchers
+            .FirstOrDefaultAsync(w => w.TicketId == ticketId && w.UserId == watcherUserId);
+        if (watcher == null)
+        {
+            watcher = new TicketWatcher
+            {
+                Id = Guid.NewGuid(),
+                TicketId = ticketId,
+                UserId = watcherUserId,
+                AddedByUserId = actorId,
+                AddedAt = DateTime.UtcNow
+            };
+            _context.TicketWatchers.Add(watcher);
+            await _context.SaveChangesAsync();
+        }
+
+        return new TicketWatcherDto
+        {
+            UserId = candidate.Id,
+            FullName = candidate.FullName,
+            Email = candidate.Email,
+            Role = candidate.Role,
+            Department = candidate.Department,
+            AddedByUserId = watcher.AddedByUserId,
+            AddedAt = watcher.AddedAt
+        };
+    }
+
+    /// <summary>
+    /// Admins remove anyone, everyone may stop watching themselves and whoever added a watcher may
+    /// remove them again. Returns false when there is no such watcher or the user may not remove it.
+    /// </summary>
+    public async Task<bool> RemoveWatcherAsync(Guid ticketId, Guid actorId, UserRole role, Guid watcherUserId)
+    {
+        var watcher = await _context.TicketWatchers
+            .FirstOrDefaultAsync(w => w.TicketId == ticketId && w.UserId == watcherUserId);
+        if (watcher == null)
+        {
+            return false;
+        }
+
+        if (role != UserRole.Admin && watcher.UserId != actorId && watcher.AddedByUserId != actorId)
+        {
+            return false;
+        }
+
+        _context.TicketWatchers.Remove(watcher);
+        await _context.SaveChangesAsync();
+        return true;
+    }
+}
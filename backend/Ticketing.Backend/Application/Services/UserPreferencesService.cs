@@ -1,3 +1,4 @@
+using System.Text.Json;
 using Microsoft.EntityFrameworkCore;
 using Ticketing.Backend.Application.DTOs;
 using Ticketing.Backend.Domain.Entities;
@@ -15,6 +16,8 @@ public interface IUserPreferencesService
 
 public class UserPreferencesService : IUserPreferencesService
 {
+    private static readonly JsonSerializerOptions BoardJsonOptions = new(JsonSerializerDefaults.Web);
+
     private readonly AppDbContext _context;
 
     public UserPreferencesService(AppDbContext context)
@@ -76,12 +79,26 @@ public class UserPreferencesService : IUserPreferencesService
                 PushEnabled = preferences.PushEnabled,
                 SmsEnabled = preferences.SmsEnabled,
                 DesktopEnabled = preferences.DesktopEnabled
-            }
+            },
+            TicketBoard = preferences.TicketBoardJson == null
+                ? null
+                : JsonSerializer.Deserialize<TicketBoardPreferences>(preferences.TicketBoardJson, BoardJsonOptions),
+            DefaultTicketViewId = preferences.DefaultTicketViewId
         };
     }
 
+    /// <summary>
+    /// Save the user's preferences. Throws InvalidOperationException when the default ticket view
+    /// is not one of the views the user can see.
+    /// </summary>
     public async Task<UserPreferencesResponse> UpdatePreferencesAsync(Guid userId, UserPreferencesUpdateRequest request)
     {
+        if (request.DefaultTicketViewId.HasValue
+            && !await _context.SavedTicketViews.AnyAsync(v => v.Id == request.DefaultTicketViewId.Value && (v.OwnerUserId == userId || v.Shared)))
+        {
+            throw new InvalidOperationException("نمای پیش‌فرض انتخاب‌شده یافت نشد");
+        }
+
         var preferences = await _context.UserPreferences
             .FirstOrDefaultAsync(p => p.UserId == userId);
 
@@ -96,6 +113,8 @@ public class UserPreferencesService : IUserPreferencesService
                 FontSize = request.FontSize,
                 Language = request.Language,
                 Timezone = request.Timezone,
+                TicketBoardJson = request.TicketBoard == null ? null : JsonSerializer.Serialize(request.TicketBoard, BoardJsonOptions),
+                DefaultTicketViewId = request.DefaultTicketViewId,
                 EmailEnabled = true,
                 PushEnabled = true,
                 SmsEnabled = false,
@@ -112,6 +131,11 @@ public class UserPreferencesService : IUserPreferencesService
             preferences.FontSize = request.FontSize;
             preferences.Language = request.Language;
             preferences.Timezone = request.Timezone;
+            if (request.TicketBoard != null)
+            {
+                preferences.TicketBoardJson = JsonSerializer.Serialize(request.TicketBoard, BoardJsonOptions);
+            }
+            preferences.DefaultTicketViewId = request.DefaultTicketViewId;
             preferences.UpdatedAt = DateTime.UtcNow;
         }
 
@@ -133,7 +157,11 @@ public class UserPreferencesService : IUserPreferencesService
                 PushEnabled = preferences.PushEnabled,
                 SmsEnabled = preferences.SmsEnabled,
                 DesktopEnabled = preferences.DesktopEnabled
-            }
+            },
+            TicketBoard = preferences.TicketBoardJson == null
+                ? null
+                : JsonSerializer.Deserialize<TicketBoardPreferences>(preferences.TicketBoardJson, BoardJsonOptions),
+            DefaultTicketViewId = preferences.DefaultTicketViewId
         };
     }
 
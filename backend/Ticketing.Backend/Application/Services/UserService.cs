@@ -20,6 +20,7 @@ public interface IUserService
     Task<UserDto?> GetByIdAsync(Guid id);
     Task<IEnumerable<UserDto>> GetAllAsync();
     Task<IEnumerable<UserDto>> GetTechniciansAsync();
+    Task<IEnumerable<UserDto>> SearchDirectoryAsync(Guid userId, UserRole role, string? search);
     Task<UserDto?> UpdateProfileAsync(Guid userId, UpdateProfileRequest request);
     Task<(bool Success, string? ErrorMessage)> ChangePasswordAsync(Guid userId, string currentPassword, string newPassword, string confirmNewPassword);
 }
@@ -190,6 +191,40 @@ public class UserService : IUserService
             .ToListAsync();
     }
 
+    /// <summary>
+    /// Users that may be added as ticket watchers: clients see clients of their own department,
+    /// staff see everyone. Capped at 20 matches.
+    /// </summary>
+    public async Task<IEnumerable<UserDto>> SearchDirectoryAsync(Guid userId, UserRole role, string? search)
+    {
+        var query = _context.Users.AsQueryable();
+
+        if (role == UserRole.Client)
+        {
+            var department = await _context.Users
+                .Where(u => u.Id == userId)
+                .Select(u => u.Department)
+                .FirstOrDefaultAsync();
+            if (string.IsNullOrWhiteSpace(department))
+            {
+                return Enumerable.Empty<UserDto>();
+            }
+            query = query.Where(u => u.Role == UserRole.Client && u.Department == department && u.Id != userId);
+        }
+
+        if (!string.IsNullOrWhiteSpace(search))
+        {
+            var term = search.Trim().ToLower();
+            query = query.Where(u => u.FullName.ToLower().Contains(term) || u.Email.ToLower().Contains(term));
+        }
+
+        return await query
+            .OrderBy(u => u.FullName)
+            .Take(20)
+            .Select(u => MapToDto(u))
+            .ToListAsync();
+    }
+
     public async Task<UserDto?> UpdateProfileAsync(Guid userId, UpdateProfileRequest request)
     {
         var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
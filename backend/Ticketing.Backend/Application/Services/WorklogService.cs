@@ -0,0 +1,143 @@
+using Microsoft.EntityFrameworkCore;
+using Ticketing.Backend.Application.DTOs;
+using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
+using Ticketing.Backend.Infrastructure.Data;
+
+namespace Ticketing.Backend.Application.Services;
+
+public interface IWorklogService
+{
+    Task<IEnumerable<WorklogEntryDto>?> GetTicketWorklogAsync(Guid ticketId);
+    Task<WorklogEntryDto?> AddEntryAsync(Guid ticketId, Guid userId, WorklogCreateRequest request);
+    Task<bool> DeleteEntryAsync(Guid entryId, Guid userId, UserRole role);
+    Task<IEnumerable<WorklogEntryDto>> GetReportAsync(DateTime? from);
+}
+
+public class WorklogService : IWorklogService
+{
+    private readonly AppDbContext _context;
+
+    public WorklogService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    /// <summary>
+    /// Worklog entries of a ticket, oldest first. Returns null when the ticket does not exist.
+    /// </summary>
+    public async Task<IEnumerable<WorklogEntryDto>?> GetTicketWorklogAsync(Guid ticketId)
+    {
+        if (!await _context.Tickets.AnyAsync(t => t.Id == ticketId))
+        {
+            return null;
+        }
+
+        var entries = await QueryEntries()
+            .Where(w => w.TicketId == ticketId)
+            .OrderBy(w => w.LoggedAt)
+            .ToListAsync();
+
+        return entries.Select(MapToDto);
+    }
+
+    /// <summary>
+    /// Log time for the technician assigned to the ticket. Returns null when the ticket does not
+    /// exist or is assigned to someone else.
+    /// </summary>
+    public async Task<WorklogEntryDto?> AddEntryAsync(Guid ticketId, Guid userId, WorklogCreateRequest request)
+    {
+        var ticket = await _context.Tickets.FirstOrDefaultAsync(t => t.Id == ticketId);
+        if (ticket == null || (ticket.TechnicianId != userId && ticket.AssignedToUserId != userId))
+        {
+            return null;
+        }
+
+        var entry = new WorklogEntry
+        {
+            Id = Guid.NewGuid(),
+            TicketId = ticketId,
+            UserId = userId,
+            Minutes = request.Minutes,
+            Note = string.IsNullOrWhiteSpace(request.Note) ? null : request.Note.Trim(),
+            Billable = request.Billable,
+            StartedAt = request.StartedAt,
+            LoggedAt = DateTime.UtcNow
+        };
+
+        _context.WorklogEntries.Add(entry);
+        await _context.SaveChangesAsync();
+
+        var saved = await QueryEntries().FirstAsync(w => w.Id == entry.Id);
+        return MapToDto(saved);
+    }
+
+    /// <summary>
+    /// Delete an entry; only its author or an admin may do so
+    /// </summary>
+    public async Task<bool> DeleteEntryAsync(Guid entryId, Guid userId, UserRole role)
+    {
+        var entry = await _context.WorklogEntries.FirstOrDefaultAsync(w => w.Id == entryId);
+        if (entry == null)
+        {
+            return false;
+        }
+
+        if (role != UserRole.Admin && entry.UserId != userId)
+        {
+            throw new UnauthorizedAccessException("Only the author or an admin can delete a worklog entry.");
+        }
+
+        _context.WorklogEntries.Remove(entry);
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    /// <summary>
+    /// All entries logged since <paramref name="from"/>, newest first, for the hours report
+    /// </summary>
+    public async Task<IEnumerable<WorklogEntryDto>> GetReportAsync(DateTime? from)
+    {
+        var query = QueryEntries();
+        if (from.HasValue)
+        {
+            var fromUtc = from.Value.ToUniversalTime();
+            query = query.Where(w => w.LoggedAt >= fromUtc);
+        }
+
+        var entries = await query
+            .OrderByDescending(w => w.LoggedAt)
+            .ToListAsync();
+
+        return entries.Select(MapToDto);
+    }
+
+    private IQueryable<WorklogEntry> QueryEntries()
+    {
+        return _context.WorklogEntries
+            .Include(w => w.User)
+            .Include(w => w.Ticket)
+                .ThenInclude(t => t!.Category)
+            .Include(w => w.Ticket)
+                .ThenInclude(t => t!.CreatedByUser);
+    }
+
+    private static WorklogEntryDto MapToDto(WorklogEntry entry)
+    {
+        return new WorklogEntryDto
+        {
+            Id = entry.Id,
+            TicketId = entry.TicketId,
+            TechnicianId = entry.UserId,
+            TechnicianName = entry.User?.FullName ?? string.Empty,
+            Minutes = entry.Minutes,
+            Note = entry.Note,
+            Billable = entry.Billable,
+            StartedAt = entry.StartedAt,
+            LoggedAt = entry.LoggedAt,
+            CategoryId = entry.Ticket?.CategoryId,
+            CategoryName = entry.Ticket?.Category?.Name,
+            Department = entry.Ticket?.CreatedByUser?.Department
+        };
+    }
+}
@@ -3,9 +3,15 @@ namespace Ticketing.Backend.Domain.Entities;
 public class Attachment
 {
     public Guid Id { get; set; }
-    public Guid TicketId { get; set; }
+    public Guid? TicketId { get; set; } // Null while the file waits for the ticket being created
     public string FileName { get; set; } = string.Empty;
     public string FileUrl { get; set; } = string.Empty;
+    public string ContentType { get; set; } = string.Empty;
+    public long Size { get; set; }
+    public string StoredFileName { get; set; } = string.Empty; // Name of the file in attachment storage
+    public Guid? UploadedByUserId { get; set; }
+    public DateTime UploadedAt { get; set; }
 
     public Ticket? Ticket { get; set; }
+    public User? UploadedByUser { get; set; }
 }
@@ -0,0 +1,22 @@
+using Ticketing.Backend.Domain.Enums;
+
+namespace Ticketing.Backend.Domain.Entities;
+
+/// <summary>
+/// Admin-curated reply. A reply that also sets a status or priority works as a one-click macro.
+/// </summary>
+public class CannedResponse
+{
+    public Guid Id { get; set; }
+    public string Title { get; set; } = string.Empty;
+    public string Body { get; set; } = string.Empty; // May contain placeholders such as {{clientName}}, filled in by the browser
+    public int? CategoryId { get; set; } // Null = offered on every ticket
+    public int? SubcategoryId { get; set; }
+    public TicketStatus? SetStatus { get; set; }
+    public TicketPriority? SetPriority { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime? UpdatedAt { get; set; }
+
+    public Category? Category { get; set; }
+    public Subcategory? Subcategory { get; set; }
+}
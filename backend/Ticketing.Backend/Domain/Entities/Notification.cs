@@ -7,6 +7,7 @@ public class Notification
     public string Message { get; set; } = string.Empty;
     public bool IsRead { get; set; }
     public DateTime CreatedAt { get; set; }
+    public Guid? TicketId { get; set; }
 
     public User? User { get; set; }
 }
@@ -0,0 +1,16 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+/// <summary>
+/// A browser's Web Push subscription; the keys encrypt the messages sent to Endpoint
+/// </summary>
+public class PushSubscription
+{
+    public Guid Id { get; set; }
+    public Guid UserId { get; set; }
+    public string Endpoint { get; set; } = string.Empty;
+    public string P256dh { get; set; } = string.Empty;
+    public string Auth { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; }
+
+    public User? User { get; set; }
+}
@@ -0,0 +1,14 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+public class SavedTicketView
+{
+    public Guid Id { get; set; }
+    public Guid OwnerUserId { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public bool Shared { get; set; } // Visible to every admin, but only editable by its owner
+    public string StateJson { get; set; } = "{}"; // Filters, sort and columns as sent by the ticket list
+    public DateTime CreatedAt { get; set; }
+    public DateTime? UpdatedAt { get; set; }
+
+    public User? Owner { get; set; }
+}
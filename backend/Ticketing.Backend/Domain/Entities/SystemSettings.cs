@@ -22,6 +22,17 @@ public class SystemSettings
     public bool AutoAssignEnabled { get; set; } = false;
     public bool AllowClientAttachments { get; set; } = true;
     public int MaxAttachmentSizeMB { get; set; } = 10;
+    public string? SlaPolicyJson { get; set; } // SLA policy edited in the admin panel; null until first saved
+
+    // Workflow
+    public int ReopenWindowDays { get; set; } = 7; // Days after resolution a client may reopen a ticket; 0 disables reopening
+    public bool ResolveChildrenWithParent { get; set; } = true;
+    public bool CsatEnabled { get; set; } = true;
+    public string CsatQuestionsJson { get; set; } = DefaultCsatQuestionsJson; // Questions asked after the star rating, as a JSON array
+
+    public const string DefaultCsatQuestionsJson =
+        "[{\"id\":\"fixed-first-time\",\"text\":\"آیا مشکل شما در همان بار اول برطرف شد؟\",\"type\":\"yes-no\",\"required\":false}," +
+        "{\"id\":\"technician-communication\",\"text\":\"نحوه راهنمایی و برخورد کارشناس را چگونه ارزیابی می‌کنید؟\",\"type\":\"rating\",\"required\":false}]";
 
     // Notifications
     public bool EmailNotificationsEnabled { get; set; } = true;
@@ -11,6 +11,21 @@ public class Technician
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
     public Guid? UserId { get; set; } // Link to User for authentication
 
+    // Assignment profile; the lists are stored as JSON arrays
+    public string SpecialtyCategoryIdsJson { get; set; } = "[]";
+    public string CertificationsJson { get; set; } = "[]";
+    public string LanguagesJson { get; set; } = DefaultLanguagesJson;
+    public string WorkingHoursJson { get; set; } = DefaultWorkingHoursJson;
+    public int MaxActiveTickets { get; set; } = DefaultMaxActiveTickets;
+
+    public const string DefaultLanguagesJson = "[\"فارسی\"]";
+    // Iranian work week: Saturday to Wednesday 8:00-16:00, Thursday 8:00-12:00
+    public const string DefaultWorkingHoursJson =
+        "[{\"dayOfWeek\":6,\"startHour\":8,\"endHour\":16},{\"dayOfWeek\":0,\"startHour\":8,\"endHour\":16}," +
+        "{\"dayOfWeek\":1,\"startHour\":8,\"endHour\":16},{\"dayOfWeek\":2,\"startHour\":8,\"endHour\":16}," +
+        "{\"dayOfWeek\":3,\"startHour\":8,\"endHour\":16},{\"dayOfWeek\":4,\"startHour\":8,\"endHour\":12}]";
+    public const int DefaultMaxActiveTickets = 5;
+
     // Navigation properties
     public User? User { get; set; }
     public ICollection<Ticket> AssignedTickets { get; set; } = new List<Ticket>();
@@ -17,12 +17,32 @@ public class Ticket
     public DateTime CreatedAt { get; set; }
     public DateTime? UpdatedAt { get; set; }
     public DateTime? DueDate { get; set; }
+    public int ReopenCount { get; set; }
+    /// <summary>
+    /// First reply by support staff that the client could see
+    /// </summary>
+    public DateTime? FirstResponseAt { get; set; }
+    /// <summary>
+    /// When the ticket was last resolved or closed; cleared when it is reopened (see AppDbContext)
+    /// </summary>
+    public DateTime? ResolvedAt { get; set; }
+    /// <summary>
+    /// Normalized id, title, description and participant names that the list search matches;
+    /// kept current by AppDbContext on save
+    /// </summary>
+    public string SearchText { get; set; } = string.Empty;
+    /// <summary>
+    /// Surviving ticket this one was closed into as a duplicate (see TicketService.MergeTicketsAsync)
+    /// </summary>
+    public Guid? MergedIntoTicketId { get; set; }
 
     public Category? Category { get; set; }
     public Subcategory? Subcategory { get; set; }
     public User? CreatedByUser { get; set; }
     public User? AssignedToUser { get; set; }
     public Technician? Technician { get; set; }
+    public Ticket? MergedIntoTicket { get; set; }
     public ICollection<TicketMessage> Messages { get; set; } = new List<TicketMessage>();
     public ICollection<Attachment> Attachments { get; set; } = new List<Attachment>();
+    public ICollection<TicketLink> OutgoingLinks { get; set; } = new List<TicketLink>();
 }
@@ -0,0 +1,18 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+/// <summary>
+/// One audited field change on a ticket
+/// </summary>
+public class TicketActivity
+{
+    public Guid Id { get; set; }
+    public Guid TicketId { get; set; }
+    public string Field { get; set; } = string.Empty; // status, priority, assignment, dueDate or category
+    public string? OldValue { get; set; }
+    public string? NewValue { get; set; }
+    public Guid? ActorUserId { get; set; } // Null for changes made by the system, e.g. smart assignment
+    public DateTime CreatedAt { get; set; }
+
+    public Ticket? Ticket { get; set; }
+    public User? ActorUser { get; set; }
+}
@@ -0,0 +1,22 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+public class TicketLink
+{
+    public Guid Id { get; set; }
+    public Guid SourceTicketId { get; set; }
+    public Guid TargetTicketId { get; set; }
+    public string Type { get; set; } = TicketLinkTypes.Related; // Read from the source: "parent" makes the source the target's parent
+    public Guid? CreatedByUserId { get; set; }
+    public DateTime CreatedAt { get; set; }
+
+    public Ticket? SourceTicket { get; set; }
+    public Ticket? TargetTicket { get; set; }
+    public User? CreatedByUser { get; set; }
+}
+
+public static class TicketLinkTypes
+{
+    public const string Parent = "parent";
+    public const string Related = "related";
+    public const string Blocks = "blocks";
+}
@@ -10,6 +10,7 @@ public class TicketMessage
     public string Message { get; set; } = string.Empty;
     public DateTime CreatedAt { get; set; }
     public TicketStatus? Status { get; set; }
+    public bool IsInternal { get; set; }
 
     public Ticket? Ticket { get; set; }
     public User? AuthorUser { get; set; }
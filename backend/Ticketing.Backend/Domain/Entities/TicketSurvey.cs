@@ -0,0 +1,16 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+public class TicketSurvey
+{
+    public Guid Id { get; set; }
+    public Guid TicketId { get; set; }
+    public Guid SubmittedByUserId { get; set; }
+    public Guid? TechnicianId { get; set; } // Technician who handled the ticket when the survey was submitted
+    public int Rating { get; set; }
+    public string? Comment { get; set; }
+    public string AnswersJson { get; set; } = "{}"; // Answers to the configured questions, keyed by question id
+    public DateTime SubmittedAt { get; set; }
+
+    public Ticket? Ticket { get; set; }
+    public Technician? Technician { get; set; }
+}
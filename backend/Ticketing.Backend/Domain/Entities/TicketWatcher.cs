@@ -0,0 +1,13 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+public class TicketWatcher
+{
+    public Guid Id { get; set; }
+    public Guid TicketId { get; set; }
+    public Guid UserId { get; set; }
+    public Guid? AddedByUserId { get; set; }
+    public DateTime AddedAt { get; set; }
+
+    public Ticket? Ticket { get; set; }
+    public User? User { get; set; }
+}
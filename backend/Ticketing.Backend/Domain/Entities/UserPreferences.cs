@@ -18,6 +18,13 @@ public class UserPreferences
     public bool SmsEnabled { get; set; } = false;
     public bool DesktopEnabled { get; set; } = true;
 
+    // Technician ticket board (view, swimlanes, WIP limits) as JSON; null until first changed
+    public string? TicketBoardJson { get; set; }
+
+    // Saved ticket view applied when admin ticket management opens without a view in the URL
+    public Guid? DefaultTicketViewId { get; set; }
+    public SavedTicketView? DefaultTicketView { get; set; }
+
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
     public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
 }
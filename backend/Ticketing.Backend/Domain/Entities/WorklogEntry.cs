@@ -0,0 +1,16 @@
+namespace Ticketing.Backend.Domain.Entities;
+
+public class WorklogEntry
+{
+    public Guid Id { get; set; }
+    public Guid TicketId { get; set; }
+    public Guid UserId { get; set; } // Technician (User.Id) who did the work
+    public int Minutes { get; set; }
+    public string? Note { get; set; }
+    public bool Billable { get; set; }
+    public DateTime? StartedAt { get; set; } // Set for entries recorded with the timer
+    public DateTime LoggedAt { get; set; }
+
+    public Ticket? Ticket { get; set; }
+    public User? User { get; set; }
+}
@@ -1,5 +1,6 @@
 using Microsoft.EntityFrameworkCore;
 using Ticketing.Backend.Domain.Entities;
+using Ticketing.Backend.Domain.Enums;
 
 namespace Ticketing.Backend.Infrastructure.Data;
 
@@ -11,10 +12,18 @@ public class AppDbContext : DbContext
     public DbSet<Category> Categories => Set<Category>();
     public DbSet<Subcategory> Subcategories => Set<Subcategory>();
     public DbSet<Attachment> Attachments => Set<Attachment>();
+    public DbSet<CannedResponse> CannedResponses => Set<CannedResponse>();
     public DbSet<Notification> Notifications => Set<Notification>();
     public DbSet<SystemSettings> SystemSettings => Set<SystemSettings>();
     public DbSet<UserPreferences> UserPreferences => Set<UserPreferences>();
     public DbSet<Technician> Technicians => Set<Technician>();
+    public DbSet<TicketSurvey> TicketSurveys => Set<TicketSurvey>();
+    public DbSet<TicketWatcher> TicketWatchers => Set<TicketWatcher>();
+    public DbSet<TicketLink> TicketLinks => Set<TicketLink>();
+    public DbSet<TicketActivity> TicketActivities => Set<TicketActivity>();
+    public DbSet<WorklogEntry> WorklogEntries => Set<WorklogEntry>();
+    public DbSet<SavedTicketView> SavedTicketViews => Set<SavedTicketView>();
+    public DbSet<PushSubscription> PushSubscriptions => Set<PushSubscription>();
 
     public AppDbContext(DbContextOptions<AppDbContext> options) : base(options)
     {
@@ -25,4 +34,66 @@ public class AppDbContext : DbContext
         base.OnModelCreating(modelBuilder);
         modelBuilder.ApplyConfigurationsFromAssembly(typeof(AppDbContext).Assembly);
     }
+
+    public override async Task<int> SaveChangesAsync(CancellationToken cancellationToken = default)
+    {
+        StampTicketResolution();
+        await RefreshTicketSearchTextAsync(cancellationToken);
+        return await base.SaveChangesAsync(cancellationToken);
+    }
+
+    /// <summary>
+    /// Keep ResolvedAt in step with the status on every path that changes it: set when a ticket
+    /// becomes resolved or closed (closing a resolved ticket keeps the first time), cleared on reopen
+    /// </summary>
+    private void StampTicketResolution()
+    {
+        var tickets = ChangeTracker.Entries<Ticket>()
+            .Where(e => e.State == EntityState.Added || e.State == EntityState.Modified)
+            .Select(e => e.Entity);
+
+        foreach (var ticket in tickets)
+        {
+            if (ticket.Status is TicketStatus.Resolved or TicketStatus.Closed)
+            {
+                ticket.ResolvedAt ??= ticket.UpdatedAt ?? DateTime.UtcNow;
+            }
+            else
+            {
+                ticket.ResolvedAt = null;
+            }
+        }
+    }
+
+    /// <summary>
+    /// Rebuild the search text of every added or changed ticket, so title, description and
+    /// assignment changes are searchable right away
+    /// </summary>
+    private async Task RefreshTicketSearchTextAsync(CancellationToken cancellationToken)
+    {
+        var tickets = ChangeTracker.Entries<Ticket>()
+            .Where(e => e.State == EntityState.Added || e.State == EntityState.Modified)
+            .Select(e => e.Entity)
+            .ToList();
+
+        foreach (var ticket in tickets)
+        {
+            var requester = ticket.CreatedByUser
+                ?? await Users.FindAsync(new object[] { ticket.CreatedByUserId }, cancellationToken);
+
+            string? assigneeName = null;
+            if (ticket.AssignedToUserId.HasValue)
+            {
+                var technician = ticket.TechnicianId.HasValue
+                    ? ticket.Technician ?? await Technicians.FindAsync(new object[] { ticket.TechnicianId.Value }, cancellationToken)
+                    : null;
+                var assignee = technician == null
+                    ? ticket.AssignedToUser ?? await Users.FindAsync(new object[] { ticket.AssignedToUserId.Value }, cancellationToken)
+                    : null;
+                assigneeName = technician?.FullName ?? assignee?.FullName;
+            }
+
+            ticket.SearchText = TicketSearchText.Build(ticket, requester?.FullName, assigneeName);
+        }
+    }
 }
@@ -11,10 +11,17 @@ public class AttachmentConfiguration : IEntityTypeConfiguration<Attachment>
         builder.HasKey(a => a.Id);
         builder.Property(a => a.FileName).IsRequired();
         builder.Property(a => a.FileUrl).IsRequired();
+        builder.Property(a => a.ContentType).IsRequired().HasMaxLength(200);
+        builder.Property(a => a.StoredFileName).IsRequired();
 
         builder.HasOne(a => a.Ticket)
             .WithMany(t => t.Attachments)
             .HasForeignKey(a => a.TicketId)
             .OnDelete(DeleteBehavior.Cascade);
+
+        builder.HasOne(a => a.UploadedByUser)
+            .WithMany()
+            .HasForeignKey(a => a.UploadedByUserId)
+            .OnDelete(DeleteBehavior.SetNull);
     }
 }
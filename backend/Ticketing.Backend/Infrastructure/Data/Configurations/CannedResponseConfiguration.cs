@@ -0,0 +1,26 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class CannedResponseConfiguration : IEntityTypeConfiguration<CannedResponse>
+{
+    public void Configure(EntityTypeBuilder<CannedResponse> builder)
+    {
+        builder.HasKey(r => r.Id);
+        builder.Property(r => r.Title).IsRequired().HasMaxLength(200);
+        builder.Property(r => r.Body).IsRequired().HasMaxLength(4000);
+
+        // A reply limited to a category that no longer exists has nowhere to be offered
+        builder.HasOne(r => r.Category)
+            .WithMany()
+            .HasForeignKey(r => r.CategoryId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.HasOne(r => r.Subcategory)
+            .WithMany()
+            .HasForeignKey(r => r.SubcategoryId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
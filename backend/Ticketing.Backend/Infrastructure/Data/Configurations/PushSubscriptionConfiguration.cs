@@ -0,0 +1,24 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class PushSubscriptionConfiguration : IEntityTypeConfiguration<PushSubscription>
+{
+    public void Configure(EntityTypeBuilder<PushSubscription> builder)
+    {
+        builder.HasKey(s => s.Id);
+        builder.Property(s => s.Endpoint).IsRequired().HasMaxLength(2000);
+        builder.Property(s => s.P256dh).IsRequired().HasMaxLength(200);
+        builder.Property(s => s.Auth).IsRequired().HasMaxLength(100);
+
+        builder.HasOne(s => s.User)
+            .WithMany()
+            .HasForeignKey(s => s.UserId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        // A browser has one subscription; subscribing again under another user moves it
+        builder.HasIndex(s => s.Endpoint).IsUnique();
+    }
+}
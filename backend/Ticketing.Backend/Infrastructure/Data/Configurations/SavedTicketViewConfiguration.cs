@@ -0,0 +1,20 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class SavedTicketViewConfiguration : IEntityTypeConfiguration<SavedTicketView>
+{
+    public void Configure(EntityTypeBuilder<SavedTicketView> builder)
+    {
+        builder.HasKey(v => v.Id);
+        builder.Property(v => v.Name).IsRequired().HasMaxLength(100);
+        builder.Property(v => v.StateJson).IsRequired();
+
+        builder.HasOne(v => v.Owner)
+            .WithMany()
+            .HasForeignKey(v => v.OwnerUserId)
+            .OnDelete(DeleteBehavior.Cascade);
+    }
+}
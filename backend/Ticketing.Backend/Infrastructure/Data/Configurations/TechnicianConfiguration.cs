@@ -34,6 +34,18 @@ public class TechnicianConfiguration : IEntityTypeConfiguration<Technician>
         builder.Property(t => t.CreatedAt)
             .IsRequired();
 
+        builder.Property(t => t.SpecialtyCategoryIdsJson)
+            .IsRequired();
+
+        builder.Property(t => t.CertificationsJson)
+            .IsRequired();
+
+        builder.Property(t => t.LanguagesJson)
+            .IsRequired();
+
+        builder.Property(t => t.WorkingHoursJson)
+            .IsRequired();
+
         // Relationship with User (optional)
         builder.HasOne(t => t.User)
             .WithMany()
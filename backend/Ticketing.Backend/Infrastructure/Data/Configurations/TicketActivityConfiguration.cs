@@ -0,0 +1,29 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class TicketActivityConfiguration : IEntityTypeConfiguration<TicketActivity>
+{
+    public void Configure(EntityTypeBuilder<TicketActivity> builder)
+    {
+        builder.HasKey(a => a.Id);
+        builder.Property(a => a.Field).IsRequired().HasMaxLength(50);
+        builder.Property(a => a.OldValue).HasMaxLength(500);
+        builder.Property(a => a.NewValue).HasMaxLength(500);
+
+        builder.HasOne(a => a.Ticket)
+            .WithMany()
+            .HasForeignKey(a => a.TicketId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        // The history outlives the account that made the change
+        builder.HasOne(a => a.ActorUser)
+            .WithMany()
+            .HasForeignKey(a => a.ActorUserId)
+            .OnDelete(DeleteBehavior.SetNull);
+
+        builder.HasIndex(a => a.TicketId);
+    }
+}
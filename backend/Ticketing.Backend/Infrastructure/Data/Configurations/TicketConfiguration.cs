@@ -13,6 +13,7 @@ public class TicketConfiguration : IEntityTypeConfiguration<Ticket>
         builder.Property(t => t.Description).IsRequired();
         builder.Property(t => t.Priority).IsRequired();
         builder.Property(t => t.Status).IsRequired();
+        builder.Property(t => t.SearchText).IsRequired();
 
         builder.HasOne(t => t.Category)
             .WithMany(c => c.Tickets)
@@ -38,5 +39,10 @@ public class TicketConfiguration : IEntityTypeConfiguration<Ticket>
             .WithMany(t => t.AssignedTickets)
             .HasForeignKey(t => t.TechnicianId)
             .OnDelete(DeleteBehavior.SetNull);
+
+        builder.HasOne(t => t.MergedIntoTicket)
+            .WithMany()
+            .HasForeignKey(t => t.MergedIntoTicketId)
+            .OnDelete(DeleteBehavior.SetNull);
     }
 }
@@ -0,0 +1,33 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class TicketLinkConfiguration : IEntityTypeConfiguration<TicketLink>
+{
+    public void Configure(EntityTypeBuilder<TicketLink> builder)
+    {
+        builder.HasKey(l => l.Id);
+        builder.Property(l => l.Type).IsRequired().HasMaxLength(20);
+
+        builder.HasOne(l => l.SourceTicket)
+            .WithMany(t => t.OutgoingLinks)
+            .HasForeignKey(l => l.SourceTicketId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.HasOne(l => l.TargetTicket)
+            .WithMany()
+            .HasForeignKey(l => l.TargetTicketId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.HasOne(l => l.CreatedByUser)
+            .WithMany()
+            .HasForeignKey(l => l.CreatedByUserId)
+            .OnDelete(DeleteBehavior.SetNull);
+
+        // Two tickets are linked at most once in each direction
+        builder.HasIndex(l => new { l.SourceTicketId, l.TargetTicketId }).IsUnique();
+        builder.HasIndex(l => l.TargetTicketId);
+    }
+}
@@ -0,0 +1,28 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class TicketSurveyConfiguration : IEntityTypeConfiguration<TicketSurvey>
+{
+    public void Configure(EntityTypeBuilder<TicketSurvey> builder)
+    {
+        builder.HasKey(s => s.Id);
+        builder.Property(s => s.AnswersJson).IsRequired();
+        builder.Property(s => s.Comment).HasMaxLength(2000);
+
+        builder.HasOne(s => s.Ticket)
+            .WithMany()
+            .HasForeignKey(s => s.TicketId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.HasOne(s => s.Technician)
+            .WithMany()
+            .HasForeignKey(s => s.TechnicianId)
+            .OnDelete(DeleteBehavior.SetNull);
+
+        // One survey per ticket
+        builder.HasIndex(s => s.TicketId).IsUnique();
+    }
+}
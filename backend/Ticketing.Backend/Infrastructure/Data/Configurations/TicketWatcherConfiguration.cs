@@ -0,0 +1,26 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class TicketWatcherConfiguration : IEntityTypeConfiguration<TicketWatcher>
+{
+    public void Configure(EntityTypeBuilder<TicketWatcher> builder)
+    {
+        builder.HasKey(w => w.Id);
+
+        builder.HasOne(w => w.Ticket)
+            .WithMany()
+            .HasForeignKey(w => w.TicketId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.HasOne(w => w.User)
+            .WithMany()
+            .HasForeignKey(w => w.UserId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        // A user watches a ticket at most once
+        builder.HasIndex(w => new { w.TicketId, w.UserId }).IsUnique();
+    }
+}
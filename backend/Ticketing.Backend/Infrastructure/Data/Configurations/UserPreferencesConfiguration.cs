@@ -20,6 +20,12 @@ public class UserPreferencesConfiguration : IEntityTypeConfiguration<UserPrefere
             .HasForeignKey<UserPreferences>(p => p.UserId)
             .OnDelete(DeleteBehavior.Cascade);
 
+        // Deleting the view clears it as the default
+        builder.HasOne(p => p.DefaultTicketView)
+            .WithMany()
+            .HasForeignKey(p => p.DefaultTicketViewId)
+            .OnDelete(DeleteBehavior.SetNull);
+
         // Ensure one preferences per user
         builder.HasIndex(p => p.UserId).IsUnique();
     }
@@ -0,0 +1,27 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data.Configurations;
+
+public class WorklogEntryConfiguration : IEntityTypeConfiguration<WorklogEntry>
+{
+    public void Configure(EntityTypeBuilder<WorklogEntry> builder)
+    {
+        builder.HasKey(w => w.Id);
+        builder.Property(w => w.Note).HasMaxLength(1000);
+
+        builder.HasOne(w => w.Ticket)
+            .WithMany()
+            .HasForeignKey(w => w.TicketId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        builder.HasOne(w => w.User)
+            .WithMany()
+            .HasForeignKey(w => w.UserId)
+            .OnDelete(DeleteBehavior.Cascade);
+
+        // The hours report filters by date
+        builder.HasIndex(w => w.LoggedAt);
+    }
+}
@@ -0,0 +1,53 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ticketing.Backend.Infrastructure.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTicketSlaTimestamps : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTime>(
+                name: "FirstResponseAt",
+                table: "Tickets",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "ResolvedAt",
+                table: "Tickets",
+                type: "TEXT",
+                nullable: true);
+
+            // Existing tickets: the first public reply by staff, and the last change of a resolved
+            // (3) or closed (4) ticket as the best known resolution time
+            migrationBuilder.Sql(@"
+                UPDATE Tickets SET FirstResponseAt = (
+                    SELECT MIN(m.CreatedAt) FROM TicketMessages m
+                    INNER JOIN Users u ON u.Id = m.AuthorUserId
+                    WHERE m.TicketId = Tickets.Id
+                        AND m.AuthorUserId <> Tickets.CreatedByUserId
+                        AND u.Role <> 0
+                        AND m.IsInternal = 0);
+
+                UPDATE Tickets SET ResolvedAt = COALESCE(UpdatedAt, CreatedAt)
+                WHERE Status IN (3, 4);");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "FirstResponseAt",
+                table: "Tickets");
+
+            migrationBuilder.DropColumn(
+                name: "ResolvedAt",
+                table: "Tickets");
+        }
+    }
+}
@@ -0,0 +1,73 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ticketing.Backend.Infrastructure.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTechnicianProfiles : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "CertificationsJson",
+                table: "Technicians",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "[]");
+
+            migrationBuilder.AddColumn<string>(
+                name: "LanguagesJson",
+                table: "Technicians",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "[\"فارسی\"]");
+
+            migrationBuilder.AddColumn<int>(
+                name: "MaxActiveTickets",
+                table: "Technicians",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 5);
+
+            migrationBuilder.AddColumn<string>(
+                name: "SpecialtyCategoryIdsJson",
+                table: "Technicians",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "[]");
+
+            migrationBuilder.AddColumn<string>(
+                name: "WorkingHoursJson",
+                table: "Technicians",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "[{\"dayOfWeek\":6,\"startHour\":8,\"endHour\":16},{\"dayOfWeek\":0,\"startHour\":8,\"endHour\":16},{\"dayOfWeek\":1,\"startHour\":8,\"endHour\":16},{\"dayOfWeek\":2,\"startHour\":8,\"endHour\":16},{\"dayOfWeek\":3,\"startHour\":8,\"endHour\":16},{\"dayOfWeek\":4,\"startHour\":8,\"endHour\":12}]");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "CertificationsJson",
+                table: "Technicians");
+
+            migrationBuilder.DropColumn(
+                name: "LanguagesJson",
+                table: "Technicians");
+
+            migrationBuilder.DropColumn(
+                name: "MaxActiveTickets",
+                table: "Technicians");
+
+            migrationBuilder.DropColumn(
+                name: "SpecialtyCategoryIdsJson",
+                table: "Technicians");
+
+            migrationBuilder.DropColumn(
+                name: "WorkingHoursJson",
+                table: "Technicians");
+        }
+    }
+}
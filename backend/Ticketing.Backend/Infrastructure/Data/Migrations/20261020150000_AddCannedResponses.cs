@@ -0,0 +1,93 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ticketing.Backend.Infrastructure.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCannedResponses : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "CannedResponses",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "TEXT", nullable: false),
+                    Title = table.Column<string>(type: "TEXT", maxLength: 200, nullable: false),
+                    Body = table.Column<string>(type: "TEXT", maxLength: 4000, nullable: false),
+                    CategoryId = table.Column<int>(type: "INTEGER", nullable: true),
+                    SubcategoryId = table.Column<int>(type: "INTEGER", nullable: true),
+                    SetStatus = table.Column<int>(type: "INTEGER", nullable: true),
+                    SetPriority = table.Column<int>(type: "INTEGER", nullable: true),
+                    CreatedAt = table.Column<DateTime>(type: "TEXT", nullable: false),
+                    UpdatedAt = table.Column<DateTime>(type: "TEXT", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_CannedResponses", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_CannedResponses_Categories_CategoryId",
+                        column: x => x.CategoryId,
+                        principalTable: "Categories",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_CannedResponses_Subcategories_SubcategoryId",
+                        column: x => x.SubcategoryId,
+                        principalTable: "Subcategories",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_CannedResponses_CategoryId",
+                table: "CannedResponses",
+                column: "CategoryId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_CannedResponses_SubcategoryId",
+                table: "CannedResponses",
+                column: "SubcategoryId");
+
+            // Starter library, added once; admins may edit or delete these like any other reply
+            var createdAt = new DateTime(2026, 10, 20, 0, 0, 0, DateTimeKind.Utc);
+            migrationBuilder.InsertData(
+                table: "CannedResponses",
+                columns: new[] { "Id", "Title", "Body", "SetStatus", "CreatedAt" },
+                values: new object[,]
+                {
+                    {
+                        new Guid("6b1f0c52-0d4e-4c1a-9a57-2f3c1d0e8a01"),
+                        "دریافت و شروع بررسی",
+                        "{{clientName}} عزیز، سلام\nدرخواست شما با شماره {{ticketId}} دریافت شد و در حال بررسی است. نتیجه را در همین تیکت اطلاع می‌دهیم.\nبا احترام، {{technicianName}}",
+                        1,
+                        createdAt
+                    },
+                    {
+                        new Guid("6b1f0c52-0d4e-4c1a-9a57-2f3c1d0e8a02"),
+                        "بازنشانی رمز عبور",
+                        "{{clientName}} عزیز، سلام\nرمز عبور شما بازنشانی شد. لطفاً با رمز موقتی که برایتان ارسال شده وارد شوید و بلافاصله آن را تغییر دهید.\nشماره پیگیری: {{ticketId}}\nبا احترام، {{technicianName}}",
+                        3,
+                        createdAt
+                    },
+                    {
+                        new Guid("6b1f0c52-0d4e-4c1a-9a57-2f3c1d0e8a03"),
+                        "چاپگر - درخواست اطلاعات تکمیلی",
+                        "{{clientName}} عزیز، سلام\nبرای بررسی مشکل چاپگر لطفاً مدل دستگاه، متن خطای نمایش‌داده‌شده و محل استقرار آن را اعلام کنید.\nبا احترام، {{technicianName}}",
+                        2,
+                        createdAt
+                    }
+                });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "CannedResponses");
+        }
+    }
+}
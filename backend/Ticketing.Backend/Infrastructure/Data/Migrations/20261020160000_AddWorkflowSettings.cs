@@ -0,0 +1,62 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ticketing.Backend.Infrastructure.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddWorkflowSettings : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "CsatEnabled",
+                table: "SystemSettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "CsatQuestionsJson",
+                table: "SystemSettings",
+                type: "TEXT",
+                nullable: false,
+                defaultValue: "[{\"id\":\"fixed-first-time\",\"text\":\"آیا مشکل شما در همان بار اول برطرف شد؟\",\"type\":\"yes-no\",\"required\":false},{\"id\":\"technician-communication\",\"text\":\"نحوه راهنمایی و برخورد کارشناس را چگونه ارزیابی می‌کنید؟\",\"type\":\"rating\",\"required\":false}]");
+
+            migrationBuilder.AddColumn<int>(
+                name: "ReopenWindowDays",
+                table: "SystemSettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: 7);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "ResolveChildrenWithParent",
+                table: "SystemSettings",
+                type: "INTEGER",
+                nullable: false,
+                defaultValue: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "CsatEnabled",
+                table: "SystemSettings");
+
+            migrationBuilder.DropColumn(
+                name: "CsatQuestionsJson",
+                table: "SystemSettings");
+
+            migrationBuilder.DropColumn(
+                name: "ReopenWindowDays",
+                table: "SystemSettings");
+
+            migrationBuilder.DropColumn(
+                name: "ResolveChildrenWithParent",
+                table: "SystemSettings");
+        }
+    }
+}
@@ -0,0 +1,50 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ticketing.Backend.Infrastructure.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTicketMerges : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<Guid>(
+                name: "MergedIntoTicketId",
+                table: "Tickets",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Tickets_MergedIntoTicketId",
+                table: "Tickets",
+                column: "MergedIntoTicketId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_Tickets_Tickets_MergedIntoTicketId",
+                table: "Tickets",
+                column: "MergedIntoTicketId",
+                principalTable: "Tickets",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_Tickets_Tickets_MergedIntoTicketId",
+                table: "Tickets");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Tickets_MergedIntoTicketId",
+                table: "Tickets");
+
+            migrationBuilder.DropColumn(
+                name: "MergedIntoTicketId",
+                table: "Tickets");
+        }
+    }
+}
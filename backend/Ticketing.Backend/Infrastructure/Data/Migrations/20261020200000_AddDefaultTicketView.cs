@@ -0,0 +1,49 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ticketing.Backend.Infrastructure.Data.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddDefaultTicketView : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<Guid>(
+                name: "DefaultTicketViewId",
+                table: "UserPreferences",
+                type: "TEXT",
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_UserPreferences_DefaultTicketViewId",
+                table: "UserPreferences",
+                column: "DefaultTicketViewId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_UserPreferences_SavedTicketViews_DefaultTicketViewId",
+                table: "UserPreferences",
+                column: "DefaultTicketViewId",
+                principalTable: "SavedTicketViews",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_UserPreferences_SavedTicketViews_DefaultTicketViewId",
+                table: "UserPreferences");
+
+            migrationBuilder.DropIndex(
+                name: "IX_UserPreferences_DefaultTicketViewId",
+                table: "UserPreferences");
+
+            migrationBuilder.DropColumn(
+                name: "DefaultTicketViewId",
+                table: "UserPreferences");
+        }
+    }
+}
@@ -304,5 +304,19 @@ public static class SeedData
             context.SystemSettings.Add(defaultSettings);
             await context.SaveChangesAsync();
         }
+
+        // Tickets created before the search text column get it built once; saving a modified
+        // ticket makes AppDbContext rebuild it
+        var ticketsWithoutSearchText = await context.Tickets
+            .Where(t => t.SearchText == string.Empty)
+            .ToListAsync();
+        if (ticketsWithoutSearchText.Count > 0)
+        {
+            foreach (var ticket in ticketsWithoutSearchText)
+            {
+                context.Entry(ticket).State = EntityState.Modified;
+            }
+            await context.SaveChangesAsync();
+        }
     }
 }
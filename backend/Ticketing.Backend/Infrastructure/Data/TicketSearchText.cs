@@ -0,0 +1,76 @@
+using System.Text;
+using Ticketing.Backend.Domain.Entities;
+
+namespace Ticketing.Backend.Infrastructure.Data;
+
+/// <summary>
+/// Builds the normalized text the ticket list search matches against. Normalize folds the spelling
+/// variants users type into one form, the same way the frontend's normalizePersian does.
+/// </summary>
+public static class TicketSearchText
+{
+    private static readonly Dictionary<char, char> ArabicToPersian = new()
+    {
+        ['ي'] = 'ی',
+        ['ى'] = 'ی',
+        ['ك'] = 'ک',
+        ['ة'] = 'ه',
+        ['أ'] = 'ا',
+        ['إ'] = 'ا',
+        ['آ'] = 'ا',
+        ['ؤ'] = 'و'
+    };
+
+    public static string Normalize(string? text)
+    {
+        if (string.IsNullOrEmpty(text))
+        {
+            return string.Empty;
+        }
+
+        var builder = new StringBuilder(text.Length);
+        foreach (var character in text)
+        {
+            // Fathe, kasre, tanvin, tashdid, sokun and the tatweel stretch character
+            if (character is >= '\u064B' and <= '\u065F' or '\u0670' or '\u0640')
+            {
+                continue;
+            }
+
+            var folded = character switch
+            {
+                >= '\u06F0' and <= '\u06F9' => (char)('0' + (character - '\u06F0')),
+                >= '\u0660' and <= '\u0669' => (char)('0' + (character - '\u0660')),
+                '\u200C' or '\u200E' or '\u200F' => ' ',
+                _ => ArabicToPersian.TryGetValue(character, out var persian) ? persian : char.ToLowerInvariant(character)
+            };
+
+            if (char.IsWhiteSpace(folded))
+            {
+                if (builder.Length > 0 && builder[^1] != ' ')
+                {
+                    builder.Append(' ');
+                }
+                continue;
+            }
+            builder.Append(folded);
+        }
+
+        return builder.ToString().TrimEnd();
+    }
+
+    /// <summary>
+    /// Ticket id, title, description, requester and assignee names as one normalized string
+    /// </summary>
+    public static string Build(Ticket ticket, string? requesterName, string? assigneeName)
+    {
+        return Normalize(string.Join(' ', new[]
+        {
+            ticket.Id.ToString(),
+            ticket.Title,
+            ticket.Description,
+            requesterName,
+            assigneeName
+        }.Where(part => !string.IsNullOrWhiteSpace(part))));
+    }
+}
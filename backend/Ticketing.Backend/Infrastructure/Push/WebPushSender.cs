@@ -0,0 +1,191 @@
+using System.Buffers.Binary;
+using System.Net;
+using System.Net.Http.Headers;
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Json;
+
+namespace Ticketing.Backend.Infrastructure.Push;
+
+/// <summary>
+/// VAPID key pair (base64url, as generated by e.g. `npx web-push generate-vapid-keys`) and the
+/// contact sent to push services. The public key is also the frontend's NEXT_PUBLIC_VAPID_PUBLIC_KEY.
+/// </summary>
+public class WebPushSettings
+{
+    public string Subject { get; set; } = "mailto:support@example.com";
+    public string PublicKey { get; set; } = string.Empty;
+    public string PrivateKey { get; set; } = string.Empty;
+
+    public bool IsConfigured => !string.IsNullOrWhiteSpace(PublicKey) && !string.IsNullOrWhiteSpace(PrivateKey);
+}
+
+public enum WebPushResult
+{
+    Sent,
+    /// <summary>
+    /// The push service no longer knows the subscription; it should be deleted
+    /// </summary>
+    Expired,
+    Failed
+}
+
+public interface IWebPushSender
+{
+    Task<WebPushResult> SendAsync(string endpoint, string p256dh, string auth, string payload);
+}
+
+/// <summary>
+/// Sends Web Push messages: the payload is encrypted for the subscription (RFC 8291, aes128gcm)
+/// and the request is signed with the VAPID key (RFC 8292)
+/// </summary>
+public class WebPushSender : IWebPushSender
+{
+    // How long the push service keeps an undelivered message
+    private const int TimeToLiveSeconds = 24 * 60 * 60;
+    private const int RecordSize = 4096;
+
+    private readonly HttpClient _httpClient;
+    private readonly WebPushSettings _settings;
+    private readonly ILogger<WebPushSender> _logger;
+
+    public WebPushSender(HttpClient httpClient, WebPushSettings settings, ILogger<WebPushSender> logger)
+    {
+        _httpClient = httpClient;
+        _settings = settings;
+        _logger = logger;
+    }
+
+    public async Task<WebPushResult> SendAsync(string endpoint, string p256dh, string auth, string payload)
+    {
+        if (!_settings.IsConfigured)
+        {
+            return WebPushResult.Failed;
+        }
+
+        byte[] body;
+        try
+        {
+            body = Encrypt(Encoding.UTF8.GetBytes(payload), Base64UrlDecode(p256dh), Base64UrlDecode(auth));
+        }
+        catch (Exception ex) when (ex is FormatException or CryptographicException or ArgumentException)
+        {
+            // Keys that cannot be used now never will be
+            _logger.LogWarning(ex, "Push subscription keys are invalid");
+            return WebPushResult.Expired;
+        }
+
+        using var request = new HttpRequestMessage(HttpMethod.Post, endpoint)
+        {
+            Content = new ByteArrayContent(body)
+        };
+        request.Content.Headers.ContentType = new MediaTypeHeaderValue("application/octet-stream");
+        request.Content.Headers.ContentEncoding.Add("aes128gcm");
+        request.Headers.Add("TTL", TimeToLiveSeconds.ToString());
+        request.Headers.TryAddWithoutValidation("Authorization", $"vapid t={CreateVapidToken(new Uri(endpoint))}, k={_settings.PublicKey}");
+
+        try
+        {
+            using var response = await _httpClient.SendAsync(request);
+            if (response.IsSuccessStatusCode)
+            {
+                return WebPushResult.Sent;
+            }
+            if (response.StatusCode is HttpStatusCode.NotFound or HttpStatusCode.Gone)
+            {
+                return WebPushResult.Expired;
+            }
+
+            _logger.LogWarning("Push service {Host} rejected a message with {StatusCode}", request.RequestUri!.Host, (int)response.StatusCode);
+            return WebPushResult.Failed;
+        }
+        catch (Exception ex) when (ex is HttpRequestException or TaskCanceledException)
+        {
+            _logger.LogWarning(ex, "Push service {Host} could not be reached", request.RequestUri!.Host);
+            return WebPushResult.Failed;
+        }
+    }
+
+    /// <summary>
+    /// One aes128gcm record: salt, record size and the sender's public key, then the ciphertext
+    /// </summary>
+    private static byte[] Encrypt(byte[] plaintext, byte[] userAgentPublicKey, byte[] authSecret)
+    {
+        using var senderKey = ECDiffieHellman.Create(ECCurve.NamedCurves.nistP256);
+        var senderParameters = senderKey.ExportParameters(false);
+        var senderPublicKey = new byte[65];
+        senderPublicKey[0] = 0x04;
+        senderParameters.Q.X!.CopyTo(senderPublicKey, 1);
+        senderParameters.Q.Y!.CopyTo(senderPublicKey, 33);
+
+        using var userAgentKey = ECDiffieHellman.Create(new ECParameters
+        {
+            Curve = ECCurve.NamedCurves.nistP256,
+            Q = new ECPoint { X = userAgentPublicKey[1..33], Y = userAgentPublicKey[33..65] }
+        });
+        var sharedSecret = senderKey.DeriveRawSecretAgreement(userAgentKey.PublicKey);
+
+        var keyInfo = Encoding.ASCII.GetBytes("WebPush: info\0").Concat(userAgentPublicKey).Concat(senderPublicKey).ToArray();
+        var inputKey = HKDF.DeriveKey(HashAlgorithmName.SHA256, sharedSecret, 32, authSecret, keyInfo);
+
+        var salt = RandomNumberGenerator.GetBytes(16);
+        var contentKey = HKDF.DeriveKey(HashAlgorithmName.SHA256, inputKey, 16, salt, Encoding.ASCII.GetBytes("Content-Encoding: aes128gcm\0"));
+        var nonce = HKDF.DeriveKey(HashAlgorithmName.SHA256, inputKey, 12, salt, Encoding.ASCII.GetBytes("Content-Encoding: nonce\0"));
+
+        // A single record ends with the 0x02 delimiter and carries no padding
+        var record = new byte[plaintext.Length + 1];
+        plaintext.CopyTo(record, 0);
+        record[^1] = 0x02;
+
+        var ciphertext = new byte[record.Length];
+        var tag = new byte[16];
+        using (var aes = new AesGcm(contentKey, tag.Length))
+        {
+            aes.Encrypt(nonce, record, ciphertext, tag);
+        }
+
+        var header = new byte[16 + 4 + 1 + senderPublicKey.Length];
+        salt.CopyTo(header, 0);
+        BinaryPrimitives.WriteUInt32BigEndian(header.AsSpan(16), RecordSize);
+        header[20] = (byte)senderPublicKey.Length;
+        senderPublicKey.CopyTo(header, 21);
+
+        return header.Concat(ciphertext).Concat(tag).ToArray();
+    }
+
+    /// <summary>
+    /// ES256 JWT for the push service's origin, valid for 12 hours
+    /// </summary>
+    private string CreateVapidToken(Uri endpoint)
+    {
+        var header = Base64UrlEncode(JsonSerializer.SerializeToUtf8Bytes(new { typ = "JWT", alg = "ES256" }));
+        var claims = Base64UrlEncode(JsonSerializer.SerializeToUtf8Bytes(new
+        {
+            aud = endpoint.GetLeftPart(UriPartial.Authority),
+            exp = DateTimeOffset.UtcNow.AddHours(12).ToUnixTimeSeconds(),
+            sub = _settings.Subject
+        }));
+
+        var publicKey = Base64UrlDecode(_settings.PublicKey);
+        using var signingKey = ECDsa.Create(new ECParameters
+        {
+            Curve = ECCurve.NamedCurves.nistP256,
+            D = Base64UrlDecode(_settings.PrivateKey),
+            Q = new ECPoint { X = publicKey[1..33], Y = publicKey[33..65] }
+        });
+        var signature = signingKey.SignData(Encoding.ASCII.GetBytes($"{header}.{claims}"), HashAlgorithmName.SHA256);
+
+        return $"{header}.{claims}.{Base64UrlEncode(signature)}";
+    }
+
+    private static string Base64UrlEncode(byte[] value)
+    {
+        return Convert.ToBase64String(value).TrimEnd('=').Replace('+', '-').Replace('/', '_');
+    }
+
+    private static byte[] Base64UrlDecode(string value)
+    {
+        var base64 = value.Replace('-', '+').Replace('_', '/');
+        return Convert.FromBase64String(base64.PadRight(base64.Length + (4 - base64.Length % 4) % 4, '='));
+    }
+}
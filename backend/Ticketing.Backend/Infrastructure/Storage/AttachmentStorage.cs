@@ -0,0 +1,58 @@
+namespace Ticketing.Backend.Infrastructure.Storage;
+
+public interface IAttachmentStorage
+{
+    /// <summary>
+    /// Store the content and return the name to read it back with
+    /// </summary>
+    Task<string> SaveAsync(Stream content, string extension);
+    Stream? OpenRead(string storedFileName);
+    void Delete(string storedFileName);
+}
+
+/// <summary>
+/// Keeps attachment files on the local disk, under App_Data/attachments unless
+/// Attachments:StoragePath says otherwise
+/// </summary>
+public class LocalAttachmentStorage : IAttachmentStorage
+{
+    private readonly string _rootPath;
+
+    public LocalAttachmentStorage(IConfiguration configuration, IWebHostEnvironment environment)
+    {
+        var configuredPath = configuration["Attachments:StoragePath"];
+        _rootPath = string.IsNullOrWhiteSpace(configuredPath)
+            ? Path.Combine(environment.ContentRootPath, "App_Data", "attachments")
+            : Path.Combine(environment.ContentRootPath, configuredPath);
+        Directory.CreateDirectory(_rootPath);
+    }
+
+    public async Task<string> SaveAsync(Stream content, string extension)
+    {
+        // Never trust the uploaded name on disk; the original name only lives in the database
+        var storedFileName = $"{Guid.NewGuid():N}{extension}";
+        await using var file = File.Create(Path.Combine(_rootPath, storedFileName));
+        await content.CopyToAsync(file);
+        return storedFileName;
+    }
+
+    public Stream? OpenRead(string storedFileName)
+    {
+        var path = ResolvePath(storedFileName);
+        return File.Exists(path) ? File.OpenRead(path) : null;
+    }
+
+    public void Delete(string storedFileName)
+    {
+        var path = ResolvePath(storedFileName);
+        if (File.Exists(path))
+        {
+            File.Delete(path);
+        }
+    }
+
+    private string ResolvePath(string storedFileName)
+    {
+        return Path.Combine(_rootPath, Path.GetFileName(storedFileName));
+    }
+}
@@ -10,6 +10,8 @@ using Ticketing.Backend.Application.Services;
 using Ticketing.Backend.Domain.Entities;
 using Ticketing.Backend.Infrastructure.Auth;
 using Ticketing.Backend.Infrastructure.Data;
+using Ticketing.Backend.Infrastructure.Push;
+using Ticketing.Backend.Infrastructure.Storage;
 
 var builder = WebApplication.CreateBuilder(args);
 
@@ -28,6 +30,14 @@ if (string.IsNullOrWhiteSpace(jwtSettings.Secret))
 
 builder.Services.AddSingleton(jwtSettings);
 
+// =======================
+// Web Push (VAPID)
+// =======================
+// Without a key pair the server stores subscriptions but sends nothing
+var webPushSettings = new WebPushSettings();
+builder.Configuration.GetSection("WebPush").Bind(webPushSettings);
+builder.Services.AddSingleton(webPushSettings);
+
 // =======================
 // DbContext (SQLite) - DETERMINISTIC PATH
 // =======================
@@ -101,6 +111,19 @@ builder.Services.AddScoped<ISystemSettingsService, SystemSettingsService>();
 builder.Services.AddScoped<IUserPreferencesService, UserPreferencesService>();
 builder.Services.AddScoped<ISmartAssignmentService, SmartAssignmentService>();
 builder.Services.AddScoped<ITechnicianService, TechnicianService>();
+builder.Services.AddScoped<ISurveyService, SurveyService>();
+builder.Services.AddScoped<ITicketWatcherService, TicketWatcherService>();
+builder.Services.AddScoped<ITicketLinkService, TicketLinkService>();
+builder.Services.AddScoped<ITicketBulkService, TicketBulkService>();
+builder.Services.AddScoped<ITicketActivityService, TicketActivityService>();
+builder.Services.AddScoped<IWorklogService, WorklogService>();
+builder.Services.AddScoped<ISavedTicketViewService, SavedTicketViewService>();
+builder.Services.AddScoped<ICannedResponseService, CannedResponseService>();
+builder.Services.AddSingleton<IAttachmentStorage, LocalAttachmentStorage>();
+builder.Services.AddScoped<IAttachmentService, AttachmentService>();
+builder.Services.AddSingleton<ITicketEventBroadcaster, TicketEventBroadcaster>();
+builder.Services.AddHttpClient<IWebPushSender, WebPushSender>();
+builder.Services.AddScoped<IPushNotificationService, PushNotificationService>();
 
 // =======================
 // Authentication / JWT
@@ -123,6 +146,21 @@ builder.Services.AddAuthentication(options =>
         IssuerSigningKey = new SymmetricSecurityKey(
             Encoding.UTF8.GetBytes(jwtSettings.Secret))
     };
+
+    // EventSource and browser WebSockets cannot set an Authorization header, so the realtime
+    // channel takes the token from the access_token query parameter instead
+    options.Events = new JwtBearerEvents
+    {
+        OnMessageReceived = context =>
+        {
+            var accessToken = context.Request.Query["access_token"];
+            if (!string.IsNullOrEmpty(accessToken) && context.HttpContext.Request.Path.StartsWithSegments("/api/realtime"))
+            {
+                context.Token = accessToken;
+            }
+            return Task.CompletedTask;
+        }
+    };
 });
 
 builder.Services.AddAuthorization();
@@ -217,6 +255,7 @@ using (var scope = app.Services.CreateScope())
 // Middleware pipeline
 // =======================
 app.UseCors("Frontend");
+app.UseWebSockets();
 
 // Always enable Swagger
 app.UseSwagger();
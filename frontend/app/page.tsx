@@ -1,20 +1,26 @@
 ﻿"use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import { useRouter } from "next/navigation";
 import {
+  Clock,
   FolderTree,
   LayoutDashboard,
   ListChecks,
+  MessageSquareText,
   Settings2,
+  Star,
   Ticket as TicketIcon,
   UserPlus,
 } from "lucide-react";
 
 import { apiRequest } from "@/lib/api-client";
 import type {
+  ApiBulkTicketUpdateResult,
   ApiCategoryResponse,
-  ApiTicketMessageDto,
+  ApiTicketCreateRequest,
+  ApiTicketMessageCreateRequest,
+  ApiTicketRealtimeEvent,
   ApiTicketResponse,
   ApiUserDto,
 } from "@/lib/api-types";
@@ -24,6 +30,18 @@ import {
   mapUiPriorityToApi,
   mapUiStatusToApi,
 } from "@/lib/ticket-mappers";
+import {
+  addTicketMessage,
+  DEFAULT_TICKET_QUERY,
+  mergeTickets,
+  reopenTicket,
+  type TicketQuery,
+} from "@/lib/tickets-api";
+import { ticketCache, type TicketListEndpoint } from "@/lib/ticket-cache";
+import { getTicketLinks } from "@/lib/ticket-links-api";
+import { getOpenLinkedTicketIds } from "@/lib/ticket-links";
+import { getSurveyResponses } from "@/lib/csat-api";
+import { getTechnicianRatings } from "@/lib/csat";
 import {
   buildTechnicianProfile,
   type TechnicianProfile,
@@ -31,6 +49,7 @@ import {
 import { ClientDashboard } from "@/components/client-dashboard";
 import { TechnicianDashboard } from "@/components/technician-dashboard";
 import { AdminDashboard } from "@/components/admin-dashboard";
+import { WatchingTickets } from "@/components/watching-tickets";
 import {
   DashboardShell,
   type DashboardNavItem,
@@ -41,16 +60,51 @@ import { categoryService } from "@/services/CategoryService";
 import type { CategoriesData } from "@/services/categories-types";
 import type { Ticket, TicketStatus } from "@/types";
 import { toast } from "@/hooks/use-toast";
+import { useTicketRealtime } from "@/hooks/use-ticket-realtime";
+import { useDesktopNotifications } from "@/hooks/use-desktop-notifications";
 
 export default function Home() {
   const { user, token, isLoading } = useAuth();
   const router = useRouter();
 
-  const [tickets, setTickets] = useState<Ticket[]>([]);
   const [technicians, setTechnicians] = useState<TechnicianProfile[]>([]);
   const { categories: categoriesData, save: saveCategories } = useCategories();
   const categoriesRef = useRef<CategoriesData>(categoriesData);
   const [activeView, setActiveView] = useState<string>("");
+  const [ticketQuery, setTicketQuery] = useState<TicketQuery>(DEFAULT_TICKET_QUERY);
+  // Query whose results are on screen; lags ticketQuery until the new page has loaded
+  const [displayedQuery, setDisplayedQuery] = useState<TicketQuery | null>(null);
+
+  // Use technician-specific endpoint for engineers
+  const ticketEndpoint: TicketListEndpoint =
+    user?.role === "engineer" ? "/api/technician/tickets" : "/api/tickets";
+
+  const getTicketPageSnapshot = useCallback(
+    () => (displayedQuery ? ticketCache.peekList(ticketEndpoint, displayedQuery)?.data ?? null : null),
+    [ticketEndpoint, displayedQuery]
+  );
+  const ticketPage = useSyncExternalStore(ticketCache.subscribe, getTicketPageSnapshot, getTicketPageSnapshot);
+  const ticketThreads = useSyncExternalStore(
+    ticketCache.subscribe,
+    ticketCache.getThreadsSnapshot,
+    ticketCache.getThreadsSnapshot
+  );
+
+  const tickets = useMemo<Ticket[]>(
+    () =>
+      ticketPage?.items.map((apiTicket) =>
+        mapApiTicketToUi(
+          apiTicket,
+          categoriesData,
+          // Messages are fetched lazily in handleTicketOpen; clients never see internal notes
+          (ticketThreads[apiTicket.id] ?? [])
+            .filter((message) => user?.role !== "client" || !message.isInternal)
+            .map(mapApiMessageToResponse)
+        )
+      ) ?? [],
+    [ticketPage, ticketThreads, categoriesData, user?.role]
+  );
+  const ticketTotal = ticketPage?.totalCount ?? 0;
 
   const getDefaultViewForRole = (role: "client" | "engineer" | "admin") => {
     switch (role) {
@@ -63,88 +117,65 @@ export default function Home() {
     }
   };
 
-  const categoriesReady = useMemo(
-    () =>
-      Object.values(categoriesData).some(
-        (cat) => typeof cat.backendId !== "undefined"
-      ),
-    [categoriesData]
-  );
-
   useEffect(() => {
     categoriesRef.current = categoriesData;
   }, [categoriesData]);
 
-  const loadTickets = async (
-    authToken: string,
-    categorySnapshot: CategoriesData,
-    userRole?: string
-  ): Promise<Ticket[]> => {
-    try {
-      // Use technician-specific endpoint for engineers
-      const endpoint = userRole === "engineer" ? "/api/technician/tickets" : "/api/tickets";
-      const apiTickets = await apiRequest<ApiTicketResponse[]>(endpoint, {
-        token: authToken,
-      });
-
-      const mapped = await Promise.all(
-        apiTickets.map(async (apiTicket) => {
-          const messages = await apiRequest<ApiTicketMessageDto[]>(
-            `/api/tickets/${apiTicket.id}/messages`,
-            {
-              token: authToken,
-            }
-          );
+  // Bumped per list request so a slow response never replaces the page of a newer query
+  const ticketRequestRef = useRef(0);
 
-          return mapApiTicketToUi(
-            apiTicket,
-            categorySnapshot,
-            messages.map(mapApiMessageToResponse)
-          );
-        })
-      );
-
-      setTickets(mapped);
-      return mapped;
-    } catch (error) {
-      console.error("Failed to load tickets", error);
-      toast({
-        title: "بارگذاری تیکت‌ها ناموفق بود",
-        description: "اتصال یا سرور بررسی شود.",
-        variant: "destructive",
-      });
-      setTickets([]);
-      return [];
-    }
-  };
+  /** Load a page of tickets; resolves to null when a newer request superseded this one */
+  const loadTickets = useCallback(
+    async (authToken: string, query: TicketQuery): Promise<Ticket[] | null> => {
+      const requestId = ++ticketRequestRef.current;
+      try {
+        const page = await ticketCache.loadList(authToken, ticketEndpoint, query);
+        if (requestId !== ticketRequestRef.current) return null;
+        setDisplayedQuery(query);
+        return page.items.map((apiTicket) => mapApiTicketToUi(apiTicket, categoriesRef.current));
+      } catch (error) {
+        if (requestId !== ticketRequestRef.current) return null;
+        console.error("Failed to load tickets", error);
+        toast({
+          title: "بارگذاری تیکت‌ها ناموفق بود",
+          description: "اتصال یا سرور بررسی شود.",
+          variant: "destructive",
+        });
+        return [];
+      }
+    },
+    [ticketEndpoint]
+  );
 
   const loadTechnicians = async (authToken: string, currentTickets: Ticket[] = tickets) => {
     try {
-      const { getAllTechnicians } = await import("@/lib/technicians-api");
-      const apiTechnicians = await getAllTechnicians(authToken);
-      
-      // Calculate active tickets for each technician
+      const { getAllTechnicians, getTechnicianProfiles } = await import("@/lib/technicians-api");
+      const [apiTechnicians, profiles, surveys] = await Promise.all([
+        getAllTechnicians(authToken),
+        // Profiles only enrich the list; technicians stay assignable with defaults if they fail
+        getTechnicianProfiles(authToken).catch((error) => {
+          console.warn("Failed to load technician profiles", error);
+          return [];
+        }),
+        getSurveyResponses(authToken).catch((error) => {
+          console.warn("Failed to load satisfaction surveys", error);
+          return [];
+        }),
+      ]);
+      const profilesById = new Map(profiles.map((profile) => [profile.technicianId, profile]));
+      const surveyRatings = getTechnicianRatings(surveys);
+
       const techniciansWithLoad = apiTechnicians
         .filter((tech) => tech.isActive) // Only show active technicians
-        .map((tech) => {
-          // Count active tickets assigned to this technician
-          const activeTicketsCount = currentTickets.filter(
-            (ticket) => ticket.assignedTo === tech.id && 
-                       (ticket.status === "open" || ticket.status === "in-progress")
-          ).length;
-          
-          return {
-            id: tech.id,
-            name: tech.fullName,
-            email: tech.email,
-            phone: tech.phone || "",
-            department: tech.department || "",
-            status: activeTicketsCount >= 5 ? ("busy" as const) : ("available" as const),
-            specialties: [],
-            rating: 5,
-            activeTickets: activeTicketsCount,
-          };
-        });
+        .map((tech) =>
+          buildTechnicianProfile(
+            tech,
+            profilesById.get(tech.id),
+            categoriesRef.current,
+            currentTickets,
+            surveyRatings.get(tech.id)
+          )
+        );
       
       setTechnicians(techniciansWithLoad);
     } catch (error) {
@@ -167,15 +198,17 @@ export default function Home() {
 
   useEffect(() => {
     if (!token || !user) {
-      setTickets([]);
+      ticketCache.clear();
+      setDisplayedQuery(null);
       setTechnicians([]);
       return;
     }
 
     // Load tickets first, then technicians (technicians need tickets to calculate load)
     const loadData = async () => {
-      const loadedTickets = await loadTickets(token, categoriesReady ? categoriesRef.current : {}, user?.role);
-      
+      const loadedTickets = await loadTickets(token, ticketQuery);
+      if (!loadedTickets) return;
+
       if (user.role === "admin") {
         await loadTechnicians(token, loadedTickets);
       } else {
@@ -184,7 +217,7 @@ export default function Home() {
     };
     
     void loadData();
-  }, [token, user, categoriesReady]);
+  }, [token, user, ticketQuery, loadTickets]);
 
   // -------- Ticket handlers (single definitions) --------
 
@@ -231,24 +264,28 @@ export default function Home() {
       return;
     }
 
+    const body: ApiTicketCreateRequest = {
+      title: draft.title,
+      description: draft.description,
+      categoryId: category.backendId,
+      subcategoryId: draft.subcategory
+        ? category.subIssues[draft.subcategory]?.backendId
+        : undefined,
+      priority: mapUiPriorityToApi(draft.priority),
+      // Files were uploaded while the form was open; the server links them to the new ticket
+      attachmentIds: draft.attachments?.map((attachment) => attachment.id) ?? [],
+    };
+
     try {
-      const created = await apiRequest<ApiTicketResponse>("/api/tickets", {
+      await apiRequest<ApiTicketResponse>("/api/tickets", {
         method: "POST",
         token,
-        body: {
-          title: draft.title,
-          description: draft.description,
-          categoryId: category.backendId,
-          subcategoryId: draft.subcategory
-            ? category.subIssues[draft.subcategory]?.backendId
-            : undefined,
-          priority: mapUiPriorityToApi(draft.priority),
-        },
+        body,
       });
 
-      const ticket = mapApiTicketToUi(created, categoriesRef.current, []);
-      setTickets((prev) => [ticket, ...prev]);
-      await refreshTickets();
+      // A new ticket shifts every page, so mark all lists stale and revalidate the visible one
+      ticketCache.invalidateLists();
+      await loadTickets(token, ticketQuery);
     } catch (error) {
       console.error("Failed to create ticket", error);
       toast({
@@ -259,9 +296,45 @@ export default function Home() {
     }
   };
 
-  const refreshTickets = async () => {
-    if (!token || !user) return;
-    await loadTickets(token, categoriesRef.current, user?.role);
+  const handleTicketQueryChange = useCallback((changes: Partial<TicketQuery>) => {
+    setTicketQuery((prev) => {
+      const next = { ...prev, ...changes };
+      // Any filter change starts again from the first page
+      if (!("page" in changes)) {
+        next.page = 1;
+      }
+      const unchanged = (Object.keys(next) as (keyof TicketQuery)[]).every(
+        (key) => JSON.stringify(next[key]) === JSON.stringify(prev[key])
+      );
+      return unchanged ? prev : next;
+    });
+  }, []);
+
+  const handleTicketOpen = async (ticketId: string) => {
+    if (!token) return;
+
+    try {
+      await ticketCache.loadMessages(token, ticketId);
+    } catch (error) {
+      console.error("Failed to load ticket messages", error);
+    }
+  };
+
+  // -------- Linked tickets --------
+
+  // Closing a ticket that open tickets still wait on needs an explicit confirmation
+  const confirmCloseWithBlockedTickets = async (ticketId: string): Promise<boolean> => {
+    if (!token) return true;
+    let blockedIds: string[] = [];
+    try {
+      blockedIds = getOpenLinkedTicketIds(await getTicketLinks(token, ticketId), ticketId, "blocks");
+    } catch (error) {
+      console.error("Failed to load linked tickets", ticketId, error);
+    }
+    if (blockedIds.length === 0) return true;
+    return confirm(
+      `تیکت ${ticketId} هنوز مانع پیشرفت تیکت‌های ${blockedIds.join("، ")} است. آیا همچنان می‌خواهید آن را ببندید؟`
+    );
   };
 
   const handleTicketUpdate = async (
@@ -277,36 +350,30 @@ export default function Home() {
       return;
     }
 
-    const payload: Record<string, unknown> = {};
 
-    if (updates.status) {
-      payload.status = mapUiStatusToApi(updates.status);
-    }
-    if (updates.priority) {
-      payload.priority = mapUiPriorityToApi(updates.priority);
-    }
-    
+    // Re-fetch only the changed ticket once the server has accepted the mutation
+    const revalidate = () =>
+      ticketCache.revalidateTicket(token, ticketId).catch((error) => {
+        console.error("Failed to revalidate ticket", ticketId, error);
+      });
+
     // Handle technician assignment separately
     if (typeof updates.assignedTo !== "undefined" && updates.assignedTo) {
+      const technicianId = updates.assignedTo;
+      const technician = technicians.find((tech) => tech.id === technicianId);
+      const assignmentPatch: Partial<ApiTicketResponse> = {
+        assignedToUserId: technicianId,
+        assignedToName: updates.assignedTechnicianName ?? technician?.name ?? null,
+        assignedToEmail: updates.assignedTechnicianEmail ?? technician?.email ?? null,
+      };
+      const rollback = ticketCache.patchTicket(ticketId, assignmentPatch);
+
       // Use the new assign-technician endpoint
       try {
         const { assignTechnicianToTicket } = await import("@/lib/technicians-api");
-        const updatedTicket = await assignTechnicianToTicket(token, ticketId, updates.assignedTo);
-        
-        // Refresh tickets list to get latest data
-        const refreshedTickets = await loadTickets(token, categoriesRef.current, user?.role);
-        
-        // Also refresh technicians to update their active ticket counts
-        if (user?.role === "admin") {
-          await loadTechnicians(token, refreshedTickets);
-        }
-
-        toast({
-          title: "تکنسین تعیین شد",
-          description: `تیکت ${ticketId} با موفقیت به تکنسین واگذار شد`,
-        });
-        return;
+        await assignTechnicianToTicket(token, ticketId, technicianId);
       } catch (error: any) {
+        rollback();
         console.error("Failed to assign technician", error);
         const errorMessage = error?.body?.message || error?.message || "لطفا مجددا تلاش کنید.";
         toast({
@@ -316,17 +383,56 @@ export default function Home() {
         });
         return;
       }
+
+      toast({
+        title: "تکنسین تعیین شد",
+        description: `تیکت ${ticketId} با موفقیت به تکنسین واگذار شد`,
+      });
+
+      await revalidate();
+
+      // Also refresh technicians to update their active ticket counts
+      if (user?.role === "admin") {
+        await loadTechnicians(
+          token,
+          tickets.map((ticket) =>
+            ticket.id === ticketId ? { ...ticket, assignedTo: technicianId } : ticket
+          )
+        );
+      }
+      return;
+    }
+
+    const payload: Record<string, unknown> = {};
+    const optimisticPatch: Partial<ApiTicketResponse> = {};
+
+    if (updates.status) {
+      payload.status = mapUiStatusToApi(updates.status);
+      optimisticPatch.status = mapUiStatusToApi(updates.status);
+    }
+    if (updates.priority) {
+      payload.priority = mapUiPriorityToApi(updates.priority);
+      optimisticPatch.priority = mapUiPriorityToApi(updates.priority);
     }
 
     if (typeof updates.assignedTo !== "undefined" && !updates.assignedTo) {
       // Unassign technician
       payload.assignedToUserId = null;
+      optimisticPatch.assignedToUserId = null;
+      optimisticPatch.assignedToName = null;
+      optimisticPatch.assignedToEmail = null;
     }
 
     if (Object.keys(payload).length === 0) {
       return;
     }
 
+    if (updates.status === "closed" && !(await confirmCloseWithBlockedTickets(ticketId))) {
+      return;
+    }
+
+    const rollback = ticketCache.patchTicket(ticketId, optimisticPatch);
+
     try {
       const updatedTicket = await apiRequest<ApiTicketResponse>(
         `/api/tickets/${ticketId}`,
@@ -337,14 +443,18 @@ export default function Home() {
         }
       );
 
-      // Refresh tickets list to get latest data
-      await refreshTickets();
-      
+      if (updatedTicket?.id) {
+        ticketCache.setTicket(updatedTicket);
+      } else {
+        await revalidate();
+      }
+
       toast({
         title: "تیکت به‌روزرسانی شد",
         description: "تغییرات با موفقیت اعمال شد",
       });
     } catch (error: any) {
+      rollback();
       console.error("Failed to update ticket", error);
       const errorMessage = error?.body?.message || error?.message || "لطفا مجددا تلاش کنید.";
       toast({
@@ -352,60 +462,254 @@ export default function Home() {
         description: errorMessage,
         variant: "destructive",
       });
+      return;
     }
   };
 
   const handleTicketResponse = async (
     ticketId: string,
     message: string,
-    status: TicketStatus
-  ) => {
+    status: TicketStatus,
+    options: { internal?: boolean } = {}
+  ): Promise<boolean> => {
+    if (!token) return false;
+
+    const internal = options.internal ?? false;
+    const statusChanged =
+      !internal && mapUiStatusToApi(status) !== ticketPage?.items.find((item) => item.id === ticketId)?.status;
+    if (statusChanged && status === "closed" && !(await confirmCloseWithBlockedTickets(ticketId))) {
+      return false;
+    }
+    // Internal notes are staff-only and leave the ticket status untouched
+    const rollback = internal
+      ? () => {}
+      : ticketCache.patchTicket(ticketId, { status: mapUiStatusToApi(status) });
+    const body: ApiTicketMessageCreateRequest = internal
+      ? { message, isInternal: true }
+      : { message, status: mapUiStatusToApi(status) };
+
+    try {
+      const created = await addTicketMessage(token, ticketId, body);
+      if (created?.id) {
+        ticketCache.appendMessage(ticketId, created);
+      }
+    } catch (error) {
+      rollback();
+      console.error("Failed to add response", error);
+      toast({
+        title: internal ? "ثبت یادداشت داخلی ناموفق بود" : "ثبت پاسخ ناموفق بود",
+        description: "لطفا مجددا تلاش کنید.",
+        variant: "destructive",
+      });
+      throw error;
+    }
+
+    try {
+      await ticketCache.revalidateTicket(token, ticketId);
+    } catch (error) {
+      console.error("Failed to revalidate ticket", ticketId, error);
+    }
+    return true;
+  };
+
+  const handleTicketReopen = async (ticketId: string, reason: string) => {
     if (!token) return;
 
+    const rollback = ticketCache.patchTicket(ticketId, { status: mapUiStatusToApi("in-progress") });
+
     try {
-      await apiRequest<ApiTicketMessageDto>(
-        `/api/tickets/${ticketId}/messages`,
-        {
-          method: "POST",
-          token,
-          body: {
-            message,
-            status: mapUiStatusToApi(status),
-          },
-        }
-      );
+      const ticket = await reopenTicket(token, ticketId, reason);
+      if (ticket?.id) {
+        ticketCache.setTicket(ticket);
+      }
+      toast({
+        title: "تیکت بازگشایی شد",
+        description: "درخواست شما دوباره برای کارشناس پشتیبانی ارسال شد.",
+      });
+    } catch (error) {
+      rollback();
+      console.error("Failed to reopen ticket", error);
+      toast({
+        title: "بازگشایی تیکت ناموفق بود",
+        description: error instanceof Error ? error.message : "لطفا مجددا تلاش کنید.",
+        variant: "destructive",
+      });
+      throw error;
+    }
 
-      const [ticketDetails, messages] = await Promise.all([
-        apiRequest<ApiTicketResponse>(`/api/tickets/${ticketId}`, { token }),
-        apiRequest<ApiTicketMessageDto[]>(`/api/tickets/${ticketId}/messages`, {
-          token,
-        }),
-      ]);
+    try {
+      await ticketCache.revalidateTicket(token, ticketId);
+    } catch (error) {
+      console.error("Failed to revalidate ticket", ticketId, error);
+    }
+  };
+
+  // Bulk operations report per ticket; write back what the server returned and refetch the rest
+  const handleTicketsBulkUpdated = async (results: ApiBulkTicketUpdateResult[]) => {
+    if (!token) return;
+
+    const refreshed = await Promise.all(
+      results
+        .filter((result) => result.success)
+        .map(async ({ ticketId, ticket }) => {
+          try {
+            const after = ticket?.id ? ticket : await ticketCache.revalidateTicket(token, ticketId);
+            if (ticket?.id) {
+              ticketCache.setTicket(ticket);
+            }
+            return after;
+          } catch (error) {
+            console.error("Failed to revalidate ticket", ticketId, error);
+            return null;
+          }
+        })
+    );
 
-      const mapped = mapApiTicketToUi(
-        ticketDetails,
-        categoriesRef.current,
-        messages.map(mapApiMessageToResponse)
+    // Assignments change the technicians' active ticket counts
+    if (user?.role === "admin") {
+      const assignments = new Map(
+        refreshed.flatMap((ticket) => (ticket ? [[ticket.id, ticket.assignedToUserId ?? null] as const] : []))
       );
-      setTickets((prev) =>
-        prev.map((ticket) => (ticket.id === ticketId ? mapped : ticket))
+      await loadTechnicians(
+        token,
+        tickets.map((ticket) =>
+          assignments.has(ticket.id) ? { ...ticket, assignedTo: assignments.get(ticket.id) } : ticket
+        )
       );
-      await refreshTickets();
+    }
+  };
+
+  const handleTicketMerge = async (sourceTicketId: string, targetTicketId: string) => {
+    if (!token) return;
+
+    const rollback = ticketCache.patchTicket(sourceTicketId, {
+      status: mapUiStatusToApi("closed"),
+      mergedIntoTicketId: targetTicketId,
+    });
+
+    try {
+      const ticket = await mergeTickets(token, sourceTicketId, targetTicketId);
+      ticketCache.setTicket(ticket);
+      toast({
+        title: "تیکت‌ها ادغام شدند",
+        description: `تیکت ${sourceTicketId} بسته شد و گفتگو در تیکت ${targetTicketId} ادامه می‌یابد.`,
+      });
     } catch (error) {
-      console.error("Failed to add response", error);
+      rollback();
+      console.error("Failed to merge tickets", error);
       toast({
-        title: "ثبت پاسخ ناموفق بود",
-        description: "لطفا مجددا تلاش کنید.",
+        title: "ادغام تیکت‌ها ناموفق بود",
+        description: error instanceof Error ? error.message : "لطفا مجددا تلاش کنید.",
         variant: "destructive",
       });
+      throw error;
     }
+
+    await Promise.all(
+      [sourceTicketId, targetTicketId].map((ticketId) =>
+        ticketCache.revalidateTicket(token, ticketId).catch((error) => {
+          console.error("Failed to revalidate ticket", ticketId, error);
+        })
+      )
+    );
   };
 
+  // -------- Realtime updates --------
+
+  const { notify: notifyDesktop } = useDesktopNotifications(user ? token : null);
+
+  const handleRealtimeEvent = (event: ApiTicketRealtimeEvent) => {
+    if (!token || !user) return;
+
+    const ownEvent = event.actorUserId === user.id;
+    const ticketTitle = event.ticket?.title ?? event.ticketId;
+
+    switch (event.type) {
+      case "ticket-created": {
+        // Position in the current page is unknown, so revalidate the list instead of inserting
+        ticketCache.invalidateLists();
+        void loadTickets(token, ticketQuery);
+        if (!ownEvent && user.role !== "client") {
+          toast({
+            title: "تیکت جدید ثبت شد",
+            description: ticketTitle,
+          });
+        }
+        break;
+      }
+      case "ticket-updated": {
+        if (event.ticket) {
+          ticketCache.setTicket(event.ticket);
+        }
+        if (!ownEvent) {
+          toast({
+            title: "تیکت به‌روزرسانی شد",
+            description: ticketTitle,
+          });
+        }
+        break;
+      }
+      case "message-added": {
+        const hiddenNote = user.role === "client" && event.message?.isInternal === true;
+        if (event.message && !hiddenNote) {
+          ticketCache.appendMessage(event.ticketId, event.message);
+        }
+        void ticketCache.revalidateTicket(token, event.ticketId).catch((error) => {
+          console.error("Failed to revalidate ticket", event.ticketId, error);
+        });
+        if (!ownEvent && !hiddenNote) {
+          const description = event.message
+            ? `${event.message.authorName}: ${event.message.message.slice(0, 80)}`
+            : ticketTitle;
+          toast({
+            title: "پاسخ جدید دریافت شد",
+            description,
+          });
+          notifyDesktop({
+            title: "پاسخ جدید دریافت شد",
+            body: description,
+            ticketId: event.ticketId,
+            tag: `ticket-${event.ticketId}`,
+          });
+        }
+        break;
+      }
+      case "ticket-assigned": {
+        if (event.ticket) {
+          ticketCache.setTicket(event.ticket);
+        }
+        const assignedToMe = event.ticket?.assignedToUserId === user.id;
+        if (assignedToMe) {
+          // The ticket was not in the technician's list before, so the list has to be refetched
+          ticketCache.invalidateLists();
+          void loadTickets(token, ticketQuery);
+        }
+        if (!ownEvent && (assignedToMe || user.role === "client")) {
+          const title = assignedToMe ? "تیکت جدید به شما واگذار شد" : "کارشناس به تیکت شما تعیین شد";
+          toast({
+            title,
+            description: ticketTitle,
+          });
+          notifyDesktop({
+            title,
+            body: ticketTitle,
+            ticketId: event.ticketId,
+            tag: `ticket-${event.ticketId}`,
+          });
+        }
+        break;
+      }
+    }
+  };
+
+  useTicketRealtime(user ? token : null, handleRealtimeEvent);
+
   // -------- Active view handling --------
 
   useEffect(() => {
     if (!user) {
       setActiveView("");
+      setTicketQuery(DEFAULT_TICKET_QUERY);
       return;
     }
 
@@ -417,6 +721,12 @@ export default function Home() {
     });
   }, [user]);
 
+  const handleTechniciansChange = () => {
+    if (token) {
+      void loadTechnicians(token);
+    }
+  };
+
   const handleCategoryUpdate = async (updatedCategories: CategoriesData) => {
     let nextCategories: CategoriesData = { ...updatedCategories };
 
@@ -477,7 +787,7 @@ export default function Home() {
               id: "client-tickets-list",
               title: "همه درخواست‌ها",
               target: "client.tickets",
-              badge: userTickets.length,
+              badge: ticketTotal,
             },
             {
               id: "client-tickets-create",
@@ -485,6 +795,11 @@ export default function Home() {
               target: "client.create",
               badge: newTicketCount > 0 ? "+" : undefined,
             },
+            {
+              id: "client-tickets-watching",
+              title: "رونوشت‌ها و تحت نظر",
+              target: "client.watching",
+            },
           ],
         },
       ];
@@ -517,7 +832,7 @@ export default function Home() {
               id: "engineer-assigned",
               title: "تیکت‌های من",
               target: "engineer.assigned",
-              badge: technicianTickets.length,
+              badge: ticketTotal,
             },
             {
               id: "engineer-progress",
@@ -531,6 +846,11 @@ export default function Home() {
               target: "engineer.history",
               badge: closedCount,
             },
+            {
+              id: "engineer-watching",
+              title: "تیکت‌های تحت نظر",
+              target: "engineer.watching",
+            },
           ],
         },
       ];
@@ -556,7 +876,7 @@ export default function Home() {
             id: "admin-tickets-all",
             title: "همه تیکت‌ها",
             target: "admin.tickets",
-            badge: tickets.length,
+            badge: ticketTotal,
           },
           {
             id: "admin-assignment",
@@ -564,6 +884,11 @@ export default function Home() {
             target: "admin.assignment",
             badge: openTicketsCount,
           },
+          {
+            id: "admin-watching",
+            title: "تیکت‌های تحت نظر",
+            target: "admin.watching",
+          },
         ],
       },
       {
@@ -579,6 +904,24 @@ export default function Home() {
           },
         ],
       },
+      {
+        id: "admin-canned-responses",
+        title: "پاسخ‌های آماده",
+        icon: MessageSquareText,
+        target: "admin.canned-responses",
+      },
+      {
+        id: "admin-csat",
+        title: "رضایت مشتریان",
+        icon: Star,
+        target: "admin.csat",
+      },
+      {
+        id: "admin-worklog",
+        title: "زمان صرف‌شده",
+        icon: Clock,
+        target: "admin.worklog",
+      },
       {
         id: "admin-automation",
         title: "تنظیمات خودکار",
@@ -586,7 +929,7 @@ export default function Home() {
         target: "admin.auto-settings",
       },
     ];
-  }, [user, tickets, categoriesData]);
+  }, [user, tickets, ticketTotal, categoriesData]);
 
   // -------- Loading & unauthenticated states --------
 
@@ -616,6 +959,10 @@ export default function Home() {
   const resolvedActiveView = activeView || getDefaultViewForRole(user.role);
 
   const dashboardContent = (() => {
+    if (resolvedActiveView === `${user.role}.watching`) {
+      return <WatchingTickets categoriesData={categoriesData} />;
+    }
+
     if (user.role === "client") {
       const clientSection: "tickets" | "create" =
         resolvedActiveView === "client.create" ? "create" : "tickets";
@@ -623,7 +970,12 @@ export default function Home() {
       return (
         <ClientDashboard
           tickets={tickets}
+          ticketQuery={ticketQuery}
+          totalTickets={ticketTotal}
+          onTicketQueryChange={handleTicketQueryChange}
+          onTicketOpen={handleTicketOpen}
           onTicketCreate={handleTicketCreate}
+          onTicketReopen={handleTicketReopen}
           currentUser={user}
           categoriesData={categoriesData}
           activeSection={clientSection}
@@ -646,37 +998,13 @@ export default function Home() {
         setActiveView((prev) => (prev === next ? prev : next));
       };
 
-      // Load technician-specific tickets
-      const loadTechnicianTickets = async () => {
-        if (!token || user.role !== "engineer") return;
-        try {
-          const apiTickets = await apiRequest<ApiTicketResponse[]>("/api/technician/tickets", {
-            token,
-          });
-
-          const mapped = await Promise.all(
-            apiTickets.map(async (apiTicket) => {
-              const messages = await apiRequest<ApiTicketMessageDto[]>(
-                `/api/tickets/${apiTicket.id}/messages`,
-                { token }
-              );
-              return mapApiTicketToUi(apiTicket, categoriesRef.current, messages.map(mapApiMessageToResponse));
-            })
-          );
-          setTickets(mapped);
-        } catch (error) {
-          console.error("Failed to load technician tickets", error);
-        }
-      };
-
-      // Load technician tickets when engineer logs in
-      if (token && user.role === "engineer") {
-        loadTechnicianTickets();
-      }
-
       return (
         <TechnicianDashboard
           tickets={tickets}
+          ticketQuery={ticketQuery}
+          totalTickets={ticketTotal}
+          onTicketQueryChange={handleTicketQueryChange}
+          onTicketOpen={handleTicketOpen}
           onTicketUpdate={handleTicketUpdate}
           onTicketRespond={handleTicketResponse}
           currentUser={user}
@@ -690,11 +1018,20 @@ export default function Home() {
       | "tickets"
       | "assignment"
       | "categories"
+      | "canned-responses"
+      | "csat"
+      | "worklog"
       | "auto-settings" =
       resolvedActiveView === "admin.assignment"
         ? "assignment"
         : resolvedActiveView === "admin.categories"
         ? "categories"
+        : resolvedActiveView === "admin.canned-responses"
+        ? "canned-responses"
+        : resolvedActiveView === "admin.csat"
+        ? "csat"
+        : resolvedActiveView === "admin.worklog"
+        ? "worklog"
         : resolvedActiveView === "admin.auto-settings"
         ? "auto-settings"
         : "tickets";
@@ -702,10 +1039,17 @@ export default function Home() {
     return (
       <AdminDashboard
         tickets={tickets}
+        ticketQuery={ticketQuery}
+        totalTickets={ticketTotal}
+        onTicketQueryChange={handleTicketQueryChange}
+        onTicketOpen={handleTicketOpen}
         onTicketUpdate={handleTicketUpdate}
+        onTicketMerge={handleTicketMerge}
+        onTicketsBulkUpdated={handleTicketsBulkUpdated}
         technicians={technicians}
         categoriesData={categoriesData}
         onCategoryUpdate={handleCategoryUpdate}
+        onTechniciansChange={handleTechniciansChange}
         activeSection={adminSection}
       />
     );
@@ -724,6 +1068,8 @@ export default function Home() {
       navItems={navItems}
       activeItem={resolvedActiveView}
       onSelect={setActiveView}
+      tickets={tickets}
+      onTicketUpdate={handleTicketUpdate}
     >
       {dashboardContent}
     </DashboardShell>
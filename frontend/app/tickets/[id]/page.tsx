@@ -4,19 +4,30 @@ import { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useAuth } from "@/lib/auth-context";
 import { apiRequest } from "@/lib/api-client";
-import type { ApiTicketResponse, ApiTicketMessageDto } from "@/lib/api-types";
+import type { ApiTicketResponse, ApiTicketMessageDto, ApiTicketActivityDto } from "@/lib/api-types";
 import { mapApiTicketToUi, mapApiMessageToResponse } from "@/lib/ticket-mappers";
+import { getTicketActivity } from "@/lib/ticket-activity-api";
 import { useCategories } from "@/services/useCategories";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { ArrowRight, Calendar, Hash, User, Flag, MessageSquare } from "lucide-react";
+import { TicketAttachments } from "@/components/ticket-attachments";
+import { TicketActivityTimeline } from "@/components/ticket-activity-timeline";
+import { TicketLinksPanel } from "@/components/ticket-links-panel";
+import { TicketWatchersPanel } from "@/components/ticket-watchers-panel";
+import { TicketWorklog } from "@/components/ticket-worklog";
+import { CsatSurveyForm, StarRating } from "@/components/csat-survey-form";
+import { useTicketSurveys } from "@/hooks/use-ticket-surveys";
+import { useWorkflowSettings } from "@/hooks/use-workflow-settings";
+import { REOPENABLE_STATUSES } from "@/lib/ticket-workflow";
+import { ArrowRight, Calendar, Hash, User, Flag, Star } from "lucide-react";
 import type { Ticket } from "@/types";
 
 const statusLabels: Record<string, string> = {
   open: "باز",
   "in-progress": "در حال انجام",
+  "waiting-for-client": "در انتظار پاسخ مشتری",
   resolved: "حل شده",
   closed: "بسته",
 };
@@ -24,6 +35,7 @@ const statusLabels: Record<string, string> = {
 const statusColors: Record<string, string> = {
   open: "bg-rose-100 text-rose-700 border border-rose-200",
   "in-progress": "bg-amber-100 text-amber-700 border border-amber-200",
+  "waiting-for-client": "bg-sky-100 text-sky-700 border border-sky-200",
   resolved: "bg-emerald-100 text-emerald-700 border border-emerald-200",
   closed: "bg-slate-100 text-slate-700 border border-slate-200",
 };
@@ -41,8 +53,11 @@ export default function TicketDetailPage() {
   const { token, user } = useAuth();
   const { categories } = useCategories();
   const [ticket, setTicket] = useState<Ticket | null>(null);
+  const [activity, setActivity] = useState<ApiTicketActivityDto[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const workflowSettings = useWorkflowSettings();
+  const { surveys, loading: surveysLoading, addSurvey } = useTicketSurveys();
 
   const ticketId = params.id as string;
 
@@ -55,13 +70,20 @@ export default function TicketDetailPage() {
 
     const loadTicket = async () => {
       try {
-        const [ticketDetails, messages] = await Promise.all([
+        const [ticketDetails, messages, history] = await Promise.all([
           apiRequest<ApiTicketResponse>(`/api/tickets/${ticketId}`, { token }),
           apiRequest<ApiTicketMessageDto[]>(`/api/tickets/${ticketId}/messages`, { token }),
+          // The history is secondary; a failure should not hide the ticket itself
+          getTicketActivity(token, ticketId).catch((activityError) => {
+            console.error("Failed to load ticket activity:", activityError);
+            return [];
+          }),
         ]);
 
-        const mapped = mapApiTicketToUi(ticketDetails, categories, messages.map(mapApiMessageToResponse));
+        const visibleMessages = messages.filter((message) => user?.role !== "client" || !message.isInternal);
+        const mapped = mapApiTicketToUi(ticketDetails, categories, visibleMessages.map(mapApiMessageToResponse));
         setTicket(mapped);
+        setActivity(history);
       } catch (err: any) {
         console.error("Failed to load ticket:", err);
         setError(err?.message || "خطا در بارگذاری تیکت");
@@ -71,7 +93,7 @@ export default function TicketDetailPage() {
     };
 
     loadTicket();
-  }, [token, ticketId, categories]);
+  }, [token, ticketId, categories, user?.role]);
 
   if (loading) {
     return (
@@ -95,6 +117,8 @@ export default function TicketDetailPage() {
     );
   }
 
+  const submittedSurvey = surveys.find((survey) => survey.ticketId === ticket.id);
+
   return (
     <div className="min-h-screen bg-background p-6" dir="rtl">
       <div className="max-w-4xl mx-auto space-y-6">
@@ -156,36 +180,58 @@ export default function TicketDetailPage() {
               </div>
             </div>
 
-            {ticket.messages && ticket.messages.length > 0 && (
+            <Separator />
+
+            <TicketWatchersPanel ticketId={ticket.id} />
+
+            <Separator />
+
+            <TicketLinksPanel ticketId={ticket.id} canManage={user?.role === "engineer" || user?.role === "admin"} />
+
+            <Separator />
+
+            {user && user.role !== "client" && (
               <>
+                <TicketWorklog ticket={ticket} canLog={user.role === "engineer" && ticket.assignedTo === user.id} />
+
                 <Separator />
-                <div>
-                  <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
-                    <MessageSquare className="h-5 w-5" />
-                    پیام‌ها ({ticket.messages.length})
-                  </h3>
-                  <div className="space-y-4">
-                    {ticket.messages.map((message) => (
-                      <Card key={message.id}>
-                        <CardContent className="pt-6">
-                          <div className="flex items-start justify-between mb-2">
-                            <div>
-                              <p className="font-medium">{message.authorName}</p>
-                              <p className="text-xs text-muted-foreground">
-                                {new Date(message.createdAt).toLocaleString("fa-IR")}
-                              </p>
-                            </div>
-                          </div>
-                          <p className="text-sm whitespace-pre-wrap">{message.message}</p>
-                        </CardContent>
-                      </Card>
-                    ))}
-                  </div>
-                </div>
               </>
             )}
+
+            <TicketActivityTimeline responses={ticket.responses ?? []} activity={activity} />
           </CardContent>
         </Card>
+
+        {user?.role === "client" &&
+          workflowSettings.csatEnabled &&
+          REOPENABLE_STATUSES.includes(ticket.status) &&
+          !surveysLoading && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <Star className="h-5 w-5 text-yellow-500" />
+                  نظرسنجی رضایت
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {submittedSurvey ? (
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-sm text-muted-foreground">نظر شما برای این تیکت ثبت شده است.</p>
+                    <StarRating value={submittedSurvey.rating} size="sm" label="امتیاز شما" />
+                  </div>
+                ) : (
+                  <CsatSurveyForm ticket={ticket} questions={workflowSettings.csatQuestions} onSubmitted={addSurvey} />
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+        <TicketAttachments
+          ticketId={ticket.id}
+          token={token}
+          initialAttachments={ticket.attachments}
+          canUpload={!!user && ticket.status !== "closed"}
+        />
       </div>
     </div>
   );
@@ -5,30 +5,59 @@ import type React from "react"
 import { useEffect, useState } from "react"
 import type { TechnicianProfile } from "@/data/technician-profiles"
 import type { Ticket } from "@/types"
+import type { TicketQuery } from "@/lib/tickets-api"
+import type { ApiBulkTicketUpdateResult } from "@/lib/api-types"
 import { AdminTicketManagement } from "./admin-ticket-management"
 import { AdminTechnicianAssignment } from "./admin-technician-assignment"
 import { CategoryManagement } from "./category-management"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { TicketIcon, UserPlus, FolderTree, Users } from "lucide-react"
+import { TicketIcon, UserPlus, FolderTree, Users, MessageSquareText, Star, Clock } from "lucide-react"
 import { EnhancedAutoAssignment } from "./enhanced-auto-assignment"
 import { Settings } from "lucide-react"
 import { TechnicianManagement } from "./technician-management"
+import { SlaPolicySettings } from "./sla-policy-settings"
+import { CannedResponsesManagement } from "./canned-responses-management"
+import { WorkflowSettings } from "./workflow-settings"
+import { CsatReport } from "./csat-report"
+import { WorklogReport } from "./worklog-report"
 
 interface AdminDashboardProps {
   tickets: Ticket[]
+  ticketQuery?: TicketQuery
+  totalTickets?: number
+  onTicketQueryChange?: (changes: Partial<TicketQuery>) => void
+  onTicketOpen?: (ticketId: string) => void
   onTicketUpdate: (ticketId: string, updates: Partial<Ticket>) => void
+  onTicketMerge?: (sourceTicketId: string, targetTicketId: string) => Promise<void>
+  onTicketsBulkUpdated?: (results: ApiBulkTicketUpdateResult[]) => void | Promise<void>
   technicians: TechnicianProfile[]
   categoriesData: any
   onCategoryUpdate: (categories: any) => void
-  activeSection?: "tickets" | "assignment" | "categories" | "auto-settings" | "technicians"
+  onTechniciansChange?: () => void
+  activeSection?:
+    | "tickets"
+    | "assignment"
+    | "categories"
+    | "auto-settings"
+    | "technicians"
+    | "canned-responses"
+    | "csat"
+    | "worklog"
 }
 
 export const AdminDashboard: React.FC<AdminDashboardProps> = ({
   tickets,
+  ticketQuery,
+  totalTickets,
+  onTicketQueryChange,
+  onTicketOpen,
   onTicketUpdate,
+  onTicketMerge,
+  onTicketsBulkUpdated,
   technicians,
   categoriesData,
   onCategoryUpdate,
+  onTechniciansChange,
   activeSection,
 }) => {
   const [activeTab, setActiveTab] = useState("tickets")
@@ -41,7 +70,7 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
 
   return (
     <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full" dir="rtl">
-      <TabsList className="grid w-full grid-cols-5">
+      <TabsList className="grid w-full grid-cols-8">
         <TabsTrigger value="tickets" className="gap-2">
           <TicketIcon className="w-4 h-4" />
           مدیریت کامل تیکت‌ها
@@ -58,6 +87,18 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
           <FolderTree className="w-4 h-4" />
           مدیریت دسته‌بندی
         </TabsTrigger>
+        <TabsTrigger value="canned-responses" className="gap-2">
+          <MessageSquareText className="w-4 h-4" />
+          پاسخ‌های آماده
+        </TabsTrigger>
+        <TabsTrigger value="csat" className="gap-2">
+          <Star className="w-4 h-4" />
+          رضایت مشتریان
+        </TabsTrigger>
+        <TabsTrigger value="worklog" className="gap-2">
+          <Clock className="w-4 h-4" />
+          زمان صرف‌شده
+        </TabsTrigger>
         <TabsTrigger value="auto-settings" className="gap-2">
           <Settings className="w-4 h-4" />
           تنظیمات خودکار
@@ -65,23 +106,53 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
       </TabsList>
 
       <TabsContent value="tickets">
-        <AdminTicketManagement tickets={tickets} technicians={technicians} onTicketUpdate={onTicketUpdate} />
+        <AdminTicketManagement
+          tickets={tickets}
+          technicians={technicians}
+          onTicketUpdate={onTicketUpdate}
+          onTicketMerge={onTicketMerge}
+          onTicketsBulkUpdated={onTicketsBulkUpdated}
+          categoriesData={categoriesData}
+          ticketQuery={ticketQuery}
+          totalTickets={totalTickets}
+          onTicketQueryChange={onTicketQueryChange}
+          onTicketOpen={onTicketOpen}
+        />
       </TabsContent>
 
       <TabsContent value="assignment">
-        <AdminTechnicianAssignment tickets={tickets} technicians={technicians} onTicketUpdate={onTicketUpdate} />
+        <AdminTechnicianAssignment
+          tickets={tickets}
+          technicians={technicians}
+          onTicketUpdate={onTicketUpdate}
+          onTicketsBulkUpdated={onTicketsBulkUpdated}
+        />
       </TabsContent>
 
       <TabsContent value="technicians">
-        <TechnicianManagement />
+        <TechnicianManagement categoriesData={categoriesData} onTechniciansChange={onTechniciansChange} />
       </TabsContent>
 
       <TabsContent value="categories">
         <CategoryManagement categoriesData={categoriesData} onCategoryUpdate={onCategoryUpdate} />
       </TabsContent>
 
-      <TabsContent value="auto-settings">
+      <TabsContent value="canned-responses">
+        <CannedResponsesManagement categoriesData={categoriesData} />
+      </TabsContent>
+
+      <TabsContent value="csat">
+        <CsatReport tickets={tickets} />
+      </TabsContent>
+
+      <TabsContent value="worklog">
+        <WorklogReport />
+      </TabsContent>
+
+      <TabsContent value="auto-settings" className="space-y-6">
         <EnhancedAutoAssignment tickets={tickets} technicians={technicians} onTicketUpdate={onTicketUpdate} />
+        <SlaPolicySettings categoriesData={categoriesData} />
+        <WorkflowSettings />
       </TabsContent>
     </Tabs>
   )
@@ -36,160 +36,16 @@ import {
 import type { LucideIcon } from "lucide-react"
 import { AssignmentCriteriaDialog } from "./assignment-criteria-dialog"
 import type { TechnicianProfile } from "@/data/technician-profiles"
-
-const getAutomaticAssignment = (ticket: any, technicians: any[]) => {
-  const availableTechnicians = technicians.filter((tech) => tech.status === "available")
-
-  if (availableTechnicians.length === 0) {
-    const leastBusyTech = technicians
-      .filter((tech) => tech.activeTickets < 8) 
-      .sort((a, b) => a.activeTickets - b.activeTickets)[0]
-
-    return leastBusyTech || null
-  }
-
-  const scoredTechnicians = availableTechnicians.map((tech) => ({
-    ...tech,
-    score: calculateComprehensiveScore(tech, ticket),
-    matchReasons: getMatchReasons(tech, ticket),
-  }))
-
-  return scoredTechnicians.sort((a, b) => b.score - a.score)[0]
-}
-
-const calculateComprehensiveScore = (technician: any, ticket: any) => {
-  let score = 0
-  const weights = {
-    specialty: 40,
-    priority: 25,
-    rating: 20,
-    workload: 10,
-    experience: 5,
-  }
-
-  if (technician.specialties.includes(ticket.category)) {
-    score += weights.specialty
-    if (technician.specialties[0] === ticket.category) {
-      score += 10
-    }
-  } else {
-    score -= 15
-  }
-
-  const priorityScore = getPriorityScore(technician, ticket.priority)
-  score += (priorityScore / 100) * weights.priority
-
-  score += (technician.rating / 5) * weights.rating
-
-  const workloadScore = Math.max(0, ((8 - technician.activeTickets) / 8) * 100)
-  score += (workloadScore / 100) * weights.workload
-
-  const experienceScore = Math.min(100, (technician.completedTickets / 100) * 100)
-  score += (experienceScore / 100) * weights.experience
-
-  score += getBonusScore(technician, ticket)
-
-  return Math.round(score * 10) / 10 
-}
-
-const getPriorityScore = (technician: any, priority: string) => {
-  const priorityWeights: Record<string, { rating: number; experience: number }> = {
-    urgent: { rating: 4.5, experience: 30 },
-    high: { rating: 4.0, experience: 20 },
-    medium: { rating: 3.5, experience: 10 },
-    low: { rating: 3.0, experience: 5 },
-  }
-
-  const requirement = priorityWeights[priority] || priorityWeights.medium
-  let score = 0
-
-  if (technician.rating >= requirement.rating) {
-    score += 60
-  } else {
-    score += (technician.rating / requirement.rating) * 60
-  }
-
-  if (technician.completedTickets >= requirement.experience) {
-    score += 40
-  } else {
-    score += (technician.completedTickets / requirement.experience) * 40
-  }
-
-  return Math.min(100, score)
-}
-
-const getBonusScore = (technician: any, ticket: any) => {
-  let bonus = 0
-
-  if (technician.avgResponseTime && Number.parseFloat(technician.avgResponseTime) < 2.0) {
-    bonus += 5
-  }
-
-  if (technician.rating >= 4.8 && technician.completedTickets >= 50) {
-    bonus += 8
-  }
-
-  const relatedSpecialties = getRelatedSpecialties(ticket.category)
-  const matchingSpecialties = technician.specialties.filter((s: string) => relatedSpecialties.includes(s))
-  if (matchingSpecialties.length > 1) {
-    bonus += 3
-  }
-
-  if (technician.activeTickets <= 1) {
-    bonus += 5
-  }
-
-  return bonus
-}
-
-const getRelatedSpecialties = (category: string) => {
-  const relations: Record<string, string[]> = {
-    hardware: ["hardware", "network"],
-    software: ["software", "access"],
-    network: ["network", "hardware", "security"],
-    email: ["email", "software", "security"],
-    security: ["security", "network", "access"],
-    access: ["access", "security", "software"],
-  }
-  return relations[category] || [category]
-}
-
-const getMatchReasons = (technician: any, ticket: any) => {
-  const reasons: string[] = []
-
-  if (technician.specialties.includes(ticket.category)) {
-    reasons.push(`متخصص ${getCategoryLabel(ticket)}`)
-  }
-
-  if (technician.rating >= 4.5) {
-    reasons.push("امتیاز بالا")
-  }
-
-  if (technician.activeTickets <= 2) {
-    reasons.push("بار کاری کم")
-  }
-
-  if (technician.completedTickets >= 50) {
-    reasons.push("تجربه بالا")
-  }
-
-  const priorityRequirements: Record<string, number> = {
-    urgent: 4.5,
-    high: 4.0,
-    medium: 3.5,
-    low: 3.0,
-  }
-
-  if (technician.rating >= priorityRequirements[ticket.priority]) {
-    reasons.push(`مناسب برای اولویت ${priorityLabels[ticket.priority]}`)
-  }
-
-  return reasons
-}
+import { pickBestTechnician, rankTechnicians } from "@/lib/assignment-scoring"
+import type { ApiBulkTicketUpdateResult } from "@/lib/api-types"
+import { createAssignmentPlan, createBulkPlan } from "@/lib/bulk-operations"
+import { useBulkTicketOperation } from "@/hooks/use-bulk-ticket-operation"
+import { BulkActionsBar } from "./bulk-actions-bar"
 
 const statusColors: Record<string, string> = {
   open: "bg-red-100 text-red-800 border-red-200",
   "in-progress": "bg-yellow-100 text-yellow-800 border-yellow-200",
+  "waiting-for-client": "bg-sky-100 text-sky-800 border-sky-200",
   resolved: "bg-green-100 text-green-800 border-green-200",
   closed: "bg-gray-100 text-gray-800 border-gray-200",
 }
@@ -197,6 +53,7 @@ const statusColors: Record<string, string> = {
 const statusLabels: Record<string, string> = {
   open: "باز",
   "in-progress": "در حال انجام",
+  "waiting-for-client": "در انتظار پاسخ مشتری",
   resolved: "حل شده",
   closed: "بسته",
 }
@@ -241,61 +98,20 @@ const getCategoryLabel = (ticketOrId: any) => {
   return categoryLabels[id] ?? id
 }
 
-// Mock technicians data
-const mockTechnicians = [
-  {
-    id: "tech-001",
-    name: "علی احمدی",
-    email: "ali@company.com",
-    specialties: ["network", "hardware"],
-    rating: 4.8,
-    activeTickets: 3,
-    completedTickets: 45,
-    status: "available",
-    avgResponseTime: "1.5",
-  },
-  {
-    id: "tech-002",
-    name: "سارا محمدی",
-    email: "sara@company.com",
-    specialties: ["software", "security"],
-    rating: 4.9,
-    activeTickets: 2,
-    completedTickets: 52,
-    status: "available",
-    avgResponseTime: "1.2",
-  },
-  {
-    id: "tech-003",
-    name: "حسن رضایی",
-    email: "hassan@company.com",
-    specialties: ["hardware", "email"],
-    rating: 4.7,
-    activeTickets: 4,
-    completedTickets: 38,
-    status: "busy",
-    avgResponseTime: "2.5",
-  },
-  {
-    id: "tech-004",
-    name: "مریم کریمی",
-    email: "maryam@company.com",
-    specialties: ["software", "access"],
-    rating: 4.6,
-    activeTickets: 1,
-    completedTickets: 29,
-    status: "available",
-    avgResponseTime: "1.8",
-  },
-]
-
 interface AdminTechnicianAssignmentProps {
   tickets: any[]
   technicians: TechnicianProfile[]
   onTicketUpdate: (ticketId: string, updates: any) => void
+  /** Refresh the tickets a bulk operation changed */
+  onTicketsBulkUpdated?: (results: ApiBulkTicketUpdateResult[]) => void | Promise<void>
 }
 
-export function AdminTechnicianAssignment({ tickets, technicians: technicianOptions, onTicketUpdate }: AdminTechnicianAssignmentProps) {
+export function AdminTechnicianAssignment({
+  tickets,
+  technicians: technicianOptions,
+  onTicketUpdate,
+  onTicketsBulkUpdated,
+}: AdminTechnicianAssignmentProps) {
   // Filter to only show active technicians
   const technicians = (technicianOptions && technicianOptions.length > 0 ? technicianOptions : []).filter((tech: any) => {
     // If technician has isActive property, use it; otherwise assume active
@@ -313,6 +129,7 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
   const [pendingAutoAssignments, setPendingAutoAssignments] = useState<any[]>([])
   const [criteriaDialogOpen, setCriteriaDialogOpen] = useState(false)
   const [selectedTicketForCriteria, setSelectedTicketForCriteria] = useState<any>(null)
+  const bulk = useBulkTicketOperation({ onUpdated: onTicketsBulkUpdated })
 
   const filteredTickets = tickets.filter((ticket) => {
     const matchesSearch =
@@ -380,39 +197,19 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
   }
 
   const handleBulkAssign = async (technicianId: string, technicianName: string) => {
-    try {
-      await Promise.all(
-        selectedTickets.map((ticketId) => {
-          const ticket = tickets.find((t) => t.id === ticketId)
-          return onTicketUpdate(ticketId, {
-            assignedTo: technicianId,
-            assignedTechnicianName: technicianName,
-            status: ticket?.status === "open" ? "in-progress" : ticket?.status,
-          })
-        })
-      )
-
-      toast({
-        title: "تکنسین تعیین شد",
-        description: `${selectedTickets.length} تیکت به ${technicianName} واگذار شد`,
-      })
-
-      setBulkAssignDialogOpen(false)
-      setSelectedTickets([])
-    } catch (error) {
-      console.error("Failed to bulk assign technicians", error)
-      toast({
-        title: "خطا در تعیین تکنسین",
-        description: "برخی تیکت‌ها ممکن است واگذار نشده باشند",
-        variant: "destructive",
-      })
-    }
+    setBulkAssignDialogOpen(false)
+    const plan = createBulkPlan(
+      tickets.filter((ticket) => selectedTickets.includes(ticket.id)),
+      { action: "assign", technicianId, technicianName }
+    )
+    setSelectedTickets(await bulk.run(plan))
   }
 
   const handleAutoAssign = async (ticket: any) => {
-    const recommendedTech = getAutomaticAssignment(ticket, technicians)
+    const candidate = pickBestTechnician(ticket, technicians)
 
-    if (recommendedTech) {
+    if (candidate) {
+      const recommendedTech = candidate.technician
       try {
         await onTicketUpdate(ticket.id, {
           assignedTo: recommendedTech.id,
@@ -420,11 +217,11 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
           status: ticket.status === "open" ? "in-progress" : ticket.status,
         })
 
-        const reasons = recommendedTech.matchReasons?.join("، ") || "بهترین گزینه موجود"
+        const reasons = candidate.reasons.join("، ") || "بهترین گزینه موجود"
 
         toast({
           title: "تکنسین به صورت خودکار تعیین شد",
-          description: `تیکت ${ticket.id} به ${recommendedTech.name} واگذار شد (امتیاز: ${recommendedTech.score}) - ${reasons}`,
+          description: `تیکت ${ticket.id} به ${recommendedTech.name} واگذار شد (امتیاز: ${candidate.score}) - ${reasons}`,
         })
       } catch (error) {
         console.error("Failed to auto-assign technician", error)
@@ -449,11 +246,11 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
       .filter((ticket) => ticket && !ticket.assignedTo)
 
     const assignments = unassignedTickets.map((ticket) => {
-      const recommendedTech = getAutomaticAssignment(ticket, technicians)
+      const candidate = pickBestTechnician(ticket, technicians)
       return {
         ticket,
-        technician: recommendedTech,
-        success: !!recommendedTech,
+        technician: candidate?.technician ?? null,
+        success: !!candidate,
       }
     })
 
@@ -461,55 +258,21 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
     setAutoAssignDialogOpen(true)
   }
 
-  const confirmAutoAssignments = () => {
-    let successCount = 0
-
-    pendingAutoAssignments.forEach(({ ticket, technician, success }) => {
-      if (success && technician) {
-        onTicketUpdate(ticket.id, {
-          assignedTo: technician.id,
-          assignedTechnicianName: technician.name,
-          status: ticket.status === "open" ? "in-progress" : ticket.status,
-        })
-        successCount++
-      }
-    })
-
-    toast({
-      title: "تعیین خودکار تکمیل شد",
-      description: `${successCount} تیکت به صورت خودکار واگذار شد`,
-    })
+  const confirmAutoAssignments = async () => {
+    const plan = createAssignmentPlan(
+      pendingAutoAssignments
+        .filter(({ technician, success }) => success && technician)
+        .map(({ ticket, technician }) => ({ ticket, technicianId: technician.id })),
+      "تعیین خودکار تکنسین"
+    )
 
     setAutoAssignDialogOpen(false)
     setPendingAutoAssignments([])
-    setSelectedTickets([])
+    setSelectedTickets(await bulk.run(plan))
   }
 
   const getRecommendedTechnicians = (ticket: any) => {
-    return technicians
-      .map((tech) => ({
-        ...tech,
-        score: calculateRecommendationScore(tech, ticket),
-      }))
-      .sort((a, b) => b.score - a.score)
-  }
-
-  const calculateRecommendationScore = (technician: any, ticket: any) => {
-    let score = 0
-
-    if (technician.specialties.includes(ticket.category)) {
-      score += 50
-    }
-
-    if (technician.status === "available") {
-      score += 30
-    }
-
-    score += Math.max(0, 20 - technician.activeTickets * 5)
-
-    score += technician.rating * 10
-
-    return score
+    return rankTechnicians(ticket, technicians).map(({ technician }) => technician)
   }
 
   const getStatusIcon = (status: string) => {
@@ -617,15 +380,14 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
           </div>
 
           {/* Bulk Actions */}
-          {selectedTickets.length > 0 && (
-            <div className="flex items-center gap-4 mb-4 p-3 bg-muted rounded-lg">
-              <span className="text-sm font-medium">{selectedTickets.length} تیکت انتخاب شده</span>
-              <Button size="sm" onClick={() => setBulkAssignDialogOpen(true)} className="gap-2">
-                <UserPlus className="w-4 h-4" />
-                واگذاری گروهی
-              </Button>
-            </div>
-          )}
+          <BulkActionsBar
+            bulk={bulk}
+            tickets={tickets}
+            selectedIds={selectedTickets}
+            onSelectionChange={setSelectedTickets}
+            technicians={technicians}
+            className="mb-4"
+          />
 
           {/* Tickets Table */}
           <div className="border rounded-lg overflow-hidden">
@@ -809,21 +571,21 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
                             <div className="flex items-center gap-4 text-sm text-muted-foreground">
                               <div className="flex items-center gap-1">
                                 <Star className="w-3 h-3 text-yellow-500" />
-                                <span>{technician.rating}</span>
+                                <span>{technician.rating ?? "—"}</span>
                               </div>
                               <span>تیکت‌های فعال: {technician.activeTickets}</span>
                               <span>تکمیل شده: {technician.completedTickets}</span>
                             </div>
                             <div className="flex gap-1 mt-1">
                               {technician.specialties.map((specialty) => {
-                                const SpecialtyIcon = categoryIcons[specialty]
+                                const SpecialtyIcon = categoryIcons[specialty] ?? Wrench
                                 return (
                                   <div
                                     key={specialty}
                                     className="flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-800 rounded text-xs"
                                   >
                                     <SpecialtyIcon className="w-3 h-3" />
-                                    <span>{categoryLabels[specialty]}</span>
+                                    <span>{getCategoryLabel(specialty)}</span>
                                   </div>
                                 )
                               })}
@@ -912,7 +674,7 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
                           <span className="text-xs text-muted-foreground">{getStatusLabel(technician.status)}</span>
                         </div>
                         <div className="text-sm text-muted-foreground">
-                          فعال: {technician.activeTickets} | امتیاز: {technician.rating}
+                          فعال: {technician.activeTickets} | امتیاز: {technician.rating ?? "—"}
                         </div>
                       </div>
                     </div>
@@ -971,7 +733,7 @@ export function AdminTechnicianAssignment({ tickets, technicians: technicianOpti
                             <p className="font-medium text-green-800">{technician.name}</p>
                             <div className="flex items-center gap-1 text-xs text-green-600">
                               <Star className="w-3 h-3" />
-                              <span>{technician.rating}</span>
+                              <span>{technician.rating ?? "—"}</span>
                               <span>• {technician.activeTickets} فعال</span>
                             </div>
                           </div>
@@ -13,6 +13,13 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Checkbox } from "@/components/ui/checkbox"
 import { toast } from "@/hooks/use-toast"
+import { InternalNoteBadge, internalNoteClassName } from "@/components/internal-note-badge"
+import { ReopenCountBadge } from "@/components/reopen-count-badge"
+import { MergedTicketBadge } from "@/components/merged-ticket-badge"
+import { ChildCountBadge } from "@/components/child-count-badge"
+import { BulkActionsBar } from "@/components/bulk-actions-bar"
+import { useBulkTicketOperation } from "@/hooks/use-bulk-ticket-operation"
+import type { ApiBulkTicketUpdateResult } from "@/lib/api-types"
 import {
   Search,
   Filter,
@@ -31,12 +38,14 @@ import {
   Paperclip,
   Settings,
   Mail,
+  Hourglass,
 } from "lucide-react"
 import type { LucideIcon } from "lucide-react"
 
 const statusColors: Record<string, string> = {
   open: "bg-red-100 text-red-800 border-red-200",
   "in-progress": "bg-yellow-100 text-yellow-800 border-yellow-200",
+  "waiting-for-client": "bg-sky-100 text-sky-800 border-sky-200",
   resolved: "bg-green-100 text-green-800 border-green-200",
   closed: "bg-gray-100 text-gray-800 border-gray-200",
 }
@@ -44,6 +53,7 @@ const statusColors: Record<string, string> = {
 const statusLabels: Record<string, string> = {
   open: "باز",
   "in-progress": "در حال انجام",
+  "waiting-for-client": "در انتظار پاسخ مشتری",
   resolved: "حل شده",
   closed: "بسته",
 }
@@ -51,6 +61,7 @@ const statusLabels: Record<string, string> = {
 const statusIcons: Record<string, LucideIcon> = {
   open: AlertCircle,
   "in-progress": Clock,
+  "waiting-for-client": Hourglass,
   resolved: CheckCircle,
   closed: XCircle,
 }
@@ -88,9 +99,11 @@ const getCategoryLabel = (ticketOrId: any) => {
 interface AdminTicketListProps {
   tickets: any[]
   onTicketUpdate: (ticketId: string, updates: any) => void
+  /** Refresh the tickets a bulk operation changed */
+  onTicketsBulkUpdated?: (results: ApiBulkTicketUpdateResult[]) => void | Promise<void>
 }
 
-export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProps) {
+export function AdminTicketList({ tickets, onTicketsBulkUpdated }: AdminTicketListProps) {
   const [searchQuery, setSearchQuery] = useState("")
   const [filterStatus, setFilterStatus] = useState("all")
   const [filterPriority, setFilterPriority] = useState("all")
@@ -98,6 +111,7 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
   const [selectedTickets, setSelectedTickets] = useState<string[]>([])
   const [selectedTicket, setSelectedTicket] = useState<any>(null)
   const [viewDialogOpen, setViewDialogOpen] = useState(false)
+  const bulk = useBulkTicketOperation({ onUpdated: onTicketsBulkUpdated })
 
   // Filter tickets based on search and filters
   const filteredTickets = tickets.filter((ticket) => {
@@ -136,17 +150,6 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
     }
   }
 
-  const handleBulkStatusUpdate = (newStatus: string) => {
-    selectedTickets.forEach((ticketId) => {
-      onTicketUpdate(ticketId, { status: newStatus })
-    })
-    setSelectedTickets([])
-    toast({
-      title: "به‌روزرسانی انجام شد",
-      description: `وضعیت ${selectedTickets.length} تیکت به‌روزرسانی شد`,
-    })
-  }
-
   const handlePrint = () => {
     const printContent = `
       <!DOCTYPE html>
@@ -338,6 +341,7 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
                 <SelectItem value="all">همه وضعیت‌ها</SelectItem>
                 <SelectItem value="open">باز</SelectItem>
                 <SelectItem value="in-progress">در حال انجام</SelectItem>
+                <SelectItem value="waiting-for-client">در انتظار پاسخ مشتری</SelectItem>
                 <SelectItem value="resolved">حل شده</SelectItem>
                 <SelectItem value="closed">بسته</SelectItem>
               </SelectContent>
@@ -387,37 +391,14 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
           </div>
 
           {/* Bulk Actions */}
-          {selectedTickets.length > 0 && (
-            <div className="flex items-center gap-4 mb-4 p-3 bg-muted rounded-lg">
-              <span className="text-sm font-medium font-iran">{selectedTickets.length} تیکت انتخاب شده</span>
-              <div className="flex gap-2">
-                <Button
-                  size="sm"
-                  onClick={() => handleBulkStatusUpdate("in-progress")}
-                  variant="outline"
-                  className="font-iran"
-                >
-                  در حال انجام
-                </Button>
-                <Button
-                  size="sm"
-                  onClick={() => handleBulkStatusUpdate("resolved")}
-                  variant="outline"
-                  className="font-iran"
-                >
-                  حل شده
-                </Button>
-                <Button
-                  size="sm"
-                  onClick={() => handleBulkStatusUpdate("closed")}
-                  variant="outline"
-                  className="font-iran"
-                >
-                  بسته
-                </Button>
-              </div>
-            </div>
-          )}
+          <BulkActionsBar
+            bulk={bulk}
+            tickets={tickets}
+            selectedIds={selectedTickets}
+            onSelectionChange={setSelectedTickets}
+            technicians={[]}
+            className="mb-4"
+          />
 
           {/* Tickets Table */}
           <div className="border rounded-lg overflow-hidden">
@@ -461,9 +442,14 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
                           </div>
                         </TableCell>
                         <TableCell>
-                          <Badge className={`${statusColors[ticket.status]} font-iran`}>
-                            {statusLabels[ticket.status]}
-                          </Badge>
+                          <div className="flex flex-wrap items-center gap-1">
+                            <Badge className={`${statusColors[ticket.status]} font-iran`}>
+                              {statusLabels[ticket.status]}
+                            </Badge>
+                            <ReopenCountBadge count={ticket.reopenCount} />
+                            <MergedTicketBadge targetTicketId={ticket.mergedIntoTicketId} />
+                            <ChildCountBadge count={ticket.childCount} />
+                          </div>
                         </TableCell>
                         <TableCell>
                           <Badge className={`${priorityColors[ticket.priority]} font-iran`}>
@@ -654,7 +640,10 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
                             const StatusIcon = statusIcons[response.status]
 
                             return (
-                              <div key={index} className="border rounded-lg p-4 bg-white shadow-sm">
+                              <div
+                                key={index}
+                                className={`border rounded-lg p-4 shadow-sm ${response.isInternal ? internalNoteClassName : "bg-white"}`}
+                              >
                                 <div className="flex justify-between items-start mb-3">
                                   <div className="flex items-center gap-3">
                                     <Avatar className="w-8 h-8">
@@ -668,10 +657,14 @@ export function AdminTicketList({ tickets, onTicketUpdate }: AdminTicketListProp
                                     </div>
                                   </div>
                                   <div className="text-left space-y-2">
-                                    <Badge className={`${statusColors[response.status]} font-iran text-xs`}>
-                                      <StatusIcon className="w-3 h-3 ml-1" />
-                                      {statusLabels[response.status]}
-                                    </Badge>
+                                    {response.isInternal ? (
+                                      <InternalNoteBadge />
+                                    ) : (
+                                      <Badge className={`${statusColors[response.status]} font-iran text-xs`}>
+                                        <StatusIcon className="w-3 h-3 ml-1" />
+                                        {statusLabels[response.status]}
+                                      </Badge>
+                                    )}
                                     <div className="text-xs text-muted-foreground font-iran">
                                       <div className="flex items-center gap-1 justify-end">
                                         <Calendar className="w-3 h-3" />
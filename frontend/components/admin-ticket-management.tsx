@@ -2,19 +2,52 @@
 
 import React from "react"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { useRouter } from "next/navigation"
 import type { TechnicianProfile } from "@/data/technician-profiles"
+import { pickBestTechnician, rankTechnicians } from "@/lib/assignment-scoring"
+import { ACTIVE_TICKET_STATUSES, ticketStatusLabels } from "@/lib/ticket-workflow"
+import type { Ticket } from "@/types"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Separator } from "@/components/ui/separator"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { toast } from "@/hooks/use-toast"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import { useSla } from "@/hooks/use-sla"
+import { DEFAULT_TICKET_QUERY, type TicketQuery, type TicketSortField } from "@/lib/tickets-api"
+import { useAuth } from "@/lib/auth-context"
+import type { ApiBulkTicketUpdateResult } from "@/lib/api-types"
+import { createBulkPlan } from "@/lib/bulk-operations"
+import { useBulkTicketOperation } from "@/hooks/use-bulk-ticket-operation"
+import { getFreeText, matchesSearchQuery, parseSearchQuery } from "@/lib/ticket-search"
+import { useListKeyboardNavigation } from "@/hooks/use-list-keyboard-navigation"
+import { useRegisterActiveTicket } from "@/lib/active-ticket-context"
+import { cn } from "@/lib/utils"
+import {
+  DEFAULT_TICKET_VIEW_STATE,
+  TICKET_AGE_OPTIONS,
+  TICKET_COLUMNS,
+  ticketColumnLabels,
+  ticketSortLabels,
+  viewStateFromSearchParams,
+  viewStateToSearchParams,
+  type TicketColumnId,
+  type TicketViewState,
+} from "@/lib/saved-views"
+import type { CategoriesData } from "@/services/categories-types"
 import {
   Printer,
   UserPlus,
@@ -39,13 +72,30 @@ import {
   Paperclip,
   Settings,
   Mail,
+  Hourglass,
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide,
+  Columns3,
 } from "lucide-react"
 import type { LucideIcon } from "lucide-react"
 import { TicketCalendarOverview } from "./ticket-calendar-overview"
+import { TicketPagination } from "./ticket-pagination"
+import { SlaBadge } from "./sla-badge"
+import { TicketStatusSelect } from "./ticket-status-select"
+import { InternalNoteBadge, internalNoteClassName } from "./internal-note-badge"
+import { ReopenCountBadge } from "./reopen-count-badge"
+import { MergedTicketBadge } from "./merged-ticket-badge"
+import { ChildCountBadge } from "./child-count-badge"
+import { TicketDuplicatesPanel } from "./ticket-duplicates-panel"
+import { SavedViewsBar } from "./saved-views-bar"
+import { TicketSearchInput } from "./ticket-search-input"
+import { HighlightedText } from "./highlighted-text"
+import { BulkActionsBar } from "./bulk-actions-bar"
 
 const statusColors: Record<string, string> = {
   open: "bg-red-100 text-red-800 border-red-200",
   "in-progress": "bg-yellow-100 text-yellow-800 border-yellow-200",
+  "waiting-for-client": "bg-sky-100 text-sky-800 border-sky-200",
   resolved: "bg-green-100 text-green-800 border-green-200",
   closed: "bg-gray-100 text-gray-800 border-gray-200",
 }
@@ -53,6 +103,7 @@ const statusColors: Record<string, string> = {
 const statusLabels: Record<string, string> = {
   open: "باز",
   "in-progress": "در حال انجام",
+  "waiting-for-client": "در انتظار پاسخ مشتری",
   resolved: "حل شده",
   closed: "بسته",
 }
@@ -60,6 +111,7 @@ const statusLabels: Record<string, string> = {
 const statusIcons: Record<string, LucideIcon> = {
   open: AlertCircle,
   "in-progress": Clock,
+  "waiting-for-client": Hourglass,
   resolved: CheckCircle,
   closed: XCircle,
 }
@@ -94,84 +146,58 @@ const getCategoryLabel = (ticketOrId: any) => {
   return categoryLabels[id] ?? id
 }
 
-const initialTechnicians = [
-  {
-    id: "tech-001",
-    name: "علی احمدی",
-    email: "ali@company.com",
-    specialties: ["hardware", "network"],
-    activeTickets: 3,
-    status: "available",
-    rating: 4.8,
-    completedTickets: 45,
-    avgResponseTime: "2.1 ساعت",
-    expertise: ["تعمیر سخت‌افزار", "پیکربندی شبکه", "نصب تجهیزات"],
-  },
-  {
-    id: "tech-002",
-    name: "سارا محمدی",
-    email: "sara@company.com",
-    specialties: ["software", "email"],
-    activeTickets: 2,
-    status: "available",
-    rating: 4.9,
-    completedTickets: 62,
-    avgResponseTime: "1.8 ساعت",
-    expertise: ["نصب نرم‌افزار", "پیکربندی ایمیل", "رفع مشکلات نرم‌افزاری"],
-  },
-  {
-    id: "tech-003",
-    name: "حسن رضایی",
-    email: "hassan@company.com",
-    specialties: ["security", "access"],
-    activeTickets: 1,
-    status: "available",
-    rating: 4.7,
-    completedTickets: 38,
-    avgResponseTime: "3.2 ساعت",
-    expertise: ["امنیت سایبری", "مدیریت دسترسی", "پیکربندی فایروال"],
-  },
-  {
-    id: "tech-004",
-    name: "فاطمه کریمی",
-    email: "fateme@company.com",
-    specialties: ["hardware", "software"],
-    activeTickets: 5,
-    status: "busy",
-    rating: 4.6,
-    completedTickets: 51,
-    avgResponseTime: "2.5 ساعت",
-    expertise: ["تعمیر رایانه", "نصب سیستم عامل", "بهینه‌سازی عملکرد"],
-  },
-  {
-    id: "tech-005",
-    name: "محمد نوری",
-    email: "mohammad@company.com",
-    specialties: ["network", "email", "security"],
-    activeTickets: 2,
-    status: "available",
-    rating: 4.9,
-    completedTickets: 73,
-    avgResponseTime: "1.5 ساعت",
-    expertise: ["مدیریت شبکه", "امنیت ایمیل", "پیکربندی سرور"],
-  },
-]
+/** Tickets loaded at once while the SLA filter, which only the browser can evaluate, is on */
+const SLA_FILTER_LOAD_SIZE = 1000
 
 interface AdminTicketManagementProps {
   tickets: any[]
   technicians: TechnicianProfile[]
   onTicketUpdate: (ticketId: string, updates: any) => void
+  categoriesData?: CategoriesData
+  ticketQuery?: TicketQuery
+  totalTickets?: number
+  onTicketQueryChange?: (changes: Partial<TicketQuery>) => void
+  onTicketOpen?: (ticketId: string) => void
+  /** Merge a duplicate ticket into the surviving one; enables the duplicate detector */
+  onTicketMerge?: (sourceTicketId: string, targetTicketId: string) => Promise<void>
+  /** Refresh the tickets a bulk operation changed */
+  onTicketsBulkUpdated?: (results: ApiBulkTicketUpdateResult[]) => void | Promise<void>
 }
 
-export function AdminTicketManagement({ tickets, technicians: technicianOptions, onTicketUpdate }: AdminTicketManagementProps) {
+export function AdminTicketManagement({
+  tickets,
+  technicians: technicianOptions,
+  onTicketUpdate,
+  categoriesData,
+  ticketQuery,
+  totalTickets,
+  onTicketQueryChange,
+  onTicketOpen,
+  onTicketMerge,
+  onTicketsBulkUpdated,
+}: AdminTicketManagementProps) {
+  const router = useRouter()
   const [technicians, setTechnicians] = useState(
     technicianOptions && technicianOptions.length > 0 ? technicianOptions : [],
   )
-  const [searchQuery, setSearchQuery] = useState("")
-  const [filterStatus, setFilterStatus] = useState("all")
-  const [filterPriority, setFilterPriority] = useState("all")
-  const [filterCategory, setFilterCategory] = useState("all")
-  const [filterTechnician, setFilterTechnician] = useState("all")
+  // A view in the URL (a shared link or a reload) wins over the user's default view
+  const [urlView] = useState(() =>
+    typeof window === "undefined" ? null : viewStateFromSearchParams(new URLSearchParams(window.location.search)),
+  )
+  const initialView = urlView ?? DEFAULT_TICKET_VIEW_STATE
+  const [searchQuery, setSearchQuery] = useState(initialView.search)
+  const [filterStatus, setFilterStatus] = useState(initialView.status)
+  const [filterPriority, setFilterPriority] = useState(initialView.priority)
+  const [filterCategory, setFilterCategory] = useState(initialView.category)
+  const [filterTechnician, setFilterTechnician] = useState(initialView.technician)
+  const [filterSla, setFilterSla] = useState<TicketViewState["sla"]>(initialView.sla)
+  const [filterMinAge, setFilterMinAge] = useState<number | null>(initialView.minAgeHours)
+  const [sortBy, setSortBy] = useState<TicketSortField>(initialView.sortBy)
+  const [sortDirection, setSortDirection] = useState(initialView.sortDirection)
+  const [visibleColumns, setVisibleColumns] = useState<string[]>(initialView.columns)
+  const [listPageSize, setListPageSize] = useState(ticketQuery?.pageSize ?? DEFAULT_TICKET_QUERY.pageSize)
+  const [slaPage, setSlaPage] = useState(1)
+  const slaFilterActive = filterSla !== "all"
   const [selectedTickets, setSelectedTickets] = useState<string[]>([])
   const [assignDialogOpen, setAssignDialogOpen] = useState(false)
   const [bulkAssignDialogOpen, setBulkAssignDialogOpen] = useState(false)
@@ -179,6 +205,116 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
   const [technicianFilter, setTechnicianFilter] = useState("all") 
   const [selectedTicket, setSelectedTicket] = useState<any>(null)
   const [viewDialogOpen, setViewDialogOpen] = useState(false)
+  const debouncedSearch = useDebouncedValue(searchQuery)
+  const parsedSearch = useMemo(() => parseSearchQuery(searchQuery), [searchQuery])
+  const { user } = useAuth()
+  const { evaluate: evaluateSla } = useSla()
+  const bulk = useBulkTicketOperation({ onUpdated: onTicketsBulkUpdated })
+
+  const viewState = useMemo<TicketViewState>(
+    () => ({
+      search: searchQuery,
+      status: filterStatus,
+      priority: filterPriority,
+      category: filterCategory,
+      technician: filterTechnician,
+      sla: filterSla,
+      minAgeHours: filterMinAge,
+      sortBy,
+      sortDirection,
+      columns: visibleColumns,
+    }),
+    [
+      searchQuery,
+      filterStatus,
+      filterPriority,
+      filterCategory,
+      filterTechnician,
+      filterSla,
+      filterMinAge,
+      sortBy,
+      sortDirection,
+      visibleColumns,
+    ],
+  )
+
+  const applyViewState = useCallback((state: TicketViewState) => {
+    setSearchQuery(state.search)
+    setFilterStatus(state.status)
+    setFilterPriority(state.priority)
+    setFilterCategory(state.category)
+    setFilterTechnician(state.technician)
+    setFilterSla(state.sla)
+    setFilterMinAge(state.minAgeHours)
+    setSortBy(state.sortBy)
+    setSortDirection(state.sortDirection)
+    setVisibleColumns(state.columns)
+  }, [])
+
+  // Mirror the view in the query string so reloads keep it and the link can be shared
+  useEffect(() => {
+    const query = viewStateToSearchParams(viewState).toString()
+    window.history.replaceState(null, "", query ? `?${query}` : window.location.pathname)
+  }, [viewState])
+
+  // Other dashboard sections have no ticket view, so leave them with a clean URL
+  useEffect(() => () => window.history.replaceState(null, "", window.location.pathname), [])
+
+  // Filters are applied server-side; the local filter below only narrows the current page.
+  // Only the free text goes into the ticket query, which the server searches; field
+  // clauses are matched against the loaded tickets below.
+  // SLA state only exists in the browser, so while it filters we load every matching ticket
+  // and page the filtered result here.
+  const filterCategoryId = filterCategory === "all" ? null : (categoriesData?.[filterCategory]?.backendId ?? null)
+  useEffect(() => {
+    setSlaPage(1)
+    onTicketQueryChange?.({
+      ...(slaFilterActive ? { page: 1, pageSize: SLA_FILTER_LOAD_SIZE } : { pageSize: listPageSize }),
+      search: getFreeText(parseSearchQuery(debouncedSearch)),
+      status: filterStatus === "all" ? undefined : [filterStatus as Ticket["status"]],
+      priority: filterPriority === "all" ? undefined : [filterPriority as Ticket["priority"]],
+      categoryId: filterCategoryId,
+      assignedTo: filterTechnician === "all" ? null : filterTechnician,
+      sortBy,
+      sortDirection,
+    })
+  }, [
+    onTicketQueryChange,
+    debouncedSearch,
+    filterStatus,
+    filterPriority,
+    filterCategoryId,
+    filterTechnician,
+    sortBy,
+    sortDirection,
+    slaFilterActive,
+    listPageSize,
+  ])
+
+  // Leave the shared ticket query with a normal page size for the other sections
+  const restorePageSizeRef = React.useRef<(() => void) | null>(null)
+  restorePageSizeRef.current = slaFilterActive ? () => onTicketQueryChange?.({ pageSize: listPageSize }) : null
+  useEffect(() => () => restorePageSizeRef.current?.(), [])
+
+  const isColumnVisible = (column: TicketColumnId) => visibleColumns.includes(column)
+
+  const toggleColumn = (column: TicketColumnId, visible: boolean) => {
+    // Keep the canonical column order no matter in which order columns are switched on
+    setVisibleColumns((prev) =>
+      visible
+        ? TICKET_COLUMNS.filter((item) => item === column || prev.includes(item))
+        : prev.filter((item) => item !== column),
+    )
+  }
+
+  // Keep the preview dialog in sync once lazily loaded messages arrive
+  useEffect(() => {
+    if (!selectedTicket) return
+    const fresh = tickets.find((ticket) => ticket.id === selectedTicket.id)
+    if (fresh && fresh !== selectedTicket) {
+      setSelectedTicket(fresh)
+    }
+  }, [tickets, selectedTicket])
 
   useEffect(() => {
     if (technicianOptions && technicianOptions.length > 0) {
@@ -190,25 +326,27 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
     setTechnicians((prev) =>
       prev.map((tech) => {
         const assignedTickets = tickets.filter(
-          (ticket) => ticket.assignedTo === tech.id && (ticket.status === "open" || ticket.status === "in-progress"),
+          (ticket) => ticket.assignedTo === tech.id && ACTIVE_TICKET_STATUSES.includes(ticket.status),
         )
 
+        // Off-shift technicians stay offline; otherwise availability follows their capacity
+        let status = tech.status
+        if (status !== "offline") {
+          status = assignedTickets.length >= tech.maxActiveTickets ? "busy" : "available"
+        }
+
         return {
           ...tech,
           activeTickets: assignedTickets.length,
-          status: assignedTickets.length >= 5 ? "busy" : "available",
+          status,
         }
       }),
     )
   }, [tickets])
 
   
-  const filteredTickets = tickets.filter((ticket) => {
-    const matchesSearch =
-      ticket.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      ticket.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      ticket.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      ticket.clientName.toLowerCase().includes(searchQuery.toLowerCase())
+  const matchingTickets = tickets.filter((ticket) => {
+    const matchesSearch = matchesSearchQuery(ticket, parsedSearch, { currentUserId: user?.id })
 
     const matchesStatus = filterStatus === "all" || ticket.status === filterStatus
     const matchesPriority = filterPriority === "all" || ticket.priority === filterPriority
@@ -217,31 +355,37 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
       filterTechnician === "all" ||
       (filterTechnician === "unassigned" && !ticket.assignedTo) ||
       ticket.assignedTo === filterTechnician
-
-    return matchesSearch && matchesStatus && matchesPriority && matchesCategory && matchesTechnician
+    const matchesSla = filterSla === "all" || evaluateSla(ticket).state === filterSla
+    const matchesAge =
+      filterMinAge === null || Date.now() - new Date(ticket.createdAt).getTime() >= filterMinAge * 60 * 60 * 1000
+
+    return (
+      matchesSearch &&
+      matchesStatus &&
+      matchesPriority &&
+      matchesCategory &&
+      matchesTechnician &&
+      matchesSla &&
+      matchesAge
+    )
   })
+  const filteredTickets = slaFilterActive
+    ? matchingTickets.slice((slaPage - 1) * listPageSize, slaPage * listPageSize)
+    : matchingTickets
 
   
   const handleViewTicket = (ticket: any) => {
     console.log("Opening ticket preview for:", ticket.id)
     setSelectedTicket(ticket)
     setViewDialogOpen(true)
+    onTicketOpen?.(ticket.id)
   }
 
   
   const getRecommendedTechnicians = (ticket: any) => {
-    return technicians
-      .filter((tech) => tech.specialties.includes(ticket.category))
-      .sort((a, b) => {
-        
-        if (a.status !== b.status) {
-          return a.status === "available" ? -1 : 1
-        }
-        if (a.rating !== b.rating) {
-          return b.rating - a.rating
-        }
-        return a.activeTickets - b.activeTickets
-      })
+    return rankTechnicians(ticket, technicians)
+      .filter(({ breakdown }) => breakdown.expertise > 0)
+      .map(({ technician }) => technician)
   }
 
   const getFilteredTechnicians = (ticket?: any) => {
@@ -263,13 +407,22 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
       }
       
       if (a.rating !== b.rating) {
-        return b.rating - a.rating
+        return (b.rating ?? 0) - (a.rating ?? 0)
       }
       
       return a.activeTickets - b.activeTickets
     })
   }
 
+  useRegisterActiveTicket(viewDialogOpen ? selectedTicket : null)
+
+  const { activeId: keyboardActiveId } = useListKeyboardNavigation({
+    items: filteredTickets,
+    onOpen: handleViewTicket,
+    onOpenPage: (ticket) => router.push(`/tickets/${encodeURIComponent(ticket.id)}`),
+    onToggleSelect: (ticket) => handleTicketSelect(ticket.id),
+  })
+
   const handleTicketSelect = (ticketId: string) => {
     setSelectedTickets((prev) => (prev.includes(ticketId) ? prev.filter((id) => id !== ticketId) : [...prev, ticketId]))
   }
@@ -311,35 +464,13 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
 
   const handleBulkAssign = async (technicianId: string) => {
     const technician = technicians.find((tech) => tech.id === technicianId)
-    if (technician) {
-      try {
-        // Assign all selected tickets
-        await Promise.all(
-          selectedTickets.map((ticketId) =>
-            onTicketUpdate(ticketId, {
-              assignedTo: technicianId,
-              assignedTechnicianName: technician.name,
-              status: "in-progress",
-            })
-          )
-        )
-
-        toast({
-          title: "تکنسین تعیین شد",
-          description: `${selectedTickets.length} تیکت به ${technician.name} واگذار شد`,
-        })
-
-        setSelectedTickets([])
-        setBulkAssignDialogOpen(false)
-      } catch (error) {
-        console.error("Failed to bulk assign technicians", error)
-        toast({
-          title: "خطا در تعیین تکنسین",
-          description: "برخی تیکت‌ها ممکن است واگذار نشده باشند",
-          variant: "destructive",
-        })
-      }
-    }
+    if (!technician) return
+    setBulkAssignDialogOpen(false)
+    const plan = createBulkPlan(
+      tickets.filter((ticket) => selectedTickets.includes(ticket.id)),
+      { action: "assign", technicianId, technicianName: technician.name }
+    )
+    setSelectedTickets(await bulk.run(plan))
   }
 
   const handlePrint = () => {
@@ -473,29 +604,30 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
     document.body.removeChild(link)
   }
 
-  const getAutomaticAssignment = (ticket: any, technicians: any[]) => {
-    const availableTechnicians = technicians.filter((tech) => tech.status === "available")
-
-    if (availableTechnicians.length === 0) {
-      return null
+  const handleStatusChange = async (ticket: any, status: Ticket["status"]) => {
+    if (status === ticket.status) return
+    try {
+      await onTicketUpdate(ticket.id, { status })
+      toast({
+        title: "وضعیت تیکت تغییر کرد",
+        description: `تیکت ${ticket.id} به وضعیت «${ticketStatusLabels[status]}» منتقل شد`,
+      })
+    } catch (error) {
+      console.error("Failed to change ticket status", error)
+      toast({
+        title: "خطا در تغییر وضعیت",
+        description: "لطفاً دوباره تلاش کنید",
+        variant: "destructive",
+      })
     }
-
-    const specialtyMatches = availableTechnicians.filter((tech) => tech.specialties.includes(ticket.category))
-
-    const candidateTechnicians = specialtyMatches.length > 0 ? specialtyMatches : availableTechnicians
-
-    return candidateTechnicians.sort((a, b) => {
-      if (a.rating !== b.rating) return b.rating - a.rating
-      if (a.activeTickets !== b.activeTickets) return a.activeTickets - b.activeTickets
-      return b.completedTickets - a.completedTickets
-    })[0]
   }
 
   // Handle automatic assignment for single ticket
   const handleAutoAssign = async (ticket: any) => {
-    const recommendedTech = getAutomaticAssignment(ticket, technicians)
+    const candidate = pickBestTechnician(ticket, technicians)
 
-    if (recommendedTech) {
+    if (candidate) {
+      const recommendedTech = candidate.technician
       try {
         await onTicketUpdate(ticket.id, {
           assignedTo: recommendedTech.id,
@@ -505,7 +637,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
 
         toast({
           title: "تکنسین به صورت خودکار تعیین شد",
-          description: `تیکت ${ticket.id} به ${recommendedTech.name} واگذار شد`,
+          description: `تیکت ${ticket.id} به ${recommendedTech.name} واگذار شد - ${candidate.reasons.join("، ")}`,
         })
       } catch (error) {
         console.error("Failed to auto-assign technician", error)
@@ -558,7 +690,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
           </Badge>
           <div className="flex items-center gap-1 text-xs text-muted-foreground">
             <Star className="w-3 h-3 fill-current text-yellow-500" />
-            <span className="font-iran">{technician.rating}</span>
+            <span className="font-iran">{technician.rating ?? "—"}</span>
           </div>
         </div>
       </div>
@@ -567,7 +699,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
         <div className="flex gap-1 flex-wrap">
           {technician.specialties.map((specialty: string) => (
             <Badge key={specialty} variant="outline" className="text-xs font-iran">
-              {categoryLabels[specialty]}
+              {getCategoryLabel(specialty)}
             </Badge>
           ))}
         </div>
@@ -584,13 +716,13 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
         </div>
 
         <div className="text-xs text-muted-foreground">
-          <span className="font-iran">میانگین پاسخ: {technician.avgResponseTime}</span>
+          <span className="font-iran">میانگین پاسخ: {technician.avgResponseTime ?? "—"}</span>
         </div>
 
-        {technician.expertise && (
+        {technician.certifications?.length > 0 && (
           <div className="text-xs">
-            <p className="text-muted-foreground mb-1 font-iran">تخصص‌ها:</p>
-            <p className="text-right font-iran">{technician.expertise.join("، ")}</p>
+            <p className="text-muted-foreground mb-1 font-iran">مدارک:</p>
+            <p className="text-right font-iran">{technician.certifications.join("، ")}</p>
           </div>
         )}
       </div>
@@ -600,6 +732,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
   return (
     <div className="space-y-6 font-iran" dir="rtl">
       <TicketCalendarOverview tickets={tickets} />
+      {onTicketMerge && <TicketDuplicatesPanel tickets={tickets} onMerge={onTicketMerge} onView={handleViewTicket} />}
       <Card>
         <CardHeader>
           <div className="flex justify-between items-center">
@@ -673,18 +806,62 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
           </div>
         </CardHeader>
         <CardContent>
-          {/* Filters */}
-          <div className="grid grid-cols-1 md:grid-cols-6 gap-4 mb-6">
-            <div className="relative">
-              <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-              <Input
-                placeholder="جستجو در تیکت‌ها..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pr-10 text-right font-iran"
-                dir="rtl"
-              />
+          {/* Saved views, sort and columns */}
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <SavedViewsBar state={viewState} onApply={applyViewState} applyDefaultOnLoad={urlView === null} />
+            <div className="flex items-center gap-2">
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as TicketSortField)} dir="rtl">
+                <SelectTrigger className="w-44 text-right font-iran">
+                  <SelectValue placeholder="مرتب‌سازی" />
+                </SelectTrigger>
+                <SelectContent className="font-iran">
+                  {(Object.keys(ticketSortLabels) as TicketSortField[]).map((field) => (
+                    <SelectItem key={field} value={field}>
+                      مرتب‌سازی: {ticketSortLabels[field]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setSortDirection((prev) => (prev === "asc" ? "desc" : "asc"))}
+                aria-label={sortDirection === "asc" ? "صعودی" : "نزولی"}
+                title={sortDirection === "asc" ? "صعودی" : "نزولی"}
+              >
+                {sortDirection === "asc" ? (
+                  <ArrowUpNarrowWide className="w-4 h-4" />
+                ) : (
+                  <ArrowDownWideNarrow className="w-4 h-4" />
+                )}
+              </Button>
+              <DropdownMenu dir="rtl">
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" className="gap-2 font-iran">
+                    <Columns3 className="w-4 h-4" />
+                    ستون‌ها
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent className="w-48 font-iran" align="end">
+                  <DropdownMenuLabel>ستون‌های قابل نمایش</DropdownMenuLabel>
+                  {TICKET_COLUMNS.map((column) => (
+                    <DropdownMenuCheckboxItem
+                      key={column}
+                      checked={isColumnVisible(column)}
+                      onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+                      onSelect={(event) => event.preventDefault()}
+                    >
+                      {ticketColumnLabels[column]}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
+          </div>
+
+          {/* Filters */}
+          <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-8 gap-4 mb-6">
+            <TicketSearchInput value={searchQuery} onChange={setSearchQuery} categoriesData={categoriesData} />
 
             <Select value={filterStatus} onValueChange={setFilterStatus} dir="rtl">
               <SelectTrigger className="text-right font-iran">
@@ -694,6 +871,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                 <SelectItem value="all">همه وضعیت‌ها</SelectItem>
                 <SelectItem value="open">باز</SelectItem>
                 <SelectItem value="in-progress">در حال انجام</SelectItem>
+                <SelectItem value="waiting-for-client">در انتظار پاسخ مشتری</SelectItem>
                 <SelectItem value="resolved">حل شده</SelectItem>
                 <SelectItem value="closed">بسته</SelectItem>
               </SelectContent>
@@ -742,6 +920,35 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
               </SelectContent>
             </Select>
 
+            <Select value={filterSla} onValueChange={(value) => setFilterSla(value as typeof filterSla)} dir="rtl">
+              <SelectTrigger className="text-right font-iran">
+                <SelectValue placeholder="SLA" />
+              </SelectTrigger>
+              <SelectContent className="font-iran">
+                <SelectItem value="all">همه وضعیت‌های SLA</SelectItem>
+                <SelectItem value="at-risk">در معرض نقض</SelectItem>
+                <SelectItem value="breached">نقض‌شده</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={filterMinAge === null ? "all" : String(filterMinAge)}
+              onValueChange={(value) => setFilterMinAge(value === "all" ? null : Number(value))}
+              dir="rtl"
+            >
+              <SelectTrigger className="text-right font-iran">
+                <SelectValue placeholder="مدت انتظار" />
+              </SelectTrigger>
+              <SelectContent className="font-iran">
+                <SelectItem value="all">هر مدت انتظار</SelectItem>
+                {TICKET_AGE_OPTIONS.map((hours) => (
+                  <SelectItem key={hours} value={String(hours)}>
+                    حداقل {hours >= 24 ? `${hours / 24} روز` : `${hours} ساعت`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
             <Button
               variant="outline"
               onClick={() => {
@@ -750,6 +957,8 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                 setFilterPriority("all")
                 setFilterCategory("all")
                 setFilterTechnician("all")
+                setFilterSla("all")
+                setFilterMinAge(null)
               }}
               className="gap-2 font-iran"
             >
@@ -761,9 +970,15 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
           {/* Results Summary */}
           <div className="flex justify-between items-center mb-4">
             <p className="text-sm text-muted-foreground text-right font-iran">
-              نمایش {filteredTickets.length} از {tickets.length} تیکت
+              نمایش {filteredTickets.length} از {slaFilterActive ? matchingTickets.length : (totalTickets ?? tickets.length)} تیکت
               {selectedTickets.length > 0 && ` - ${selectedTickets.length} انتخاب شده`}
             </p>
+            {slaFilterActive && (totalTickets ?? 0) > SLA_FILTER_LOAD_SIZE && (
+              <p className="text-xs text-amber-700 text-right font-iran">
+                وضعیت SLA فقط برای {SLA_FILTER_LOAD_SIZE.toLocaleString("fa-IR")} تیکت اول از{" "}
+                {(totalTickets ?? 0).toLocaleString("fa-IR")} تیکت بررسی شد؛ برای نتیجه کامل فیلترها را محدودتر کنید
+              </p>
+            )}
             <div className="flex items-center gap-2">
               <input
                 type="checkbox"
@@ -775,20 +990,27 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
             </div>
           </div>
 
+          <BulkActionsBar
+            bulk={bulk}
+            tickets={tickets}
+            selectedIds={selectedTickets}
+            onSelectionChange={setSelectedTickets}
+            technicians={technicians}
+            categoriesData={categoriesData}
+            className="mb-4"
+          />
+
           {/* Tickets Table */}
           <div className="border rounded-lg overflow-hidden">
             <Table>
               <TableHeader>
                 <TableRow>
                   <TableHead className="w-12 text-center">انتخاب</TableHead>
-                  <TableHead className="text-right font-iran">شماره تیکت</TableHead>
-                  <TableHead className="text-right font-iran">عنوان</TableHead>
-                  <TableHead className="text-right font-iran">وضعیت</TableHead>
-                  <TableHead className="text-right font-iran">اولویت</TableHead>
-                  <TableHead className="text-right font-iran">دسته‌بندی</TableHead>
-                  <TableHead className="text-right font-iran">درخواست‌کننده</TableHead>
-                  <TableHead className="text-right font-iran">تکنسین</TableHead>
-                  <TableHead className="text-right font-iran">تاریخ ایجاد</TableHead>
+                  {TICKET_COLUMNS.filter(isColumnVisible).map((column) => (
+                    <TableHead key={column} className="text-right font-iran">
+                      {ticketColumnLabels[column]}
+                    </TableHead>
+                  ))}
                   <TableHead className="text-right font-iran">عملیات</TableHead>
                 </TableRow>
               </TableHeader>
@@ -798,7 +1020,11 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                     const assignedTech = technicians.find((tech) => tech.id === ticket.assignedTo)
 
                     return (
-                      <TableRow key={ticket.id}>
+                      <TableRow
+                        key={ticket.id}
+                        data-ticket-row={ticket.id}
+                        className={cn(keyboardActiveId === ticket.id && "bg-muted")}
+                      >
                         <TableCell className="text-center">
                           <input
                             type="checkbox"
@@ -807,87 +1033,113 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                             className="rounded"
                           />
                         </TableCell>
-                        <TableCell className="font-mono text-sm font-iran">{ticket.id}</TableCell>
-                        <TableCell className="max-w-xs">
-                          <div className="truncate font-iran" title={ticket.title}>
-                            {ticket.title}
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          <Badge className={`${statusColors[ticket.status]} font-iran`}>
-                            {statusLabels[ticket.status]}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          <Badge className={`${priorityColors[ticket.priority]} font-iran`}>
-                            {priorityLabels[ticket.priority]}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          <span className="text-sm font-iran">{getCategoryLabel(ticket)}</span>
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <Avatar className="w-6 h-6">
-                              <AvatarFallback className="text-xs font-iran">
-                                {ticket.clientName.charAt(0)}
-                              </AvatarFallback>
-                            </Avatar>
-                            <span className="text-sm font-iran">{ticket.clientName}</span>
-                          </div>
-                        </TableCell>
-                        <TableCell>
-                          {ticket.assignedTechnicianName ? (
+                        {isColumnVisible("id") && (
+                          <TableCell className="font-mono text-sm font-iran">{ticket.id}</TableCell>
+                        )}
+                        {isColumnVisible("title") && (
+                          <TableCell className="max-w-xs">
+                            <div className="truncate font-iran" title={ticket.title}>
+                              <HighlightedText text={ticket.title} terms={parsedSearch.terms} />
+                            </div>
+                          </TableCell>
+                        )}
+                        {isColumnVisible("status") && (
+                          <TableCell>
+                            <div className="flex flex-wrap items-center gap-1">
+                              <Badge className={`${statusColors[ticket.status]} font-iran`}>
+                                {statusLabels[ticket.status]}
+                              </Badge>
+                              <ReopenCountBadge count={ticket.reopenCount} />
+                              <MergedTicketBadge targetTicketId={ticket.mergedIntoTicketId} />
+                              <ChildCountBadge count={ticket.childCount} />
+                            </div>
+                          </TableCell>
+                        )}
+                        {isColumnVisible("priority") && (
+                          <TableCell>
+                            <Badge className={`${priorityColors[ticket.priority]} font-iran`}>
+                              {priorityLabels[ticket.priority]}
+                            </Badge>
+                          </TableCell>
+                        )}
+                        {isColumnVisible("sla") && (
+                          <TableCell>
+                            <SlaBadge sla={evaluateSla(ticket)} />
+                          </TableCell>
+                        )}
+                        {isColumnVisible("category") && (
+                          <TableCell>
+                            <span className="text-sm font-iran">{getCategoryLabel(ticket)}</span>
+                          </TableCell>
+                        )}
+                        {isColumnVisible("requester") && (
+                          <TableCell>
                             <div className="flex items-center gap-2">
                               <Avatar className="w-6 h-6">
                                 <AvatarFallback className="text-xs font-iran">
-                                  {ticket.assignedTechnicianName.charAt(0)}
+                                  {ticket.clientName.charAt(0)}
                                 </AvatarFallback>
                               </Avatar>
-                              <div>
-                                <span className="text-sm font-iran">{ticket.assignedTechnicianName}</span>
-                                {assignedTech && (
-                                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                                    <Badge
-                                      variant={assignedTech.status === "available" ? "default" : "secondary"}
-                                      className="text-xs font-iran"
-                                    >
-                                      {assignedTech.status === "available" ? "آزاد" : "مشغول"}
-                                    </Badge>
-                                  </div>
-                                )}
-                              </div>
-                            </div>
-                          ) : (
-                            <div className="flex gap-1">
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => {
-                                  setSelectedTicketForAssign(ticket)
-                                  setTechnicianFilter("recommended")
-                                  setAssignDialogOpen(true)
-                                }}
-                                className="gap-1 font-iran"
-                              >
-                                <UserPlus className="w-3 h-3" />
-                                دستی
-                              </Button>
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => handleAutoAssign(ticket)}
-                                className="gap-1 text-blue-600 hover:text-blue-700 border-blue-200 hover:border-blue-300 font-iran"
-                              >
-                                <Zap className="w-3 h-3" />
-                                خودکار
-                              </Button>
+                              <span className="text-sm font-iran">{ticket.clientName}</span>
                             </div>
-                          )}
-                        </TableCell>
-                        <TableCell className="text-sm font-iran">
-                          {new Date(ticket.createdAt).toLocaleDateString("fa-IR")}
-                        </TableCell>
+                          </TableCell>
+                        )}
+                        {isColumnVisible("technician") && (
+                          <TableCell>
+                            {ticket.assignedTechnicianName ? (
+                              <div className="flex items-center gap-2">
+                                <Avatar className="w-6 h-6">
+                                  <AvatarFallback className="text-xs font-iran">
+                                    {ticket.assignedTechnicianName.charAt(0)}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <div>
+                                  <span className="text-sm font-iran">{ticket.assignedTechnicianName}</span>
+                                  {assignedTech && (
+                                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                                      <Badge
+                                        variant={assignedTech.status === "available" ? "default" : "secondary"}
+                                        className="text-xs font-iran"
+                                      >
+                                        {assignedTech.status === "available" ? "آزاد" : "مشغول"}
+                                      </Badge>
+                                    </div>
+                                  )}
+                                </div>
+                              </div>
+                            ) : (
+                              <div className="flex gap-1">
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => {
+                                    setSelectedTicketForAssign(ticket)
+                                    setTechnicianFilter("recommended")
+                                    setAssignDialogOpen(true)
+                                  }}
+                                  className="gap-1 font-iran"
+                                >
+                                  <UserPlus className="w-3 h-3" />
+                                  دستی
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => handleAutoAssign(ticket)}
+                                  className="gap-1 text-blue-600 hover:text-blue-700 border-blue-200 hover:border-blue-300 font-iran"
+                                >
+                                  <Zap className="w-3 h-3" />
+                                  خودکار
+                                </Button>
+                              </div>
+                            )}
+                          </TableCell>
+                        )}
+                        {isColumnVisible("createdAt") && (
+                          <TableCell className="text-sm font-iran">
+                            {new Date(ticket.createdAt).toLocaleDateString("fa-IR")}
+                          </TableCell>
+                        )}
                         <TableCell>
                           <div className="flex gap-1">
                             <Button
@@ -921,7 +1173,7 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                   })
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={10} className="text-center py-8">
+                    <TableCell colSpan={visibleColumns.length + 2} className="text-center py-8">
                       <div className="flex flex-col items-center gap-2">
                         <Search className="w-8 h-8 text-muted-foreground" />
                         <p className="text-muted-foreground font-iran">تیکتی یافت نشد</p>
@@ -932,6 +1184,20 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
               </TableBody>
             </Table>
           </div>
+
+          {ticketQuery && onTicketQueryChange && (
+            <TicketPagination
+              page={slaFilterActive ? slaPage : ticketQuery.page}
+              pageSize={listPageSize}
+              totalCount={slaFilterActive ? matchingTickets.length : (totalTickets ?? tickets.length)}
+              onPageChange={(page) => (slaFilterActive ? setSlaPage(page) : onTicketQueryChange({ page }))}
+              onPageSizeChange={(pageSize) => {
+                setListPageSize(pageSize)
+                setSlaPage(1)
+                if (!slaFilterActive) onTicketQueryChange({ pageSize })
+              }}
+            />
+          )}
         </CardContent>
       </Card>
 
@@ -1063,10 +1329,29 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                       <Badge className={`${priorityColors[selectedTicket.priority]} font-iran text-sm px-3 py-1`}>
                         {priorityLabels[selectedTicket.priority]}
                       </Badge>
+                      <ReopenCountBadge count={selectedTicket.reopenCount} className="text-sm px-3 py-1" />
+                      <MergedTicketBadge
+                        targetTicketId={selectedTicket.mergedIntoTicketId}
+                        onOpen={(ticketId) => {
+                          const target = tickets.find((ticket) => ticket.id === ticketId)
+                          if (target) handleViewTicket(target)
+                        }}
+                        className="text-sm px-3 py-1"
+                      />
                       <div className="flex items-center gap-2 bg-white px-3 py-1 rounded-full border">
                         <span className="text-sm font-iran">{getCategoryLabel(selectedTicket)}</span>
                       </div>
                     </div>
+                    <div className="max-w-sm space-y-1">
+                      <Label className="text-sm text-muted-foreground font-iran">تغییر وضعیت</Label>
+                      <TicketStatusSelect
+                        role="admin"
+                        currentStatus={selectedTicket.status}
+                        value={selectedTicket.status}
+                        onValueChange={(status) => handleStatusChange(selectedTicket, status)}
+                        className="bg-white text-right font-iran"
+                      />
+                    </div>
                   </div>
                   <div className="text-left bg-white p-4 rounded-lg border shadow-sm">
                     <p className="text-sm text-muted-foreground font-iran mb-1">شماره تیکت</p>
@@ -1163,7 +1448,10 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                             const StatusIcon = statusIcons[response.status]
 
                             return (
-                              <div key={index} className="border rounded-lg p-4 bg-white shadow-sm">
+                              <div
+                                key={index}
+                                className={`border rounded-lg p-4 shadow-sm ${response.isInternal ? internalNoteClassName : "bg-white"}`}
+                              >
                                 <div className="flex justify-between items-start mb-3">
                                   <div className="flex items-center gap-3">
                                     <Avatar className="w-8 h-8">
@@ -1177,10 +1465,14 @@ export function AdminTicketManagement({ tickets, technicians: technicianOptions,
                                     </div>
                                   </div>
                                   <div className="text-left space-y-2">
-                                    <Badge className={`${statusColors[response.status]} font-iran text-xs`}>
-                                      <StatusIcon className="w-3 h-3 ml-1" />
-                                      {statusLabels[response.status]}
-                                    </Badge>
+                                    {response.isInternal ? (
+                                      <InternalNoteBadge />
+                                    ) : (
+                                      <Badge className={`${statusColors[response.status]} font-iran text-xs`}>
+                                        <StatusIcon className="w-3 h-3 ml-1" />
+                                        {statusLabels[response.status]}
+                                      </Badge>
+                                    )}
                                     <div className="text-xs text-muted-foreground font-iran">
                                       <div className="flex items-center gap-1 justify-end">
                                         <Calendar className="w-3 h-3" />
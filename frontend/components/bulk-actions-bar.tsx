@@ -0,0 +1,227 @@
+"use client"
+
+import { useMemo } from "react"
+import { Eye, Flag, FolderInput, ListChecks, RefreshCcw, Undo2, UserMinus, UserPlus, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { BulkOperationDialog } from "@/components/bulk-operation-dialog"
+import { toast } from "@/hooks/use-toast"
+import type { BulkTicketOperation } from "@/hooks/use-bulk-ticket-operation"
+import { bulkPriorityLabels, createBulkPlan, type BulkActionInput } from "@/lib/bulk-operations"
+import { TICKET_STATUSES, ticketStatusLabels } from "@/lib/ticket-workflow"
+import { cn } from "@/lib/utils"
+import type { CategoriesData } from "@/services/categories-types"
+import type { Ticket, TicketPriority } from "@/types"
+
+interface BulkTechnician {
+  id: string
+  /** Linked User.Id; technicians without an account cannot watch tickets */
+  userId?: string | null
+  name: string
+  email?: string | null
+}
+
+interface BulkActionsBarProps {
+  bulk: BulkTicketOperation
+  /** Tickets on screen; the selection refers to them by id */
+  tickets: Ticket[]
+  selectedIds: string[]
+  /** After a run the selection shrinks to the tickets that failed, ready for another try */
+  onSelectionChange: (ticketIds: string[]) => void
+  technicians: BulkTechnician[]
+  categoriesData?: CategoriesData
+  className?: string
+}
+
+/**
+ * Actions for the selected tickets, plus the progress dialog and the undo button of the last
+ * bulk operation. Renders only the undo button when nothing is selected.
+ */
+export function BulkActionsBar({
+  bulk,
+  tickets,
+  selectedIds,
+  onSelectionChange,
+  technicians,
+  categoriesData,
+  className,
+}: BulkActionsBarProps) {
+  const selectedTickets = useMemo(
+    () => tickets.filter((ticket) => selectedIds.includes(ticket.id)),
+    [tickets, selectedIds]
+  )
+  const ticketTitles = useMemo(
+    () => Object.fromEntries(tickets.map((ticket) => [ticket.id, ticket.title])),
+    [tickets]
+  )
+  const categories = Object.entries(categoriesData ?? {}).filter(([, category]) => category.backendId !== undefined)
+  const watcherCandidates = technicians.flatMap((technician) =>
+    technician.userId ? [{ userId: technician.userId, name: technician.name }] : []
+  )
+  const busy = bulk.operation?.running ?? false
+
+  const runAction = async (input: BulkActionInput) => {
+    if (
+      input.action === "close" &&
+      !confirm(`${selectedTickets.length.toLocaleString("fa-IR")} تیکت بسته شود؟ تا یک دقیقه می‌توانید آن را بازگردانید.`)
+    ) {
+      return
+    }
+
+    const plan = createBulkPlan(selectedTickets, input)
+    if (plan.items.length === 0 && plan.rejected.length === 0) {
+      toast({ title: "تغییری لازم نیست", description: "همه تیکت‌های انتخاب‌شده همین مقدار را دارند" })
+      return
+    }
+    const failedIds = await bulk.run(plan)
+    onSelectionChange(failedIds)
+  }
+
+  return (
+    <>
+      {(selectedTickets.length > 0 || bulk.canUndo) && (
+        <div className={cn("flex flex-wrap items-center gap-3 rounded-lg bg-muted p-3 font-iran", className)} dir="rtl">
+          {selectedTickets.length > 0 && (
+            <>
+              <span className="text-sm font-medium">
+                {selectedTickets.length.toLocaleString("fa-IR")} تیکت انتخاب شده
+              </span>
+              <DropdownMenu dir="rtl">
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" className="gap-2 font-iran" disabled={busy}>
+                    <ListChecks className="h-4 w-4" />
+                    عملیات گروهی
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-56 font-iran">
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger className="gap-2">
+                      <RefreshCcw className="h-4 w-4" />
+                      تغییر وضعیت
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent className="font-iran">
+                      {TICKET_STATUSES.filter((status) => status !== "closed").map((status) => (
+                        <DropdownMenuItem key={status} onClick={() => void runAction({ action: "status", status })}>
+                          {ticketStatusLabels[status]}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  <DropdownMenuSub>
+                    <DropdownMenuSubTrigger className="gap-2">
+                      <Flag className="h-4 w-4" />
+                      تغییر اولویت
+                    </DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent className="font-iran">
+                      {(Object.keys(bulkPriorityLabels) as TicketPriority[]).map((priority) => (
+                        <DropdownMenuItem key={priority} onClick={() => void runAction({ action: "priority", priority })}>
+                          {bulkPriorityLabels[priority]}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                  {technicians.length > 0 && (
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger className="gap-2">
+                        <UserPlus className="h-4 w-4" />
+                        واگذاری به
+                      </DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent className="max-h-72 overflow-y-auto font-iran">
+                        {technicians.map((technician) => (
+                          <DropdownMenuItem
+                            key={technician.id}
+                            onClick={() =>
+                              void runAction({
+                                action: "assign",
+                                technicianId: technician.id,
+                                technicianName: technician.name,
+                              })
+                            }
+                          >
+                            {technician.name}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                  )}
+                  <DropdownMenuItem className="gap-2" onClick={() => void runAction({ action: "unassign" })}>
+                    <UserMinus className="h-4 w-4" />
+                    لغو واگذاری
+                  </DropdownMenuItem>
+                  {categories.length > 0 && (
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger className="gap-2">
+                        <FolderInput className="h-4 w-4" />
+                        انتقال به دسته‌بندی
+                      </DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent className="max-h-72 overflow-y-auto font-iran">
+                        {categories.map(([key, category]) => (
+                          <DropdownMenuItem
+                            key={key}
+                            onClick={() =>
+                              void runAction({
+                                action: "category",
+                                categoryId: category.backendId as number,
+                                categoryLabel: category.label,
+                              })
+                            }
+                          >
+                            {category.label}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                  )}
+                  {watcherCandidates.length > 0 && (
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger className="gap-2">
+                        <Eye className="h-4 w-4" />
+                        افزودن ناظر
+                      </DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent className="max-h-72 overflow-y-auto font-iran">
+                        {watcherCandidates.map((candidate) => (
+                          <DropdownMenuItem
+                            key={candidate.userId}
+                            onClick={() =>
+                              void runAction({ action: "add-watcher", userId: candidate.userId, userName: candidate.name })
+                            }
+                          >
+                            {candidate.name}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                  )}
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem className="gap-2 text-red-600" onClick={() => void runAction({ action: "close" })}>
+                    <XCircle className="h-4 w-4" />
+                    بستن تیکت‌ها
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button variant="ghost" size="sm" className="font-iran" onClick={() => onSelectionChange([])}>
+                لغو انتخاب
+              </Button>
+            </>
+          )}
+          {bulk.canUndo && (
+            <Button variant="outline" size="sm" className="mr-auto gap-2 font-iran" onClick={() => void bulk.undo()}>
+              <Undo2 className="h-4 w-4" />
+              بازگردانی «{bulk.undoLabel}» ({bulk.undoSecondsLeft.toLocaleString("fa-IR")})
+            </Button>
+          )}
+        </div>
+      )}
+      <BulkOperationDialog bulk={bulk} ticketTitles={ticketTitles} />
+    </>
+  )
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import { CheckCircle, Loader2, Undo2, XCircle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Progress } from "@/components/ui/progress"
+import type { BulkTicketOperation } from "@/hooks/use-bulk-ticket-operation"
+
+interface BulkOperationDialogProps {
+  bulk: BulkTicketOperation
+  /** Titles of the affected tickets, to name them in the failure report */
+  ticketTitles?: Record<string, string>
+}
+
+/**
+ * Progress of a running bulk operation, then which tickets failed and why, with the undo button
+ */
+export function BulkOperationDialog({ bulk, ticketTitles = {} }: BulkOperationDialogProps) {
+  const { operation } = bulk
+  if (!operation) return null
+
+  const failures = operation.results.filter((result) => !result.success)
+  const succeeded = operation.results.length - failures.length
+  const percent = operation.total > 0 ? Math.round((operation.done / operation.total) * 100) : 100
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && bulk.dismiss()}>
+      <DialogContent className="max-w-lg font-iran" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right font-iran">{operation.label}</DialogTitle>
+          <DialogDescription className="text-right font-iran">
+            {operation.running
+              ? `در حال اعمال روی ${operation.total.toLocaleString("fa-IR")} تیکت...`
+              : operation.isUndo
+              ? "بازگردانی انجام شد."
+              : "عملیات گروهی به پایان رسید."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Progress value={percent} className="h-2" />
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>
+                {operation.done.toLocaleString("fa-IR")} از {operation.total.toLocaleString("fa-IR")}
+              </span>
+              {operation.running && <Loader2 className="h-4 w-4 animate-spin" />}
+            </div>
+          </div>
+
+          {!operation.running && (
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary" className="gap-1">
+                <CheckCircle className="h-3 w-3 text-green-600" />
+                {succeeded.toLocaleString("fa-IR")} موفق
+              </Badge>
+              {failures.length > 0 && (
+                <Badge variant="destructive" className="gap-1">
+                  <XCircle className="h-3 w-3" />
+                  {failures.length.toLocaleString("fa-IR")} ناموفق
+                </Badge>
+              )}
+              {operation.skipped > 0 && (
+                <Badge variant="outline">{operation.skipped.toLocaleString("fa-IR")} بدون تغییر</Badge>
+              )}
+            </div>
+          )}
+
+          {failures.length > 0 && (
+            <div className="max-h-56 overflow-y-auto rounded-md border">
+              <ul className="divide-y text-sm">
+                {failures.map((failure) => (
+                  <li key={failure.ticketId} className="space-y-1 p-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-xs text-muted-foreground">{failure.ticketId}</span>
+                      <span className="truncate">{ticketTitles[failure.ticketId]}</span>
+                    </div>
+                    <p className="text-xs text-red-600">{failure.error || "دلیل خطا از سرور دریافت نشد"}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {!operation.running && failures.length > 0 && !operation.isUndo && (
+            <p className="text-xs text-muted-foreground">تیکت‌های ناموفق انتخاب‌شده باقی می‌مانند تا دوباره تلاش کنید.</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {bulk.canUndo && !operation.isUndo && (
+            <Button variant="outline" onClick={() => void bulk.undo()} className="gap-2">
+              <Undo2 className="h-4 w-4" />
+              بازگردانی ({bulk.undoSecondsLeft.toLocaleString("fa-IR")} ثانیه)
+            </Button>
+          )}
+          <Button onClick={bulk.dismiss} disabled={operation.running}>
+            بستن
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
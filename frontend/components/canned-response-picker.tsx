@@ -0,0 +1,118 @@
+"use client"
+
+import { useState } from "react"
+import { MessageSquareText, Zap } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { toast } from "@/hooks/use-toast"
+import { useAuth } from "@/lib/auth-context"
+import type { ApiCannedResponse } from "@/lib/api-types"
+import { getCannedResponses } from "@/lib/canned-responses-api"
+import {
+  buildCannedResponseContext,
+  fillCannedResponse,
+  getCannedResponsesForTicket,
+  isCannedMacro,
+} from "@/lib/canned-responses"
+import type { Ticket } from "@/types"
+
+interface CannedResponsePickerProps {
+  ticket: Ticket
+  technicianName: string
+  /** Put the filled reply into the composer */
+  onInsert: (text: string, response: ApiCannedResponse) => void
+  /** Send the filled reply and apply the macro's status/priority right away */
+  onRun: (text: string, response: ApiCannedResponse) => void
+  disabled?: boolean
+}
+
+/**
+ * Searchable list of the canned replies that apply to a ticket. Clicking a reply inserts it;
+ * macros also get a run button that sends it in one click.
+ */
+export function CannedResponsePicker({ ticket, technicianName, onInsert, onRun, disabled }: CannedResponsePickerProps) {
+  const { token } = useAuth()
+  const [open, setOpen] = useState(false)
+  const [responses, setResponses] = useState<ApiCannedResponse[] | null>(null)
+
+  const handleOpenChange = async (next: boolean) => {
+    setOpen(next)
+    if (!next || responses) return
+    try {
+      setResponses(await getCannedResponses(token))
+    } catch (error) {
+      console.error("Failed to load canned responses:", error)
+      toast({
+        title: "خطا",
+        description: error instanceof Error ? error.message : "خطا در بارگذاری پاسخ‌های آماده",
+        variant: "destructive",
+      })
+      setOpen(false)
+    }
+  }
+
+  const context = buildCannedResponseContext(ticket, technicianName)
+  const applicable = responses ? getCannedResponsesForTicket(responses, ticket) : []
+
+  const choose = (response: ApiCannedResponse, run: boolean) => {
+    const text = fillCannedResponse(response.body, context)
+    setOpen(false)
+    if (run) {
+      onRun(text, response)
+    } else {
+      onInsert(text, response)
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="gap-2 font-iran" disabled={disabled}>
+          <MessageSquareText className="w-4 h-4" />
+          پاسخ‌های آماده
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-0 font-iran" align="start" dir="rtl">
+        <Command>
+          <CommandInput placeholder="جستجوی پاسخ آماده..." className="text-right" />
+          <CommandList>
+            <CommandEmpty>{responses ? "پاسخ آماده‌ای برای این تیکت یافت نشد" : "در حال بارگذاری..."}</CommandEmpty>
+            <CommandGroup>
+              {applicable.map((response) => (
+                <CommandItem
+                  key={response.id}
+                  value={`${response.title} ${response.body}`}
+                  onSelect={() => choose(response, false)}
+                  className="flex items-start justify-between gap-2"
+                >
+                  <div className="min-w-0 text-right">
+                    <p className="font-medium">{response.title}</p>
+                    <p className="text-xs text-muted-foreground line-clamp-2">
+                      {fillCannedResponse(response.body, context)}
+                    </p>
+                  </div>
+                  {isCannedMacro(response) && (
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="secondary"
+                      className="h-7 shrink-0 gap-1 text-xs"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        choose(response, true)
+                      }}
+                    >
+                      <Zap className="w-3 h-3" />
+                      اجرا
+                    </Button>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,431 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { toast } from "@/hooks/use-toast"
+import { useAuth } from "@/lib/auth-context"
+import { deleteCannedResponse, getCannedResponses, saveCannedResponse } from "@/lib/canned-responses-api"
+import { CANNED_RESPONSE_PLACEHOLDERS, isCannedMacro } from "@/lib/canned-responses"
+import { mapApiPriorityToUi, mapApiStatusToUi, mapUiPriorityToApi, mapUiStatusToApi } from "@/lib/ticket-mappers"
+import { TICKET_STATUSES, ticketStatusLabels } from "@/lib/ticket-workflow"
+import type {
+  ApiCannedResponse,
+  ApiCannedResponseUpsertRequest,
+  ApiTicketPriority,
+  ApiTicketStatus,
+} from "@/lib/api-types"
+import type { CategoriesData } from "@/services/categories-types"
+import type { TicketPriority } from "@/types"
+import { Edit, MessageSquareText, Plus, Search, Trash2, Zap } from "lucide-react"
+
+const priorityLabels: Record<TicketPriority, string> = {
+  low: "کم",
+  medium: "متوسط",
+  high: "بالا",
+  urgent: "فوری",
+}
+
+// Radix Select does not accept an empty value
+const NONE = "none"
+
+const emptyForm: ApiCannedResponseUpsertRequest = {
+  title: "",
+  body: "",
+  categoryId: null,
+  subcategoryId: null,
+  setStatus: null,
+  setPriority: null,
+}
+
+interface CannedResponsesManagementProps {
+  categoriesData?: CategoriesData
+}
+
+export function CannedResponsesManagement({ categoriesData = {} }: CannedResponsesManagementProps) {
+  const { token } = useAuth()
+  const [responses, setResponses] = useState<ApiCannedResponse[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [searchQuery, setSearchQuery] = useState("")
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [formData, setFormData] = useState<ApiCannedResponseUpsertRequest>(emptyForm)
+
+  const categoryOptions = Object.values(categoriesData).filter((category) => category.backendId !== undefined)
+  const selectedCategory = categoryOptions.find((category) => category.backendId === formData.categoryId)
+
+  const loadResponses = useCallback(async () => {
+    if (!token) return
+    setLoading(true)
+    try {
+      setResponses(await getCannedResponses(token))
+    } catch (error) {
+      console.error("Failed to load canned responses:", error)
+      toast({
+        title: "خطا",
+        description: error instanceof Error ? error.message : "خطا در بارگذاری پاسخ‌های آماده",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    loadResponses()
+  }, [loadResponses])
+
+  const describeScope = (response: ApiCannedResponse) => {
+    if (response.categoryId == null) return "همه تیکت‌ها"
+    const category = categoryOptions.find((item) => item.backendId === response.categoryId)
+    if (!category) return "دسته‌بندی حذف‌شده"
+    const subIssue = Object.values(category.subIssues).find((sub) => sub.backendId === response.subcategoryId)
+    return subIssue ? `${category.label} / ${subIssue.label}` : category.label
+  }
+
+  const openCreate = () => {
+    setEditingId(null)
+    setFormData(emptyForm)
+    setDialogOpen(true)
+  }
+
+  const openEdit = (response: ApiCannedResponse) => {
+    setEditingId(response.id)
+    setFormData({
+      title: response.title,
+      body: response.body,
+      categoryId: response.categoryId ?? null,
+      subcategoryId: response.subcategoryId ?? null,
+      setStatus: response.setStatus ?? null,
+      setPriority: response.setPriority ?? null,
+    })
+    setDialogOpen(true)
+  }
+
+  const insertPlaceholder = (key: string) => {
+    setFormData((prev) => ({ ...prev, body: `${prev.body}{{${key}}}` }))
+  }
+
+  const handleSave = async () => {
+    if (!formData.title.trim() || !formData.body.trim()) {
+      toast({
+        title: "خطا",
+        description: "عنوان و متن پاسخ الزامی است",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setSaving(true)
+    try {
+      await saveCannedResponse(
+        token,
+        { ...formData, title: formData.title.trim(), body: formData.body.trim() },
+        editingId ?? undefined
+      )
+      toast({
+        title: "موفق",
+        description: editingId ? "پاسخ آماده به‌روزرسانی شد" : "پاسخ آماده ایجاد شد",
+      })
+      setDialogOpen(false)
+      await loadResponses()
+    } catch (error) {
+      console.error("Failed to save canned response:", error)
+      toast({
+        title: "خطا",
+        description: error instanceof Error ? error.message : "خطا در ذخیره پاسخ آماده",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (response: ApiCannedResponse) => {
+    if (!confirm(`پاسخ آماده «${response.title}» حذف شود؟`)) return
+    try {
+      await deleteCannedResponse(token, response.id)
+      toast({ title: "موفق", description: "پاسخ آماده حذف شد" })
+      await loadResponses()
+    } catch (error) {
+      console.error("Failed to delete canned response:", error)
+      toast({
+        title: "خطا",
+        description: error instanceof Error ? error.message : "خطا در حذف پاسخ آماده",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const filteredResponses = responses.filter((response) => {
+    if (!searchQuery) return true
+    const query = searchQuery.toLowerCase()
+    return response.title.toLowerCase().includes(query) || response.body.toLowerCase().includes(query)
+  })
+
+  return (
+    <div className="space-y-6" dir="rtl">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle className="text-right flex items-center gap-2">
+              <MessageSquareText className="w-5 h-5" />
+              پاسخ‌های آماده و ماکروها
+            </CardTitle>
+            <Button onClick={openCreate} className="gap-2">
+              <Plus className="w-4 h-4" />
+              پاسخ جدید
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="mb-4">
+            <div className="relative">
+              <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <Input
+                placeholder="جستجو در عنوان یا متن پاسخ..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pr-10 text-right"
+                dir="rtl"
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-8 h-8 border-2 border-current border-t-transparent rounded-full animate-spin" />
+              <span className="mr-3 text-sm text-muted-foreground">در حال بارگذاری...</span>
+            </div>
+          ) : filteredResponses.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              {searchQuery ? "نتیجه‌ای یافت نشد" : "هیچ پاسخ آماده‌ای ثبت نشده است"}
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">عنوان</TableHead>
+                    <TableHead className="text-right">محدوده</TableHead>
+                    <TableHead className="text-right">اقدام خودکار</TableHead>
+                    <TableHead className="text-right">عملیات</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredResponses.map((response) => (
+                    <TableRow key={response.id}>
+                      <TableCell className="text-right">
+                        <div className="font-medium">{response.title}</div>
+                        <div className="text-xs text-muted-foreground line-clamp-1 max-w-md">{response.body}</div>
+                      </TableCell>
+                      <TableCell className="text-right text-sm">{describeScope(response)}</TableCell>
+                      <TableCell className="text-right">
+                        {isCannedMacro(response) ? (
+                          <div className="flex flex-wrap gap-1">
+                            {response.setStatus && (
+                              <Badge variant="secondary" className="gap-1 text-xs">
+                                <Zap className="w-3 h-3" />
+                                {ticketStatusLabels[mapApiStatusToUi(response.setStatus)]}
+                              </Badge>
+                            )}
+                            {response.setPriority && (
+                              <Badge variant="secondary" className="gap-1 text-xs">
+                                <Zap className="w-3 h-3" />
+                                اولویت {priorityLabels[mapApiPriorityToUi(response.setPriority)]}
+                              </Badge>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => openEdit(response)}>
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(response)}>
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right">{editingId ? "ویرایش پاسخ آماده" : "پاسخ آماده جدید"}</DialogTitle>
+            <DialogDescription className="text-right">
+              متغیرها هنگام استفاده با اطلاعات تیکت جایگزین می‌شوند؛ با تعیین وضعیت یا اولویت، پاسخ به ماکرو تبدیل
+              می‌شود.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="canned-title">عنوان *</Label>
+              <Input
+                id="canned-title"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                className="text-right"
+                dir="rtl"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>دسته‌بندی</Label>
+                <Select
+                  value={formData.categoryId != null ? String(formData.categoryId) : NONE}
+                  onValueChange={(value) =>
+                    setFormData({
+                      ...formData,
+                      categoryId: value === NONE ? null : Number(value),
+                      subcategoryId: null,
+                    })
+                  }
+                  dir="rtl"
+                >
+                  <SelectTrigger className="text-right">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>همه تیکت‌ها</SelectItem>
+                    {categoryOptions.map((category) => (
+                      <SelectItem key={category.backendId} value={String(category.backendId)}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>زیر دسته</Label>
+                <Select
+                  value={formData.subcategoryId != null ? String(formData.subcategoryId) : NONE}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, subcategoryId: value === NONE ? null : Number(value) })
+                  }
+                  disabled={!selectedCategory}
+                  dir="rtl"
+                >
+                  <SelectTrigger className="text-right">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>همه زیر دسته‌ها</SelectItem>
+                    {Object.values(selectedCategory?.subIssues ?? {})
+                      .filter((subIssue) => subIssue.backendId !== undefined)
+                      .map((subIssue) => (
+                        <SelectItem key={subIssue.backendId} value={String(subIssue.backendId)}>
+                          {subIssue.label}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="canned-body">متن پاسخ *</Label>
+              <Textarea
+                id="canned-body"
+                value={formData.body}
+                onChange={(e) => setFormData({ ...formData, body: e.target.value })}
+                className="min-h-[140px] text-right"
+                dir="rtl"
+              />
+              <div className="flex flex-wrap gap-1">
+                {CANNED_RESPONSE_PLACEHOLDERS.map((placeholder) => (
+                  <Button
+                    key={placeholder.key}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => insertPlaceholder(placeholder.key)}
+                  >
+                    {placeholder.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>تغییر وضعیت</Label>
+                <Select
+                  value={formData.setStatus ?? NONE}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, setStatus: value === NONE ? null : (value as ApiTicketStatus) })
+                  }
+                  dir="rtl"
+                >
+                  <SelectTrigger className="text-right">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>بدون تغییر</SelectItem>
+                    {TICKET_STATUSES.filter((status) => status !== "open").map((status) => (
+                      <SelectItem key={status} value={mapUiStatusToApi(status)}>
+                        {ticketStatusLabels[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>تغییر اولویت</Label>
+                <Select
+                  value={formData.setPriority ?? NONE}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, setPriority: value === NONE ? null : (value as ApiTicketPriority) })
+                  }
+                  dir="rtl"
+                >
+                  <SelectTrigger className="text-right">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>بدون تغییر</SelectItem>
+                    {(Object.keys(priorityLabels) as TicketPriority[]).map((priority) => (
+                      <SelectItem key={priority} value={mapUiPriorityToApi(priority)}>
+                        {priorityLabels[priority]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+                انصراف
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? "در حال ذخیره..." : "ذخیره"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,20 @@
+"use client"
+
+import { Network } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+
+/** Number of tickets linked under a parent ticket; renders nothing for tickets without children */
+export function ChildCountBadge({ count, className }: { count?: number; className?: string }) {
+  if (!count) return null
+  return (
+    <Badge
+      variant="outline"
+      title={`${count} تیکت فرزند`}
+      className={cn("gap-1 border-sky-300 bg-sky-50 text-sky-700 font-iran text-xs", className)}
+    >
+      <Network className="h-3 w-3" />
+      {count} فرزند
+    </Badge>
+  )
+}
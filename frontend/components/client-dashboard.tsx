@@ -1,10 +1,10 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -30,6 +30,24 @@ import {
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { TwoStepTicketForm } from "@/components/two-step-ticket-form";
+import { TicketPagination } from "@/components/ticket-pagination";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { SlaBadge } from "@/components/sla-badge";
+import { useSla } from "@/hooks/use-sla";
+import { useWorkflowSettings } from "@/hooks/use-workflow-settings";
+import { TicketReopenDialog } from "@/components/ticket-reopen-dialog";
+import { MergedTicketBadge } from "@/components/merged-ticket-badge";
+import { CsatSurveyForm, StarRating } from "@/components/csat-survey-form";
+import { useTicketSurveys } from "@/hooks/use-ticket-surveys";
+import { isSurveyPending } from "@/lib/csat";
+import { REOPENABLE_STATUSES, canClientReopen, getReopenDeadline } from "@/lib/ticket-workflow";
+import type { TicketQuery } from "@/lib/tickets-api";
+import { getFreeText, matchesSearchQuery, parseSearchQuery } from "@/lib/ticket-search";
+import { useListKeyboardNavigation } from "@/hooks/use-list-keyboard-navigation";
+import { useRegisterActiveTicket } from "@/lib/active-ticket-context";
+import { cn } from "@/lib/utils";
+import { TicketSearchInput } from "@/components/ticket-search-input";
+import { HighlightedText } from "@/components/highlighted-text";
 import {
   Plus,
   Search,
@@ -41,6 +59,8 @@ import {
   Ticket as TicketIcon,
   MessageSquare,
   Calendar,
+  RotateCcw,
+  Star,
 } from "lucide-react";
 import type { CategoriesData } from "@/services/categories-types";
 import type { Ticket, TicketPriority, TicketStatus, TicketCategory } from "@/types";
@@ -57,6 +77,7 @@ interface CurrentUser {
 const statusColors: Record<TicketStatus, string> = {
   open: "bg-red-100 text-red-800 border-red-200",
   "in-progress": "bg-yellow-100 text-yellow-800 border-yellow-200",
+  "waiting-for-client": "bg-sky-100 text-sky-800 border-sky-200",
   resolved: "bg-green-100 text-green-800 border-green-200",
   closed: "bg-gray-100 text-gray-800 border-gray-200",
 };
@@ -64,6 +85,7 @@ const statusColors: Record<TicketStatus, string> = {
 const statusLabels: Record<TicketStatus, string> = {
   open: "باز",
   "in-progress": "در حال انجام",
+  "waiting-for-client": "در انتظار پاسخ مشتری",
   resolved: "حل شده",
   closed: "بسته",
 };
@@ -99,7 +121,12 @@ const getCategoryLabel = (cat: string, categoriesData: CategoriesData) =>
 
 interface ClientDashboardProps {
   tickets: Ticket[];
+  ticketQuery?: TicketQuery;
+  totalTickets?: number;
+  onTicketQueryChange?: (changes: Partial<TicketQuery>) => void;
+  onTicketOpen?: (ticketId: string) => void;
   onTicketCreate: (ticket: Ticket) => void;
+  onTicketReopen?: (ticketId: string, reason: string) => Promise<void> | void;
   currentUser: CurrentUser | null;
   categoriesData: CategoriesData;
   activeSection?: "tickets" | "create";
@@ -111,11 +138,17 @@ interface ClientDashboardProps {
 
 export function ClientDashboard({
   tickets,
+  ticketQuery,
+  totalTickets,
+  onTicketQueryChange,
+  onTicketOpen,
   onTicketCreate,
+  onTicketReopen,
   currentUser,
   categoriesData,
   activeSection = "tickets",
 }: ClientDashboardProps) {
+  const router = useRouter();
   const [searchQuery, setSearchQuery] = useState("");
   const [filterStatus, setFilterStatus] = useState<TicketStatus | "all">("all");
   const [filterPriority, setFilterPriority] = useState<TicketPriority | "all">("all");
@@ -124,6 +157,34 @@ export function ClientDashboard({
   const [ticketDialogOpen, setTicketDialogOpen] = useState(activeSection === "create");
   const [statsDialogOpen, setStatsDialogOpen] = useState(false);
   const [statsDialogData, setStatsDialogData] = useState<{ title: string; tickets: Ticket[] } | null>(null);
+  const debouncedSearch = useDebouncedValue(searchQuery);
+  const { evaluate: evaluateSla } = useSla();
+  const workflowSettings = useWorkflowSettings();
+  const [reopenTarget, setReopenTarget] = useState<Ticket | null>(null);
+  const { surveys, surveyedTicketIds, addSurvey } = useTicketSurveys();
+  const [surveyTarget, setSurveyTarget] = useState<Ticket | null>(null);
+
+  const parsedSearch = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+
+  // Filters are applied server-side; the local filter below only narrows the current page.
+  // Only the free text goes into the ticket query, which the server searches; field
+  // clauses are matched against the loaded tickets below.
+  useEffect(() => {
+    onTicketQueryChange?.({
+      search: getFreeText(parseSearchQuery(debouncedSearch)),
+      status: filterStatus === "all" ? undefined : [filterStatus],
+      priority: filterPriority === "all" ? undefined : [filterPriority],
+    });
+  }, [onTicketQueryChange, debouncedSearch, filterStatus, filterPriority]);
+
+  // Keep the open dialog in sync once lazily loaded messages arrive
+  useEffect(() => {
+    if (!selectedTicket) return;
+    const fresh = tickets.find((ticket) => ticket.id === selectedTicket.id);
+    if (fresh && fresh !== selectedTicket) {
+      setSelectedTicket(fresh);
+    }
+  }, [tickets, selectedTicket]);
 
   useEffect(() => {
     if (activeSection === "create") {
@@ -138,13 +199,7 @@ export function ClientDashboard({
   );
 
   const filteredTickets = userTickets.filter((ticket) => {
-    const idStr = String(ticket.id ?? "");
-    const matchesSearch =
-      (ticket.title ?? "").toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (ticket.description ?? "")
-        .toLowerCase()
-        .includes(searchQuery.toLowerCase()) ||
-      idStr.toLowerCase().includes(searchQuery.toLowerCase());
+    const matchesSearch = matchesSearchQuery(ticket, parsedSearch);
 
     const matchesStatus =
       filterStatus === "all" || ticket.status === filterStatus;
@@ -157,12 +212,29 @@ export function ClientDashboard({
   const openTickets = userTickets.filter((t) => t.status === "open");
   const inProgressTickets = userTickets.filter((t) => t.status === "in-progress");
   const resolvedTickets = userTickets.filter((t) => t.status === "resolved");
+  const pendingSurveys = workflowSettings.csatEnabled
+    ? userTickets.filter((t) => isSurveyPending(t, surveyedTicketIds))
+    : [];
+  const selectedSurvey = selectedTicket
+    ? surveys.find((survey) => survey.ticketId === selectedTicket.id)
+    : undefined;
 
   const handleViewTicket = (ticket: Ticket) => {
     setSelectedTicket(ticket);
     setViewDialogOpen(true);
+    onTicketOpen?.(ticket.id);
   };
 
+  useRegisterActiveTicket(viewDialogOpen ? selectedTicket : null);
+
+  const { activeId: keyboardActiveId } = useListKeyboardNavigation({
+    items: filteredTickets,
+    onOpen: handleViewTicket,
+    onOpenPage: (ticket) => router.push(`/tickets/${encodeURIComponent(ticket.id)}`),
+  });
+
+  const canReopen = (ticket: Ticket) => !!onTicketReopen && canClientReopen(ticket, workflowSettings);
+
   const handleStatsClick = (title: string, ticketsList: Ticket[]) => {
     setStatsDialogData({ title, tickets: ticketsList });
     setStatsDialogOpen(true);
@@ -346,6 +418,45 @@ export function ClientDashboard({
         </DialogContent>
       </Dialog>
 
+      {pendingSurveys.length > 0 && (
+        <Card className="border-yellow-200 bg-yellow-50/50">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-right font-iran text-base">
+              <Star className="w-4 h-4 text-yellow-500" />
+              نظر شما برای ما مهم است
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {pendingSurveys.slice(0, 3).map((ticket) => (
+              <div
+                key={ticket.id}
+                className="flex items-center justify-between gap-4 rounded-lg border bg-background p-3"
+              >
+                <div className="text-right">
+                  <p className="text-sm font-medium font-iran">{ticket.title}</p>
+                  <p className="text-xs text-muted-foreground font-iran">
+                    {ticket.id} - {statusLabels[ticket.status]}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setSurveyTarget(ticket)}
+                  className="shrink-0 font-iran"
+                >
+                  ثبت نظر
+                </Button>
+              </div>
+            ))}
+            {pendingSurveys.length > 3 && (
+              <p className="text-xs text-muted-foreground font-iran">
+                و {pendingSurveys.length - 3} تیکت دیگر در انتظار نظر شما
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Tickets Management */}
       <Card>
         <CardHeader>
@@ -354,16 +465,11 @@ export function ClientDashboard({
         <CardContent>
           {/* Filters */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
-            <div className="relative">
-              <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-              <Input
-                placeholder="جستجو در تیکت‌ها..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pr-10 text-right font-iran"
-                dir="rtl"
-              />
-            </div>
+            <TicketSearchInput
+              value={searchQuery}
+              onChange={setSearchQuery}
+              categoriesData={categoriesData}
+            />
 
             <Select
               value={filterStatus}
@@ -377,6 +483,7 @@ export function ClientDashboard({
                 <SelectItem value="all">همه وضعیت‌ها</SelectItem>
                 <SelectItem value="open">باز</SelectItem>
                 <SelectItem value="in-progress">در حال انجام</SelectItem>
+                <SelectItem value="waiting-for-client">در انتظار پاسخ مشتری</SelectItem>
                 <SelectItem value="resolved">حل شده</SelectItem>
                 <SelectItem value="closed">بسته</SelectItem>
               </SelectContent>
@@ -424,6 +531,7 @@ export function ClientDashboard({
                   <TableHead className="text-right font-iran">عنوان</TableHead>
                   <TableHead className="text-right font-iran">وضعیت</TableHead>
                   <TableHead className="text-right font-iran">اولویت</TableHead>
+                  <TableHead className="text-right font-iran">SLA</TableHead>
                   <TableHead className="text-right font-iran">
                     دسته‌بندی
                   </TableHead>
@@ -439,7 +547,11 @@ export function ClientDashboard({
                   filteredTickets.map((ticket) => {
                     const idStr = String(ticket.id ?? "");
                     return (
-                      <TableRow key={idStr}>
+                      <TableRow
+                        key={idStr}
+                        data-ticket-row={idStr}
+                        className={cn(keyboardActiveId === idStr && "bg-muted")}
+                      >
                         <TableCell className="font-mono text-sm font-iran">
                           {idStr}
                         </TableCell>
@@ -448,7 +560,10 @@ export function ClientDashboard({
                             className="truncate font-iran"
                             title={ticket.title}
                           >
-                            {ticket.title}
+                            <HighlightedText
+                              text={ticket.title}
+                              terms={parsedSearch.terms}
+                            />
                           </div>
                         </TableCell>
                         <TableCell>
@@ -469,6 +584,9 @@ export function ClientDashboard({
                             {priorityLabels[ticket.priority]}
                           </Badge>
                         </TableCell>
+                        <TableCell>
+                          <SlaBadge sla={evaluateSla(ticket)} />
+                        </TableCell>
                         <TableCell>
                           <span className="text-sm font-iran">
                             {getCategoryLabel(ticket.category, categoriesData)}
@@ -496,22 +614,35 @@ export function ClientDashboard({
                           {faDate(ticket.createdAt)}
                         </TableCell>
                         <TableCell>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleViewTicket(ticket)}
-                            className="gap-1 font-iran"
-                          >
-                            <Eye className="w-3 h-3" />
-                            مشاهده
-                          </Button>
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleViewTicket(ticket)}
+                              className="gap-1 font-iran"
+                            >
+                              <Eye className="w-3 h-3" />
+                              مشاهده
+                            </Button>
+                            {canReopen(ticket) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setReopenTarget(ticket)}
+                                className="gap-1 font-iran"
+                              >
+                                <RotateCcw className="w-3 h-3" />
+                                بازگشایی
+                              </Button>
+                            )}
+                          </div>
                         </TableCell>
                       </TableRow>
                     );
                   })
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={8} className="text-center py-8">
+                    <TableCell colSpan={9} className="text-center py-8">
                       <div className="flex flex-col items-center gap-2">
                         <Search className="w-8 h-8 text-muted-foreground" />
                         <p className="text-muted-foreground font-iran">
@@ -524,6 +655,16 @@ export function ClientDashboard({
               </TableBody>
             </Table>
           </div>
+
+          {ticketQuery && onTicketQueryChange && (
+            <TicketPagination
+              page={ticketQuery.page}
+              pageSize={ticketQuery.pageSize}
+              totalCount={totalTickets ?? userTickets.length}
+              onPageChange={(page) => onTicketQueryChange({ page })}
+              onPageSizeChange={(pageSize) => onTicketQueryChange({ pageSize })}
+            />
+          )}
         </CardContent>
       </Card>
 
@@ -562,6 +703,13 @@ export function ClientDashboard({
                     >
                       {priorityLabels[selectedTicket.priority]}
                     </Badge>
+                    <MergedTicketBadge
+                      targetTicketId={selectedTicket.mergedIntoTicketId}
+                      onOpen={(ticketId) => {
+                        const target = userTickets.find((ticket) => ticket.id === ticketId);
+                        if (target) handleViewTicket(target);
+                      }}
+                    />
                   </div>
                 </div>
                 <div className="text-left space-y-1">
@@ -574,6 +722,56 @@ export function ClientDashboard({
                 </div>
               </div>
 
+              {REOPENABLE_STATUSES.includes(selectedTicket.status) && onTicketReopen && (
+                <div className="flex items-center justify-between gap-4 rounded-lg border border-dashed p-3">
+                  <p className="text-sm text-muted-foreground font-iran">
+                    {canReopen(selectedTicket)
+                      ? `مشکل برطرف نشده است؟ تا ${getReopenDeadline(
+                          selectedTicket,
+                          workflowSettings
+                        )?.toLocaleDateString("fa-IR")} می‌توانید تیکت را بازگشایی کنید.`
+                      : "مهلت بازگشایی این تیکت به پایان رسیده است؛ در صورت نیاز تیکت جدیدی ثبت کنید."}
+                  </p>
+                  {canReopen(selectedTicket) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setReopenTarget(selectedTicket)}
+                      className="gap-1 shrink-0 font-iran"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      بازگشایی
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {workflowSettings.csatEnabled &&
+                REOPENABLE_STATUSES.includes(selectedTicket.status) &&
+                (selectedSurvey ? (
+                  <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                    <p className="text-sm text-muted-foreground font-iran">
+                      امتیاز شما به این تیکت
+                    </p>
+                    <StarRating value={selectedSurvey.rating} size="sm" label="امتیاز شما" />
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-4 rounded-lg border border-dashed p-3">
+                    <p className="text-sm text-muted-foreground font-iran">
+                      از رسیدگی به این تیکت راضی بودید؟ با چند کلیک نظرتان را ثبت کنید.
+                    </p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSurveyTarget(selectedTicket)}
+                      className="gap-1 shrink-0 font-iran"
+                    >
+                      <Star className="w-4 h-4" />
+                      ثبت نظر
+                    </Button>
+                  </div>
+                ))}
+
               <Separator />
 
               {/* Ticket Details */}
@@ -739,6 +937,44 @@ export function ClientDashboard({
           )}
         </DialogContent>
       </Dialog>
+
+      <TicketReopenDialog
+        ticket={reopenTarget}
+        open={reopenTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) setReopenTarget(null);
+        }}
+        deadline={reopenTarget ? getReopenDeadline(reopenTarget, workflowSettings) : null}
+        onSubmit={async (ticketId, reason) => {
+          await onTicketReopen?.(ticketId, reason);
+        }}
+      />
+
+      <Dialog
+        open={surveyTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) setSurveyTarget(null);
+        }}
+      >
+        <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto font-iran" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right font-iran">
+              نظرسنجی تیکت {surveyTarget?.id}
+            </DialogTitle>
+          </DialogHeader>
+          {surveyTarget && (
+            <CsatSurveyForm
+              ticket={surveyTarget}
+              questions={workflowSettings.csatQuestions}
+              onSubmitted={(survey) => {
+                addSurvey(survey);
+                setSurveyTarget(null);
+              }}
+              onCancel={() => setSurveyTarget(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
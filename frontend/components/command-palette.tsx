@@ -0,0 +1,245 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import { ExternalLink, Keyboard, MessageSquare, Moon, RefreshCcw, Ticket as TicketIcon, UserCheck } from "lucide-react"
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command"
+import type { DashboardNavItem } from "@/components/dashboard-shell"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import { useActiveTicket } from "@/lib/active-ticket-context"
+import { useAuth } from "@/lib/auth-context"
+import { mapApiStatusToUi } from "@/lib/ticket-mappers"
+import { getAllowedTransitions, ticketStatusLabels } from "@/lib/ticket-workflow"
+import { DEFAULT_TICKET_QUERY, queryTickets } from "@/lib/tickets-api"
+import type { Ticket, TicketStatus, UserRole } from "@/types"
+
+interface TicketHit {
+  id: string
+  title: string
+  status: TicketStatus
+}
+
+interface CommandPaletteProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  role: UserRole
+  navItems: DashboardNavItem[]
+  onNavigate: (target: string) => void
+  /** Tickets already loaded; matches from the server are added as the user types */
+  tickets: Ticket[]
+  onTicketUpdate?: (ticketId: string, updates: Partial<Ticket>) => void | Promise<void>
+  onShowShortcuts: () => void
+  onToggleTheme: () => void
+}
+
+/**
+ * Ctrl+K palette: jump to a ticket by number or title, switch dashboard sections and act on the
+ * ticket that is open in the current view
+ */
+export function CommandPalette({
+  open,
+  onOpenChange,
+  role,
+  navItems,
+  onNavigate,
+  tickets,
+  onTicketUpdate,
+  onShowShortcuts,
+  onToggleTheme,
+}: CommandPaletteProps) {
+  const router = useRouter()
+  const { token, user } = useAuth()
+  const activeTicket = useActiveTicket()
+  const [search, setSearch] = useState("")
+  const [serverHits, setServerHits] = useState<TicketHit[]>([])
+  const debouncedSearch = useDebouncedValue(search.trim())
+
+  useEffect(() => {
+    if (!open) setSearch("")
+  }, [open])
+
+  useEffect(() => {
+    if (!open || !token || debouncedSearch.length < 2) {
+      setServerHits([])
+      return
+    }
+    let active = true
+    queryTickets(
+      token,
+      { ...DEFAULT_TICKET_QUERY, pageSize: 8, search: debouncedSearch },
+      role === "engineer" ? "/api/technician/tickets" : "/api/tickets"
+    )
+      .then((page) => {
+        if (!active) return
+        setServerHits(page.items.map((ticket) => ({ id: ticket.id, title: ticket.title, status: mapApiStatusToUi(ticket.status) })))
+      })
+      .catch((error) => {
+        console.error("Failed to search tickets:", error)
+      })
+    return () => {
+      active = false
+    }
+  }, [open, token, debouncedSearch, role])
+
+  const ticketHits = useMemo(() => {
+    const hits = new Map<string, TicketHit>()
+    for (const ticket of [...tickets, ...serverHits]) {
+      if (!hits.has(ticket.id)) hits.set(ticket.id, { id: ticket.id, title: ticket.title, status: ticket.status })
+    }
+    return Array.from(hits.values())
+  }, [tickets, serverHits])
+
+  const sections = useMemo(
+    () =>
+      navItems.flatMap((item) => [
+        ...(item.target ? [{ target: item.target, title: item.title, icon: item.icon }] : []),
+        ...(item.children ?? []).map((child) => ({
+          target: child.target,
+          title: `${item.title} / ${child.title}`,
+          icon: item.icon,
+        })),
+      ]),
+    [navItems]
+  )
+
+  const run = (action: () => void | Promise<void>) => {
+    onOpenChange(false)
+    void action()
+  }
+
+  const openTicketPage = (ticketId: string) => router.push(`/tickets/${encodeURIComponent(ticketId)}`)
+  const typedId = search.trim().replace(/^#/, "")
+  const ticket = activeTicket?.ticket ?? null
+  const transitions = ticket ? getAllowedTransitions(role, ticket.status) : []
+  const canAssignToMe = role === "engineer" && !!user && !!ticket && ticket.assignedTo !== user.id
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <div dir="rtl" className="font-iran">
+        <CommandInput
+          value={search}
+          onValueChange={setSearch}
+          placeholder="شماره یا عنوان تیکت، نام بخش یا فرمان..."
+          className="text-right"
+        />
+        <CommandList>
+          <CommandEmpty>نتیجه‌ای یافت نشد.</CommandEmpty>
+
+          {ticket && onTicketUpdate && (
+            <>
+              <CommandGroup heading={`تیکت باز: ${ticket.id}`}>
+                {canAssignToMe && (
+                  <CommandItem
+                    value={`assign-me واگذاری به من ${ticket.id}`}
+                    onSelect={() =>
+                      run(() =>
+                        onTicketUpdate(ticket.id, {
+                          assignedTo: user.id,
+                          assignedTechnicianName: user.name,
+                          assignedTechnicianEmail: user.email,
+                        })
+                      )
+                    }
+                    className="gap-2"
+                  >
+                    <UserCheck className="h-4 w-4" />
+                    واگذاری به من
+                  </CommandItem>
+                )}
+                {activeTicket?.onReply && (
+                  <CommandItem value={`reply پاسخ ${ticket.id}`} onSelect={() => run(activeTicket.onReply!)} className="gap-2">
+                    <MessageSquare className="h-4 w-4" />
+                    نوشتن پاسخ
+                    <CommandShortcut>R</CommandShortcut>
+                  </CommandItem>
+                )}
+                {transitions.map((status) => (
+                  <CommandItem
+                    key={status}
+                    value={`status وضعیت ${ticketStatusLabels[status]} ${ticket.id}`}
+                    onSelect={() => run(() => onTicketUpdate(ticket.id, { status }))}
+                    className="gap-2"
+                  >
+                    <RefreshCcw className="h-4 w-4" />
+                    تغییر وضعیت به «{ticketStatusLabels[status]}»
+                  </CommandItem>
+                ))}
+                <CommandItem
+                  value={`open-page صفحه کامل ${ticket.id}`}
+                  onSelect={() => run(() => openTicketPage(ticket.id))}
+                  className="gap-2"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                  باز کردن صفحه کامل تیکت
+                </CommandItem>
+              </CommandGroup>
+              <CommandSeparator />
+            </>
+          )}
+
+          <CommandGroup heading="تیکت‌ها">
+            {typedId && !ticketHits.some((hit) => hit.id === typedId) && (
+              <CommandItem value={search} onSelect={() => run(() => openTicketPage(typedId))} className="gap-2">
+                <TicketIcon className="h-4 w-4" />
+                رفتن به تیکت {typedId}
+              </CommandItem>
+            )}
+            {ticketHits.map((hit) => (
+              <CommandItem
+                key={hit.id}
+                value={`${hit.id} ${hit.title}`}
+                onSelect={() => run(() => openTicketPage(hit.id))}
+                className="gap-2"
+              >
+                <TicketIcon className="h-4 w-4" />
+                <span className="font-mono text-xs text-muted-foreground">{hit.id}</span>
+                <span className="truncate">{hit.title}</span>
+                <CommandShortcut>{ticketStatusLabels[hit.status]}</CommandShortcut>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+          <CommandSeparator />
+
+          <CommandGroup heading="بخش‌ها">
+            {sections.map((section) => {
+              const Icon = section.icon
+              return (
+                <CommandItem
+                  key={section.target}
+                  value={`section ${section.title}`}
+                  onSelect={() => run(() => onNavigate(section.target))}
+                  className="gap-2"
+                >
+                  <Icon className="h-4 w-4" />
+                  {section.title}
+                </CommandItem>
+              )
+            })}
+          </CommandGroup>
+          <CommandSeparator />
+
+          <CommandGroup heading="عمومی">
+            <CommandItem value="shortcuts میان‌برهای صفحه‌کلید" onSelect={() => run(onShowShortcuts)} className="gap-2">
+              <Keyboard className="h-4 w-4" />
+              میان‌برهای صفحه‌کلید
+              <CommandShortcut>?</CommandShortcut>
+            </CommandItem>
+            <CommandItem value="theme تغییر پوسته روشن تیره" onSelect={() => run(onToggleTheme)} className="gap-2">
+              <Moon className="h-4 w-4" />
+              تغییر حالت روشن و تیره
+            </CommandItem>
+          </CommandGroup>
+        </CommandList>
+      </div>
+    </CommandDialog>
+  )
+}
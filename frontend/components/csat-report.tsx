@@ -0,0 +1,199 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Loader2, MessageSquare, Smile, Star, Users } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { StarRating } from "@/components/csat-survey-form"
+import { useTicketSurveys } from "@/hooks/use-ticket-surveys"
+import { groupSurveys, summarizeSurveys, type CsatGroup } from "@/lib/csat"
+import type { Ticket } from "@/types"
+
+type ReportPeriod = "30" | "90" | "all"
+
+const periodLabels: Record<ReportPeriod, string> = {
+  "30": "۳۰ روز اخیر",
+  "90": "۹۰ روز اخیر",
+  all: "همه زمان‌ها",
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface CsatReportProps {
+  tickets: Ticket[]
+}
+
+function GroupTable({ title, groups }: { title: string; groups: CsatGroup[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-right text-base font-iran">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {groups.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground font-iran">هنوز نظری ثبت نشده است</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-right font-iran">نام</TableHead>
+                <TableHead className="text-right font-iran">تعداد</TableHead>
+                <TableHead className="text-right font-iran">میانگین</TableHead>
+                <TableHead className="text-right font-iran">رضایت</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map((group) => (
+                <TableRow key={group.key || "none"}>
+                  <TableCell className="font-iran">{group.label}</TableCell>
+                  <TableCell className="font-iran">{group.summary.count}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <StarRating value={Math.round(group.summary.average ?? 0)} size="sm" />
+                      <span className="text-xs text-muted-foreground">{group.summary.average?.toFixed(1)}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-iran">{group.summary.satisfiedPercent}٪</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Satisfaction survey results for admins, broken down by technician and category
+ */
+export function CsatReport({ tickets }: CsatReportProps) {
+  const { surveys, loading } = useTicketSurveys()
+  const [period, setPeriod] = useState<ReportPeriod>("30")
+
+  const inPeriod = useMemo(() => {
+    if (period === "all") return surveys
+    const since = Date.now() - Number(period) * DAY_MS
+    return surveys.filter((survey) => new Date(survey.submittedAt).getTime() >= since)
+  }, [surveys, period])
+
+  const summary = summarizeSurveys(inPeriod)
+  const byTechnician = groupSurveys(
+    inPeriod,
+    (survey) =>
+      survey.technicianId ? { key: survey.technicianId, label: survey.technicianName || survey.technicianId } : null,
+    "بدون تکنسین"
+  )
+  const byCategory = groupSurveys(
+    inPeriod,
+    (survey) =>
+      survey.categoryName ? { key: String(survey.categoryId ?? survey.categoryName), label: survey.categoryName } : null,
+    "بدون دسته‌بندی"
+  )
+  const recentComments = inPeriod
+    .filter((survey) => survey.comment)
+    .sort((a, b) => new Date(b.submittedAt).getTime() - new Date(a.submittedAt).getTime())
+    .slice(0, 10)
+  const ticketTitles = new Map(tickets.map((ticket) => [ticket.id, ticket.title]))
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center gap-2 py-8 text-muted-foreground font-iran">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          در حال بارگذاری نتایج نظرسنجی...
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6 font-iran" dir="rtl">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">گزارش رضایت مشتریان</h2>
+        <Select value={period} onValueChange={(value) => setPeriod(value as ReportPeriod)} dir="rtl">
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(periodLabels) as ReportPeriod[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {periodLabels[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">میانگین امتیاز</CardTitle>
+            <Star className="h-4 w-4 text-yellow-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.average?.toFixed(1) ?? "-"}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">مشتریان راضی (۴ و ۵ ستاره)</CardTitle>
+            <Smile className="h-4 w-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {summary.satisfiedPercent === null ? "-" : `${summary.satisfiedPercent}٪`}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">تعداد پاسخ‌ها</CardTitle>
+            <Users className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summary.count}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <GroupTable title="به تفکیک تکنسین" groups={byTechnician} />
+        <GroupTable title="به تفکیک دسته‌بندی" groups={byCategory} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-right text-base">
+            <MessageSquare className="h-4 w-4" />
+            آخرین نظرات مشتریان
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {recentComments.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">نظری با توضیحات ثبت نشده است</p>
+          ) : (
+            recentComments.map((survey) => (
+              <div key={survey.id} className="space-y-2 rounded-lg border p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Badge variant="outline">{survey.ticketId}</Badge>
+                    <span className="text-muted-foreground">{ticketTitles.get(survey.ticketId)}</span>
+                  </div>
+                  <StarRating value={survey.rating} size="sm" />
+                </div>
+                <p className="text-sm whitespace-pre-wrap">{survey.comment}</p>
+                <p className="text-xs text-muted-foreground">
+                  {survey.technicianName && `${survey.technicianName} - `}
+                  {new Date(survey.submittedAt).toLocaleDateString("fa-IR")}
+                </p>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
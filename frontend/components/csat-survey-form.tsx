@@ -0,0 +1,176 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2, Star } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/hooks/use-toast"
+import { useAuth } from "@/lib/auth-context"
+import type { ApiSurveyAnswer, ApiTicketSurveyResponse } from "@/lib/api-types"
+import { getMissingAnswers, ratingLabels, type SurveyQuestion } from "@/lib/csat"
+import { submitTicketSurvey } from "@/lib/csat-api"
+import { cn } from "@/lib/utils"
+import type { Ticket } from "@/types"
+
+interface StarRatingProps {
+  value: number
+  onChange?: (value: number) => void
+  size?: "sm" | "md"
+  label?: string
+}
+
+/** Five clickable stars; read-only without `onChange` */
+export function StarRating({ value, onChange, size = "md", label }: StarRatingProps) {
+  const [hovered, setHovered] = useState(0)
+  const shown = hovered || value
+  const iconClass = size === "sm" ? "w-4 h-4" : "w-6 h-6"
+
+  return (
+    <div className="flex items-center gap-1" dir="ltr" role={onChange ? "radiogroup" : undefined} aria-label={label}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star
+            className={cn(iconClass, star <= shown ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground/40")}
+          />
+        )
+        if (!onChange) return <span key={star}>{icon}</span>
+        return (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={value === star}
+            aria-label={ratingLabels[star]}
+            className="rounded p-0.5 transition-transform hover:scale-110"
+            onMouseEnter={() => setHovered(star)}
+            onMouseLeave={() => setHovered(0)}
+            onClick={() => onChange(star)}
+          >
+            {icon}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+interface CsatSurveyFormProps {
+  ticket: Ticket
+  questions: SurveyQuestion[]
+  onSubmitted: (survey: ApiTicketSurveyResponse) => void
+  onCancel?: () => void
+}
+
+/**
+ * Satisfaction survey for a resolved ticket: an overall star rating, the admin's extra
+ * questions and an optional comment.
+ */
+export function CsatSurveyForm({ ticket, questions, onSubmitted, onCancel }: CsatSurveyFormProps) {
+  const { token } = useAuth()
+  const [rating, setRating] = useState(0)
+  const [answers, setAnswers] = useState<Record<string, ApiSurveyAnswer>>({})
+  const [comment, setComment] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  const missing = getMissingAnswers(questions, answers)
+  const canSubmit = rating > 0 && missing.length === 0 && !submitting
+
+  const setAnswer = (id: string, value: ApiSurveyAnswer) => setAnswers((prev) => ({ ...prev, [id]: value }))
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return
+    setSubmitting(true)
+    try {
+      const survey = await submitTicketSurvey(token, ticket.id, { rating, answers, comment: comment.trim() || null })
+      toast({ title: "از شما سپاسگزاریم", description: "نظر شما درباره این تیکت ثبت شد" })
+      onSubmitted(survey)
+    } catch (error) {
+      console.error("Failed to submit survey:", error)
+      toast({
+        title: "خطا",
+        description: error instanceof Error ? error.message : "ثبت نظرسنجی ناموفق بود",
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 font-iran" dir="rtl">
+      <div className="space-y-2">
+        <p className="text-sm font-medium">در مجموع چقدر از رسیدگی به این تیکت راضی هستید؟ *</p>
+        <div className="flex items-center gap-3">
+          <StarRating value={rating} onChange={setRating} label="امتیاز کلی" />
+          {rating > 0 && <span className="text-sm text-muted-foreground">{ratingLabels[rating]}</span>}
+        </div>
+      </div>
+
+      {questions.map((question) => (
+        <div key={question.id} className="space-y-2">
+          <p className="text-sm font-medium">
+            {question.text}
+            {question.required && " *"}
+          </p>
+          {question.type === "rating" && (
+            <StarRating
+              value={typeof answers[question.id] === "number" ? (answers[question.id] as number) : 0}
+              onChange={(value) => setAnswer(question.id, value)}
+              size="sm"
+              label={question.text}
+            />
+          )}
+          {question.type === "yes-no" && (
+            <div className="flex gap-2">
+              {[
+                { value: true, label: "بله" },
+                { value: false, label: "خیر" },
+              ].map((option) => (
+                <Button
+                  key={option.label}
+                  type="button"
+                  size="sm"
+                  variant={answers[question.id] === option.value ? "default" : "outline"}
+                  onClick={() => setAnswer(question.id, option.value)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          )}
+          {question.type === "text" && (
+            <Textarea
+              value={typeof answers[question.id] === "string" ? (answers[question.id] as string) : ""}
+              onChange={(e) => setAnswer(question.id, e.target.value)}
+              className="min-h-[60px] text-right"
+              dir="rtl"
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">توضیحات (اختیاری)</p>
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="هر پیشنهادی برای بهتر شدن خدمات دارید بنویسید..."
+          className="min-h-[80px] text-right"
+          dir="rtl"
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel} disabled={submitting}>
+            بعدا
+          </Button>
+        )}
+        <Button onClick={handleSubmit} disabled={!canSubmit} className="gap-2">
+          {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+          ثبت نظر
+        </Button>
+      </div>
+    </div>
+  )
+}
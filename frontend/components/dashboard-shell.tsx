@@ -8,6 +8,7 @@ import {
   ChevronRight,
   Menu,
   Moon,
+  Search,
   SunMedium,
 } from "lucide-react"
 import { useTheme } from "next-themes"
@@ -16,7 +17,13 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
 import { UserMenu } from "@/components/user-menu"
+import { NotificationCenter } from "@/components/notification-center"
+import { CommandPalette } from "@/components/command-palette"
+import { KeyboardShortcutsDialog } from "@/components/keyboard-shortcuts-dialog"
 import { usePreferences } from "@/lib/preferences-context"
+import { ActiveTicketProvider, useActiveTicket } from "@/lib/active-ticket-context"
+import { focusTicketSearch, isPlainKey, isTypingTarget } from "@/lib/keyboard-shortcuts"
+import type { Ticket } from "@/types"
 
 export interface DashboardNavChild {
   id: string
@@ -48,6 +55,10 @@ interface DashboardShellProps {
   navItems: DashboardNavItem[]
   activeItem: string
   onSelect: (target: string) => void
+  /** Tickets the command palette offers before searching the server */
+  tickets?: Ticket[]
+  /** Lets the command palette change the ticket open in the current view */
+  onTicketUpdate?: (ticketId: string, updates: Partial<Ticket>) => void | Promise<void>
   children: React.ReactNode
 }
 
@@ -75,12 +86,70 @@ const roleMeta: Record<
   },
 }
 
-export function DashboardShell({ user, navItems, activeItem, onSelect, children }: DashboardShellProps) {
+interface ShellShortcutsOptions {
+  commandPaletteOpen: boolean
+  onCommandPaletteOpenChange: (open: boolean) => void
+}
+
+/** Global shortcuts: Ctrl+K for the palette, "?" for help, "/" for search and R to reply */
+function useShellShortcuts({ commandPaletteOpen, onCommandPaletteOpenChange }: ShellShortcutsOptions) {
+  const activeTicket = useActiveTicket()
+  const [shortcutsOpen, setShortcutsOpen] = useState(false)
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && !event.altKey && event.code === "KeyK") {
+        event.preventDefault()
+        onCommandPaletteOpenChange(!commandPaletteOpen)
+        return
+      }
+      if (!isPlainKey(event) || isTypingTarget(event.target) || commandPaletteOpen) return
+
+      if (event.key === "?" || (event.shiftKey && event.code === "Slash")) {
+        event.preventDefault()
+        setShortcutsOpen(true)
+      } else if (event.code === "Slash" && !event.shiftKey) {
+        if (focusTicketSearch()) event.preventDefault()
+      } else if (event.code === "KeyR" && !event.shiftKey && activeTicket?.onReply) {
+        event.preventDefault()
+        activeTicket.onReply()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [activeTicket, commandPaletteOpen, onCommandPaletteOpenChange])
+
+  return { shortcutsOpen, setShortcutsOpen }
+}
+
+export function DashboardShell(props: DashboardShellProps) {
+  return (
+    <ActiveTicketProvider>
+      <DashboardShellLayout {...props} />
+    </ActiveTicketProvider>
+  )
+}
+
+function DashboardShellLayout({
+  user,
+  navItems,
+  activeItem,
+  onSelect,
+  tickets = [],
+  onTicketUpdate,
+  children,
+}: DashboardShellProps) {
   const { theme, setTheme } = useTheme()
   const { preferences, updatePreferences } = usePreferences()
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false)
   const [expandedSections, setExpandedSections] = useState<string[]>([])
+  const [commandPaletteOpen, setCommandPaletteOpen] = useState(false)
+  const { shortcutsOpen, setShortcutsOpen } = useShellShortcuts({
+    commandPaletteOpen,
+    onCommandPaletteOpenChange: setCommandPaletteOpen,
+  })
 
   useEffect(() => {
     const expandableIds = navItems.filter((item) => item.children?.length).map((item) => item.id)
@@ -297,6 +366,19 @@ export function DashboardShell({ user, navItems, activeItem, onSelect, children
             </div>
 
             <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2 text-muted-foreground hover:text-foreground"
+                onClick={() => setCommandPaletteOpen(true)}
+                title="فرمان‌یاب"
+              >
+                <Search className="h-4 w-4" />
+                <span className="hidden sm:inline">جستجو و فرمان</span>
+                <kbd className="hidden rounded border bg-muted px-1.5 font-mono text-[10px] sm:inline" dir="ltr">
+                  Ctrl K
+                </kbd>
+              </Button>
               <Button
                 variant="ghost"
                 size="icon"
@@ -306,6 +388,7 @@ export function DashboardShell({ user, navItems, activeItem, onSelect, children
               >
                 {theme === "dark" ? <SunMedium className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
               </Button>
+              <NotificationCenter />
               <UserMenu />
             </div>
           </header>
@@ -315,6 +398,19 @@ export function DashboardShell({ user, navItems, activeItem, onSelect, children
           </main>
         </div>
       </div>
+
+      <CommandPalette
+        open={commandPaletteOpen}
+        onOpenChange={setCommandPaletteOpen}
+        role={user.role}
+        navItems={navItems}
+        onNavigate={handleSelect}
+        tickets={tickets}
+        onTicketUpdate={onTicketUpdate}
+        onShowShortcuts={() => setShortcutsOpen(true)}
+        onToggleTheme={handleThemeToggle}
+      />
+      <KeyboardShortcutsDialog open={shortcutsOpen} onOpenChange={setShortcutsOpen} />
     </div>
   )
 }
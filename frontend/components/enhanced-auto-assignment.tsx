@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from "react"
 import type { TechnicianProfile } from "@/data/technician-profiles"
+import { assignmentCriteriaLabels, rankTechnicians, type AssignmentCriteria } from "@/lib/assignment-scoring"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -37,19 +38,6 @@ import {
   Play,
 } from "lucide-react"
 
-interface AssignmentCriteria {
-  expertise: number // 0-100
-  availability: number // 0-100
-  workload: number // 0-100
-  performance: number // 0-100
-  responseTime: number // 0-100
-  priority: number // 0-100
-  experience: number // 0-100
-  customerRating: number // 0-100
-}
-
-type AssignmentScoreMap = Record<keyof AssignmentCriteria, number>
-
 interface AssignmentRule {
   id: string
   name: string
@@ -64,97 +52,6 @@ interface AssignmentRule {
   description: string
 }
 
-const mockTechnicians = [
-  {
-    id: "tech-001",
-    name: "علی احمدی",
-    email: "ali@company.com",
-    specialties: ["network", "hardware", "security"],
-    primarySpecialty: "network",
-    rating: 4.8,
-    activeTickets: 3,
-    completedTickets: 145,
-    status: "available",
-    avgResponseTime: 1.2, // hours
-    avgResolutionTime: 4.5, // hours
-    customerSatisfaction: 4.9,
-    workingHours: { start: 8, end: 17 },
-    timezone: "Asia/Tehran",
-    certifications: ["CCNA", "CompTIA Network+"],
-    languages: ["فارسی", "انگلیسی"],
-    lastActive: new Date(),
-    performanceScore: 92,
-    efficiency: 88,
-    escalationRate: 5, // percentage
-  },
-  {
-    id: "tech-002",
-    name: "سارا محمدی",
-    email: "sara@company.com",
-    specialties: ["software", "security", "access"],
-    primarySpecialty: "software",
-    rating: 4.9,
-    activeTickets: 2,
-    completedTickets: 198,
-    status: "available",
-    avgResponseTime: 0.8,
-    avgResolutionTime: 3.2,
-    customerSatisfaction: 4.95,
-    workingHours: { start: 9, end: 18 },
-    timezone: "Asia/Tehran",
-    certifications: ["CISSP", "CEH"],
-    languages: ["فارسی", "انگلیسی", "آلمانی"],
-    lastActive: new Date(),
-    performanceScore: 96,
-    efficiency: 94,
-    escalationRate: 2,
-  },
-  {
-    id: "tech-003",
-    name: "حسن رضایی",
-    email: "hassan@company.com",
-    specialties: ["hardware", "email", "network"],
-    primarySpecialty: "hardware",
-    rating: 4.7,
-    activeTickets: 5,
-    completedTickets: 89,
-    status: "busy",
-    avgResponseTime: 2.1,
-    avgResolutionTime: 6.8,
-    customerSatisfaction: 4.6,
-    workingHours: { start: 8, end: 16 },
-    timezone: "Asia/Tehran",
-    certifications: ["CompTIA A+", "ITIL"],
-    languages: ["فارسی"],
-    lastActive: new Date(Date.now() - 30 * 60 * 1000), // 30 minutes ago
-    performanceScore: 78,
-    efficiency: 72,
-    escalationRate: 12,
-  },
-  {
-    id: "tech-004",
-    name: "مریم کریمی",
-    email: "maryam@company.com",
-    specialties: ["software", "access", "email"],
-    primarySpecialty: "access",
-    rating: 4.6,
-    activeTickets: 1,
-    completedTickets: 67,
-    status: "available",
-    avgResponseTime: 1.5,
-    avgResolutionTime: 5.1,
-    customerSatisfaction: 4.7,
-    workingHours: { start: 10, end: 19 },
-    timezone: "Asia/Tehran",
-    certifications: ["Microsoft 365", "Azure AD"],
-    languages: ["فارسی", "انگلیسی"],
-    lastActive: new Date(),
-    performanceScore: 84,
-    efficiency: 81,
-    escalationRate: 8,
-  },
-]
-
 const defaultRules: AssignmentRule[] = [
   {
     id: "urgent-expert",
@@ -262,7 +159,7 @@ export function EnhancedAutoAssignment({
   const [simulationDialogOpen, setSimulationDialogOpen] = useState(false)
   const [simulationResults, setSimulationResults] = useState<any[]>([])
   const [activeTab, setActiveTab] = useState("rules")
-  const technicians = technicianOptions && technicianOptions.length > 0 ? technicianOptions : mockTechnicians
+  const technicians = technicianOptions ?? []
 
   // Load current status on mount
   useEffect(() => {
@@ -342,158 +239,6 @@ export function EnhancedAutoAssignment({
     }
   }
 
-  const calculateAssignmentScore = (technician: any, ticket: any, rule: AssignmentRule) => {
-    const scores: AssignmentScoreMap = {
-      expertise: calculateExpertiseScore(technician, ticket),
-      availability: calculateAvailabilityScore(technician),
-      workload: calculateWorkloadScore(technician),
-      performance: calculatePerformanceScore(technician),
-      responseTime: calculateResponseTimeScore(technician),
-      priority: calculatePriorityScore(technician, ticket),
-      experience: calculateExperienceScore(technician),
-      customerRating: calculateCustomerRatingScore(technician),
-    }
-
-    let totalScore = 0
-    let totalWeight = 0
-
-    const criteriaEntries = Object.entries(rule.criteria) as Array<[keyof AssignmentCriteria, number]>
-
-    criteriaEntries.forEach(([criterion, weight]) => {
-      if (weight > 0) {
-        totalScore += (scores[criterion] * weight) / 100
-        totalWeight += weight
-      }
-    })
-
-    const finalScore = totalWeight > 0 ? (totalScore / totalWeight) * 100 : 0
-
-    return {
-      total: Math.round(finalScore * 10) / 10,
-      breakdown: scores,
-      reasons: generateAssignmentReasons(technician, ticket, scores),
-    }
-  }
-
-  const calculateExpertiseScore = (technician: any, ticket: any) => {
-    let score = 0
-
-    if (technician.primarySpecialty === ticket.category) {
-      score += 50
-    }
-
-    if (technician.specialties.includes(ticket.category)) {
-      score += 30
-    }
-
-    const relatedSpecialties = getRelatedSpecialties(ticket.category)
-    const matchingRelated = technician.specialties.filter((s: string) => relatedSpecialties.includes(s))
-    score += matchingRelated.length * 5
-
-    score += technician.certifications.length * 2
-
-    return Math.min(100, score)
-  }
-
-  const calculateAvailabilityScore = (technician: any) => {
-    if (technician.status === "available") return 100
-    if (technician.status === "busy") return 30
-    return 0
-  }
-
-  const calculateWorkloadScore = (technician: any) => {
-    const maxTickets = 8
-    const workloadRatio = technician.activeTickets / maxTickets
-    return Math.max(0, (1 - workloadRatio) * 100)
-  }
-
-  const calculatePerformanceScore = (technician: any) => {
-    return technician.performanceScore || 0
-  }
-
-  const calculateResponseTimeScore = (technician: any) => {
-    const maxResponseTime = 4 // hours
-    const score = Math.max(0, (maxResponseTime - technician.avgResponseTime) / maxResponseTime) * 100
-    return Math.min(100, score)
-  }
-
-  const calculatePriorityScore = (technician: any, ticket: any) => {
-    const priorityRequirements: Record<string, { minRating: number; minExperience: number }> = {
-      urgent: { minRating: 4.5, minExperience: 50 },
-      high: { minRating: 4.0, minExperience: 30 },
-      medium: { minRating: 3.5, minExperience: 20 },
-      low: { minRating: 3.0, minExperience: 10 },
-    }
-
-    const requirement = priorityRequirements[ticket.priority] || priorityRequirements.medium
-    let score = 0
-
-    if (technician.rating >= requirement.minRating) {
-      score += 60
-    } else {
-      score += (technician.rating / requirement.minRating) * 60
-    }
-
-    if (technician.completedTickets >= requirement.minExperience) {
-      score += 40
-    } else {
-      score += (technician.completedTickets / requirement.minExperience) * 40
-    }
-
-    return Math.min(100, score)
-  }
-
-  const calculateExperienceScore = (technician: any) => {
-    const maxExperience = 200
-    return Math.min(100, (technician.completedTickets / maxExperience) * 100)
-  }
-
-  const calculateCustomerRatingScore = (technician: any) => {
-    return (technician.customerSatisfaction / 5) * 100
-  }
-
-  const getRelatedSpecialties = (category: string) => {
-    const relations: Record<string, string[]> = {
-      hardware: ["network", "email"],
-      software: ["access", "security"],
-      network: ["hardware", "security"],
-      email: ["software", "security"],
-      security: ["network", "access"],
-      access: ["software", "security"],
-    }
-    return relations[category] || []
-  }
-
-  const generateAssignmentReasons = (technician: any, ticket: any, scores: AssignmentScoreMap) => {
-    const reasons: string[] = []
-
-    if (scores.expertise > 80) {
-      reasons.push(`متخصص ${getCategoryLabel(ticket)}`)
-    }
-
-    if (scores.availability === 100) {
-      reasons.push("در دسترس")
-    }
-
-    if (scores.workload > 70) {
-      reasons.push("بار کاری مناسب")
-    }
-
-    if (scores.performance > 85) {
-      reasons.push("عملکرد عالی")
-    }
-
-    if (scores.responseTime > 80) {
-      reasons.push("پاسخ‌دهی سریع")
-    }
-
-    if (scores.customerRating > 90) {
-      reasons.push("رضایت بالای مشتری")
-    }
-
-    return reasons
-  }
-
   const findBestTechnician = (ticket: any) => {
     const applicableRules = rules.filter((rule) => {
       if (!rule.enabled) return false
@@ -518,16 +263,9 @@ export function EnhancedAutoAssignment({
     }
 
     const rule = applicableRules[0]
+    const best = rankTechnicians(ticket, technicians, rule.criteria)[0]
 
-    const scoredTechnicians = technicians
-      .map((tech) => ({
-        ...tech,
-        assignmentData: calculateAssignmentScore(tech, ticket, rule),
-        rule: rule.name,
-      }))
-      .sort((a, b) => b.assignmentData.total - a.assignmentData.total)
-
-    return scoredTechnicians[0] || null
+    return best ? { ...best, rule: rule.name } : null
   }
 
   const runSimulation = () => {
@@ -538,7 +276,7 @@ export function EnhancedAutoAssignment({
       return {
         ticket,
         recommendedTechnician: bestTech,
-        confidence: bestTech ? Math.min(100, bestTech.assignmentData.total) : 0,
+        confidence: bestTech ? Math.min(100, bestTech.score) : 0,
       }
     })
 
@@ -551,14 +289,14 @@ export function EnhancedAutoAssignment({
 
     if (bestTech) {
       onTicketUpdate(ticket.id, {
-        assignedTo: bestTech.id,
-        assignedTechnicianName: bestTech.name,
+        assignedTo: bestTech.technician.id,
+        assignedTechnicianName: bestTech.technician.name,
         status: ticket.status === "open" ? "in-progress" : ticket.status,
       })
 
       toast({
         title: "تکنسین به صورت هوشمند تعیین شد",
-        description: `تیکت ${ticket.id} به ${bestTech.name} واگذار شد (امتیاز: ${bestTech.assignmentData.total}) - قانون: ${bestTech.rule}`,
+        description: `تیکت ${ticket.id} به ${bestTech.technician.name} واگذار شد (امتیاز: ${bestTech.score}) - قانون: ${bestTech.rule}`,
       })
     } else {
       toast({
@@ -733,21 +471,7 @@ export function EnhancedAutoAssignment({
                                 <div key={criterion} className="flex items-center gap-2 text-xs">
                                   <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                                   <span>
-                                    {criterion === "expertise"
-                                      ? "تخصص"
-                                      : criterion === "availability"
-                                        ? "در دسترس بودن"
-                                        : criterion === "workload"
-                                          ? "بار کاری"
-                                          : criterion === "performance"
-                                            ? "عملکرد"
-                                            : criterion === "responseTime"
-                                              ? "زمان پاسخ"
-                                              : criterion === "priority"
-                                                ? "اولویت"
-                                                : criterion === "experience"
-                                                  ? "تجربه"
-                                                  : "رضایت مشتری"}
+                                    {assignmentCriteriaLabels[criterion as keyof AssignmentCriteria]}
                                     : {weight}%
                                   </span>
                                 </div>
@@ -853,8 +577,10 @@ export function EnhancedAutoAssignment({
                               </div>
                             </div>
                             <div className="text-left">
-                              <div className="text-sm font-medium">{tech.performanceScore}</div>
-                              <div className="text-xs text-muted-foreground">امتیاز کل</div>
+                              <div className="text-sm font-medium">
+                                {tech.activeTickets} / {tech.maxActiveTickets}
+                              </div>
+                              <div className="text-xs text-muted-foreground">بار کاری</div>
                             </div>
                           </div>
                         ))}
@@ -962,21 +688,7 @@ export function EnhancedAutoAssignment({
                   {Object.entries(selectedRule.criteria).map(([criterion, weight]) => (
                     <div key={criterion}>
                       <Label className="text-sm font-medium mb-3 block">
-                        {criterion === "expertise"
-                          ? "تخصص و مهارت"
-                          : criterion === "availability"
-                            ? "در دسترس بودن"
-                            : criterion === "workload"
-                              ? "بار کاری"
-                              : criterion === "performance"
-                                ? "عملکرد"
-                                : criterion === "responseTime"
-                                  ? "زمان پاسخ"
-                                  : criterion === "priority"
-                                    ? "مدیریت اولویت"
-                                    : criterion === "experience"
-                                      ? "تجربه"
-                                      : "رضایت مشتری"}
+                        {assignmentCriteriaLabels[criterion as keyof AssignmentCriteria]}
                         : {weight}%
                       </Label>
                       <Slider
@@ -1045,9 +757,9 @@ export function EnhancedAutoAssignment({
                         {recommendedTechnician ? (
                           <div className="flex items-center gap-3">
                             <div>
-                              <div className="font-medium text-sm">{recommendedTechnician.name}</div>
+                              <div className="font-medium text-sm">{recommendedTechnician.technician.name}</div>
                               <div className="text-xs text-muted-foreground">
-                                امتیاز: {recommendedTechnician.assignmentData.total}
+                                امتیاز: {recommendedTechnician.score}
                               </div>
                               <div className="text-xs text-muted-foreground">قانون: {recommendedTechnician.rule}</div>
                             </div>
@@ -1072,7 +784,7 @@ export function EnhancedAutoAssignment({
                     {recommendedTechnician && (
                       <div className="mt-3 pt-3 border-t">
                         <div className="flex gap-2 flex-wrap">
-                          {recommendedTechnician.assignmentData.reasons.map((reason: string, idx: number) => (
+                          {recommendedTechnician.reasons.map((reason: string, idx: number) => (
                             <Badge key={idx} variant="secondary" className="text-xs">
                               {reason}
                             </Badge>
@@ -1,85 +1,118 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect, useRef } from "react"
 import { useDropzone } from "react-dropzone"
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { toast } from "@/hooks/use-toast"
-import { Upload, X, File, ImageIcon, FileText } from "lucide-react"
-
-
-export const validateFile = (file: File): string | null => {
-  const maxSize = 10 * 1024 * 1024 // 10MB
-  const allowedTypes = [
-    "image/jpeg",
-    "image/png",
-    "image/gif",
-    "application/pdf",
-    "text/plain",
-    "application/msword",
-    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    "application/vnd.ms-excel",
-    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-  ]
-
-  if (file.size > maxSize) {
-    return "حجم فایل نباید بیشتر از ۱۰ مگابایت باشد"
-  }
-
-  if (!allowedTypes.includes(file.type)) {
-    return "نوع فایل مجاز نیست"
-  }
-
-  return null
-}
-
-export const uploadFile = async (file: File): Promise<UploadedFile> => {
-  
-  await new Promise((resolve) => setTimeout(resolve, 1000))
-
-  return {
-    id: Math.random().toString(36).substr(2, 9),
-    name: file.name,
-    size: file.size,
-    type: file.type,
-    url: URL.createObjectURL(file),
-    uploadedAt: new Date().toISOString(),
-  }
-}
-
-export const formatFileSize = (bytes: number): string => {
-  if (bytes === 0) return "0 بایت"
-
-  const k = 1024
-  const sizes = ["بایت", "کیلوبایت", "مگابایت", "گیگابایت"]
-  const i = Math.floor(Math.log(bytes) / Math.log(k))
-
-  return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
-}
-
-export interface UploadedFile {
-  id: string
-  name: string
-  size: number
-  type: string
-  url: string
-  uploadedAt: string
-}
+import { useAuth } from "@/lib/auth-context"
+import { deleteAttachment } from "@/lib/attachments-api"
+import {
+  formatFileSize,
+  isUploadCancelled,
+  uploadFile,
+  validateFile,
+  type UploadedFile,
+} from "@/lib/file-upload"
+import { Upload, X, File, ImageIcon, FileText, RotateCcw } from "lucide-react"
 
 interface FileUploadProps {
   onFilesChange: (files: UploadedFile[]) => void
   maxFiles?: number
   className?: string
+  /** Attach uploads straight to an existing ticket instead of holding them for a new one */
+  ticketId?: string
+}
+
+interface PendingUpload {
+  file: File
+  status: "uploading" | "failed"
+  error?: string
 }
 
-export function FileUpload({ onFilesChange, maxFiles = 5, className }: FileUploadProps) {
+export function FileUpload({ onFilesChange, maxFiles = 5, className, ticketId }: FileUploadProps) {
+  const { token } = useAuth()
   const [files, setFiles] = useState<UploadedFile[]>([])
   const [uploading, setUploading] = useState<string[]>([])
   const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({})
+  const [pendingUploads, setPendingUploads] = useState<Record<string, PendingUpload>>({})
+  const controllersRef = useRef<Record<string, AbortController>>({})
+  // Uploads held for a ticket that does not exist yet; only these are ours to delete
+  const heldUploadIdsRef = useRef<Set<string>>(new Set())
+
+  // Abort anything still in flight when the form is closed
+  useEffect(() => {
+    const controllers = controllersRef.current
+    return () => {
+      Object.values(controllers).forEach((controller) => controller.abort())
+    }
+  }, [])
+
+  const clearUpload = useCallback((tempId: string) => {
+    delete controllersRef.current[tempId]
+    setUploading((prev) => prev.filter((id) => id !== tempId))
+    setUploadProgress((prev) => {
+      const { [tempId]: _, ...rest } = prev
+      return rest
+    })
+    setPendingUploads((prev) => {
+      const { [tempId]: _, ...rest } = prev
+      return rest
+    })
+  }, [])
+
+  const startUpload = useCallback(
+    async (tempId: string, file: File) => {
+      const controller = new AbortController()
+      controllersRef.current[tempId] = controller
+      setUploading((prev) => (prev.includes(tempId) ? prev : [...prev, tempId]))
+      setUploadProgress((prev) => ({ ...prev, [tempId]: 0 }))
+      setPendingUploads((prev) => ({ ...prev, [tempId]: { file, status: "uploading" } }))
+
+      try {
+        const uploadedFile = await uploadFile(file, {
+          token,
+          ticketId,
+          signal: controller.signal,
+          onProgress: (percent) => setUploadProgress((prev) => ({ ...prev, [tempId]: percent })),
+        })
+        if (!ticketId) heldUploadIdsRef.current.add(uploadedFile.id)
+        setFiles((prev) => {
+          const newFiles = [...prev, uploadedFile]
+          onFilesChange(newFiles)
+          return newFiles
+        })
+        setUploadProgress((prev) => ({ ...prev, [tempId]: 100 }))
+
+        setTimeout(() => clearUpload(tempId), 500)
+
+        toast({
+          title: "فایل آپلود شد",
+          description: `${file.name} با موفقیت آپلود شد`,
+        })
+      } catch (error) {
+        delete controllersRef.current[tempId]
+        if (isUploadCancelled(error)) {
+          clearUpload(tempId)
+          return
+        }
+        setPendingUploads((prev) => ({
+          ...prev,
+          [tempId]: { file, status: "failed", error: error instanceof Error ? error.message : undefined },
+        }))
+        toast({
+          title: "خطا در آپلود",
+          description: `خطا در آپلود ${file.name}`,
+          variant: "destructive",
+        })
+      }
+    },
+    [token, ticketId, onFilesChange, clearUpload],
+  )
 
   const onDrop = useCallback(
     async (acceptedFiles: File[]) => {
-      if (files.length + acceptedFiles.length > maxFiles) {
+      if (files.length + uploading.length + acceptedFiles.length > maxFiles) {
         toast({
           title: "تعداد فایل‌ها زیاد است",
           description: `حداکثر ${maxFiles} فایل مجاز است`,
@@ -100,57 +133,10 @@ export function FileUpload({ onFilesChange, maxFiles = 5, className }: FileUploa
         }
 
         const tempId = Math.random().toString(36).substr(2, 9)
-        setUploading((prev) => [...prev, tempId])
-        setUploadProgress((prev) => ({ ...prev, [tempId]: 0 }))
-
-        
-        const progressInterval = setInterval(() => {
-          setUploadProgress((prev) => {
-            const currentProgress = prev[tempId] || 0
-            if (currentProgress >= 90) {
-              clearInterval(progressInterval)
-              return prev
-            }
-            return { ...prev, [tempId]: currentProgress + 10 }
-          })
-        }, 100)
-
-        try {
-          const uploadedFile = await uploadFile(file)
-          setFiles((prev) => {
-            const newFiles = [...prev, uploadedFile]
-            onFilesChange(newFiles)
-            return newFiles
-          })
-          setUploadProgress((prev) => ({ ...prev, [tempId]: 100 }))
-
-          setTimeout(() => {
-            setUploading((prev) => prev.filter((id) => id !== tempId))
-            setUploadProgress((prev) => {
-              const { [tempId]: _, ...rest } = prev
-              return rest
-            })
-          }, 500)
-
-          toast({
-            title: "فایل آپلود شد",
-            description: `${file.name} با موفقیت آپلود شد`,
-          })
-        } catch (error) {
-          setUploading((prev) => prev.filter((id) => id !== tempId))
-          setUploadProgress((prev) => {
-            const { [tempId]: _, ...rest } = prev
-            return rest
-          })
-          toast({
-            title: "خطا در آپلود",
-            description: `خطا در آپلود ${file.name}`,
-            variant: "destructive",
-          })
-        }
+        void startUpload(tempId, file)
       }
     },
-    [files.length, maxFiles, onFilesChange],
+    [files.length, uploading.length, maxFiles, startUpload],
   )
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -159,12 +145,34 @@ export function FileUpload({ onFilesChange, maxFiles = 5, className }: FileUploa
     disabled: files.length >= maxFiles,
   })
 
+  const cancelUpload = (tempId: string) => {
+    const controller = controllersRef.current[tempId]
+    if (controller) {
+      controller.abort()
+    } else {
+      clearUpload(tempId)
+    }
+  }
+
+  const retryUpload = (tempId: string) => {
+    const pending = pendingUploads[tempId]
+    if (pending) {
+      void startUpload(tempId, pending.file)
+    }
+  }
+
   const removeFile = (fileId: string) => {
     setFiles((prev) => {
       const newFiles = prev.filter((f) => f.id !== fileId)
       onFilesChange(newFiles)
       return newFiles
     })
+    // Drop the uploaded attachment server-side as well, but never a file already on a ticket
+    if (heldUploadIdsRef.current.delete(fileId)) {
+      deleteAttachment(token, fileId).catch((error) => {
+        console.warn("[file-upload] Failed to delete pending attachment", fileId, error)
+      })
+    }
     toast({
       title: "فایل حذف شد",
       description: "فایل از لیست پیوست‌ها حذف شد",
@@ -209,15 +217,44 @@ export function FileUpload({ onFilesChange, maxFiles = 5, className }: FileUploa
       {/* Upload Progress */}
       {uploading.length > 0 && (
         <div className="space-y-2">
-          {uploading.map((tempId) => (
-            <div key={tempId} className="space-y-1">
-              <div className="flex justify-between text-sm">
-                <span>در حال آپلود...</span>
-                <span>{uploadProgress[tempId] || 0}%</span>
+          {uploading.map((tempId) => {
+            const pending = pendingUploads[tempId]
+            const failed = pending?.status === "failed"
+            return (
+              <div key={tempId} className="space-y-1">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className={`truncate ${failed ? "text-red-600" : ""}`}>
+                    {failed ? `آپلود ناموفق: ${pending?.file.name}` : `در حال آپلود ${pending?.file.name ?? ""}...`}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    {!failed && <span>{uploadProgress[tempId] || 0}%</span>}
+                    {failed && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => retryUpload(tempId)}
+                        title="تلاش مجدد"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => cancelUpload(tempId)}
+                      className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                      title={failed ? "حذف" : "لغو آپلود"}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <Progress value={uploadProgress[tempId] || 0} className="h-2" />
               </div>
-              <Progress value={uploadProgress[tempId] || 0} className="h-2" />
-            </div>
-          ))}
+            )
+          })}
         </div>
       )}
 
@@ -237,14 +274,18 @@ export function FileUpload({ onFilesChange, maxFiles = 5, className }: FileUploa
                     </p>
                   </div>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => removeFile(file.id)}
-                  className="text-red-500 hover:text-red-700 hover:bg-red-50"
-                >
-                  <X className="w-4 h-4" />
-                </Button>
+                {/* Files uploaded to an existing ticket are attached already and managed there */}
+                {!ticketId && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeFile(file.id)}
+                    className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
               </div>
             ))}
           </div>
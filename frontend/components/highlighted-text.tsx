@@ -0,0 +1,32 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { findHighlightRanges } from "@/lib/ticket-search"
+
+interface HighlightedTextProps {
+  text: string
+  /** Normalized search terms, as returned by `parseSearchQuery` */
+  terms: string[]
+  className?: string
+}
+
+/** `text` with every match of the search terms marked */
+export function HighlightedText({ text, terms, className }: HighlightedTextProps) {
+  const ranges = findHighlightRanges(text, terms)
+  if (ranges.length === 0) return <span className={className}>{text}</span>
+
+  const parts: ReactNode[] = []
+  let cursor = 0
+  for (const [start, end] of ranges) {
+    if (start > cursor) parts.push(text.slice(cursor, start))
+    parts.push(
+      <mark key={start} className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/30">
+        {text.slice(start, end)}
+      </mark>
+    )
+    cursor = end
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor))
+
+  return <span className={className}>{parts}</span>
+}
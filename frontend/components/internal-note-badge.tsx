@@ -0,0 +1,20 @@
+"use client"
+
+import { Lock } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+
+/** Card styling that sets internal notes apart from public replies in a ticket thread */
+export const internalNoteClassName = "border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/40"
+
+export function InternalNoteBadge({ className }: { className?: string }) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn("gap-1 border-amber-300 bg-amber-100 text-amber-800 font-iran text-xs", className)}
+    >
+      <Lock className="h-3 w-3" />
+      یادداشت داخلی
+    </Badge>
+  )
+}
@@ -0,0 +1,54 @@
+"use client"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { KEYBOARD_SHORTCUTS, shortcutGroupLabels, type ShortcutGroup } from "@/lib/keyboard-shortcuts"
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const groups = Object.keys(shortcutGroupLabels) as ShortcutGroup[]
+
+/** Help overlay listing every keyboard shortcut, opened with "?" */
+export function KeyboardShortcutsDialog({ open, onOpenChange }: KeyboardShortcutsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg font-iran" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right font-iran">میان‌برهای صفحه‌کلید</DialogTitle>
+          <DialogDescription className="text-right font-iran">
+            میان‌برهای تک‌کلیدی هنگام تایپ در کادرها غیرفعال هستند.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {groups.map((group) => (
+            <div key={group} className="space-y-2">
+              <h4 className="text-sm font-medium text-muted-foreground">{shortcutGroupLabels[group]}</h4>
+              <ul className="space-y-1">
+                {KEYBOARD_SHORTCUTS.filter((shortcut) => shortcut.group === group).map((shortcut) => (
+                  <li
+                    key={`${shortcut.keys.join("+")}-${shortcut.description}`}
+                    className="flex items-center justify-between gap-4 text-sm"
+                  >
+                    <span>{shortcut.description}</span>
+                    <span className="flex items-center gap-1" dir="ltr">
+                      {shortcut.keys.map((key) => (
+                        <kbd
+                          key={key}
+                          className="rounded border bg-muted px-1.5 py-0.5 font-mono text-xs text-muted-foreground"
+                        >
+                          {key}
+                        </kbd>
+                      ))}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
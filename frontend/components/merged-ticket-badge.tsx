@@ -0,0 +1,34 @@
+"use client"
+
+import { GitMerge } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+
+/** Back-link from a ticket closed as a duplicate; renders nothing for tickets that were not merged */
+export function MergedTicketBadge({
+  targetTicketId,
+  onOpen,
+  className,
+}: {
+  targetTicketId?: string | null
+  /** Opens the surviving ticket; without it the badge is plain text */
+  onOpen?: (ticketId: string) => void
+  className?: string
+}) {
+  if (!targetTicketId) return null
+  return (
+    <Badge
+      variant="outline"
+      title={`ادغام‌شده در تیکت ${targetTicketId}`}
+      className={cn(
+        "gap-1 border-slate-300 bg-slate-50 text-slate-700 font-iran text-xs",
+        onOpen && "cursor-pointer hover:bg-slate-100",
+        className
+      )}
+      onClick={onOpen ? () => onOpen(targetTicketId) : undefined}
+    >
+      <GitMerge className="h-3 w-3" />
+      ادغام در {targetTicketId}
+    </Badge>
+  )
+}
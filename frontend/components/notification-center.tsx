@@ -0,0 +1,271 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Bell, BellOff, CheckCheck, ExternalLink } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { toast } from "@/hooks/use-toast"
+import { useAuth } from "@/lib/auth-context"
+import type { ApiNotificationPreferencesResponse, ApiNotificationResponse } from "@/lib/api-types"
+import { NOTIFICATION_PREFERENCES_EVENT } from "@/lib/desktop-notifications"
+import { getMyNotificationPreferences } from "@/lib/notification-preferences-api"
+import { getMyNotifications, markAllNotificationsAsRead, markNotificationAsRead } from "@/lib/notifications-api"
+import { cn } from "@/lib/utils"
+
+const POLL_INTERVAL_MS = 60000
+
+const defaultPreferences: ApiNotificationPreferencesResponse = {
+  emailEnabled: true,
+  pushEnabled: true,
+  smsEnabled: false,
+  desktopEnabled: true,
+}
+
+type NotificationGroup = "today" | "yesterday" | "earlier"
+
+const groupLabels: Record<NotificationGroup, string> = {
+  today: "امروز",
+  yesterday: "دیروز",
+  earlier: "قدیمی‌تر",
+}
+
+const getNotificationGroup = (createdAt: string): NotificationGroup => {
+  const startOfToday = new Date()
+  startOfToday.setHours(0, 0, 0, 0)
+  const created = new Date(createdAt).getTime()
+  if (created >= startOfToday.getTime()) return "today"
+  if (created >= startOfToday.getTime() - 24 * 60 * 60 * 1000) return "yesterday"
+  return "earlier"
+}
+
+export function NotificationCenter() {
+  const { user, token } = useAuth()
+  const router = useRouter()
+  const [notifications, setNotifications] = useState<ApiNotificationResponse[]>([])
+  const [preferences, setPreferences] = useState<ApiNotificationPreferencesResponse>(defaultPreferences)
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const knownIdsRef = useRef<Set<string> | null>(null)
+  const preferencesRef = useRef(preferences)
+
+  useEffect(() => {
+    preferencesRef.current = preferences
+  }, [preferences])
+
+  // Pick up toggles saved in the settings dialog without waiting for the next open
+  useEffect(() => {
+    const handlePreferencesChanged = (event: Event) => {
+      setPreferences((event as CustomEvent<ApiNotificationPreferencesResponse>).detail)
+    }
+    window.addEventListener(NOTIFICATION_PREFERENCES_EVENT, handlePreferencesChanged)
+    return () => window.removeEventListener(NOTIFICATION_PREFERENCES_EVENT, handlePreferencesChanged)
+  }, [])
+
+  const loadPreferences = useCallback(async () => {
+    if (!token) return
+    try {
+      setPreferences(await getMyNotificationPreferences(token))
+    } catch (error) {
+      console.warn("[notifications] Failed to load notification preferences, using defaults", error)
+    }
+  }, [token])
+
+  const loadNotifications = useCallback(async () => {
+    if (!token) return
+    setLoading(true)
+    try {
+      const data = await getMyNotifications(token)
+      const sorted = [...data].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+
+      // Surface notifications that arrived since the last poll, unless the user turned push off
+      const knownIds = knownIdsRef.current
+      if (knownIds && preferencesRef.current.pushEnabled) {
+        const arrived = sorted.filter((notification) => !notification.isRead && !knownIds.has(notification.id))
+        if (arrived.length === 1) {
+          toast({ title: "اعلان جدید", description: arrived[0].message })
+        } else if (arrived.length > 1) {
+          toast({ title: "اعلان‌های جدید", description: `${arrived.length} اعلان خوانده‌نشده دارید` })
+        }
+      }
+      knownIdsRef.current = new Set(sorted.map((notification) => notification.id))
+
+      setNotifications(sorted)
+    } catch (error) {
+      console.warn("[notifications] Failed to load notifications", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    if (!token || !user) {
+      setNotifications([])
+      knownIdsRef.current = null
+      return
+    }
+
+    void loadPreferences()
+    void loadNotifications()
+    const intervalId = setInterval(() => void loadNotifications(), POLL_INTERVAL_MS)
+    return () => clearInterval(intervalId)
+  }, [token, user, loadPreferences, loadNotifications])
+
+  const unreadCount = notifications.filter((notification) => !notification.isRead).length
+
+  const grouped = useMemo(() => {
+    const groups: Record<NotificationGroup, ApiNotificationResponse[]> = { today: [], yesterday: [], earlier: [] }
+    notifications.forEach((notification) => groups[getNotificationGroup(notification.createdAt)].push(notification))
+    return (Object.keys(groups) as NotificationGroup[])
+      .filter((group) => groups[group].length > 0)
+      .map((group) => ({ group, items: groups[group] }))
+  }, [notifications])
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (nextOpen) {
+      void loadPreferences()
+      void loadNotifications()
+    }
+  }
+
+  const markRead = (ids: string[]) => {
+    const idSet = new Set(ids)
+    setNotifications((prev) =>
+      prev.map((notification) => (idSet.has(notification.id) ? { ...notification, isRead: true } : notification)),
+    )
+  }
+
+  const handleNotificationClick = async (notification: ApiNotificationResponse) => {
+    if (!notification.isRead) {
+      markRead([notification.id])
+      try {
+        await markNotificationAsRead(token, notification.id)
+      } catch (error) {
+        console.error("Failed to mark notification as read", error)
+        setNotifications((prev) =>
+          prev.map((item) => (item.id === notification.id ? { ...item, isRead: false } : item)),
+        )
+      }
+    }
+
+    if (notification.ticketId) {
+      setOpen(false)
+      router.push(`/tickets/${notification.ticketId}`)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      const updatedIds = await markAllNotificationsAsRead(token, notifications)
+      markRead(updatedIds)
+      if (updatedIds.length < unreadCount) {
+        toast({
+          title: "برخی اعلان‌ها علامت‌گذاری نشدند",
+          description: "لطفا مجددا تلاش کنید.",
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      console.error("Failed to mark notifications as read", error)
+    }
+  }
+
+  if (!user) return null
+
+  return (
+    <DropdownMenu open={open} onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative text-muted-foreground hover:text-foreground"
+          title={preferences.pushEnabled ? "اعلان‌ها" : "اعلان‌ها (اعلان‌های فوری غیرفعال است)"}
+        >
+          {preferences.pushEnabled ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -left-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-96 p-0 font-iran" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between px-4 py-3" dir="rtl">
+          <span className="text-sm font-semibold">
+            اعلان‌ها {unreadCount > 0 && <span className="text-muted-foreground">({unreadCount} خوانده‌نشده)</span>}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={handleMarkAllRead}
+            disabled={unreadCount === 0}
+          >
+            <CheckCheck className="h-3.5 w-3.5" />
+            خواندن همه
+          </Button>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator className="m-0" />
+
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground" dir="rtl">
+            {loading ? "در حال بارگذاری..." : "اعلانی وجود ندارد"}
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto" dir="rtl">
+            {grouped.map(({ group, items }) => (
+              <div key={group}>
+                <p className="bg-muted/50 px-4 py-1.5 text-xs font-medium text-muted-foreground">{groupLabels[group]}</p>
+                {items.map((notification) => (
+                  <button
+                    key={notification.id}
+                    type="button"
+                    onClick={() => handleNotificationClick(notification)}
+                    className={cn(
+                      "flex w-full items-start gap-3 border-b border-border px-4 py-3 text-right transition-colors hover:bg-accent",
+                      !notification.isRead && "bg-primary/5",
+                    )}
+                  >
+                    <span
+                      className={cn(
+                        "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                        notification.isRead ? "bg-transparent" : "bg-primary",
+                      )}
+                    />
+                    <span className="flex-1 space-y-1">
+                      <span className={cn("block text-sm", !notification.isRead && "font-medium")}>
+                        {notification.message}
+                      </span>
+                      <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {new Date(notification.createdAt).toLocaleString("fa-IR")}
+                        {notification.ticketId && (
+                          <span className="flex items-center gap-1 text-primary">
+                            <ExternalLink className="h-3 w-3" />
+                            مشاهده تیکت
+                          </span>
+                        )}
+                      </span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!preferences.pushEnabled && (
+          <p className="border-t border-border px-4 py-2 text-xs text-muted-foreground" dir="rtl">
+            اعلان‌های فوری در تنظیمات حساب غیرفعال شده‌اند؛ اعلان‌ها فقط در این فهرست نمایش داده می‌شوند.
+          </p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,20 @@
+"use client"
+
+import { RotateCcw } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+
+/** How often the client reopened a ticket; renders nothing for tickets never reopened */
+export function ReopenCountBadge({ count, className }: { count?: number; className?: string }) {
+  if (!count) return null
+  return (
+    <Badge
+      variant="outline"
+      title={`${count} بار توسط مشتری بازگشایی شده`}
+      className={cn("gap-1 border-orange-300 bg-orange-50 text-orange-700 font-iran text-xs", className)}
+    >
+      <RotateCcw className="h-3 w-3" />
+      {count}× بازگشایی
+    </Badge>
+  )
+}
@@ -0,0 +1,302 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Bookmark, ChevronDown, Link2, Save, Star, Trash2, Users } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "@/hooks/use-toast"
+import { useAuth } from "@/lib/auth-context"
+import type { ApiSavedTicketViewDto } from "@/lib/api-types"
+import { usePreferences } from "@/lib/preferences-context"
+import { isSameViewState, type TicketViewState } from "@/lib/saved-views"
+import {
+  createSavedTicketView,
+  deleteSavedTicketView,
+  getSavedTicketViews,
+  updateSavedTicketView,
+} from "@/lib/saved-views-api"
+
+interface SavedViewsBarProps {
+  state: TicketViewState
+  onApply: (state: TicketViewState) => void
+  /** Apply the user's default view once loaded; false when the URL already describes a view */
+  applyDefaultOnLoad: boolean
+}
+
+/**
+ * Named ticket views: the user's own, the ones colleagues shared, and a per-user default
+ */
+export function SavedViewsBar({ state, onApply, applyDefaultOnLoad }: SavedViewsBarProps) {
+  const { token, user } = useAuth()
+  const { preferences, updatePreferences } = usePreferences()
+  const [views, setViews] = useState<ApiSavedTicketViewDto[]>([])
+  const [activeViewId, setActiveViewId] = useState<string | null>(null)
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [shared, setShared] = useState(false)
+  const [makeDefault, setMakeDefault] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const defaultApplied = useRef(false)
+
+  const defaultViewId = preferences?.defaultTicketViewId ?? null
+
+  useEffect(() => {
+    if (!user) return
+    let active = true
+    getSavedTicketViews(token)
+      .then((loaded) => {
+        if (active) setViews(loaded)
+      })
+      .catch((error) => {
+        console.error("Failed to load saved views:", error)
+      })
+    return () => {
+      active = false
+    }
+  }, [token, user])
+
+  useEffect(() => {
+    if (defaultApplied.current || !applyDefaultOnLoad || !defaultViewId) return
+    const view = views.find((item) => item.id === defaultViewId)
+    if (!view) return
+    defaultApplied.current = true
+    setActiveViewId(view.id)
+    onApply(view.state)
+  }, [views, defaultViewId, applyDefaultOnLoad, onApply])
+
+  if (!user) return null
+
+  const activeView = views.find((view) => view.id === activeViewId) ?? null
+  const modified = activeView !== null && !isSameViewState(activeView.state, state)
+  const ownViews = views.filter((view) => view.ownerUserId === user.id)
+  const sharedViews = views.filter((view) => view.ownerUserId !== user.id)
+
+  const setDefaultView = (viewId: string | null) => {
+    if (!preferences) return
+    void updatePreferences({ ...preferences, defaultTicketViewId: viewId })
+  }
+
+  const applyView = (view: ApiSavedTicketViewDto) => {
+    setActiveViewId(view.id)
+    onApply(view.state)
+  }
+
+  const openSaveDialog = () => {
+    setName("")
+    setShared(false)
+    setMakeDefault(false)
+    setSaveDialogOpen(true)
+  }
+
+  const handleCreate = async () => {
+    if (!name.trim()) return
+    setSaving(true)
+    try {
+      const view = await createSavedTicketView(token, { name: name.trim(), shared, state })
+      setViews((prev) => [...prev, view])
+      setActiveViewId(view.id)
+      if (makeDefault) setDefaultView(view.id)
+      setSaveDialogOpen(false)
+      toast({ title: "نما ذخیره شد", description: `نمای «${view.name}» ذخیره شد` })
+    } catch (error) {
+      console.error("Failed to save view:", error)
+      toast({
+        title: "خطا",
+        description: error instanceof Error ? error.message : "ذخیره نما ناموفق بود",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleUpdate = async (view: ApiSavedTicketViewDto, changes: { state?: TicketViewState; shared?: boolean }) => {
+    try {
+      const updated = await updateSavedTicketView(token, view.id, {
+        name: view.name,
+        shared: changes.shared ?? view.shared,
+        state: changes.state ?? view.state,
+      })
+      setViews((prev) => prev.map((item) => (item.id === updated.id ? updated : item)))
+      toast({ title: "نما به‌روزرسانی شد", description: `نمای «${updated.name}» به‌روزرسانی شد` })
+    } catch (error) {
+      console.error("Failed to update view:", error)
+      toast({
+        title: "خطا",
+        description: error instanceof Error ? error.message : "به‌روزرسانی نما ناموفق بود",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDelete = async (view: ApiSavedTicketViewDto) => {
+    if (!confirm(`نمای «${view.name}» حذف شود؟`)) return
+    try {
+      await deleteSavedTicketView(token, view.id)
+      setViews((prev) => prev.filter((item) => item.id !== view.id))
+      if (activeViewId === view.id) setActiveViewId(null)
+      if (defaultViewId === view.id) setDefaultView(null)
+    } catch (error) {
+      console.error("Failed to delete view:", error)
+      toast({
+        title: "خطا",
+        description: error instanceof Error ? error.message : "حذف نما ناموفق بود",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+    toast({
+      title: "کپی شد",
+      description: "پیوند این نما در کلیپ‌بورد کپی شد",
+    })
+  }
+
+  const renderViewItem = (view: ApiSavedTicketViewDto) => (
+    <DropdownMenuItem key={view.id} onClick={() => applyView(view)} className="justify-between gap-2">
+      <span className="truncate">{view.name}</span>
+      <span className="flex items-center gap-1">
+        {view.id === defaultViewId && <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />}
+        {view.ownerUserId !== user.id && <span className="text-xs text-muted-foreground">{view.ownerName}</span>}
+      </span>
+    </DropdownMenuItem>
+  )
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 font-iran" dir="rtl">
+      <DropdownMenu dir="rtl">
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2 font-iran">
+            <Bookmark className="h-4 w-4" />
+            {activeView ? activeView.name : "نماهای ذخیره‌شده"}
+            {modified && (
+              <Badge variant="secondary" className="text-xs">
+                تغییر یافته
+              </Badge>
+            )}
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-72 font-iran" align="start">
+          <DropdownMenuLabel>نماهای من</DropdownMenuLabel>
+          {ownViews.length === 0 ? (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">هنوز نمایی ذخیره نکرده‌اید</p>
+          ) : (
+            ownViews.map(renderViewItem)
+          )}
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="flex items-center gap-2">
+                <Users className="h-3 w-3" />
+                نماهای اشتراکی تیم
+              </DropdownMenuLabel>
+              {sharedViews.map(renderViewItem)}
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={openSaveDialog} className="gap-2">
+            <Save className="h-4 w-4" />
+            ذخیره فیلترهای فعلی به‌عنوان نمای جدید
+          </DropdownMenuItem>
+          {activeView && activeView.ownerUserId === user.id && (
+            <>
+              {modified && (
+                <DropdownMenuItem onClick={() => handleUpdate(activeView, { state })} className="gap-2">
+                  <Save className="h-4 w-4" />
+                  به‌روزرسانی «{activeView.name}»
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => handleUpdate(activeView, { shared: !activeView.shared })} className="gap-2">
+                <Users className="h-4 w-4" />
+                {activeView.shared ? "لغو اشتراک با تیم" : "اشتراک با تیم"}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleDelete(activeView)} className="gap-2 text-red-600">
+                <Trash2 className="h-4 w-4" />
+                حذف «{activeView.name}»
+              </DropdownMenuItem>
+            </>
+          )}
+          {activeView && (
+            <DropdownMenuItem
+              onClick={() => setDefaultView(activeView.id === defaultViewId ? null : activeView.id)}
+              className="gap-2"
+            >
+              <Star className="h-4 w-4" />
+              {activeView.id === defaultViewId ? "حذف از پیش‌فرض" : "تنظیم به‌عنوان نمای پیش‌فرض"}
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button variant="ghost" size="sm" className="gap-2 font-iran" onClick={handleCopyLink}>
+        <Link2 className="h-4 w-4" />
+        کپی پیوند
+      </Button>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="max-w-md font-iran" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right font-iran">ذخیره نما</DialogTitle>
+            <DialogDescription className="text-right font-iran">
+              فیلترها، مرتب‌سازی و ستون‌های فعلی با این نام ذخیره می‌شوند.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-name" className="font-iran">
+                نام نما
+              </Label>
+              <Input
+                id="saved-view-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="مثلا: تیکت‌های فوری شبکه بدون تکنسین"
+                className="text-right"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="saved-view-shared" checked={shared} onCheckedChange={(checked) => setShared(checked === true)} />
+              <Label htmlFor="saved-view-shared" className="font-iran">
+                اشتراک با سایر مدیران
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="saved-view-default"
+                checked={makeDefault}
+                onCheckedChange={(checked) => setMakeDefault(checked === true)}
+              />
+              <Label htmlFor="saved-view-default" className="font-iran">
+                نمای پیش‌فرض من باشد
+              </Label>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)} disabled={saving}>
+              انصراف
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !name.trim()} className="gap-2">
+              <Save className="h-4 w-4" />
+              ذخیره
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -21,6 +21,12 @@ import { useAuth } from "@/lib/auth-context"
 import { usePreferences } from "@/lib/preferences-context"
 import { getSystemSettings, updateSystemSettings } from "@/lib/settings-api"
 import { getMyNotificationPreferences, updateMyNotificationPreferences } from "@/lib/notification-preferences-api"
+import {
+  announceNotificationPreferences,
+  getDesktopNotificationPermission,
+  requestDesktopNotificationPermission,
+  syncPushSubscription,
+} from "@/lib/desktop-notifications"
 import type { ApiSystemSettingsResponse, ApiNotificationPreferencesResponse } from "@/lib/api-types"
 import {
   User,
@@ -135,6 +141,7 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
   const [notificationPreferences, setNotificationPreferences] = useState<ApiNotificationPreferencesResponse | null>(null)
   const [notificationPreferencesLoading, setNotificationPreferencesLoading] = useState(false)
   const [notificationPreferencesSaving, setNotificationPreferencesSaving] = useState(false)
+  const [desktopPermission, setDesktopPermission] = useState<NotificationPermission | "unsupported">("default")
   const isAdmin = user?.role === "admin"
 
   const [systemSettings, setSystemSettings] = useState<SystemSettings>({
@@ -250,6 +257,9 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
 
   // Fetch notification preferences when dialog opens
   useEffect(() => {
+    if (open) {
+      setDesktopPermission(getDesktopNotificationPermission())
+    }
     if (open && token) {
       console.log("[Notifications] Fetching notification preferences...")
       setNotificationPreferencesLoading(true)
@@ -384,7 +394,7 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
     }
   }
 
-  const handleNotificationToggle = (setting: "email" | "push" | "sms" | "desktop") => {
+  const handleNotificationToggle = async (setting: "email" | "push" | "sms" | "desktop") => {
     // If preferences haven't loaded yet, initialize with defaults
     const currentPrefs = notificationPreferences || {
       emailEnabled: true,
@@ -393,6 +403,25 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
       desktopEnabled: true,
     }
 
+    // Turning on desktop/push notifications needs browser permission first
+    const enabling =
+      (setting === "desktop" && !currentPrefs.desktopEnabled) || (setting === "push" && !currentPrefs.pushEnabled)
+    if (enabling && (setting === "desktop" || setting === "push")) {
+      const permission = await requestDesktopNotificationPermission()
+      setDesktopPermission(permission)
+      if (setting === "desktop" && permission !== "granted") {
+        toast({
+          title: "مجوز اعلان داده نشد",
+          description:
+            permission === "unsupported"
+              ? "مرورگر شما از اعلان‌های دسکتاپ پشتیبانی نمی‌کند"
+              : "برای فعال‌سازی، اجازه نمایش اعلان را در تنظیمات مرورگر بدهید",
+          variant: "destructive",
+        })
+        return
+      }
+    }
+
     const updated = {
       ...currentPrefs,
       emailEnabled: setting === "email" ? !currentPrefs.emailEnabled : currentPrefs.emailEnabled,
@@ -438,6 +467,10 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
       const updated = await updateMyNotificationPreferences(token, prefsToSave)
       console.log("[Notifications] Save successful, received:", updated)
       setNotificationPreferences(updated)
+      announceNotificationPreferences(updated)
+      syncPushSubscription(token, updated.pushEnabled).catch((error) => {
+        console.warn("[Notifications] Failed to sync push subscription:", error)
+      })
       setSystemSettings((prev) => ({
         ...prev,
         notifications: {
@@ -1216,6 +1249,11 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                       label="اعلان‌های دسکتاپ"
                       description="نمایش اعلان‌ها روی دسکتاپ"
                     />
+                    {desktopPermission === "denied" && (
+                      <p className="text-xs text-destructive text-right pb-2">
+                        نمایش اعلان برای این سایت در مرورگر مسدود شده است.
+                      </p>
+                    )}
                     <Separator />
                     <div className="flex justify-end pt-4">
                       <Button
@@ -0,0 +1,62 @@
+"use client"
+
+import { AlertTriangle, CheckCircle2, Clock, XCircle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { formatSlaDuration, type SlaState, type TicketSla } from "@/lib/sla"
+import { cn } from "@/lib/utils"
+
+const stateStyles: Record<SlaState, string> = {
+  met: "bg-green-100 text-green-800 border-green-200 dark:bg-green-500/10 dark:text-green-200 dark:border-green-500/30",
+  "on-track": "bg-slate-100 text-slate-800 border-slate-200 dark:bg-slate-500/10 dark:text-slate-200 dark:border-slate-500/30",
+  "at-risk": "bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-500/10 dark:text-amber-200 dark:border-amber-500/30",
+  breached: "bg-red-100 text-red-800 border-red-200 dark:bg-red-500/10 dark:text-red-200 dark:border-red-500/30",
+}
+
+const stateIcons = {
+  met: CheckCircle2,
+  "on-track": Clock,
+  "at-risk": AlertTriangle,
+  breached: XCircle,
+} satisfies Record<SlaState, unknown>
+
+export const slaStateLabels: Record<SlaState, string> = {
+  met: "انجام‌شده در مهلت",
+  "on-track": "در مهلت",
+  "at-risk": "در معرض نقض",
+  breached: "نقض‌شده",
+}
+
+const targetLabels = {
+  response: "پاسخ اولیه",
+  resolution: "حل تیکت",
+}
+
+interface SlaBadgeProps {
+  sla: TicketSla
+  className?: string
+}
+
+export function SlaBadge({ sla, className }: SlaBadgeProps) {
+  const target = sla.current
+  const Icon = stateIcons[target.state]
+
+  const text =
+    target.state === "met"
+      ? slaStateLabels.met
+      : target.state === "breached"
+        ? `${formatSlaDuration(target.remainingMs)} تأخیر`
+        : `${formatSlaDuration(target.remainingMs)} مانده`
+
+  const title = [
+    `${targetLabels.response}: ${slaStateLabels[sla.response.state]} (مهلت ${sla.response.dueAt.toLocaleString("fa-IR")})`,
+    `${targetLabels.resolution}: ${slaStateLabels[sla.resolution.state]} (مهلت ${sla.resolution.dueAt.toLocaleString("fa-IR")})`,
+  ].join("\n")
+
+  return (
+    <Badge variant="outline" className={cn("gap-1 whitespace-nowrap font-iran", stateStyles[target.state], className)} title={title}>
+      <Icon className="h-3 w-3" />
+      <span className="text-[10px] opacity-75">{targetLabels[target.kind]}:</span>
+      {text}
+    </Badge>
+  )
+}
@@ -0,0 +1,340 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/hooks/use-toast"
+import { useAuth } from "@/lib/auth-context"
+import { getSlaPolicy, updateSlaPolicy } from "@/lib/sla-policy-api"
+import { createDefaultSlaPolicy, type SlaPolicy, type SlaTargets } from "@/lib/sla"
+import type { CategoriesData } from "@/services/categories-types"
+import type { TicketPriority } from "@/types"
+import { Loader2, Timer } from "lucide-react"
+
+const priorityLabels: Record<TicketPriority, string> = {
+  urgent: "فوری",
+  high: "بالا",
+  medium: "متوسط",
+  low: "پایین",
+}
+
+// Iranian week order, starting on Saturday
+const weekdays: Array<{ day: number; label: string }> = [
+  { day: 6, label: "شنبه" },
+  { day: 0, label: "یکشنبه" },
+  { day: 1, label: "دوشنبه" },
+  { day: 2, label: "سه‌شنبه" },
+  { day: 3, label: "چهارشنبه" },
+  { day: 4, label: "پنجشنبه" },
+  { day: 5, label: "جمعه" },
+]
+
+interface SlaPolicySettingsProps {
+  categoriesData?: CategoriesData
+}
+
+const parseHours = (value: string): number | undefined => {
+  const parsed = Number.parseFloat(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+export function SlaPolicySettings({ categoriesData = {} }: SlaPolicySettingsProps) {
+  const { token } = useAuth()
+  const [policy, setPolicy] = useState<SlaPolicy>(() => createDefaultSlaPolicy())
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [extraHolidaysText, setExtraHolidaysText] = useState("")
+
+  useEffect(() => {
+    let active = true
+    getSlaPolicy(token)
+      .then((loaded) => {
+        if (!active) return
+        setPolicy(loaded)
+        setExtraHolidaysText(loaded.extraHolidays.join("\n"))
+      })
+      .catch((error) => {
+        console.error("Failed to load SLA policy", error)
+        toast({
+          title: "خطا",
+          description: "بارگذاری تنظیمات SLA ناموفق بود",
+          variant: "destructive",
+        })
+      })
+      .finally(() => {
+        if (active) setLoading(false)
+      })
+    return () => {
+      active = false
+    }
+  }, [token])
+
+  const updatePriorityTarget = (priority: TicketPriority, field: keyof SlaTargets, value: string) => {
+    const hours = parseHours(value)
+    if (hours === undefined) return
+    setPolicy((prev) => ({
+      ...prev,
+      priorities: { ...prev.priorities, [priority]: { ...prev.priorities[priority], [field]: hours } },
+    }))
+  }
+
+  const updateCategoryTarget = (category: string, field: keyof SlaTargets, value: string) => {
+    setPolicy((prev) => {
+      const next = { ...prev.categories[category], [field]: parseHours(value) }
+      const categories = { ...prev.categories }
+      if (next.responseHours === undefined && next.resolutionHours === undefined) {
+        delete categories[category]
+      } else {
+        categories[category] = next
+      }
+      return { ...prev, categories }
+    })
+  }
+
+  const updateBusinessDay = (day: number, field: "startHour" | "endHour", value: string) => {
+    const hour = Number.parseFloat(value)
+    if (!Number.isFinite(hour) || hour < 0 || hour > 24) return
+    setPolicy((prev) => {
+      const current = prev.businessHours[day] ?? { startHour: 8, endHour: 16 }
+      return { ...prev, businessHours: { ...prev.businessHours, [day]: { ...current, [field]: hour } } }
+    })
+  }
+
+  const toggleBusinessDay = (day: number, open: boolean) => {
+    setPolicy((prev) => ({
+      ...prev,
+      businessHours: { ...prev.businessHours, [day]: open ? { startHour: 8, endHour: 16 } : null },
+    }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const extraHolidays = extraHolidaysText
+        .split(/\s+/)
+        .filter((line) => /^\d{4}-\d{2}-\d{2}$/.test(line))
+      const saved = await updateSlaPolicy(token, { ...policy, extraHolidays })
+      setPolicy(saved)
+      toast({
+        title: "تنظیمات SLA ذخیره شد",
+        description: "مهلت‌ها در همه فهرست‌های تیکت به‌روزرسانی شد",
+      })
+    } catch (error) {
+      console.error("Failed to save SLA policy", error)
+      toast({
+        title: "ذخیره تنظیمات SLA ناموفق بود",
+        description: error instanceof Error ? error.message : "لطفا مجددا تلاش کنید.",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          در حال بارگذاری تنظیمات SLA...
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card dir="rtl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-right font-iran">
+          <Timer className="h-5 w-5" />
+          تنظیمات SLA
+        </CardTitle>
+        <p className="text-sm text-muted-foreground text-right">
+          مهلت‌ها بر حسب ساعت کاری محاسبه می‌شوند؛ روزهای تعطیل و تعطیلات رسمی ایران شمرده نمی‌شوند.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-8 font-iran">
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold">مهلت بر اساس اولویت (ساعت کاری)</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-right">اولویت</TableHead>
+                <TableHead className="text-right">پاسخ اولیه</TableHead>
+                <TableHead className="text-right">حل تیکت</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(Object.keys(priorityLabels) as TicketPriority[]).map((priority) => (
+                <TableRow key={priority}>
+                  <TableCell>{priorityLabels[priority]}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0.5}
+                      step={0.5}
+                      className="w-28"
+                      value={policy.priorities[priority].responseHours}
+                      onChange={(event) => updatePriorityTarget(priority, "responseHours", event.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0.5}
+                      step={0.5}
+                      className="w-28"
+                      value={policy.priorities[priority].resolutionHours}
+                      onChange={(event) => updatePriorityTarget(priority, "resolutionHours", event.target.value)}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+
+        {Object.keys(categoriesData).length > 0 && (
+          <section className="space-y-3">
+            <h3 className="text-sm font-semibold">مهلت ویژه دسته‌بندی‌ها (اختیاری)</h3>
+            <p className="text-xs text-muted-foreground">
+              اگر برای دسته‌ای مهلتی تعیین شود، سخت‌گیرانه‌ترین مقدار بین اولویت و دسته‌بندی اعمال می‌شود.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-right">دسته‌بندی</TableHead>
+                  <TableHead className="text-right">پاسخ اولیه</TableHead>
+                  <TableHead className="text-right">حل تیکت</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Object.entries(categoriesData).map(([slug, category]) => (
+                  <TableRow key={slug}>
+                    <TableCell>{category.label}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        className="w-28"
+                        placeholder="—"
+                        value={policy.categories[slug]?.responseHours ?? ""}
+                        onChange={(event) => updateCategoryTarget(slug, "responseHours", event.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        className="w-28"
+                        placeholder="—"
+                        value={policy.categories[slug]?.resolutionHours ?? ""}
+                        onChange={(event) => updateCategoryTarget(slug, "resolutionHours", event.target.value)}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </section>
+        )}
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold">ساعات کاری</h3>
+          <div className="space-y-2">
+            {weekdays.map(({ day, label }) => {
+              const hours = policy.businessHours[day]
+              return (
+                <div key={day} className="flex items-center gap-3">
+                  <Switch checked={!!hours} onCheckedChange={(open) => toggleBusinessDay(day, open)} />
+                  <span className="w-20 text-sm">{label}</span>
+                  {hours ? (
+                    <>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={24}
+                        step={0.5}
+                        className="w-24"
+                        value={hours.startHour}
+                        onChange={(event) => updateBusinessDay(day, "startHour", event.target.value)}
+                      />
+                      <span className="text-sm text-muted-foreground">تا</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={24}
+                        step={0.5}
+                        className="w-24"
+                        value={hours.endHour}
+                        onChange={(event) => updateBusinessDay(day, "endHour", event.target.value)}
+                      />
+                    </>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">تعطیل</span>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </section>
+
+        <section className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Switch
+              id="sla-observe-holidays"
+              checked={policy.observeHolidays}
+              onCheckedChange={(checked) => setPolicy((prev) => ({ ...prev, observeHolidays: checked }))}
+            />
+            <Label htmlFor="sla-observe-holidays">تعطیلات رسمی ایران در محاسبه مهلت لحاظ شود</Label>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sla-extra-holidays">تعطیلات اضافه (هر تاریخ میلادی در یک خط، مانند 2026-03-21)</Label>
+            <Textarea
+              id="sla-extra-holidays"
+              dir="ltr"
+              rows={3}
+              value={extraHolidaysText}
+              onChange={(event) => setExtraHolidaysText(event.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Label htmlFor="sla-at-risk">هشدار «در معرض نقض» وقتی کمتر از</Label>
+            <Input
+              id="sla-at-risk"
+              type="number"
+              min={5}
+              max={90}
+              step={5}
+              className="w-20"
+              value={Math.round(policy.atRiskThreshold * 100)}
+              onChange={(event) => {
+                const percent = Number.parseFloat(event.target.value)
+                if (Number.isFinite(percent) && percent > 0 && percent < 100) {
+                  setPolicy((prev) => ({ ...prev, atRiskThreshold: percent / 100 }))
+                }
+              }}
+            />
+            <span className="text-sm text-muted-foreground">درصد از مهلت باقی مانده باشد</span>
+          </div>
+        </section>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving || !token} className="gap-2">
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            ذخیره تنظیمات SLA
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
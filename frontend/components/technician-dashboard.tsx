@@ -1,11 +1,12 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -31,6 +32,31 @@ import {
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
 import { toast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { TicketPagination } from "@/components/ticket-pagination";
+import { SlaBadge } from "@/components/sla-badge";
+import { useSla } from "@/hooks/use-sla";
+import { TicketStatusSelect } from "@/components/ticket-status-select";
+import { InternalNoteBadge, internalNoteClassName } from "@/components/internal-note-badge";
+import { CannedResponsePicker } from "@/components/canned-response-picker";
+import { ChildCountBadge } from "@/components/child-count-badge";
+import { TicketWorklog } from "@/components/ticket-worklog";
+import { TicketBoard } from "@/components/ticket-board";
+import { TicketSearchInput } from "@/components/ticket-search-input";
+import { HighlightedText } from "@/components/highlighted-text";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useWorklogTimer } from "@/hooks/use-worklog-timer";
+import { useListKeyboardNavigation } from "@/hooks/use-list-keyboard-navigation";
+import { useTicketStatusCounts } from "@/hooks/use-ticket-status-counts";
+import { useRegisterActiveTicket } from "@/lib/active-ticket-context";
+import type { ApiCannedResponse, ApiTicketBoardPreferences } from "@/lib/api-types";
+import { usePreferences } from "@/lib/preferences-context";
+import { cn } from "@/lib/utils";
+import { DEFAULT_TICKET_BOARD_PREFERENCES } from "@/lib/ticket-board";
+import { mapApiPriorityToUi, mapApiStatusToUi } from "@/lib/ticket-mappers";
+import { getTransitionBlockReason } from "@/lib/ticket-workflow";
+import type { TicketQuery } from "@/lib/tickets-api";
+import { getFreeText, matchesSearchQuery, parseSearchQuery } from "@/lib/ticket-search";
 import {
   Search,
   Filter,
@@ -42,6 +68,9 @@ import {
   Send,
   Calendar,
   CheckCircle,
+  Lock,
+  LayoutList,
+  Columns3,
 } from "lucide-react";
 import type { Ticket, TicketCategory, TicketPriority, TicketStatus } from "@/types";
 
@@ -52,14 +81,25 @@ type FilterPriority = "all" | TicketPriority;
 type SummaryScope = "all" | "open" | "in-progress" | "resolved";
 
 interface User {
+  id?: string;
   name?: string;
   email?: string;
 }
 
 interface TechnicianDashboardProps {
   tickets: Ticket[];
+  ticketQuery?: TicketQuery;
+  totalTickets?: number;
+  onTicketQueryChange?: (changes: Partial<TicketQuery>) => void;
+  onTicketOpen?: (ticketId: string) => void;
   onTicketUpdate: (ticketId: string, updates: Partial<Ticket>) => void;
-  onTicketRespond?: (ticketId: string, message: string, status: TicketStatus) => Promise<void> | void;
+  /** Resolves to whether the reply was posted; rejects after reporting a failed request */
+  onTicketRespond?: (
+    ticketId: string,
+    message: string,
+    status: TicketStatus,
+    options?: { internal?: boolean }
+  ) => Promise<boolean>;
   currentUser: User;
   activeSection?: "assigned" | "in-progress" | "history";
   onSectionChange?: (section: "assigned" | "in-progress" | "history") => void;
@@ -69,6 +109,7 @@ interface TechnicianDashboardProps {
 const statusColors: Record<TicketStatus, string> = {
   open: "bg-red-100 text-red-800 border-red-200",
   "in-progress": "bg-yellow-100 text-yellow-800 border-yellow-200",
+  "waiting-for-client": "bg-sky-100 text-sky-800 border-sky-200",
   resolved: "bg-green-100 text-green-800 border-green-200",
   closed: "bg-gray-100 text-gray-800 border-gray-200",
 };
@@ -76,6 +117,7 @@ const statusColors: Record<TicketStatus, string> = {
 const statusLabels: Record<TicketStatus, string> = {
   open: "باز",
   "in-progress": "در حال انجام",
+  "waiting-for-client": "در انتظار پاسخ مشتری",
   resolved: "حل شده",
   closed: "بسته",
 };
@@ -113,12 +155,17 @@ const getCategoryLabel = (ticketOrId: any) => {
 /* ====================== COMPONENT ====================== */
 export function TechnicianDashboard({
   tickets,
+  ticketQuery,
+  totalTickets: serverTotalTickets,
+  onTicketQueryChange,
+  onTicketOpen,
   onTicketUpdate,
   onTicketRespond,
   currentUser,
   activeSection = "assigned",
   onSectionChange,
 }: TechnicianDashboardProps) {
+  const router = useRouter();
   const [searchQuery, setSearchQuery] = useState("");
   const [filterStatus, setFilterStatus] = useState<FilterStatus>("all");
   const [filterPriority, setFilterPriority] = useState<FilterPriority>("all");
@@ -127,6 +174,9 @@ export function TechnicianDashboard({
   const [responseDialogOpen, setResponseDialogOpen] = useState(false);
   const [responseMessage, setResponseMessage] = useState("");
   const [responseStatus, setResponseStatus] = useState<TicketStatus>("open");
+  const [responseInternal, setResponseInternal] = useState(false);
+  // Priority change queued by a canned macro, applied when the reply is sent
+  const [responsePriority, setResponsePriority] = useState<TicketPriority | null>(null);
   const [summaryDialogOpen, setSummaryDialogOpen] = useState(false);
   const [summaryDialogData, setSummaryDialogData] = useState<{
     title: string;
@@ -135,6 +185,13 @@ export function TechnicianDashboard({
   } | null>(null);
   const [selectedScope, setSelectedScope] = useState<SummaryScope>('all');
   const cardOverrideRef = useRef<SummaryScope | null>(null);
+  const debouncedSearch = useDebouncedValue(searchQuery);
+  const parsedSearch = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const { evaluate: evaluateSla } = useSla();
+  const { timer: worklogTimer } = useWorklogTimer();
+  const { preferences, updatePreferences } = usePreferences();
+  const boardPreferences = preferences?.ticketBoard ?? DEFAULT_TICKET_BOARD_PREFERENCES;
+  const isBoardView = boardPreferences.view === "board";
 
   useEffect(() => {
     if (activeSection === "in-progress") {
@@ -163,6 +220,33 @@ export function TechnicianDashboard({
     }
   }, [activeSection]);
 
+  // Push the section scope and filters to the server query. The board has a column per status, so
+  // it loads every status whatever the list's scope is.
+  useEffect(() => {
+    const scopeStatuses: Record<SummaryScope, TicketStatus[] | undefined> = {
+      all: undefined,
+      open: ["open"],
+      "in-progress": ["in-progress", "waiting-for-client"],
+      resolved: ["resolved", "closed"],
+    };
+    // Only the free text goes into the ticket query, which the server searches; field
+    // clauses are matched against the loaded tickets below
+    onTicketQueryChange?.({
+      search: getFreeText(parseSearchQuery(debouncedSearch)),
+      status: isBoardView ? undefined : filterStatus === "all" ? scopeStatuses[selectedScope] : [filterStatus],
+      priority: filterPriority === "all" ? undefined : [filterPriority],
+    });
+  }, [onTicketQueryChange, debouncedSearch, filterStatus, filterPriority, selectedScope, isBoardView]);
+
+  // Keep open dialogs in sync once lazily loaded messages arrive
+  useEffect(() => {
+    if (!selectedTicket) return;
+    const fresh = tickets.find((ticket) => ticket.id === selectedTicket.id);
+    if (fresh && fresh !== selectedTicket) {
+      setSelectedTicket(fresh);
+    }
+  }, [tickets, selectedTicket]);
+
   // Filter tickets assigned to current technician
   // Backend already filters by TechnicianId, but we keep this as a safety check
   const technicianTickets = tickets.filter((ticket) => {
@@ -178,7 +262,7 @@ export function TechnicianDashboard({
       case "open":
         return ticket.status === "open";
       case "in-progress":
-        return ticket.status === "in-progress";
+        return ticket.status === "in-progress" || ticket.status === "waiting-for-client";
       case "resolved":
         return ticket.status === "resolved" || ticket.status === "closed";
       case "all":
@@ -192,12 +276,9 @@ export function TechnicianDashboard({
   );
 
   const filteredTickets = sectionTickets.filter((ticket) => {
-    const q = searchQuery.toLowerCase();
-    const matchesSearch =
-      ticket.title.toLowerCase().includes(q) ||
-      ticket.description.toLowerCase().includes(q) ||
-      ticket.id.toLowerCase().includes(q) ||
-      ticket.clientName.toLowerCase().includes(q);
+    const matchesSearch = matchesSearchQuery(ticket, parsedSearch, {
+      currentUserId: currentUser?.id,
+    });
 
     const matchesStatus =
       filterStatus === "all" || ticket.status === filterStatus;
@@ -207,10 +288,23 @@ export function TechnicianDashboard({
     return matchesSearch && matchesStatus && matchesPriority;
   });
 
-  const totalTickets = technicianTickets.length;
-  const openTickets = technicianTickets.filter((t) => t.status === "open").length;
-  const inProgressTickets = technicianTickets.filter((t) => t.status === "in-progress").length;
-  const resolvedTickets = technicianTickets.filter((t) => t.status === "resolved" || t.status === "closed").length;
+  // The board shows every status as a column, so only search and priority narrow it
+  const boardTickets = technicianTickets.filter((ticket) => {
+    const matchesSearch = matchesSearchQuery(ticket, parsedSearch, {
+      currentUserId: currentUser?.id,
+    });
+    return matchesSearch && (filterPriority === "all" || ticket.priority === filterPriority);
+  });
+
+  // The list holds one filtered page, so the cards and board columns count every ticket per status
+  // on the server
+  const statusCounts = useTicketStatusCounts({}, "/api/technician/tickets", tickets);
+  const countOf = (...statuses: TicketStatus[]) =>
+    statuses.reduce((sum, status) => sum + (statusCounts?.[status] ?? 0), 0);
+  const totalTickets = countOf("open", "in-progress", "waiting-for-client", "resolved", "closed");
+  const openTickets = countOf("open");
+  const inProgressTickets = countOf("in-progress", "waiting-for-client");
+  const resolvedTickets = countOf("resolved", "closed");
 
   const summaryCards = [
     {
@@ -299,43 +393,107 @@ export function TechnicianDashboard({
   const handleViewTicket = (ticket: Ticket) => {
     setSelectedTicket(ticket);
     setViewDialogOpen(true);
+    onTicketOpen?.(ticket.id);
+  };
+
+  const handleBoardPreferencesChange = (ticketBoard: ApiTicketBoardPreferences) => {
+    if (!preferences) return;
+    void updatePreferences({ ...preferences, ticketBoard });
+  };
+
+  const handleBoardStatusChange = async (ticket: Ticket, status: TicketStatus) => {
+    await onTicketUpdate(ticket.id, { status });
   };
 
   const handleResponseTicket = (ticket: Ticket) => {
     setSelectedTicket(ticket);
     setResponseStatus(ticket.status ?? "open");
     setResponseMessage("");
+    setResponseInternal(false);
+    setResponsePriority(null);
     setResponseDialogOpen(true);
   };
 
-  const handleSubmitResponse = async () => {
+  useRegisterActiveTicket(viewDialogOpen ? selectedTicket : null, () => {
     if (!selectedTicket) return;
+    setViewDialogOpen(false);
+    handleResponseTicket(selectedTicket);
+  });
 
-    if (!responseMessage.trim()) {
+  const { activeId: keyboardActiveId } = useListKeyboardNavigation({
+    items: filteredTickets,
+    onOpen: handleViewTicket,
+    onOpenPage: (ticket) => router.push(`/tickets/${encodeURIComponent(ticket.id)}`),
+    enabled: !isBoardView,
+  });
+
+  /** Status a canned macro asks for, or null when the workflow does not allow it */
+  const resolveMacroStatus = (ticket: Ticket, response: ApiCannedResponse): TicketStatus | null => {
+    if (!response.setStatus) return null;
+    const status = mapApiStatusToUi(response.setStatus);
+    const blockReason = getTransitionBlockReason("engineer", ticket.status, status);
+    if (blockReason && status !== ticket.status) {
       toast({
-        title: "متن پاسخ خالی است",
-        description: "لطفاً توضیحی برای پاسخ وارد کنید.",
+        title: "وضعیت ماکرو اعمال نشد",
+        description: blockReason,
         variant: "destructive",
       });
-      return;
+      return null;
+    }
+    return status;
+  };
+
+  const handleInsertCanned = (text: string, response: ApiCannedResponse) => {
+    if (!selectedTicket) return;
+    setResponseMessage((prev) => (prev.trim() ? `${prev.trimEnd()}\n\n${text}` : text));
+    const status = resolveMacroStatus(selectedTicket, response);
+    if (status) {
+      setResponseStatus(status);
+    }
+    if (response.setPriority) {
+      setResponsePriority(mapApiPriorityToUi(response.setPriority));
+    }
+  };
+
+  const submitResponse = async (
+    ticket: Ticket,
+    message: string,
+    status: TicketStatus,
+    internal: boolean,
+    priority: TicketPriority | null
+  ) => {
+    if (onTicketRespond) {
+      // The page reports its own failures; keep the dialog open so the reply is not lost
+      const posted = await onTicketRespond(ticket.id, message, status, { internal }).catch(() => false);
+      if (!posted) return;
     }
 
     try {
-      if (onTicketRespond) {
-        await onTicketRespond(selectedTicket.id, responseMessage.trim(), responseStatus);
-      } else {
-        onTicketUpdate(selectedTicket.id, {
-          status: responseStatus,
+      if (!onTicketRespond && !internal) {
+        onTicketUpdate(ticket.id, {
+          status,
         });
       }
+      // A macro's priority applies only once its reply is on the ticket
+      if (priority && priority !== ticket.priority) {
+        await onTicketUpdate(ticket.id, { priority });
+      }
 
-      toast({
-        title: "پاسخ ثبت شد",
-        description: "پاسخ و وضعیت تیکت با موفقیت به‌روزرسانی شد.",
-      });
+      toast(
+        internal
+          ? {
+              title: "یادداشت داخلی ثبت شد",
+              description: "این یادداشت فقط برای تکنسین‌ها و مدیران قابل مشاهده است.",
+            }
+          : {
+              title: "پاسخ ثبت شد",
+              description: "پاسخ و وضعیت تیکت با موفقیت به‌روزرسانی شد.",
+            }
+      );
 
       setResponseDialogOpen(false);
       setResponseMessage("");
+      setResponsePriority(null);
       setSelectedTicket(null);
     } catch {
       toast({
@@ -346,6 +504,35 @@ export function TechnicianDashboard({
     }
   };
 
+  const handleSubmitResponse = async () => {
+    if (!selectedTicket) return;
+
+    if (!responseMessage.trim()) {
+      toast({
+        title: "متن پاسخ خالی است",
+        description: "لطفاً توضیحی برای پاسخ وارد کنید.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await submitResponse(
+      selectedTicket,
+      responseMessage.trim(),
+      responseStatus,
+      responseInternal,
+      responsePriority
+    );
+  };
+
+  /** One-click macro: send the filled reply and apply its status and priority */
+  const handleRunMacro = async (text: string, response: ApiCannedResponse) => {
+    if (!selectedTicket) return;
+    const status = resolveMacroStatus(selectedTicket, response) ?? selectedTicket.status;
+    const priority = response.setPriority ? mapApiPriorityToUi(response.setPriority) : null;
+    await submitResponse(selectedTicket, text, status, false, priority);
+  };
+
   return (
     <div className="space-y-6 font-iran" dir="rtl">
       {/* Header */}
@@ -466,28 +653,43 @@ export function TechnicianDashboard({
 
       {/* Tickets Management */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle className="text-right font-iran">
             تیکت‌های واگذار شده
           </CardTitle>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={boardPreferences.view}
+            onValueChange={(view) => {
+              if (view) {
+                handleBoardPreferencesChange({
+                  ...boardPreferences,
+                  view: view as ApiTicketBoardPreferences["view"],
+                });
+              }
+            }}
+          >
+            <ToggleGroupItem value="list" className="gap-1 font-iran" aria-label="نمای فهرست">
+              <LayoutList className="w-4 h-4" />
+              فهرست
+            </ToggleGroupItem>
+            <ToggleGroupItem value="board" className="gap-1 font-iran" aria-label="نمای بورد">
+              <Columns3 className="w-4 h-4" />
+              بورد
+            </ToggleGroupItem>
+          </ToggleGroup>
         </CardHeader>
         <CardContent>
           {/* Filters */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
-            <div className="relative">
-              <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-              <Input
-                placeholder="جستجو در تیکت‌ها..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pr-10 text-right font-iran"
-                dir="rtl"
-              />
-            </div>
+            <TicketSearchInput value={searchQuery} onChange={setSearchQuery} />
 
             <Select
               value={filterStatus}
               onValueChange={(v: FilterStatus) => setFilterStatus(v)}
+              disabled={isBoardView}
               dir="rtl"
             >
               <SelectTrigger className="text-right font-iran">
@@ -497,6 +699,7 @@ export function TechnicianDashboard({
                 <SelectItem value="all">همه وضعیت‌ها</SelectItem>
                 <SelectItem value="open">باز</SelectItem>
                 <SelectItem value="in-progress">در حال انجام</SelectItem>
+                <SelectItem value="waiting-for-client">در انتظار پاسخ مشتری</SelectItem>
                 <SelectItem value="resolved">حل شده</SelectItem>
                 <SelectItem value="closed">بسته</SelectItem>
               </SelectContent>
@@ -533,7 +736,19 @@ export function TechnicianDashboard({
             </Button>
           </div>
 
-          {/* Tickets Table */}
+          {isBoardView ? (
+            <TicketBoard
+              tickets={boardTickets}
+              statusCounts={statusCounts}
+              role="engineer"
+              preferences={boardPreferences}
+              onPreferencesChange={handleBoardPreferencesChange}
+              onStatusChange={handleBoardStatusChange}
+              onView={handleViewTicket}
+              highlightTerms={parsedSearch.terms}
+            />
+          ) : (
+          /* Tickets Table */
           <div className="border rounded-lg overflow-hidden">
             <Table>
               <TableHeader>
@@ -544,6 +759,7 @@ export function TechnicianDashboard({
                   <TableHead className="text-right font-iran">عنوان</TableHead>
                   <TableHead className="text-right font-iran">وضعیت</TableHead>
                   <TableHead className="text-right font-iran">اولویت</TableHead>
+                  <TableHead className="text-right font-iran">SLA</TableHead>
                   <TableHead className="text-right font-iran">
                     دسته‌بندی
                   </TableHead>
@@ -559,7 +775,11 @@ export function TechnicianDashboard({
               <TableBody>
                 {filteredTickets.length > 0 ? (
                   filteredTickets.map((ticket) => (
-                    <TableRow key={ticket.id}>
+                    <TableRow
+                      key={ticket.id}
+                      data-ticket-row={ticket.id}
+                      className={cn(keyboardActiveId === ticket.id && "bg-muted")}
+                    >
                       <TableCell className="font-mono text-sm font-iran">
                         {ticket.id}
                       </TableCell>
@@ -568,15 +788,27 @@ export function TechnicianDashboard({
                           className="truncate font-iran"
                           title={ticket.title}
                         >
-                          {ticket.title}
+                          <HighlightedText
+                            text={ticket.title}
+                            terms={parsedSearch.terms}
+                          />
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Badge
-                          className={`${statusColors[ticket.status]} font-iran`}
-                        >
-                          {statusLabels[ticket.status]}
-                        </Badge>
+                        <div className="flex flex-wrap items-center gap-1">
+                          <Badge
+                            className={`${statusColors[ticket.status]} font-iran`}
+                          >
+                            {statusLabels[ticket.status]}
+                          </Badge>
+                          <ChildCountBadge count={ticket.childCount} />
+                          {worklogTimer?.ticketId === ticket.id && (
+                            <Badge variant="outline" className="gap-1 text-xs font-iran">
+                              <Clock className="w-3 h-3 animate-pulse text-red-500" />
+                              زمان‌سنج
+                            </Badge>
+                          )}
+                        </div>
                       </TableCell>
                       <TableCell>
                         <Badge
@@ -587,6 +819,9 @@ export function TechnicianDashboard({
                           {priorityLabels[ticket.priority]}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <SlaBadge sla={evaluateSla(ticket)} />
+                      </TableCell>
                       <TableCell>
                         <span className="text-sm font-iran">
                           {getCategoryLabel(ticket)}
@@ -633,7 +868,7 @@ export function TechnicianDashboard({
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={8} className="text-center py-8">
+                    <TableCell colSpan={9} className="text-center py-8">
                       <div className="flex flex-col items-center gap-2">
                         <Search className="w-8 h-8 text-muted-foreground" />
                         <p className="text-muted-foreground font-iran">
@@ -648,6 +883,17 @@ export function TechnicianDashboard({
               </TableBody>
             </Table>
           </div>
+          )}
+
+          {ticketQuery && onTicketQueryChange && (
+            <TicketPagination
+              page={ticketQuery.page}
+              pageSize={ticketQuery.pageSize}
+              totalCount={serverTotalTickets ?? technicianTickets.length}
+              onPageChange={(page) => onTicketQueryChange({ page })}
+              onPageSizeChange={(pageSize) => onTicketQueryChange({ pageSize })}
+            />
+          )}
         </CardContent>
       </Card>
 
@@ -798,6 +1044,10 @@ export function TechnicianDashboard({
                 </div>
               </div>
 
+              <Separator />
+
+              <TicketWorklog key={selectedTicket.id} ticket={selectedTicket} canLog />
+
               {/* Responses */}
               {selectedTicket.responses &&
                 selectedTicket.responses.length > 0 && (
@@ -808,7 +1058,12 @@ export function TechnicianDashboard({
                     </h4>
                     <div className="space-y-4">
                       {selectedTicket.responses.map((response, index) => (
-                        <div key={index} className="border rounded-lg p-4">
+                        <div
+                          key={index}
+                          className={`border rounded-lg p-4 ${
+                            response.isInternal ? internalNoteClassName : ""
+                          }`}
+                        >
                           <div className="flex justify-between items-start mb-2">
                             <div className="flex items-center gap-2">
                               <Avatar className="w-6 h-6">
@@ -821,13 +1076,17 @@ export function TechnicianDashboard({
                               </span>
                             </div>
                             <div className="text-left">
-                              <Badge
-                                className={`${
-                                  statusColors[response.status]
-                                } mb-1 font-iran`}
-                              >
-                                {statusLabels[response.status]}
-                              </Badge>
+                              {response.isInternal ? (
+                                <InternalNoteBadge className="mb-1" />
+                              ) : (
+                                <Badge
+                                  className={`${
+                                    statusColors[response.status]
+                                  } mb-1 font-iran`}
+                                >
+                                  {statusLabels[response.status]}
+                                </Badge>
+                              )}
                               <p className="text-xs text-muted-foreground flex items-center gap-1 font-iran">
                                 <Calendar className="w-3 h-3" />
                                 {new Date(
@@ -875,38 +1134,83 @@ export function TechnicianDashboard({
               </p>
             </div>
 
-            {/* Status Selection */}
-            <div className="space-y-2">
-              <label className="text-sm font-medium font-iran">
-                وضعیت جدید تیکت
-              </label>
-              <Select
-                value={responseStatus}
-                onValueChange={(v: TicketStatus) => setResponseStatus(v)}
-                dir="rtl"
-              >
-                <SelectTrigger className="text-right font-iran">
-                  <SelectValue placeholder="انتخاب وضعیت جدید" />
-                </SelectTrigger>
-                <SelectContent className="font-iran">
-                  <SelectItem value="open">باز</SelectItem>
-                  <SelectItem value="in-progress">در حال انجام</SelectItem>
-                  <SelectItem value="resolved">حل شده</SelectItem>
-                  <SelectItem value="closed">بسته</SelectItem>
-                </SelectContent>
-              </Select>
+            {/* Visibility */}
+            <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div className="space-y-1 text-right">
+                <label htmlFor="response-internal" className="flex items-center gap-1 text-sm font-medium font-iran">
+                  <Lock className="w-4 h-4" />
+                  یادداشت داخلی
+                </label>
+                <p className="text-xs text-muted-foreground font-iran">
+                  فقط تکنسین‌ها و مدیران آن را می‌بینند و وضعیت تیکت تغییر نمی‌کند
+                </p>
+              </div>
+              <Switch
+                id="response-internal"
+                checked={responseInternal}
+                onCheckedChange={setResponseInternal}
+              />
             </div>
 
+            {/* Status Selection */}
+            {!responseInternal && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium font-iran">
+                  وضعیت جدید تیکت
+                </label>
+                {selectedTicket && (
+                  <TicketStatusSelect
+                    role="engineer"
+                    currentStatus={selectedTicket.status}
+                    value={responseStatus}
+                    onValueChange={setResponseStatus}
+                  />
+                )}
+              </div>
+            )}
+
             {/* Response Message */}
             <div className="space-y-2">
-              <label className="text-sm font-medium font-iran">پیام پاسخ</label>
+              <div className="flex items-center justify-between gap-2">
+                <label className="text-sm font-medium font-iran">
+                  {responseInternal ? "متن یادداشت" : "پیام پاسخ"}
+                </label>
+                {selectedTicket && (
+                  <CannedResponsePicker
+                    ticket={selectedTicket}
+                    technicianName={currentUser.name ?? ""}
+                    onInsert={handleInsertCanned}
+                    onRun={handleRunMacro}
+                  />
+                )}
+              </div>
               <Textarea
-                placeholder="پاسخ خود را اینجا بنویسید..."
+                placeholder={
+                  responseInternal
+                    ? "یادداشت داخلی برای همکاران..."
+                    : "پاسخ خود را اینجا بنویسید..."
+                }
                 value={responseMessage}
                 onChange={(e) => setResponseMessage(e.target.value)}
                 className="min-h-[120px] text-right font-iran"
                 dir="rtl"
               />
+              {responsePriority && responsePriority !== selectedTicket?.priority && (
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground font-iran">
+                  <span>
+                    اولویت پس از ارسال به «{priorityLabels[responsePriority]}» تغییر می‌کند
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 text-xs font-iran"
+                    onClick={() => setResponsePriority(null)}
+                  >
+                    لغو
+                  </Button>
+                </div>
+              )}
             </div>
 
             {/* Action Buttons */}
@@ -922,8 +1226,8 @@ export function TechnicianDashboard({
                 onClick={handleSubmitResponse}
                 className="gap-2 font-iran"
               >
-                <Send className="w-4 h-4" />
-                ارسال پاسخ
+                {responseInternal ? <Lock className="w-4 h-4" /> : <Send className="w-4 h-4" />}
+                {responseInternal ? "ثبت یادداشت" : "ارسال پاسخ"}
               </Button>
             </div>
           </div>
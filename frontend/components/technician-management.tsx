@@ -29,13 +29,25 @@ import {
   createTechnician,
   updateTechnician,
   updateTechnicianStatus,
+  getTechnicianProfiles,
 } from "@/lib/technicians-api"
-import type { ApiTechnicianResponse } from "@/lib/api-types"
-import { Search, Plus, Edit, Trash2, UserCheck, UserX } from "lucide-react"
+import type { ApiTechnicianProfileResponse, ApiTechnicianResponse } from "@/lib/api-types"
+import type { CategoriesData } from "@/services/categories-types"
+import { DEFAULT_MAX_ACTIVE_TICKETS } from "@/data/technician-profiles"
+import { TechnicianProfileDialog } from "./technician-profile-dialog"
+import { Search, Plus, Edit, Trash2, UserCheck, UserX, Award } from "lucide-react"
 
-export function TechnicianManagement() {
+interface TechnicianManagementProps {
+  categoriesData?: CategoriesData
+  /** Called after technicians or their profiles change so assignment views can reload */
+  onTechniciansChange?: () => void
+}
+
+export function TechnicianManagement({ categoriesData = {}, onTechniciansChange }: TechnicianManagementProps) {
   const { token } = useAuth()
   const [technicians, setTechnicians] = useState<ApiTechnicianResponse[]>([])
+  const [profiles, setProfiles] = useState<Record<string, ApiTechnicianProfileResponse>>({})
+  const [profileTechnician, setProfileTechnician] = useState<ApiTechnicianResponse | null>(null)
   const [loading, setLoading] = useState(false)
   const [updatingStatus, setUpdatingStatus] = useState<string | null>(null) // Track which technician is being updated
   const [saving, setSaving] = useState(false) // Track if save operation is in progress
@@ -63,8 +75,15 @@ export function TechnicianManagement() {
     if (!token) return
     setLoading(true)
     try {
-      const data = await getAllTechnicians(token)
+      const [data, profileList] = await Promise.all([
+        getAllTechnicians(token),
+        getTechnicianProfiles(token).catch((error) => {
+          console.warn("Failed to load technician profiles:", error)
+          return []
+        }),
+      ])
       setTechnicians(data)
+      setProfiles(Object.fromEntries(profileList.map((profile) => [profile.technicianId, profile])))
     } catch (error: any) {
       console.error("Failed to load technicians:", error)
       toast({
@@ -94,6 +113,7 @@ export function TechnicianManagement() {
       setCreateDialogOpen(false)
       resetForm()
       await loadTechnicians()
+      onTechniciansChange?.()
     } catch (error: any) {
       console.error("Failed to create technician:", error)
       toast({
@@ -152,6 +172,7 @@ export function TechnicianManagement() {
       setSelectedTechnician(null)
       resetForm()
       await loadTechnicians()
+      onTechniciansChange?.()
     } catch (error: any) {
       console.error("[TechnicianManagement] Failed to update technician:", error)
       
@@ -200,6 +221,7 @@ export function TechnicianManagement() {
 
       // Reload technicians to get updated status
       await loadTechnicians()
+      onTechniciansChange?.()
     } catch (error: any) {
       console.error("[TechnicianManagement] Failed to update technician status:", error)
       
@@ -236,6 +258,18 @@ export function TechnicianManagement() {
     setEditDialogOpen(true)
   }
 
+  const handleProfileSaved = (profile: ApiTechnicianProfileResponse) => {
+    setProfiles((prev) => ({ ...prev, [profile.technicianId]: profile }))
+    onTechniciansChange?.()
+  }
+
+  const getSpecialtyLabels = (technicianId: string) => {
+    const categoryIds = profiles[technicianId]?.specialtyCategoryIds ?? []
+    return Object.values(categoriesData)
+      .filter((category) => category.backendId !== undefined && categoryIds.includes(category.backendId))
+      .map((category) => category.label)
+  }
+
   const filteredTechnicians = technicians.filter((tech) => {
     const query = searchQuery.toLowerCase()
     return (
@@ -292,6 +326,8 @@ export function TechnicianManagement() {
                     <TableHead className="text-right">ایمیل</TableHead>
                     <TableHead className="text-right">تلفن</TableHead>
                     <TableHead className="text-right">بخش</TableHead>
+                    <TableHead className="text-right">تخصص‌ها</TableHead>
+                    <TableHead className="text-right">ظرفیت</TableHead>
                     <TableHead className="text-right">وضعیت</TableHead>
                     <TableHead className="text-right">تاریخ ایجاد</TableHead>
                     <TableHead className="text-right">عملیات</TableHead>
@@ -304,6 +340,20 @@ export function TechnicianManagement() {
                       <TableCell>{technician.email}</TableCell>
                       <TableCell>{technician.phone || "--"}</TableCell>
                       <TableCell>{technician.department || "--"}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1 max-w-[220px]">
+                          {getSpecialtyLabels(technician.id).length > 0
+                            ? getSpecialtyLabels(technician.id).map((label) => (
+                                <Badge key={label} variant="outline" className="text-xs">
+                                  {label}
+                                </Badge>
+                              ))
+                            : "--"}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {profiles[technician.id]?.maxActiveTickets ?? DEFAULT_MAX_ACTIVE_TICKETS} تیکت
+                      </TableCell>
                       <TableCell>
                         <Badge
                           variant={technician.isActive ? "default" : "secondary"}
@@ -326,6 +376,15 @@ export function TechnicianManagement() {
                             <Edit className="w-4 h-4" />
                             ویرایش
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setProfileTechnician(technician)}
+                            className="gap-1"
+                          >
+                            <Award className="w-4 h-4" />
+                            پروفایل
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -442,6 +501,17 @@ export function TechnicianManagement() {
         </DialogContent>
       </Dialog>
 
+      <TechnicianProfileDialog
+        open={!!profileTechnician}
+        onOpenChange={(open) => {
+          if (!open) setProfileTechnician(null)
+        }}
+        technician={profileTechnician}
+        profile={profileTechnician ? profiles[profileTechnician.id] : undefined}
+        categoriesData={categoriesData}
+        onSaved={handleProfileSaved}
+      />
+
       {/* Edit Dialog */}
       <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
         <DialogContent className="max-w-2xl" dir="rtl">
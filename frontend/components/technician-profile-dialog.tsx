@@ -0,0 +1,261 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { toast } from "@/hooks/use-toast"
+import { useAuth } from "@/lib/auth-context"
+import { updateTechnicianProfile } from "@/lib/technicians-api"
+import type {
+  ApiTechnicianProfileResponse,
+  ApiTechnicianResponse,
+  ApiTechnicianWorkingDay,
+} from "@/lib/api-types"
+import { createDefaultTechnicianProfile } from "@/data/technician-profiles"
+import type { CategoriesData } from "@/services/categories-types"
+
+// Iranian week order, starting on Saturday
+const weekdays: Array<{ day: number; label: string }> = [
+  { day: 6, label: "شنبه" },
+  { day: 0, label: "یکشنبه" },
+  { day: 1, label: "دوشنبه" },
+  { day: 2, label: "سه‌شنبه" },
+  { day: 3, label: "چهارشنبه" },
+  { day: 4, label: "پنجشنبه" },
+  { day: 5, label: "جمعه" },
+]
+
+const splitList = (value: string) =>
+  value
+    .split(/[,،\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+interface TechnicianProfileDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  technician: ApiTechnicianResponse | null
+  profile?: ApiTechnicianProfileResponse
+  categoriesData: CategoriesData
+  onSaved: (profile: ApiTechnicianProfileResponse) => void
+}
+
+export function TechnicianProfileDialog({
+  open,
+  onOpenChange,
+  technician,
+  profile,
+  categoriesData,
+  onSaved,
+}: TechnicianProfileDialogProps) {
+  const { token } = useAuth()
+  const [saving, setSaving] = useState(false)
+  const [specialtyCategoryIds, setSpecialtyCategoryIds] = useState<number[]>([])
+  const [certifications, setCertifications] = useState("")
+  const [languages, setLanguages] = useState("")
+  const [workingHours, setWorkingHours] = useState<ApiTechnicianWorkingDay[]>([])
+  const [maxActiveTickets, setMaxActiveTickets] = useState("")
+
+  useEffect(() => {
+    if (!open || !technician) return
+    const current = profile ?? createDefaultTechnicianProfile(technician.id)
+    setSpecialtyCategoryIds(current.specialtyCategoryIds)
+    setCertifications(current.certifications.join("، "))
+    setLanguages(current.languages.join("، "))
+    setWorkingHours(current.workingHours)
+    setMaxActiveTickets(String(current.maxActiveTickets))
+  }, [open, technician, profile])
+
+  const selectableCategories = Object.entries(categoriesData).filter(
+    ([, category]) => typeof category.backendId === "number"
+  )
+
+  const toggleSpecialty = (categoryId: number, checked: boolean) => {
+    setSpecialtyCategoryIds((prev) =>
+      checked ? [...prev, categoryId] : prev.filter((id) => id !== categoryId)
+    )
+  }
+
+  const toggleWorkingDay = (day: number, enabled: boolean) => {
+    setWorkingHours((prev) =>
+      enabled
+        ? [...prev, { dayOfWeek: day, startHour: 8, endHour: 16 }]
+        : prev.filter((slot) => slot.dayOfWeek !== day)
+    )
+  }
+
+  const updateWorkingDay = (day: number, field: "startHour" | "endHour", value: string) => {
+    const hour = Number.parseFloat(value)
+    if (!Number.isFinite(hour) || hour < 0 || hour > 24) return
+    setWorkingHours((prev) => prev.map((slot) => (slot.dayOfWeek === day ? { ...slot, [field]: hour } : slot)))
+  }
+
+  const capacity = Number.parseInt(maxActiveTickets, 10)
+  const capacityValid = Number.isInteger(capacity) && capacity > 0
+
+  const handleSave = async () => {
+    if (!token || !technician || !capacityValid) return
+
+    setSaving(true)
+    try {
+      const saved = await updateTechnicianProfile(token, technician.id, {
+        specialtyCategoryIds,
+        certifications: splitList(certifications),
+        languages: splitList(languages),
+        workingHours,
+        maxActiveTickets: capacity,
+      })
+      toast({
+        title: "پروفایل تکنسین ذخیره شد",
+        description: `تخصص‌ها و ظرفیت ${technician.fullName} به‌روزرسانی شد`,
+      })
+      onSaved(saved)
+      onOpenChange(false)
+    } catch (error) {
+      console.error("[TechnicianProfileDialog] Failed to save technician profile:", error)
+      toast({
+        title: "خطا در ذخیره پروفایل",
+        description: error instanceof Error ? error.message : "لطفاً دوباره تلاش کنید",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">پروفایل تخصصی {technician?.fullName}</DialogTitle>
+          <DialogDescription className="text-right">
+            تخصص‌ها، مدارک، زبان‌ها، ساعات کاری و ظرفیت تکنسین در تخصیص تیکت‌ها استفاده می‌شوند
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label className="text-right">تخصص‌ها (دسته‌بندی‌ها)</Label>
+            {selectableCategories.length === 0 ? (
+              <p className="text-sm text-muted-foreground">هنوز دسته‌بندی ثبت‌شده‌ای در سرور وجود ندارد</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {selectableCategories.map(([slug, category]) => {
+                  const categoryId = category.backendId as number
+                  return (
+                    <label key={slug} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={specialtyCategoryIds.includes(categoryId)}
+                        onCheckedChange={(checked) => toggleSpecialty(categoryId, checked === true)}
+                      />
+                      {category.label}
+                    </label>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-certifications" className="text-right">مدارک و گواهینامه‌ها</Label>
+            <Input
+              id="profile-certifications"
+              value={certifications}
+              onChange={(e) => setCertifications(e.target.value)}
+              className="text-right"
+              dir="rtl"
+              placeholder="مثلاً CCNA، MCSA"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-languages" className="text-right">زبان‌ها</Label>
+            <Input
+              id="profile-languages"
+              value={languages}
+              onChange={(e) => setLanguages(e.target.value)}
+              className="text-right"
+              dir="rtl"
+              placeholder="مثلاً فارسی، انگلیسی"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-capacity" className="text-right">حداکثر تیکت فعال همزمان</Label>
+            <Input
+              id="profile-capacity"
+              type="number"
+              min={1}
+              value={maxActiveTickets}
+              onChange={(e) => setMaxActiveTickets(e.target.value)}
+              className="w-28"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-right">ساعات کاری</Label>
+            {weekdays.map(({ day, label }) => {
+              const slot = workingHours.find((item) => item.dayOfWeek === day)
+              return (
+                <div key={day} className="flex items-center gap-3">
+                  <Switch checked={!!slot} onCheckedChange={(enabled) => toggleWorkingDay(day, enabled)} />
+                  <span className="w-20 text-sm">{label}</span>
+                  {slot ? (
+                    <>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={24}
+                        step={0.5}
+                        className="w-24"
+                        value={slot.startHour}
+                        onChange={(e) => updateWorkingDay(day, "startHour", e.target.value)}
+                      />
+                      <span className="text-sm text-muted-foreground">تا</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={24}
+                        step={0.5}
+                        className="w-24"
+                        value={slot.endHour}
+                        onChange={(e) => updateWorkingDay(day, "endHour", e.target.value)}
+                      />
+                    </>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">غیرکاری</span>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              انصراف
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !capacityValid}>
+              {saving ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin ml-2" />
+                  در حال ذخیره...
+                </>
+              ) : (
+                "ذخیره پروفایل"
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,100 @@
+"use client"
+
+import { useState } from "react"
+import { CalendarClock, CircleDot, Flag, FolderTree, History, MessageSquare, UserCheck } from "lucide-react"
+import type { LucideIcon } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { InternalNoteBadge, internalNoteClassName } from "@/components/internal-note-badge"
+import type { ApiTicketActivityDto, ApiTicketActivityField } from "@/lib/api-types"
+import { buildTicketTimeline, describeActivity } from "@/lib/ticket-activity"
+import { ticketStatusLabels } from "@/lib/ticket-workflow"
+import type { TicketResponse } from "@/types"
+
+const fieldIcons: Record<ApiTicketActivityField, LucideIcon> = {
+  status: CircleDot,
+  priority: Flag,
+  assignment: UserCheck,
+  dueDate: CalendarClock,
+  category: FolderTree,
+}
+
+interface TicketActivityTimelineProps {
+  responses: TicketResponse[]
+  activity: ApiTicketActivityDto[]
+}
+
+/**
+ * Messages and audited field changes of a ticket in one chronological list, with a switch
+ * to hide the conversation and show only system events
+ */
+export function TicketActivityTimeline({ responses, activity }: TicketActivityTimelineProps) {
+  const [systemOnly, setSystemOnly] = useState(false)
+
+  const entries = buildTicketTimeline(responses, activity).filter(
+    (entry) => !systemOnly || entry.kind === "change"
+  )
+
+  return (
+    <div className="space-y-4" dir="rtl">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <History className="h-5 w-5" />
+          تاریخچه فعالیت ({entries.length})
+        </h3>
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          فقط رویدادهای سیستمی
+          <Switch size="sm" checked={systemOnly} onCheckedChange={setSystemOnly} />
+        </label>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {systemOnly ? "هنوز تغییری در فیلدهای این تیکت ثبت نشده است" : "هنوز فعالیتی برای این تیکت ثبت نشده است"}
+        </p>
+      ) : (
+        <ol className="relative space-y-4 border-r pr-6">
+          {entries.map((entry) => {
+            const timestamp = new Date(entry.timestamp).toLocaleString("fa-IR")
+
+            if (entry.kind === "change") {
+              const FieldIcon = fieldIcons[entry.activity.field] ?? CircleDot
+              return (
+                <li key={entry.id} className="relative">
+                  <span className="absolute -right-[34px] flex h-5 w-5 items-center justify-center rounded-full border bg-background">
+                    <FieldIcon className="h-3 w-3 text-muted-foreground" />
+                  </span>
+                  <p className="text-sm">{describeActivity(entry.activity)}</p>
+                  <p className="text-xs text-muted-foreground">{timestamp}</p>
+                </li>
+              )
+            }
+
+            const { response } = entry
+            return (
+              <li key={entry.id} className="relative">
+                <span className="absolute -right-[34px] flex h-5 w-5 items-center justify-center rounded-full border bg-primary text-primary-foreground">
+                  <MessageSquare className="h-3 w-3" />
+                </span>
+                <div className={`rounded-lg border p-4 ${response.isInternal ? internalNoteClassName : ""}`}>
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <div>
+                      <p className="font-medium">{response.authorName}</p>
+                      <p className="text-xs text-muted-foreground">{timestamp}</p>
+                    </div>
+                    {response.isInternal ? (
+                      <InternalNoteBadge />
+                    ) : (
+                      <Badge variant="outline">{ticketStatusLabels[response.status]}</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{response.message}</p>
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
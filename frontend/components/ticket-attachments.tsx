@@ -0,0 +1,269 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { FileUpload } from "@/components/file-upload"
+import { toast } from "@/hooks/use-toast"
+import {
+  downloadTicketAttachmentsZip,
+  fetchAuthorizedBlob,
+  getTicketAttachments,
+  saveBlobAs,
+} from "@/lib/attachments-api"
+import { formatFileSize, mapApiAttachmentToUploadedFile } from "@/lib/file-upload"
+import type { TicketAttachment } from "@/types"
+import { Download, Eye, File, FileArchive, FileText, ImageIcon, Paperclip, Plus } from "lucide-react"
+
+interface TicketAttachmentsProps {
+  ticketId: string
+  token: string | null
+  /** Attachments already embedded in the ticket payload, shown until the list endpoint answers */
+  initialAttachments?: TicketAttachment[]
+  canUpload?: boolean
+}
+
+const isImage = (attachment: TicketAttachment) => attachment.type.startsWith("image/")
+const isPdf = (attachment: TicketAttachment) => attachment.type === "application/pdf"
+
+/**
+ * Loads an attachment through the authorized download path and exposes it as an object URL.
+ */
+function useAttachmentObjectUrl(token: string | null, attachment: TicketAttachment | null) {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!attachment) {
+      setObjectUrl(null)
+      return
+    }
+
+    let cancelled = false
+    let createdUrl: string | null = null
+
+    fetchAuthorizedBlob(token, attachment.url)
+      .then((blob) => {
+        if (cancelled) return
+        createdUrl = URL.createObjectURL(blob)
+        setObjectUrl(createdUrl)
+      })
+      .catch((error) => {
+        console.warn("[ticket-attachments] Failed to load preview", attachment.id, error)
+      })
+
+    return () => {
+      cancelled = true
+      if (createdUrl) URL.revokeObjectURL(createdUrl)
+    }
+  }, [token, attachment])
+
+  return objectUrl
+}
+
+function AttachmentThumbnail({ token, attachment }: { token: string | null; attachment: TicketAttachment }) {
+  const objectUrl = useAttachmentObjectUrl(token, attachment)
+
+  if (!objectUrl) {
+    return <div className="h-24 w-full animate-pulse rounded-md bg-muted" />
+  }
+
+  // eslint-disable-next-line @next/next/no-img-element
+  return <img src={objectUrl} alt={attachment.name} className="h-24 w-full rounded-md object-cover" />
+}
+
+function AttachmentPreviewDialog({
+  token,
+  attachment,
+  onClose,
+}: {
+  token: string | null
+  attachment: TicketAttachment | null
+  onClose: () => void
+}) {
+  const objectUrl = useAttachmentObjectUrl(token, attachment)
+
+  return (
+    <Dialog open={!!attachment} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl font-iran" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right font-iran">{attachment?.name}</DialogTitle>
+        </DialogHeader>
+        {!objectUrl ? (
+          <div className="flex h-96 items-center justify-center text-sm text-muted-foreground">در حال بارگذاری...</div>
+        ) : attachment && isPdf(attachment) ? (
+          <iframe src={objectUrl} title={attachment.name} className="h-[70vh] w-full rounded-md border" />
+        ) : (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={objectUrl} alt={attachment?.name ?? ""} className="max-h-[70vh] w-full object-contain" />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function TicketAttachments({ ticketId, token, initialAttachments = [], canUpload = true }: TicketAttachmentsProps) {
+  const [attachments, setAttachments] = useState<TicketAttachment[]>(initialAttachments)
+  const [previewAttachment, setPreviewAttachment] = useState<TicketAttachment | null>(null)
+  const [uploadDialogOpen, setUploadDialogOpen] = useState(false)
+  const [downloadingAll, setDownloadingAll] = useState(false)
+
+  const loadAttachments = useCallback(async () => {
+    if (!token) return
+    try {
+      const apiAttachments = await getTicketAttachments(token, ticketId)
+      setAttachments(apiAttachments.map(mapApiAttachmentToUploadedFile))
+    } catch (error) {
+      console.error("Failed to load attachments", error)
+    }
+  }, [token, ticketId])
+
+  useEffect(() => {
+    void loadAttachments()
+  }, [loadAttachments])
+
+  const handleDownload = async (attachment: TicketAttachment) => {
+    try {
+      const blob = await fetchAuthorizedBlob(token, attachment.url)
+      saveBlobAs(blob, attachment.name)
+    } catch (error) {
+      console.error("Failed to download attachment", error)
+      toast({
+        title: "دانلود ناموفق بود",
+        description: attachment.name,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDownloadAll = async () => {
+    setDownloadingAll(true)
+    try {
+      const blob = await downloadTicketAttachmentsZip(token, ticketId)
+      saveBlobAs(blob, `ticket-${ticketId}-attachments.zip`)
+    } catch (error) {
+      console.error("Failed to download attachments zip", error)
+      toast({
+        title: "دانلود فایل فشرده ناموفق بود",
+        description: "لطفا مجددا تلاش کنید.",
+        variant: "destructive",
+      })
+    } finally {
+      setDownloadingAll(false)
+    }
+  }
+
+  const handleUploadDialogChange = (open: boolean) => {
+    setUploadDialogOpen(open)
+    if (!open) {
+      void loadAttachments()
+    }
+  }
+
+  const getFileIcon = (attachment: TicketAttachment) => {
+    if (isImage(attachment)) return <ImageIcon className="w-4 h-4" />
+    if (isPdf(attachment) || attachment.type.includes("document")) return <FileText className="w-4 h-4" />
+    return <File className="w-4 h-4" />
+  }
+
+  const previewable = attachments.filter((attachment) => isImage(attachment) || isPdf(attachment))
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-lg font-iran">
+            <Paperclip className="h-5 w-5" />
+            پیوست‌ها ({attachments.length})
+          </CardTitle>
+          <div className="flex gap-2">
+            {attachments.length > 1 && (
+              <Button variant="outline" size="sm" onClick={handleDownloadAll} disabled={downloadingAll} className="gap-2">
+                <FileArchive className="h-4 w-4" />
+                {downloadingAll ? "در حال آماده‌سازی..." : "دانلود همه (zip)"}
+              </Button>
+            )}
+            {canUpload && (
+              <Button size="sm" onClick={() => setUploadDialogOpen(true)} className="gap-2">
+                <Plus className="h-4 w-4" />
+                افزودن پیوست
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {attachments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">فایلی پیوست نشده است</p>
+        ) : (
+          <>
+            {previewable.length > 0 && (
+              <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+                {previewable.map((attachment) => (
+                  <button
+                    key={attachment.id}
+                    type="button"
+                    onClick={() => setPreviewAttachment(attachment)}
+                    className="space-y-1 rounded-lg border p-2 text-right transition-colors hover:border-primary"
+                  >
+                    {isImage(attachment) ? (
+                      <AttachmentThumbnail token={token} attachment={attachment} />
+                    ) : (
+                      <div className="flex h-24 w-full items-center justify-center rounded-md bg-muted">
+                        <FileText className="h-8 w-8 text-muted-foreground" />
+                      </div>
+                    )}
+                    <p className="truncate text-xs">{attachment.name}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {attachments.map((attachment) => (
+                <div key={attachment.id} className="flex items-center justify-between rounded-lg border bg-muted/50 p-3">
+                  <div className="flex items-center gap-2">
+                    {getFileIcon(attachment)}
+                    <div>
+                      <p className="text-sm font-medium text-right">{attachment.name}</p>
+                      <p className="text-xs text-muted-foreground text-right">
+                        {formatFileSize(attachment.size)}
+                        {attachment.uploadedByName ? ` • ${attachment.uploadedByName}` : ""} •{" "}
+                        {new Date(attachment.uploadedAt).toLocaleString("fa-IR")}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    {(isImage(attachment) || isPdf(attachment)) && (
+                      <Button variant="ghost" size="sm" onClick={() => setPreviewAttachment(attachment)} title="پیش‌نمایش">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => handleDownload(attachment)} title="دانلود">
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <AttachmentPreviewDialog
+        token={token}
+        attachment={previewAttachment}
+        onClose={() => setPreviewAttachment(null)}
+      />
+
+      <Dialog open={uploadDialogOpen} onOpenChange={handleUploadDialogChange}>
+        <DialogContent className="max-w-xl font-iran" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right font-iran">افزودن پیوست به تیکت</DialogTitle>
+          </DialogHeader>
+          <FileUpload ticketId={ticketId} onFilesChange={() => void loadAttachments()} maxFiles={5} />
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
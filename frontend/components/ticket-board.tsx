@@ -0,0 +1,271 @@
+"use client"
+
+import { useState, type DragEvent } from "react"
+import { Settings2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Switch } from "@/components/ui/switch"
+import { HighlightedText } from "@/components/highlighted-text"
+import { SlaBadge } from "@/components/sla-badge"
+import { toast } from "@/hooks/use-toast"
+import { useSla } from "@/hooks/use-sla"
+import type { ApiTicketBoardPreferences } from "@/lib/api-types"
+import { BOARD_SWIMLANES, getWipLimit, withWipLimit } from "@/lib/ticket-board"
+import { TICKET_STATUSES, getTransitionBlockReason, ticketStatusLabels } from "@/lib/ticket-workflow"
+import { cn } from "@/lib/utils"
+import type { Ticket, TicketPriority, TicketStatus, UserRole } from "@/types"
+
+const priorityLabels: Record<TicketPriority, string> = {
+  low: "کم",
+  medium: "متوسط",
+  high: "بالا",
+  urgent: "فوری",
+}
+
+const priorityColors: Record<TicketPriority, string> = {
+  low: "bg-blue-100 text-blue-800 border-blue-200",
+  medium: "bg-orange-100 text-orange-800 border-orange-200",
+  high: "bg-red-100 text-red-800 border-red-200",
+  urgent: "bg-purple-100 text-purple-800 border-purple-200",
+}
+
+interface TicketBoardProps {
+  tickets: Ticket[]
+  /**
+   * Tickets per status across every page. `tickets` is a single page, so without these the column
+   * counts and WIP limits only see what happens to be loaded.
+   */
+  statusCounts?: Record<TicketStatus, number> | null
+  role: UserRole
+  preferences: ApiTicketBoardPreferences
+  onPreferencesChange: (preferences: ApiTicketBoardPreferences) => void
+  /** Called once the move passed the workflow rules and WIP limits */
+  onStatusChange: (ticket: Ticket, status: TicketStatus) => void | Promise<void>
+  onView: (ticket: Ticket) => void
+  /** Search terms to highlight in card titles */
+  highlightTerms?: string[]
+}
+
+/**
+ * Kanban view of tickets with one column per status. Cards are dragged between columns;
+ * moves the workflow forbids for `role` are refused with the reason.
+ */
+export function TicketBoard({
+  tickets,
+  statusCounts,
+  role,
+  preferences,
+  onPreferencesChange,
+  onStatusChange,
+  onView,
+  highlightTerms = [],
+}: TicketBoardProps) {
+  const { evaluate: evaluateSla } = useSla()
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<TicketStatus | null>(null)
+
+  const dragging = tickets.find((ticket) => ticket.id === draggingId) ?? null
+  const countByStatus = (status: TicketStatus) =>
+    statusCounts?.[status] ?? tickets.filter((ticket) => ticket.status === status).length
+
+  const canDropOn = (status: TicketStatus) =>
+    dragging !== null &&
+    dragging.status !== status &&
+    getTransitionBlockReason(role, dragging.status, status) === null
+
+  const handleDragOver = (event: DragEvent, status: TicketStatus) => {
+    if (!canDropOn(status)) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = "move"
+    setDropTarget(status)
+  }
+
+  const handleDrop = async (event: DragEvent, status: TicketStatus) => {
+    event.preventDefault()
+    const ticket = tickets.find((item) => item.id === event.dataTransfer.getData("text/plain"))
+    setDraggingId(null)
+    setDropTarget(null)
+    if (!ticket || ticket.status === status) return
+
+    const blockReason = getTransitionBlockReason(role, ticket.status, status)
+    if (blockReason) {
+      toast({ title: "تغییر وضعیت ممکن نیست", description: blockReason, variant: "destructive" })
+      return
+    }
+
+    const limit = getWipLimit(preferences, status)
+    if (limit !== null && countByStatus(status) >= limit) {
+      const proceed = confirm(
+        `ستون «${ticketStatusLabels[status]}» به سقف ${limit.toLocaleString("fa-IR")} تیکت رسیده است. با این حال منتقل شود؟`
+      )
+      if (!proceed) return
+    }
+
+    await onStatusChange(ticket, status)
+  }
+
+  const renderCard = (ticket: Ticket) => (
+    <div
+      key={ticket.id}
+      draggable
+      role="button"
+      tabIndex={0}
+      onDragStart={(event) => {
+        event.dataTransfer.setData("text/plain", ticket.id)
+        event.dataTransfer.effectAllowed = "move"
+        setDraggingId(ticket.id)
+      }}
+      onDragEnd={() => {
+        setDraggingId(null)
+        setDropTarget(null)
+      }}
+      onClick={() => onView(ticket)}
+      onKeyDown={(event) => {
+        if (event.key === "Enter" || event.key === " ") {
+          event.preventDefault()
+          onView(ticket)
+        }
+      }}
+      className={cn(
+        "cursor-grab space-y-2 rounded-md border bg-card p-2 text-right shadow-sm transition-opacity hover:border-primary/50 active:cursor-grabbing",
+        draggingId === ticket.id && "opacity-50"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-mono text-xs text-muted-foreground">{ticket.id}</span>
+        {!preferences.swimlanes && (
+          <Badge className={cn(priorityColors[ticket.priority], "text-xs")}>{priorityLabels[ticket.priority]}</Badge>
+        )}
+      </div>
+      <p className="line-clamp-2 text-sm font-medium">
+        <HighlightedText text={ticket.title} terms={highlightTerms} />
+      </p>
+      <p className="text-xs text-muted-foreground">{ticket.clientName}</p>
+      <SlaBadge sla={evaluateSla(ticket)} />
+    </div>
+  )
+
+  const renderColumn = (status: TicketStatus, columnTickets: Ticket[]) => (
+    <div
+      key={status}
+      onDragOver={(event) => handleDragOver(event, status)}
+      onDragLeave={() => setDropTarget((current) => (current === status ? null : current))}
+      onDrop={(event) => handleDrop(event, status)}
+      className={cn(
+        "min-h-[120px] space-y-2 rounded-lg border border-dashed bg-muted/30 p-2 transition-colors",
+        dragging && canDropOn(status) && "border-primary/50",
+        dropTarget === status && "border-primary bg-primary/5",
+        dragging && dragging.status !== status && !canDropOn(status) && "opacity-50"
+      )}
+    >
+      {columnTickets.map(renderCard)}
+    </div>
+  )
+
+  const lanes: Array<{ priority: TicketPriority | null; tickets: Ticket[] }> = preferences.swimlanes
+    ? BOARD_SWIMLANES.map((priority) => ({
+        priority,
+        tickets: tickets.filter((ticket) => ticket.priority === priority),
+      }))
+    : [{ priority: null, tickets }]
+
+  return (
+    <div className="space-y-3 font-iran" dir="rtl">
+      <div className="flex flex-wrap items-center justify-end gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="board-swimlanes"
+            checked={preferences.swimlanes}
+            onCheckedChange={(swimlanes) => onPreferencesChange({ ...preferences, swimlanes })}
+          />
+          <Label htmlFor="board-swimlanes" className="font-iran">
+            ردیف‌بندی بر اساس اولویت
+          </Label>
+        </div>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-2 font-iran">
+              <Settings2 className="h-4 w-4" />
+              سقف هر ستون
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 space-y-3 font-iran" align="end" dir="rtl">
+            <p className="text-xs text-muted-foreground">
+              حداکثر تعداد تیکت در هر ستون. برای حذف سقف، مقدار را خالی بگذارید.
+            </p>
+            {TICKET_STATUSES.map((status) => (
+              <div key={status} className="flex items-center justify-between gap-2">
+                <Label htmlFor={`wip-${status}`} className="font-iran">
+                  {ticketStatusLabels[status]}
+                </Label>
+                <Input
+                  id={`wip-${status}`}
+                  type="number"
+                  min={1}
+                  value={getWipLimit(preferences, status) ?? ""}
+                  onChange={(e) =>
+                    onPreferencesChange(withWipLimit(preferences, status, e.target.value ? Number(e.target.value) : null))
+                  }
+                  className="h-8 w-20"
+                  dir="ltr"
+                />
+              </div>
+            ))}
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[900px] space-y-3">
+          <div className="grid grid-cols-5 gap-3">
+            {TICKET_STATUSES.map((status) => {
+              const count = countByStatus(status)
+              const limit = getWipLimit(preferences, status)
+              const overLimit = limit !== null && count > limit
+              return (
+                <div
+                  key={status}
+                  className={cn(
+                    "flex items-center justify-between rounded-md border px-3 py-2 text-sm font-medium",
+                    overLimit && "border-red-300 bg-red-50 text-red-800 dark:bg-red-500/10 dark:text-red-200"
+                  )}
+                >
+                  <span>{ticketStatusLabels[status]}</span>
+                  <Badge variant={overLimit ? "destructive" : "secondary"}>
+                    {limit === null
+                      ? count.toLocaleString("fa-IR")
+                      : `${count.toLocaleString("fa-IR")} / ${limit.toLocaleString("fa-IR")}`}
+                  </Badge>
+                </div>
+              )
+            })}
+          </div>
+
+          {lanes.map((lane) => (
+            <div key={lane.priority ?? "all"} className="space-y-2">
+              {lane.priority && (
+                <div className="flex items-center gap-2">
+                  <Badge className={priorityColors[lane.priority]}>{priorityLabels[lane.priority]}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {lane.tickets.length.toLocaleString("fa-IR")} تیکت
+                  </span>
+                </div>
+              )}
+              <div className="grid grid-cols-5 gap-3">
+                {TICKET_STATUSES.map((status) =>
+                  renderColumn(
+                    status,
+                    lane.tickets.filter((ticket) => ticket.status === status)
+                  )
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -112,6 +112,7 @@ const statusMeta: Record<
 const statusLabels: Record<string, string> = {
   open: "باز",
   "in-progress": "در حال انجام",
+  "waiting-for-client": "در انتظار پاسخ مشتری",
   resolved: "حل شده",
   closed: "بسته",
 };
@@ -119,6 +120,7 @@ const statusLabels: Record<string, string> = {
 const statusColors: Record<string, string> = {
   open: "bg-rose-100 text-rose-700 border border-rose-200",
   "in-progress": "bg-amber-100 text-amber-700 border border-amber-200",
+  "waiting-for-client": "bg-sky-100 text-sky-700 border border-sky-200",
   resolved: "bg-emerald-100 text-emerald-700 border border-emerald-200",
   closed: "bg-slate-100 text-slate-700 border border-slate-200",
 };
@@ -0,0 +1,177 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { ArrowLeftRight, Copy, GitMerge, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { findLikelyDuplicates, type DuplicateCandidate } from "@/lib/ticket-duplicates"
+import type { Ticket } from "@/types"
+
+interface TicketDuplicatesPanelProps {
+  tickets: Ticket[]
+  /** Merge `sourceTicketId` into `targetTicketId`; rejects when the merge failed */
+  onMerge: (sourceTicketId: string, targetTicketId: string) => Promise<void>
+  onView?: (ticket: Ticket) => void
+}
+
+const pairKey = (candidate: DuplicateCandidate) => `${candidate.ticket.id}:${candidate.original.id}`
+
+function TicketSummary({ ticket, onView }: { ticket: Ticket; onView?: (ticket: Ticket) => void }) {
+  return (
+    <button
+      type="button"
+      className="min-w-0 flex-1 rounded-md border p-2 text-right transition-colors hover:bg-muted/50"
+      onClick={() => onView?.(ticket)}
+    >
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className="font-mono text-xs">
+          {ticket.id}
+        </Badge>
+        <span className="truncate text-sm font-medium">{ticket.title}</span>
+      </div>
+      <p className="mt-1 text-xs text-muted-foreground">
+        {ticket.clientName} - {new Date(ticket.createdAt).toLocaleString("fa-IR")}
+      </p>
+    </button>
+  )
+}
+
+/**
+ * Pairs of open tickets that look like the same request filed twice, with a merge action
+ */
+export function TicketDuplicatesPanel({ tickets, onMerge, onView }: TicketDuplicatesPanelProps) {
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set())
+  const [mergeCandidate, setMergeCandidate] = useState<DuplicateCandidate | null>(null)
+  const [survivorId, setSurvivorId] = useState("")
+  const [merging, setMerging] = useState(false)
+
+  const candidates = useMemo(
+    () => findLikelyDuplicates(tickets).filter((candidate) => !dismissed.has(pairKey(candidate))),
+    [tickets, dismissed]
+  )
+
+  if (candidates.length === 0) return null
+
+  const openMerge = (candidate: DuplicateCandidate) => {
+    setMergeCandidate(candidate)
+    // The earlier ticket usually has the longer conversation, so it survives by default
+    setSurvivorId(candidate.original.id)
+  }
+
+  const handleMerge = async () => {
+    if (!mergeCandidate) return
+    const { ticket, original } = mergeCandidate
+    const sourceId = survivorId === original.id ? ticket.id : original.id
+    setMerging(true)
+    try {
+      await onMerge(sourceId, survivorId)
+      setMergeCandidate(null)
+    } catch {
+      // The caller reports the failure; keep the dialog open for another try
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  return (
+    <Card className="border-orange-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-right text-base font-iran">
+          <Copy className="h-4 w-4 text-orange-500" />
+          تیکت‌های احتمالا تکراری
+          <Badge variant="secondary">{candidates.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 font-iran">
+        {candidates.map((candidate) => (
+          <div key={pairKey(candidate)} className="space-y-2 rounded-lg border p-3">
+            <div className="flex items-center gap-2">
+              <TicketSummary ticket={candidate.ticket} onView={onView} />
+              <ArrowLeftRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <TicketSummary ticket={candidate.original} onView={onView} />
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-1">
+                <Badge className="bg-orange-100 text-orange-800">
+                  شباهت {Math.round(candidate.score * 100)}٪
+                </Badge>
+                {candidate.reasons.map((reason) => (
+                  <Badge key={reason} variant="outline" className="text-xs">
+                    {reason}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="gap-1"
+                  onClick={() => setDismissed((prev) => new Set(prev).add(pairKey(candidate)))}
+                >
+                  <X className="h-3 w-3" />
+                  تکراری نیست
+                </Button>
+                <Button size="sm" variant="outline" className="gap-1" onClick={() => openMerge(candidate)}>
+                  <GitMerge className="h-3 w-3" />
+                  ادغام
+                </Button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog
+        open={mergeCandidate !== null}
+        onOpenChange={(open) => {
+          if (!open && !merging) setMergeCandidate(null)
+        }}
+      >
+        <DialogContent className="max-w-lg font-iran" dir="rtl">
+          <DialogHeader>
+            <DialogTitle className="text-right font-iran">ادغام تیکت‌های تکراری</DialogTitle>
+            <DialogDescription className="text-right font-iran">
+              پیام‌ها و پیوست‌های تیکت دیگر به تیکت باقی‌مانده منتقل می‌شود و آن تیکت با ارجاع به تیکت
+              باقی‌مانده بسته می‌شود. به هر دو درخواست‌دهنده اطلاع داده می‌شود.
+            </DialogDescription>
+          </DialogHeader>
+
+          {mergeCandidate && (
+            <RadioGroup value={survivorId} onValueChange={setSurvivorId} className="space-y-2" dir="rtl">
+              <p className="text-sm font-medium">تیکت باقی‌مانده:</p>
+              {[mergeCandidate.original, mergeCandidate.ticket].map((ticket) => (
+                <div key={ticket.id} className="flex items-center gap-2 rounded-md border p-2">
+                  <RadioGroupItem value={ticket.id} id={`survivor-${ticket.id}`} />
+                  <Label htmlFor={`survivor-${ticket.id}`} className="flex-1 cursor-pointer font-iran">
+                    <span className="font-mono">{ticket.id}</span> - {ticket.title}
+                    <span className="block text-xs text-muted-foreground">{ticket.clientName}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setMergeCandidate(null)} disabled={merging}>
+              انصراف
+            </Button>
+            <Button onClick={handleMerge} disabled={merging || !survivorId} className="gap-2">
+              <GitMerge className="h-4 w-4" />
+              {merging ? "در حال ادغام..." : "ادغام تیکت‌ها"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
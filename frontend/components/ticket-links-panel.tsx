@@ -0,0 +1,182 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Link2, Loader2, Plus, Trash2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/hooks/use-toast"
+import { ApiError } from "@/lib/api-client"
+import { useAuth } from "@/lib/auth-context"
+import type { ApiTicketLinkDto } from "@/lib/api-types"
+import {
+  TICKET_LINK_KINDS,
+  describeLink,
+  ticketLinkKindLabels,
+  ticketLinkKindPhrases,
+  type TicketLinkKind,
+} from "@/lib/ticket-links"
+import { createTicketLink, deleteTicketLink, getTicketLinks } from "@/lib/ticket-links-api"
+
+interface TicketLinksPanelProps {
+  ticketId: string
+  /** Technicians and admins may add and remove links; clients only see them */
+  canManage: boolean
+}
+
+/**
+ * Parent/child, related and blocking links of a ticket, grouped by kind
+ */
+export function TicketLinksPanel({ ticketId, canManage }: TicketLinksPanelProps) {
+  const { token } = useAuth()
+  const [links, setLinks] = useState<ApiTicketLinkDto[]>([])
+  const [loading, setLoading] = useState(true)
+  const [kind, setKind] = useState<TicketLinkKind>("related")
+  const [otherTicketId, setOtherTicketId] = useState("")
+  const [adding, setAdding] = useState(false)
+
+  useEffect(() => {
+    let active = true
+    getTicketLinks(token, ticketId)
+      .then((loaded) => {
+        if (active) setLinks(loaded)
+      })
+      .catch((error) => {
+        console.error("Failed to load ticket links:", error)
+      })
+      .finally(() => {
+        if (active) setLoading(false)
+      })
+    return () => {
+      active = false
+    }
+  }, [token, ticketId])
+
+  const handleAdd = async () => {
+    const otherId = otherTicketId.trim()
+    if (!otherId) return
+    setAdding(true)
+    try {
+      const link = await createTicketLink(token, ticketId, kind, otherId)
+      setLinks((prev) => [...prev, link])
+      setOtherTicketId("")
+      toast({ title: "پیوند ثبت شد", description: `تیکت ${otherId} به این تیکت پیوند داده شد` })
+    } catch (error) {
+      console.error("Failed to link tickets:", error)
+      toast({
+        title: "ثبت پیوند ناموفق بود",
+        description:
+          error instanceof ApiError && error.status === 404
+            ? "تیکتی با این شماره یافت نشد"
+            : error instanceof Error
+              ? error.message
+              : "لطفا مجددا تلاش کنید.",
+        variant: "destructive",
+      })
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const handleRemove = async (link: ApiTicketLinkDto) => {
+    if (!confirm("این پیوند حذف شود؟")) return
+    try {
+      await deleteTicketLink(token, link.id)
+      setLinks((prev) => prev.filter((item) => item.id !== link.id))
+    } catch (error) {
+      console.error("Failed to remove ticket link:", error)
+      toast({
+        title: "حذف پیوند ناموفق بود",
+        description: error instanceof Error ? error.message : "لطفا مجددا تلاش کنید.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const views = links.map((link) => describeLink(link, ticketId))
+
+  return (
+    <div className="space-y-4" dir="rtl">
+      <h3 className="flex items-center gap-2 text-lg font-semibold">
+        <Link2 className="h-5 w-5" />
+        تیکت‌های مرتبط
+      </h3>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          در حال بارگذاری...
+        </div>
+      ) : views.length === 0 ? (
+        <p className="text-sm text-muted-foreground">این تیکت به تیکت دیگری پیوند داده نشده است.</p>
+      ) : (
+        <div className="space-y-3">
+          {TICKET_LINK_KINDS.filter((linkKind) => views.some((view) => view.kind === linkKind)).map((linkKind) => (
+            <div key={linkKind} className="space-y-2">
+              <p className="text-sm text-muted-foreground">{ticketLinkKindLabels[linkKind]}</p>
+              {views
+                .filter((view) => view.kind === linkKind)
+                .map((view) => (
+                  <div key={view.link.id} className="flex items-center justify-between gap-2 rounded-md border p-2">
+                    <Link
+                      href={`/tickets/${view.otherTicketId}`}
+                      className="flex min-w-0 items-center gap-2 hover:underline"
+                    >
+                      <Badge variant="outline" className="font-mono">
+                        {view.otherTicketId}
+                      </Badge>
+                      <span className="truncate text-sm">{view.otherTitle}</span>
+                    </Link>
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0"
+                        onClick={() => handleRemove(view.link)}
+                        aria-label="حذف پیوند"
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={kind} onValueChange={(value) => setKind(value as TicketLinkKind)} dir="rtl">
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TICKET_LINK_KINDS.map((linkKind) => (
+                <SelectItem key={linkKind} value={linkKind}>
+                  {ticketLinkKindPhrases[linkKind]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={otherTicketId}
+            onChange={(event) => setOtherTicketId(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") void handleAdd()
+            }}
+            placeholder="شماره تیکت"
+            className="w-36 font-mono"
+            dir="ltr"
+          />
+          <Button onClick={handleAdd} disabled={adding || !otherTicketId.trim()} className="gap-2">
+            {adding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            افزودن پیوند
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+
+interface TicketPaginationProps {
+  page: number
+  pageSize: number
+  totalCount: number
+  onPageChange: (page: number) => void
+  onPageSizeChange?: (pageSize: number) => void
+  pageSizeOptions?: number[]
+}
+
+export function TicketPagination({
+  page,
+  pageSize,
+  totalCount,
+  onPageChange,
+  onPageSizeChange,
+  pageSizeOptions = [10, 25, 50, 100],
+}: TicketPaginationProps) {
+  const pageCount = Math.max(1, Math.ceil(totalCount / pageSize))
+  const firstItem = totalCount === 0 ? 0 : (page - 1) * pageSize + 1
+  const lastItem = Math.min(page * pageSize, totalCount)
+
+  return (
+    <div className="flex flex-col gap-3 pt-4 md:flex-row md:items-center md:justify-between font-iran" dir="rtl">
+      <p className="text-sm text-muted-foreground text-right">
+        {firstItem} تا {lastItem} از {totalCount} تیکت
+      </p>
+      <div className="flex items-center gap-2">
+        {onPageSizeChange && (
+          <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))} dir="rtl">
+            <SelectTrigger className="w-28 text-right font-iran">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="font-iran">
+              {pageSizeOptions.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option} در صفحه
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page - 1)}
+          disabled={page <= 1}
+          className="gap-1 font-iran"
+        >
+          <ChevronRight className="w-4 h-4" />
+          قبلی
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          صفحه {page} از {pageCount}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onPageChange(page + 1)}
+          disabled={page >= pageCount}
+          className="gap-1 font-iran"
+        >
+          بعدی
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
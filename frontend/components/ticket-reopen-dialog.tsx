@@ -0,0 +1,95 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import type { Ticket } from "@/types"
+
+const MIN_REASON_LENGTH = 10
+
+interface TicketReopenDialogProps {
+  ticket: Ticket | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Last moment the ticket may be reopened, shown to the client */
+  deadline: Date | null
+  onSubmit: (ticketId: string, reason: string) => Promise<void> | void
+}
+
+/**
+ * Asks the client why a resolved ticket is not fixed before reopening it
+ */
+export function TicketReopenDialog({ ticket, open, onOpenChange, deadline, onSubmit }: TicketReopenDialogProps) {
+  const [reason, setReason] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (open) setReason("")
+  }, [open])
+
+  const trimmed = reason.trim()
+  const tooShort = trimmed.length < MIN_REASON_LENGTH
+
+  const handleSubmit = async () => {
+    if (!ticket || tooShort) return
+    setSubmitting(true)
+    try {
+      await onSubmit(ticket.id, trimmed)
+      onOpenChange(false)
+    } catch {
+      // The caller reports the failure; keep the dialog open so the reason is not lost
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg font-iran" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right font-iran">بازگشایی تیکت {ticket?.id}</DialogTitle>
+          <DialogDescription className="text-right font-iran">
+            اگر مشکل هنوز برطرف نشده، توضیح دهید چه چیزی همچنان درست کار نمی‌کند. تیکت برای همان کارشناس
+            ارسال می‌شود.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <label htmlFor="reopen-reason" className="text-sm font-medium font-iran">
+            دلیل بازگشایی *
+          </label>
+          <Textarea
+            id="reopen-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="مثلاً: پس از راه‌اندازی مجدد، چاپگر دوباره خطای کاغذ می‌دهد..."
+            className="min-h-[120px] text-right font-iran"
+            dir="rtl"
+          />
+          <div className="flex justify-between text-xs text-muted-foreground font-iran">
+            <span>{tooShort ? `حداقل ${MIN_REASON_LENGTH} نویسه` : " "}</span>
+            {deadline && <span>مهلت بازگشایی تا {deadline.toLocaleDateString("fa-IR")}</span>}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting} className="font-iran">
+            انصراف
+          </Button>
+          <Button onClick={handleSubmit} disabled={tooShort || submitting} className="gap-2 font-iran">
+            <RotateCcw className="w-4 h-4" />
+            {submitting ? "در حال ارسال..." : "بازگشایی تیکت"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { useMemo, useState, type KeyboardEvent } from "react"
+import { Search } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import {
+  applySearchSuggestion,
+  getSearchSuggestions,
+  searchFieldLabels,
+  type SearchField,
+  type SearchSuggestion,
+} from "@/lib/ticket-search"
+import { cn } from "@/lib/utils"
+import type { CategoriesData } from "@/services/categories-types"
+
+interface TicketSearchInputProps {
+  value: string
+  onChange: (value: string) => void
+  /** Offered as `category:` values */
+  categoriesData?: CategoriesData
+  placeholder?: string
+  className?: string
+}
+
+const fieldSuggestions: SearchSuggestion[] = (Object.keys(searchFieldLabels) as SearchField[]).map((field) => ({
+  label: `${field}:`,
+  description: searchFieldLabels[field],
+  insertText: `${field}:`,
+}))
+
+/**
+ * Search box for the ticket query language (`status:open priority:urgent "vpn"`), completing
+ * field names and values as the user types.
+ */
+export function TicketSearchInput({
+  value,
+  onChange,
+  categoriesData,
+  placeholder = "جستجو... مثلا status:open priority:urgent \"vpn\"",
+  className,
+}: TicketSearchInputProps) {
+  const [focused, setFocused] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const categories = useMemo(
+    () => Object.entries(categoriesData ?? {}).map(([key, category]) => ({ key, label: category.label })),
+    [categoriesData]
+  )
+  const suggestions = value.trim() ? getSearchSuggestions(value, categories) : fieldSuggestions
+  const open = focused && suggestions.length > 0
+
+  const accept = (suggestion: SearchSuggestion) => {
+    onChange(applySearchSuggestion(value, suggestion))
+    setHighlighted(0)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (!open) return
+    if (event.key === "ArrowDown") {
+      event.preventDefault()
+      setHighlighted((index) => (index + 1) % suggestions.length)
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault()
+      setHighlighted((index) => (index - 1 + suggestions.length) % suggestions.length)
+    } else if (event.key === "Tab" || (event.key === "Enter" && value.trim())) {
+      event.preventDefault()
+      accept(suggestions[Math.min(highlighted, suggestions.length - 1)])
+    } else if (event.key === "Escape") {
+      setFocused(false)
+    }
+  }
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+      <Input
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          setHighlighted(0)
+        }}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onKeyDown={handleKeyDown}
+        className="pr-10 text-right font-iran"
+        dir="rtl"
+        role="combobox"
+        aria-expanded={open}
+        aria-autocomplete="list"
+        data-ticket-search
+      />
+      {open && (
+        <ul
+          role="listbox"
+          className="absolute z-50 mt-1 max-h-64 w-full min-w-[240px] overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md font-iran"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.insertText}
+              role="option"
+              aria-selected={index === highlighted}
+              // Keep focus in the input; a click would otherwise blur it before selecting
+              onMouseDown={(event) => {
+                event.preventDefault()
+                accept(suggestion)
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                "flex cursor-pointer items-center justify-between gap-3 rounded-sm px-2 py-1.5 text-sm",
+                index === highlighted && "bg-accent text-accent-foreground"
+              )}
+            >
+              <span className="font-mono" dir="ltr">
+                {suggestion.label}
+              </span>
+              {suggestion.description && (
+                <span className="truncate text-xs text-muted-foreground">{suggestion.description}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
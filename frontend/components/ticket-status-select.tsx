@@ -0,0 +1,60 @@
+"use client"
+
+import { Info } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { describeTransitions, getAllowedTransitions, ticketStatusLabels } from "@/lib/ticket-workflow"
+import type { TicketStatus, UserRole } from "@/types"
+
+interface TicketStatusSelectProps {
+  role: UserRole
+  /** Status the ticket currently has; always selectable so "no change" stays possible */
+  currentStatus: TicketStatus
+  value: TicketStatus
+  onValueChange: (status: TicketStatus) => void
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Status picker limited to the moves the workflow allows for `role`, listing blocked
+ * statuses with the reason underneath
+ */
+export function TicketStatusSelect({
+  role,
+  currentStatus,
+  value,
+  onValueChange,
+  disabled,
+  className,
+}: TicketStatusSelectProps) {
+  const options = [currentStatus, ...getAllowedTransitions(role, currentStatus)]
+  const blocked = describeTransitions(role, currentStatus).filter((transition) => !transition.allowed)
+
+  return (
+    <div className="space-y-2">
+      <Select value={value} onValueChange={(next) => onValueChange(next as TicketStatus)} disabled={disabled} dir="rtl">
+        <SelectTrigger className={className ?? "text-right font-iran"}>
+          <SelectValue placeholder="انتخاب وضعیت جدید" />
+        </SelectTrigger>
+        <SelectContent className="font-iran">
+          {options.map((status) => (
+            <SelectItem key={status} value={status}>
+              {ticketStatusLabels[status]}
+              {status === currentStatus && " (فعلی)"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {blocked.length > 0 && (
+        <ul className="space-y-1 text-xs text-muted-foreground font-iran">
+          {blocked.map(({ status, reason }) => (
+            <li key={status} className="flex items-start gap-1">
+              <Info className="mt-0.5 h-3 w-3 shrink-0" />
+              <span>{reason}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
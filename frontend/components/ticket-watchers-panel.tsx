@@ -0,0 +1,242 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Eye, EyeOff, Loader2, UserPlus, X } from "lucide-react"
+import { Avatar, AvatarFallback } from "@/components/ui/avatar"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { toast } from "@/hooks/use-toast"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
+import { useAuth } from "@/lib/auth-context"
+import type { ApiTicketWatcherDto, ApiUserDto } from "@/lib/api-types"
+import { canAddWatcher, canRemoveWatcher, isWatching, toApiUserRole, watcherRoleLabels } from "@/lib/ticket-watchers"
+import {
+  addTicketWatcher,
+  getTicketWatchers,
+  removeTicketWatcher,
+  searchUserDirectory,
+} from "@/lib/ticket-watchers-api"
+
+interface TicketWatchersPanelProps {
+  ticketId: string
+}
+
+/**
+ * Watchers of a ticket. Technicians and admins can follow the ticket themselves; clients CC
+ * colleagues of their department and admins can add anyone.
+ */
+export function TicketWatchersPanel({ ticketId }: TicketWatchersPanelProps) {
+  const { token, user } = useAuth()
+  const [watchers, setWatchers] = useState<ApiTicketWatcherDto[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [pickerOpen, setPickerOpen] = useState(false)
+  const [search, setSearch] = useState("")
+  const [candidates, setCandidates] = useState<ApiUserDto[]>([])
+  const debouncedSearch = useDebouncedValue(search)
+
+  useEffect(() => {
+    let active = true
+    getTicketWatchers(token, ticketId)
+      .then((loaded) => {
+        if (active) setWatchers(loaded)
+      })
+      .catch((error) => {
+        console.error("Failed to load ticket watchers:", error)
+      })
+      .finally(() => {
+        if (active) setLoading(false)
+      })
+    return () => {
+      active = false
+    }
+  }, [token, ticketId])
+
+  useEffect(() => {
+    if (!pickerOpen || debouncedSearch.trim().length < 2) {
+      setCandidates([])
+      return
+    }
+    let active = true
+    searchUserDirectory(token, debouncedSearch.trim())
+      .then((users) => {
+        if (active) setCandidates(users)
+      })
+      .catch((error) => {
+        console.error("Failed to search users:", error)
+      })
+    return () => {
+      active = false
+    }
+  }, [token, pickerOpen, debouncedSearch])
+
+  if (!user) return null
+
+  const viewer = { id: user.id, role: user.role, department: user.department }
+  const watching = isWatching(watchers, user.id)
+  const canFollow = user.role !== "client"
+  const canInvite = user.role !== "engineer"
+  const addable = candidates.filter((candidate) => canAddWatcher(viewer, candidate) && !isWatching(watchers, candidate.id))
+
+  const addWatcher = async (candidate: ApiUserDto) => {
+    setBusy(true)
+    try {
+      const watcher = await addTicketWatcher(token, ticketId, candidate.id)
+      setWatchers((prev) => [...prev.filter((item) => item.userId !== watcher.userId), watcher])
+      toast({
+        title: candidate.id === user.id ? "این تیکت را دنبال می‌کنید" : "ناظر اضافه شد",
+        description:
+          candidate.id === user.id
+            ? "اعلان‌های این تیکت برای شما هم ارسال می‌شود"
+            : `${candidate.fullName} از این پس اعلان‌های تیکت را دریافت می‌کند`,
+      })
+    } catch (error) {
+      console.error("Failed to add watcher:", error)
+      toast({
+        title: "افزودن ناظر ناموفق بود",
+        description: error instanceof Error ? error.message : "لطفا مجددا تلاش کنید.",
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const removeWatcher = async (userId: string) => {
+    setBusy(true)
+    try {
+      await removeTicketWatcher(token, ticketId, userId)
+      setWatchers((prev) => prev.filter((item) => item.userId !== userId))
+    } catch (error) {
+      console.error("Failed to remove watcher:", error)
+      toast({
+        title: "حذف ناظر ناموفق بود",
+        description: error instanceof Error ? error.message : "لطفا مجددا تلاش کنید.",
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const toggleFollow = () => {
+    if (watching) {
+      void removeWatcher(user.id)
+    } else {
+      void addWatcher({
+        id: user.id,
+        fullName: user.name,
+        email: user.email,
+        role: toApiUserRole(user.role),
+        department: user.department ?? null,
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-3" dir="rtl">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="flex items-center gap-2 text-lg font-semibold">
+          <Eye className="h-5 w-5" />
+          ناظران تیکت
+        </h3>
+        <div className="flex gap-2">
+          {canInvite && (
+            <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2" disabled={busy}>
+                  <UserPlus className="h-4 w-4" />
+                  {user.role === "client" ? "رونوشت به همکار" : "افزودن ناظر"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-80 p-0" align="start" dir="rtl">
+                <Command shouldFilter={false}>
+                  <CommandInput
+                    value={search}
+                    onValueChange={setSearch}
+                    placeholder="نام یا ایمیل را جستجو کنید..."
+                    className="text-right"
+                  />
+                  <CommandList>
+                    <CommandEmpty>
+                      {search.trim().length < 2 ? "حداقل دو حرف وارد کنید" : "کاربری یافت نشد"}
+                    </CommandEmpty>
+                    <CommandGroup>
+                      {addable.map((candidate) => (
+                        <CommandItem
+                          key={candidate.id}
+                          value={candidate.id}
+                          onSelect={() => {
+                            setPickerOpen(false)
+                            setSearch("")
+                            void addWatcher(candidate)
+                          }}
+                          className="flex flex-col items-start"
+                        >
+                          <span>{candidate.fullName}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {candidate.email}
+                            {candidate.department && ` - ${candidate.department}`}
+                          </span>
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  </CommandList>
+                </Command>
+              </PopoverContent>
+            </Popover>
+          )}
+          {canFollow && (
+            <Button
+              variant={watching ? "secondary" : "outline"}
+              size="sm"
+              className="gap-2"
+              onClick={toggleFollow}
+              disabled={busy}
+            >
+              {watching ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              {watching ? "لغو دنبال کردن" : "دنبال کردن"}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          در حال بارگذاری...
+        </div>
+      ) : watchers.length === 0 ? (
+        <p className="text-sm text-muted-foreground">ناظری برای این تیکت ثبت نشده است.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {watchers.map((watcher) => (
+            <div key={watcher.userId} className="flex items-center gap-2 rounded-full border py-1 pl-1 pr-2">
+              <Avatar className="h-6 w-6">
+                <AvatarFallback className="text-xs">{watcher.fullName.charAt(0)}</AvatarFallback>
+              </Avatar>
+              <span className="text-sm">{watcher.fullName}</span>
+              <Badge variant="outline" className="text-xs">
+                {watcherRoleLabels[watcher.role]}
+              </Badge>
+              {canRemoveWatcher(viewer, watcher) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5"
+                  onClick={() => removeWatcher(watcher.userId)}
+                  disabled={busy}
+                  aria-label={`حذف ${watcher.fullName}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
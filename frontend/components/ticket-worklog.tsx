@@ -0,0 +1,244 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Clock, Loader2, Play, Plus, Square, Trash2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { toast } from "@/hooks/use-toast"
+import { useWorklogTimer } from "@/hooks/use-worklog-timer"
+import { useAuth } from "@/lib/auth-context"
+import type { ApiWorklogCreateRequest, ApiWorklogEntryDto } from "@/lib/api-types"
+import { formatDuration, parseDuration, summarizeWorklog } from "@/lib/worklog"
+import { addWorklogEntry, deleteWorklogEntry, getTicketWorklog } from "@/lib/worklog-api"
+import type { Ticket } from "@/types"
+
+interface TicketWorklogProps {
+  ticket: Ticket
+  /** The assigned technician can time and log work; everyone else only sees the totals */
+  canLog: boolean
+}
+
+const formatElapsed = (seconds: number) =>
+  [Math.floor(seconds / 3600), Math.floor((seconds % 3600) / 60), seconds % 60]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":")
+
+/**
+ * Time spent on a ticket: a start/stop timer and manual entries for the technician, totals for
+ * everyone with access.
+ */
+export function TicketWorklog({ ticket, canLog }: TicketWorklogProps) {
+  const { token, user } = useAuth()
+  const { timer, elapsedSeconds, start, stop } = useWorklogTimer()
+  const [entries, setEntries] = useState<ApiWorklogEntryDto[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [duration, setDuration] = useState("")
+  const [note, setNote] = useState("")
+  const [billable, setBillable] = useState(true)
+
+  useEffect(() => {
+    let active = true
+    getTicketWorklog(token, ticket.id)
+      .then((loaded) => {
+        if (active) setEntries(loaded)
+      })
+      .catch((error) => {
+        console.error("Failed to load worklog:", error)
+      })
+      .finally(() => {
+        if (active) setLoading(false)
+      })
+    return () => {
+      active = false
+    }
+  }, [token, ticket.id])
+
+  if (!user) return null
+
+  const summary = summarizeWorklog(entries)
+  const timingThisTicket = timer?.ticketId === ticket.id
+  const parsedDuration = parseDuration(duration)
+
+  const logEntry = async (request: ApiWorklogCreateRequest) => {
+    setSaving(true)
+    try {
+      const entry = await addWorklogEntry(token, ticket.id, request)
+      setEntries((prev) => [...prev, entry])
+      toast({ title: "زمان ثبت شد", description: `${formatDuration(entry.minutes)} برای تیکت ${ticket.id} ثبت شد` })
+      return true
+    } catch (error) {
+      console.error("Failed to log work:", error)
+      toast({
+        title: "ثبت زمان ناموفق بود",
+        description: error instanceof Error ? error.message : "لطفا مجددا تلاش کنید.",
+        variant: "destructive",
+      })
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleStart = () => {
+    if (timer && !timingThisTicket) {
+      const proceed = confirm(
+        `زمان‌سنج تیکت ${timer.ticketId} در حال اجراست. با شروع زمان‌سنج این تیکت، زمان قبلی ثبت نمی‌شود. ادامه می‌دهید؟`
+      )
+      if (!proceed) return
+    }
+    start(ticket.id)
+  }
+
+  const handleStop = async () => {
+    const measured = stop()
+    if (!measured) return
+    await logEntry({ minutes: measured.minutes, billable, note: note.trim() || null, startedAt: measured.startedAt })
+    setNote("")
+  }
+
+  const handleManualSubmit = async () => {
+    if (!parsedDuration) return
+    const logged = await logEntry({ minutes: parsedDuration, billable, note: note.trim() || null })
+    if (logged) {
+      setDuration("")
+      setNote("")
+    }
+  }
+
+  const handleDelete = async (entry: ApiWorklogEntryDto) => {
+    if (!confirm("این ردیف زمان حذف شود؟")) return
+    try {
+      await deleteWorklogEntry(token, entry.id)
+      setEntries((prev) => prev.filter((item) => item.id !== entry.id))
+    } catch (error) {
+      console.error("Failed to delete worklog entry:", error)
+      toast({
+        title: "خطا",
+        description: error instanceof Error ? error.message : "حذف زمان ثبت‌شده ناموفق بود",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-3 font-iran" dir="rtl">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="flex items-center gap-2 text-lg font-semibold">
+          <Clock className="h-5 w-5" />
+          زمان صرف‌شده
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant="secondary">مجموع: {formatDuration(summary.totalMinutes)}</Badge>
+          <Badge variant="outline">قابل صورتحساب: {formatDuration(summary.billableMinutes)}</Badge>
+        </div>
+      </div>
+
+      {canLog && (
+        <div className="space-y-3 rounded-lg border p-3">
+          <div className="flex flex-wrap items-center gap-2">
+            {timingThisTicket ? (
+              <Button variant="destructive" size="sm" className="gap-2" onClick={handleStop} disabled={saving}>
+                <Square className="h-4 w-4" />
+                توقف و ثبت
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" className="gap-2" onClick={handleStart} disabled={saving}>
+                <Play className="h-4 w-4" />
+                شروع زمان‌سنج
+              </Button>
+            )}
+            {timingThisTicket && (
+              <span className="font-mono text-sm tabular-nums" dir="ltr">
+                {formatElapsed(elapsedSeconds)}
+              </span>
+            )}
+            <div className="mr-auto flex items-center gap-2">
+              <Switch id={`billable-${ticket.id}`} checked={billable} onCheckedChange={setBillable} />
+              <Label htmlFor={`billable-${ticket.id}`} className="font-iran">
+                قابل صورتحساب
+              </Label>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="w-32 space-y-1">
+              <Label className="text-xs font-iran">مدت</Label>
+              <Input
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+                placeholder="مثلا 1:30"
+                dir="ltr"
+                className="text-left"
+              />
+            </div>
+            <div className="min-w-[200px] flex-1 space-y-1">
+              <Label className="text-xs font-iran">توضیحات</Label>
+              <Input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="چه کاری انجام شد؟"
+                className="text-right"
+              />
+            </div>
+            <Button
+              size="sm"
+              className="gap-2"
+              onClick={handleManualSubmit}
+              disabled={saving || !parsedDuration || timingThisTicket}
+            >
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              ثبت دستی
+            </Button>
+          </div>
+          {duration.trim() && !parsedDuration && (
+            <p className="text-xs text-destructive">مدت را به دقیقه (90)، ساعت:دقیقه (1:30) یا ساعت (1.5h) وارد کنید</p>
+          )}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          در حال بارگذاری...
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">هنوز زمانی برای این تیکت ثبت نشده است.</p>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{formatDuration(entry.minutes)}</span>
+                  {!entry.billable && (
+                    <Badge variant="outline" className="text-xs">
+                      غیر قابل صورتحساب
+                    </Badge>
+                  )}
+                </div>
+                {entry.note && <p className="truncate text-muted-foreground">{entry.note}</p>}
+                <p className="text-xs text-muted-foreground">
+                  {entry.technicianName} - {new Date(entry.loggedAt).toLocaleString("fa-IR")}
+                </p>
+              </div>
+              {(entry.technicianId === user.id || user.role === "admin") && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0"
+                  onClick={() => handleDelete(entry)}
+                  aria-label="حذف"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Eye, EyeOff, Loader2, Plus } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/hooks/use-toast"
+import { useAuth } from "@/lib/auth-context"
+import { mapApiTicketToUi } from "@/lib/ticket-mappers"
+import { ticketStatusLabels } from "@/lib/ticket-workflow"
+import { ApiError } from "@/lib/api-client"
+import { addTicketWatcher, getWatchedTickets, removeTicketWatcher } from "@/lib/ticket-watchers-api"
+import type { CategoriesData } from "@/services/categories-types"
+import type { Ticket, TicketPriority } from "@/types"
+
+const priorityLabels: Record<TicketPriority, string> = {
+  low: "کم",
+  medium: "متوسط",
+  high: "بالا",
+  urgent: "فوری",
+}
+
+interface WatchingTicketsProps {
+  categoriesData: CategoriesData
+}
+
+/**
+ * Tickets the user follows or was CC'd on without being their requester or assignee
+ */
+export function WatchingTickets({ categoriesData }: WatchingTicketsProps) {
+  const { token, user } = useAuth()
+  const router = useRouter()
+  const [tickets, setTickets] = useState<Ticket[]>([])
+  const [loading, setLoading] = useState(true)
+  const [followTicketId, setFollowTicketId] = useState("")
+  const [following, setFollowing] = useState(false)
+
+  useEffect(() => {
+    if (!user) return
+    let active = true
+    getWatchedTickets(token)
+      .then((loaded) => {
+        if (active) setTickets(loaded.map((ticket) => mapApiTicketToUi(ticket, categoriesData)))
+      })
+      .catch((error) => {
+        console.error("Failed to load watched tickets:", error)
+        toast({
+          title: "خطا",
+          description: "بارگذاری تیکت‌های تحت نظر ناموفق بود",
+          variant: "destructive",
+        })
+      })
+      .finally(() => {
+        if (active) setLoading(false)
+      })
+    return () => {
+      active = false
+    }
+  }, [token, user, categoriesData])
+
+  // Technicians cannot open tickets assigned to others, so they follow them by number from here
+  const handleFollow = async () => {
+    const ticketId = followTicketId.trim()
+    if (!user || !ticketId) return
+    setFollowing(true)
+    try {
+      await addTicketWatcher(token, ticketId, user.id)
+      const loaded = await getWatchedTickets(token)
+      setTickets(loaded.map((ticket) => mapApiTicketToUi(ticket, categoriesData)))
+      setFollowTicketId("")
+      toast({ title: "تیکت دنبال شد", description: `تیکت ${ticketId} به فهرست تحت نظر اضافه شد` })
+    } catch (error) {
+      console.error("Failed to follow ticket:", error)
+      toast({
+        title: "خطا",
+        description:
+          error instanceof ApiError && error.status === 404
+            ? "تیکتی با این شماره یافت نشد"
+            : error instanceof Error
+              ? error.message
+              : "دنبال کردن تیکت ناموفق بود",
+        variant: "destructive",
+      })
+    } finally {
+      setFollowing(false)
+    }
+  }
+
+  const handleUnwatch = async (ticketId: string) => {
+    if (!user) return
+    try {
+      await removeTicketWatcher(token, ticketId, user.id)
+      setTickets((prev) => prev.filter((ticket) => ticket.id !== ticketId))
+    } catch (error) {
+      console.error("Failed to stop watching ticket:", error)
+      toast({
+        title: "خطا",
+        description: error instanceof Error ? error.message : "لغو دنبال کردن ناموفق بود",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Card dir="rtl" className="font-iran">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-right font-iran">
+          <Eye className="h-5 w-5" />
+          تیکت‌های تحت نظر
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {user?.role === "engineer" && (
+          <div className="flex gap-2">
+            <Input
+              value={followTicketId}
+              onChange={(event) => setFollowTicketId(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") void handleFollow()
+              }}
+              placeholder="شماره تیکت برای دنبال کردن"
+              className="max-w-xs"
+            />
+            <Button onClick={handleFollow} disabled={following || !followTicketId.trim()} className="gap-1">
+              {following ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              دنبال کردن
+            </Button>
+          </div>
+        )}
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            در حال بارگذاری...
+          </div>
+        ) : tickets.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            تیکتی را دنبال نمی‌کنید. از صفحه جزئیات هر تیکت می‌توانید آن را دنبال کنید یا به آن رونوشت بگیرید.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-right">شماره</TableHead>
+                <TableHead className="text-right">عنوان</TableHead>
+                <TableHead className="text-right">وضعیت</TableHead>
+                <TableHead className="text-right">اولویت</TableHead>
+                <TableHead className="text-right">درخواست‌دهنده</TableHead>
+                <TableHead className="text-right">تکنسین</TableHead>
+                <TableHead className="text-right">آخرین به‌روزرسانی</TableHead>
+                <TableHead className="text-right">عملیات</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tickets.map((ticket) => (
+                <TableRow key={ticket.id}>
+                  <TableCell className="font-mono">{ticket.id}</TableCell>
+                  <TableCell className="max-w-[240px] truncate">{ticket.title}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{ticketStatusLabels[ticket.status]}</Badge>
+                  </TableCell>
+                  <TableCell>{priorityLabels[ticket.priority]}</TableCell>
+                  <TableCell>{ticket.clientName}</TableCell>
+                  <TableCell>{ticket.assignedTechnicianName || "تعیین نشده"}</TableCell>
+                  <TableCell className="text-sm">
+                    {new Date(ticket.updatedAt ?? ticket.createdAt).toLocaleDateString("fa-IR")}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-1"
+                        onClick={() => router.push(`/tickets/${ticket.id}`)}
+                      >
+                        <Eye className="h-3 w-3" />
+                        مشاهده
+                      </Button>
+                      <Button variant="ghost" size="sm" className="gap-1" onClick={() => handleUnwatch(ticket.id)}>
+                        <EyeOff className="h-3 w-3" />
+                        لغو
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
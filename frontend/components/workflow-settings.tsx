@@ -0,0 +1,228 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Separator } from "@/components/ui/separator"
+import { Switch } from "@/components/ui/switch"
+import { toast } from "@/hooks/use-toast"
+import { useAuth } from "@/lib/auth-context"
+import { surveyQuestionTypeLabels, type SurveyQuestion, type SurveyQuestionType } from "@/lib/csat"
+import { DEFAULT_WORKFLOW_SETTINGS, type WorkflowSettings as WorkflowSettingsValues } from "@/lib/ticket-workflow"
+import { getWorkflowSettings, updateWorkflowSettings } from "@/lib/workflow-settings-api"
+import { Loader2, Plus, Trash2, Workflow } from "lucide-react"
+
+export function WorkflowSettings() {
+  const { token } = useAuth()
+  const [settings, setSettings] = useState<WorkflowSettingsValues>(DEFAULT_WORKFLOW_SETTINGS)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    let active = true
+    getWorkflowSettings(token)
+      .then((loaded) => {
+        if (active) setSettings(loaded)
+      })
+      .catch((error) => {
+        console.error("Failed to load workflow settings", error)
+      })
+      .finally(() => {
+        if (active) setLoading(false)
+      })
+    return () => {
+      active = false
+    }
+  }, [token])
+
+  const updateQuestion = (id: string, patch: Partial<SurveyQuestion>) => {
+    setSettings((prev) => ({
+      ...prev,
+      csatQuestions: prev.csatQuestions.map((question) => (question.id === id ? { ...question, ...patch } : question)),
+    }))
+  }
+
+  const addQuestion = () => {
+    setSettings((prev) => ({
+      ...prev,
+      csatQuestions: [...prev.csatQuestions, { id: `q-${Date.now()}`, text: "", type: "rating", required: false }],
+    }))
+  }
+
+  const removeQuestion = (id: string) => {
+    setSettings((prev) => ({ ...prev, csatQuestions: prev.csatQuestions.filter((question) => question.id !== id) }))
+  }
+
+  const handleSave = async () => {
+    if (settings.csatQuestions.some((question) => !question.text.trim())) {
+      toast({
+        title: "متن سوال خالی است",
+        description: "برای همه سوالات نظرسنجی متن وارد کنید یا سوال خالی را حذف کنید.",
+        variant: "destructive",
+      })
+      return
+    }
+    setSaving(true)
+    try {
+      const saved = await updateWorkflowSettings(token, settings)
+      setSettings(saved)
+      toast({
+        title: "تنظیمات گردش کار ذخیره شد",
+        description: "تغییرات برای همه کاربران اعمال شد",
+      })
+    } catch (error) {
+      console.error("Failed to save workflow settings", error)
+      toast({
+        title: "ذخیره تنظیمات گردش کار ناموفق بود",
+        description: error instanceof Error ? error.message : "لطفا مجددا تلاش کنید.",
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          در حال بارگذاری تنظیمات گردش کار...
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card dir="rtl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-right font-iran">
+          <Workflow className="h-5 w-5" />
+          تنظیمات گردش کار تیکت
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6 font-iran">
+        <section className="space-y-2">
+          <Label htmlFor="reopen-window">مهلت بازگشایی توسط مشتری (روز)</Label>
+          <Input
+            id="reopen-window"
+            type="number"
+            min={0}
+            max={365}
+            step={1}
+            className="w-28"
+            value={settings.reopenWindowDays}
+            onChange={(event) => {
+              const days = Number.parseInt(event.target.value, 10)
+              if (Number.isFinite(days) && days >= 0 && days <= 365) {
+                setSettings((prev) => ({ ...prev, reopenWindowDays: days }))
+              }
+            }}
+          />
+          <p className="text-xs text-muted-foreground">
+            مشتری تا این تعداد روز پس از حل یا بستن تیکت می‌تواند آن را با ذکر دلیل بازگشایی کند؛ صفر یعنی
+            بازگشایی غیرفعال است. سرور تیکت بازگشایی‌شده را به تکنسین قبلی و در صورت غیرفعال بودن او به
+            کم‌کارترین تکنسین فعال می‌سپارد.
+          </p>
+        </section>
+
+        <section className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="resolve-children">حل خودکار تیکت‌های فرزند</Label>
+            <p className="text-xs text-muted-foreground">
+              با حل شدن تیکت والد (مثلا قطعی شبکه)، همه تیکت‌های فرزند باز آن نیز حل شده اعلام می‌شوند.
+            </p>
+          </div>
+          <Switch
+            id="resolve-children"
+            checked={settings.resolveChildrenWithParent}
+            onCheckedChange={(checked) => setSettings((prev) => ({ ...prev, resolveChildrenWithParent: checked }))}
+          />
+        </section>
+
+        <Separator />
+
+        <section className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="csat-enabled">نظرسنجی رضایت پس از حل تیکت</Label>
+              <p className="text-xs text-muted-foreground">
+                مشتری پس از حل یا بستن تیکت به آن امتیاز ۱ تا ۵ می‌دهد و به سوالات زیر پاسخ می‌دهد. میانگین امتیازها
+                در پروفایل تکنسین‌ها و گزارش رضایت نمایش داده می‌شود.
+              </p>
+            </div>
+            <Switch
+              id="csat-enabled"
+              checked={settings.csatEnabled}
+              onCheckedChange={(checked) => setSettings((prev) => ({ ...prev, csatEnabled: checked }))}
+            />
+          </div>
+
+          {settings.csatEnabled && (
+            <div className="space-y-3">
+              {settings.csatQuestions.map((question, index) => (
+                <div key={question.id} className="flex flex-wrap items-center gap-3 rounded-lg border p-3">
+                  <span className="text-sm text-muted-foreground">{index + 1}.</span>
+                  <Input
+                    value={question.text}
+                    onChange={(event) => updateQuestion(question.id, { text: event.target.value })}
+                    placeholder="متن سوال"
+                    className="min-w-[220px] flex-1"
+                  />
+                  <Select
+                    value={question.type}
+                    onValueChange={(value) => updateQuestion(question.id, { type: value as SurveyQuestionType })}
+                    dir="rtl"
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(surveyQuestionTypeLabels) as SurveyQuestionType[]).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {surveyQuestionTypeLabels[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`required-${question.id}`}
+                      checked={question.required}
+                      onCheckedChange={(checked) => updateQuestion(question.id, { required: checked })}
+                    />
+                    <Label htmlFor={`required-${question.id}`} className="text-xs">
+                      اجباری
+                    </Label>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeQuestion(question.id)}
+                    aria-label="حذف سوال"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={addQuestion} className="gap-2">
+                <Plus className="h-4 w-4" />
+                افزودن سوال
+              </Button>
+            </div>
+          )}
+        </section>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving || !token} className="gap-2">
+            {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+            ذخیره تنظیمات گردش کار
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,199 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Clock, Download, Loader2, Receipt, Timer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/hooks/use-toast"
+import { useAuth } from "@/lib/auth-context"
+import type { ApiWorklogEntryDto } from "@/lib/api-types"
+import { formatDuration, groupWorklog, summarizeWorklog, toHours, worklogToCsv, type WorklogGroup } from "@/lib/worklog"
+import { getWorklogReport } from "@/lib/worklog-api"
+
+type ReportPeriod = "7" | "30" | "90" | "all"
+
+const periodLabels: Record<ReportPeriod, string> = {
+  "7": "۷ روز اخیر",
+  "30": "۳۰ روز اخیر",
+  "90": "۹۰ روز اخیر",
+  all: "همه زمان‌ها",
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function GroupTable({ title, groups }: { title: string; groups: WorklogGroup[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-right text-base font-iran">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {groups.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground font-iran">زمانی ثبت نشده است</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-right font-iran">نام</TableHead>
+                <TableHead className="text-right font-iran">ساعت</TableHead>
+                <TableHead className="text-right font-iran">قابل صورتحساب</TableHead>
+                <TableHead className="text-right font-iran">ردیف‌ها</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map((group) => (
+                <TableRow key={group.key || "none"}>
+                  <TableCell className="font-iran">{group.label}</TableCell>
+                  <TableCell className="font-iran">{toHours(group.summary.totalMinutes).toLocaleString("fa-IR")}</TableCell>
+                  <TableCell className="font-iran">
+                    {toHours(group.summary.billableMinutes).toLocaleString("fa-IR")}
+                  </TableCell>
+                  <TableCell className="font-iran">{group.summary.entries.toLocaleString("fa-IR")}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Hours logged on tickets for admins, by technician, category and requesting department
+ */
+export function WorklogReport() {
+  const { token } = useAuth()
+  const [period, setPeriod] = useState<ReportPeriod>("30")
+  const [entries, setEntries] = useState<ApiWorklogEntryDto[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let active = true
+    setLoading(true)
+    const from = period === "all" ? undefined : new Date(Date.now() - Number(period) * DAY_MS)
+    getWorklogReport(token, from)
+      .then((loaded) => {
+        if (active) setEntries(loaded)
+      })
+      .catch((error) => {
+        console.error("Failed to load worklog report:", error)
+        toast({
+          title: "خطا",
+          description: "بارگذاری گزارش زمان ناموفق بود",
+          variant: "destructive",
+        })
+      })
+      .finally(() => {
+        if (active) setLoading(false)
+      })
+    return () => {
+      active = false
+    }
+  }, [token, period])
+
+  const summary = summarizeWorklog(entries)
+  const byTechnician = groupWorklog(
+    entries,
+    (entry) => ({ key: entry.technicianId, label: entry.technicianName || entry.technicianId }),
+    "نامشخص"
+  )
+  const byCategory = groupWorklog(
+    entries,
+    (entry) => (entry.categoryName ? { key: String(entry.categoryId ?? entry.categoryName), label: entry.categoryName } : null),
+    "بدون دسته‌بندی"
+  )
+  const byDepartment = groupWorklog(
+    entries,
+    (entry) => (entry.department ? { key: entry.department, label: entry.department } : null),
+    "بدون واحد"
+  )
+
+  const handleExportCSV = () => {
+    const blob = new Blob([worklogToCsv(entries)], { type: "text/csv;charset=utf-8;" })
+    const link = document.createElement("a")
+    const url = URL.createObjectURL(blob)
+    link.setAttribute("href", url)
+    link.setAttribute("download", `worklog-${new Date().toISOString().split("T")[0]}.csv`)
+    link.style.visibility = "hidden"
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-6 font-iran" dir="rtl">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold">گزارش زمان صرف‌شده</h2>
+        <div className="flex gap-2">
+          <Select value={period} onValueChange={(value) => setPeriod(value as ReportPeriod)} dir="rtl">
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(periodLabels) as ReportPeriod[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {periodLabels[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" className="gap-2" onClick={handleExportCSV} disabled={loading || entries.length === 0}>
+            <Download className="w-4 h-4" />
+            خروجی CSV
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <Card>
+          <CardContent className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            در حال بارگذاری گزارش زمان...
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">مجموع زمان</CardTitle>
+                <Clock className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatDuration(summary.totalMinutes)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">قابل صورتحساب</CardTitle>
+                <Receipt className="h-4 w-4 text-green-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatDuration(summary.billableMinutes)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">تعداد ردیف‌ها</CardTitle>
+                <Timer className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{summary.entries.toLocaleString("fa-IR")}</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+            <GroupTable title="به تفکیک تکنسین" groups={byTechnician} />
+            <GroupTable title="به تفکیک دسته‌بندی" groups={byCategory} />
+            <GroupTable title="به تفکیک واحد درخواست‌کننده" groups={byDepartment} />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,68 +1,118 @@
-import type { ApiUserDto } from "@/lib/api-types"
+import type {
+  ApiTechnicianProfileResponse,
+  ApiTechnicianResponse,
+  ApiTechnicianWorkingDay,
+} from "@/lib/api-types"
+import type { CsatSummary } from "@/lib/csat"
+import { ACTIVE_TICKET_STATUSES } from "@/lib/ticket-workflow"
+import type { CategoriesData } from "@/services/categories-types"
+import type { Ticket } from "@/types"
 
 export type TechnicianAvailability = "available" | "busy" | "offline"
 
-export interface TechnicianMetadata {
+export interface TechnicianProfile {
+  id: string
+  /** Linked User.Id; null when the technician has no account */
+  userId: string | null
+  name: string
+  email: string
+  phone?: string | null
+  department?: string | null
+  /** Backend category ids from the technician profile */
+  specialtyCategoryIds: number[]
+  /** Category slugs resolved from `specialtyCategoryIds`, comparable with `ticket.category` */
   specialties: string[]
-  rating: number
+  certifications: string[]
+  languages: string[]
+  workingHours: ApiTechnicianWorkingDay[]
+  maxActiveTickets: number
   activeTickets: number
   status: TechnicianAvailability
   completedTickets: number
-  avgResponseTime: string
-  expertise?: string[]
+  /** Average customer rating (1-5); null until the technician has rated tickets */
+  rating: number | null
+  /** Average first response time in hours; null when unknown */
+  avgResponseTime: number | null
 }
 
-export interface TechnicianProfile extends TechnicianMetadata {
-  id: string
-  name: string
-  email: string
-  department?: string | null
-}
+export const DEFAULT_MAX_ACTIVE_TICKETS = 5
 
-const defaultMetadata: TechnicianMetadata = {
-  specialties: ["hardware"],
-  rating: 4.2,
-  activeTickets: 0,
-  status: "available",
-  completedTickets: 10,
-  avgResponseTime: "2.0",
-  expertise: [],
+/** Iranian work week: Saturday to Wednesday 8:00-16:00, Thursday 8:00-12:00 */
+export const DEFAULT_WORKING_HOURS: ApiTechnicianWorkingDay[] = [
+  { dayOfWeek: 6, startHour: 8, endHour: 16 },
+  { dayOfWeek: 0, startHour: 8, endHour: 16 },
+  { dayOfWeek: 1, startHour: 8, endHour: 16 },
+  { dayOfWeek: 2, startHour: 8, endHour: 16 },
+  { dayOfWeek: 3, startHour: 8, endHour: 16 },
+  { dayOfWeek: 4, startHour: 8, endHour: 12 },
+]
+
+export function createDefaultTechnicianProfile(technicianId: string): ApiTechnicianProfileResponse {
+  return {
+    technicianId,
+    specialtyCategoryIds: [],
+    certifications: [],
+    languages: ["فارسی"],
+    workingHours: DEFAULT_WORKING_HOURS,
+    maxActiveTickets: DEFAULT_MAX_ACTIVE_TICKETS,
+  }
 }
 
-export const technicianMetadataByEmail: Record<string, TechnicianMetadata> = {
-  "tech1@test.com": {
-    specialties: ["network", "hardware"],
-    rating: 4.8,
-    activeTickets: 3,
-    status: "available",
-    completedTickets: 45,
-    avgResponseTime: "1.5",
-    expertise: ["شبکه های بی سیم", "VPN", "دسترسی راه دور"],
-  },
-  "tech2@test.com": {
-    specialties: ["software", "security"],
-    rating: 4.7,
-    activeTickets: 2,
-    status: "available",
-    completedTickets: 38,
-    avgResponseTime: "1.8",
-    expertise: ["Windows", "Office", "ضدویروس"],
-  },
+export function isWithinWorkingHours(workingHours: ApiTechnicianWorkingDay[], now: Date = new Date()): boolean {
+  const hour = now.getHours() + now.getMinutes() / 60
+  return workingHours.some(
+    (slot) => slot.dayOfWeek === now.getDay() && hour >= slot.startHour && hour < slot.endHour
+  )
 }
 
-export function buildTechnicianProfile(user: ApiUserDto): TechnicianProfile {
-  const overrides = technicianMetadataByEmail[user.email.toLowerCase()] ?? defaultMetadata
+const isActiveTicket = (ticket: Ticket) => ACTIVE_TICKET_STATUSES.includes(ticket.status)
+const isCompletedTicket = (ticket: Ticket) => ticket.status === "resolved" || ticket.status === "closed"
+
+/**
+ * Combine a technician account with their profile. Load, completed count, rating and response
+ * time come from the backend statistics; without a profile they fall back to the tickets at hand
+ * and the technician's satisfaction surveys.
+ */
+export function buildTechnicianProfile(
+  technician: ApiTechnicianResponse,
+  profile: ApiTechnicianProfileResponse | undefined,
+  categories: CategoriesData,
+  tickets: Ticket[],
+  surveyRating?: CsatSummary,
+  now: Date = new Date()
+): TechnicianProfile {
+  const settings = profile ?? createDefaultTechnicianProfile(technician.id)
+  const assigned = tickets.filter((ticket) => ticket.assignedTechnicianId === technician.id)
+  const activeTickets = profile?.activeTickets ?? assigned.filter(isActiveTicket).length
+
+  const specialties = Object.entries(categories)
+    .filter(([, category]) => category.backendId !== undefined && settings.specialtyCategoryIds.includes(category.backendId))
+    .map(([slug]) => slug)
+
+  let status: TechnicianAvailability = "available"
+  if (!isWithinWorkingHours(settings.workingHours, now)) {
+    status = "offline"
+  } else if (activeTickets >= settings.maxActiveTickets) {
+    status = "busy"
+  }
+
   return {
-    id: user.id,
-    name: user.fullName,
-    email: user.email,
-    department: user.department ?? null,
-    specialties: overrides.specialties,
-    rating: overrides.rating,
-    activeTickets: overrides.activeTickets,
-    status: overrides.status,
-    completedTickets: overrides.completedTickets,
-    avgResponseTime: overrides.avgResponseTime,
-    expertise: overrides.expertise ?? [],
+    id: technician.id,
+    userId: technician.userId ?? null,
+    name: technician.fullName,
+    email: technician.email,
+    phone: technician.phone ?? null,
+    department: technician.department ?? null,
+    specialtyCategoryIds: settings.specialtyCategoryIds,
+    specialties,
+    certifications: settings.certifications,
+    languages: settings.languages,
+    workingHours: settings.workingHours,
+    maxActiveTickets: settings.maxActiveTickets,
+    activeTickets,
+    status,
+    completedTickets: profile?.completedTickets ?? assigned.filter(isCompletedTicket).length,
+    rating: profile?.averageRating ?? surveyRating?.average ?? null,
+    avgResponseTime: profile?.averageResponseHours ?? null,
   }
 }
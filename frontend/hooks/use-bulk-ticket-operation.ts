@@ -0,0 +1,155 @@
+import * as React from "react"
+import { useAuth } from "@/lib/auth-context"
+import type { ApiBulkTicketUpdateItem, ApiBulkTicketUpdateResult } from "@/lib/api-types"
+import { BULK_UNDO_WINDOW_MS, getUndoItems, type BulkPlan } from "@/lib/bulk-operations"
+import { runBulkTicketUpdate } from "@/lib/bulk-operations-api"
+
+const UNDO_STORAGE_KEY = "ticketing-bulk-undo"
+
+export interface BulkOperationState {
+  label: string
+  /** True while the operation reverts an earlier one */
+  isUndo: boolean
+  done: number
+  total: number
+  running: boolean
+  results: ApiBulkTicketUpdateResult[]
+  skipped: number
+}
+
+interface BulkUndoRecord {
+  label: string
+  items: ApiBulkTicketUpdateItem[]
+  expiresAt: number
+}
+
+function loadUndoRecord(): BulkUndoRecord | null {
+  try {
+    const stored = localStorage.getItem(UNDO_STORAGE_KEY)
+    const record = stored ? (JSON.parse(stored) as BulkUndoRecord) : null
+    return record && record.expiresAt > Date.now() ? record : null
+  } catch (error) {
+    console.warn("[bulk-operations] Failed to parse undo record from localStorage:", error)
+    return null
+  }
+}
+
+function saveUndoRecord(record: BulkUndoRecord | null) {
+  try {
+    if (record) {
+      localStorage.setItem(UNDO_STORAGE_KEY, JSON.stringify(record))
+    } else {
+      localStorage.removeItem(UNDO_STORAGE_KEY)
+    }
+  } catch (error) {
+    console.warn("[bulk-operations] Failed to save undo record to localStorage:", error)
+  }
+}
+
+interface UseBulkTicketOperationOptions {
+  /** Called with the results once an operation or its undo finished, to refresh the tickets */
+  onUpdated?: (results: ApiBulkTicketUpdateResult[]) => void | Promise<void>
+}
+
+/**
+ * Runs bulk plans with progress and keeps the last one undoable for BULK_UNDO_WINDOW_MS.
+ * The undo record survives a reload, so an accidental bulk close can still be reverted.
+ */
+export function useBulkTicketOperation({ onUpdated }: UseBulkTicketOperationOptions = {}) {
+  const { token, user } = useAuth()
+  const [operation, setOperation] = React.useState<BulkOperationState | null>(null)
+  const [undoRecord, setUndoRecord] = React.useState<BulkUndoRecord | null>(null)
+  const [now, setNow] = React.useState(() => Date.now())
+
+  React.useEffect(() => {
+    setUndoRecord(loadUndoRecord())
+  }, [])
+
+  React.useEffect(() => {
+    if (!undoRecord) return
+    setNow(Date.now())
+    const interval = window.setInterval(() => setNow(Date.now()), 1000)
+    const timeout = window.setTimeout(() => {
+      saveUndoRecord(null)
+      setUndoRecord(null)
+    }, Math.max(0, undoRecord.expiresAt - Date.now()))
+    return () => {
+      window.clearInterval(interval)
+      window.clearTimeout(timeout)
+    }
+  }, [undoRecord])
+
+  const execute = async (
+    label: string,
+    items: ApiBulkTicketUpdateItem[],
+    extra: { isUndo: boolean; rejected?: ApiBulkTicketUpdateResult[]; skipped?: number }
+  ) => {
+    const rejected = extra.rejected ?? []
+    setOperation({
+      label,
+      isUndo: extra.isUndo,
+      done: 0,
+      total: items.length,
+      running: true,
+      results: rejected,
+      skipped: extra.skipped ?? 0,
+    })
+
+    let results: ApiBulkTicketUpdateResult[]
+    try {
+      results = await runBulkTicketUpdate(token, items, {
+        onProgress: (done, total) => setOperation((prev) => (prev ? { ...prev, done, total } : prev)),
+      })
+    } catch (error) {
+      console.error("Bulk operation failed", error)
+      results = items.map((item) => ({ ticketId: item.ticketId, success: false, error: error instanceof Error ? error.message : undefined }))
+    }
+
+    setOperation((prev) => (prev ? { ...prev, running: false, results: [...rejected, ...results] } : prev))
+    if (results.some((result) => result.success)) {
+      await onUpdated?.(results)
+    }
+    return results
+  }
+
+  /** Run a plan; resolves with the ids of the tickets that failed or were rejected */
+  const run = async (plan: BulkPlan) => {
+    const results = await execute(plan.label, plan.items, {
+      isUndo: false,
+      rejected: plan.rejected,
+      skipped: plan.skipped,
+    })
+
+    const undoItems = getUndoItems(plan, results)
+    const record =
+      undoItems.length > 0 ? { label: plan.label, items: undoItems, expiresAt: Date.now() + BULK_UNDO_WINDOW_MS } : null
+    saveUndoRecord(record)
+    setUndoRecord(record)
+
+    return [...plan.rejected, ...results].filter((result) => !result.success).map((result) => result.ticketId)
+  }
+
+  const undo = async () => {
+    const record = loadUndoRecord()
+    saveUndoRecord(null)
+    setUndoRecord(null)
+    if (!record) return
+    await execute(`بازگردانی «${record.label}»`, record.items, { isUndo: true })
+  }
+
+  const dismiss = () => setOperation((prev) => (prev?.running ? prev : null))
+
+  const undoSecondsLeft = undoRecord ? Math.max(0, Math.ceil((undoRecord.expiresAt - now) / 1000)) : 0
+
+  return {
+    operation,
+    run,
+    undo,
+    dismiss,
+    undoLabel: undoRecord?.label ?? null,
+    undoSecondsLeft,
+    canUndo: undoSecondsLeft > 0 && !operation?.running,
+  }
+}
+
+export type BulkTicketOperation = ReturnType<typeof useBulkTicketOperation>
@@ -0,0 +1,16 @@
+import * as React from "react"
+
+/**
+ * Returns `value` once it has stopped changing for `delay` milliseconds.
+ * Used to keep free-text filters from firing a server request per keystroke.
+ */
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = React.useState(value)
+
+  React.useEffect(() => {
+    const timeoutId = setTimeout(() => setDebounced(value), delay)
+    return () => clearTimeout(timeoutId)
+  }, [value, delay])
+
+  return debounced
+}
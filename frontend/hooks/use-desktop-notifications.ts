@@ -0,0 +1,61 @@
+import * as React from "react"
+
+import type { ApiNotificationPreferencesResponse } from "@/lib/api-types"
+import {
+  NOTIFICATION_PREFERENCES_EVENT,
+  getDesktopNotificationPermission,
+  registerNotificationServiceWorker,
+  showDesktopNotification,
+  type DesktopNotificationPayload,
+} from "@/lib/desktop-notifications"
+import { getMyNotificationPreferences } from "@/lib/notification-preferences-api"
+
+/**
+ * Desktop notifications gated by the user's `desktopEnabled` preference.
+ * The returned `notify` is a no-op while the toggle is off or permission is missing.
+ */
+export function useDesktopNotifications(token: string | null) {
+  const enabledRef = React.useRef(false)
+
+  React.useEffect(() => {
+    if (!token) {
+      enabledRef.current = false
+      return
+    }
+
+    let active = true
+    const apply = (preferences: ApiNotificationPreferencesResponse) => {
+      enabledRef.current = preferences.desktopEnabled
+      if (preferences.desktopEnabled && getDesktopNotificationPermission() === "granted") {
+        void registerNotificationServiceWorker()
+      }
+    }
+
+    getMyNotificationPreferences(token)
+      .then((preferences) => {
+        if (active) apply(preferences)
+      })
+      .catch((error) => {
+        console.warn("[desktop-notifications] Failed to load preferences, desktop notifications stay off", error)
+      })
+
+    const handlePreferencesChanged = (event: Event) => {
+      apply((event as CustomEvent<ApiNotificationPreferencesResponse>).detail)
+    }
+    window.addEventListener(NOTIFICATION_PREFERENCES_EVENT, handlePreferencesChanged)
+
+    return () => {
+      active = false
+      window.removeEventListener(NOTIFICATION_PREFERENCES_EVENT, handlePreferencesChanged)
+    }
+  }, [token])
+
+  const notify = React.useCallback((payload: DesktopNotificationPayload) => {
+    if (!enabledRef.current) return
+    showDesktopNotification(payload).catch((error) => {
+      console.warn("[desktop-notifications] Failed to show notification", error)
+    })
+  }, [])
+
+  return { notify }
+}
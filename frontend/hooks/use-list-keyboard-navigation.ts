@@ -0,0 +1,81 @@
+import * as React from "react"
+import { isDialogOpen, isPlainKey, isTypingTarget } from "@/lib/keyboard-shortcuts"
+
+interface ListKeyboardNavigationOptions<TItem extends { id: string }> {
+  items: TItem[]
+  /** Enter: open the item where the list opens it, usually a dialog */
+  onOpen: (item: TItem) => void
+  /** O: open the item's own page */
+  onOpenPage?: (item: TItem) => void
+  /** X: toggle the item's selection, for lists with bulk actions */
+  onToggleSelect?: (item: TItem) => void
+  enabled?: boolean
+}
+
+/**
+ * J/K to move through a list, Enter/O to open, X to select, Esc to let go. Keys are matched by
+ * `event.code`, so they work the same on a Persian keyboard layout. Rows are found by their
+ * `data-ticket-row` attribute to keep the active one scrolled into view.
+ */
+export function useListKeyboardNavigation<TItem extends { id: string }>(
+  options: ListKeyboardNavigationOptions<TItem>
+) {
+  const [activeId, setActiveId] = React.useState<string | null>(null)
+  const optionsRef = React.useRef(options)
+  optionsRef.current = options
+  const activeIdRef = React.useRef(activeId)
+  activeIdRef.current = activeId
+  const enabled = options.enabled ?? true
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isPlainKey(event) || isTypingTarget(event.target) || isDialogOpen()) return
+      const { items, onOpen, onOpenPage, onToggleSelect } = optionsRef.current
+      const index = items.findIndex((item) => item.id === activeIdRef.current)
+      const active = index === -1 ? null : items[index]
+
+      switch (event.code) {
+        case "KeyJ":
+          if (items.length === 0) return
+          setActiveId(items[Math.min(index + 1, items.length - 1)].id)
+          break
+        case "KeyK":
+          if (items.length === 0) return
+          setActiveId(items[index === -1 ? 0 : Math.max(index - 1, 0)].id)
+          break
+        case "Enter":
+          // A focused button handles Enter itself
+          if (!active || event.target !== document.body) return
+          onOpen(active)
+          break
+        case "KeyO":
+          if (!active || !onOpenPage) return
+          onOpenPage(active)
+          break
+        case "KeyX":
+          if (!active || !onToggleSelect) return
+          onToggleSelect(active)
+          break
+        case "Escape":
+          if (!active) return
+          setActiveId(null)
+          break
+        default:
+          return
+      }
+      event.preventDefault()
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [enabled])
+
+  React.useEffect(() => {
+    if (!activeId) return
+    document.querySelector(`[data-ticket-row="${CSS.escape(activeId)}"]`)?.scrollIntoView({ block: "nearest" })
+  }, [activeId])
+
+  return { activeId, setActiveId }
+}
@@ -0,0 +1,45 @@
+import * as React from "react"
+
+import { useAuth } from "@/lib/auth-context"
+import { SLA_POLICY_EVENT, getSlaPolicy } from "@/lib/sla-policy-api"
+import { createDefaultSlaPolicy, evaluateTicketSla, type SlaPolicy } from "@/lib/sla"
+import type { Ticket } from "@/types"
+
+const TICK_MS = 60000
+
+/**
+ * Current SLA policy plus a clock that ticks once a minute, so countdown badges stay live.
+ */
+export function useSla() {
+  const { token } = useAuth()
+  const [policy, setPolicy] = React.useState<SlaPolicy>(() => createDefaultSlaPolicy())
+  const [now, setNow] = React.useState(() => new Date())
+
+  React.useEffect(() => {
+    let active = true
+    getSlaPolicy(token)
+      .then((loaded) => {
+        if (active) setPolicy(loaded)
+      })
+      .catch((error) => console.warn("[sla] Failed to load SLA policy, using defaults", error))
+
+    const handlePolicyChanged = (event: Event) => {
+      setPolicy((event as CustomEvent<SlaPolicy>).detail)
+    }
+    window.addEventListener(SLA_POLICY_EVENT, handlePolicyChanged)
+
+    return () => {
+      active = false
+      window.removeEventListener(SLA_POLICY_EVENT, handlePolicyChanged)
+    }
+  }, [token])
+
+  React.useEffect(() => {
+    const intervalId = setInterval(() => setNow(new Date()), TICK_MS)
+    return () => clearInterval(intervalId)
+  }, [])
+
+  const evaluate = React.useCallback((ticket: Ticket) => evaluateTicketSla(ticket, policy, now), [policy, now])
+
+  return { policy, now, evaluate }
+}
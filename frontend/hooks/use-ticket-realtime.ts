@@ -0,0 +1,39 @@
+import * as React from "react"
+
+import type { ApiTicketRealtimeEvent } from "@/lib/api-types"
+import { connectTicketRealtime, type RealtimeStatus, type RealtimeTransport } from "@/lib/realtime-client"
+
+/**
+ * Keeps a realtime ticket subscription open while a token is available.
+ * `onEvent` may change between renders without reconnecting.
+ */
+export function useTicketRealtime(token: string | null, onEvent: (event: ApiTicketRealtimeEvent) => void) {
+  const [status, setStatus] = React.useState<RealtimeStatus>("closed")
+  const [transport, setTransport] = React.useState<RealtimeTransport | null>(null)
+  const onEventRef = React.useRef(onEvent)
+
+  React.useEffect(() => {
+    onEventRef.current = onEvent
+  }, [onEvent])
+
+  React.useEffect(() => {
+    if (!token) {
+      setStatus("closed")
+      setTransport(null)
+      return
+    }
+
+    const connection = connectTicketRealtime({
+      token,
+      onEvent: (event) => onEventRef.current(event),
+      onStatusChange: (nextStatus, nextTransport) => {
+        setStatus(nextStatus)
+        setTransport(nextTransport)
+      },
+    })
+
+    return () => connection.close()
+  }, [token])
+
+  return { status, transport }
+}
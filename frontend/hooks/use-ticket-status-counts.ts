@@ -0,0 +1,36 @@
+import * as React from "react"
+
+import { useAuth } from "@/lib/auth-context"
+import { countTicketsByStatus, DEFAULT_TICKET_QUERY, type TicketQuery } from "@/lib/tickets-api"
+import type { TicketStatus } from "@/types"
+
+type StatusCountFilters = Omit<TicketQuery, "page" | "pageSize" | "status">
+
+/**
+ * Ticket counts per status across every page of a list. `refreshKey` should change whenever the
+ * list itself reloads, so the counts follow updates made through it.
+ */
+export function useTicketStatusCounts(
+  filters: StatusCountFilters,
+  endpoint: "/api/tickets" | "/api/technician/tickets",
+  refreshKey?: unknown
+) {
+  const { token } = useAuth()
+  const [counts, setCounts] = React.useState<Record<TicketStatus, number> | null>(null)
+  const filtersKey = JSON.stringify(filters)
+
+  React.useEffect(() => {
+    if (!token) return
+    let active = true
+    countTicketsByStatus(token, { ...DEFAULT_TICKET_QUERY, ...(JSON.parse(filtersKey) as StatusCountFilters) }, endpoint)
+      .then((loaded) => {
+        if (active) setCounts(loaded)
+      })
+      .catch((error) => console.warn("[tickets] Failed to count tickets by status", error))
+    return () => {
+      active = false
+    }
+  }, [token, filtersKey, endpoint, refreshKey])
+
+  return counts
+}
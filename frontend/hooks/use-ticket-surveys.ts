@@ -0,0 +1,38 @@
+import * as React from "react"
+
+import { useAuth } from "@/lib/auth-context"
+import type { ApiTicketSurveyResponse } from "@/lib/api-types"
+import { getSurveyResponses } from "@/lib/csat-api"
+
+/**
+ * Satisfaction surveys visible to the current user, plus a way to add one that was just submitted.
+ */
+export function useTicketSurveys() {
+  const { token } = useAuth()
+  const [surveys, setSurveys] = React.useState<ApiTicketSurveyResponse[]>([])
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    if (!token) return
+    let active = true
+    getSurveyResponses(token)
+      .then((loaded) => {
+        if (active) setSurveys(loaded)
+      })
+      .catch((error) => console.warn("[csat] Failed to load survey responses", error))
+      .finally(() => {
+        if (active) setLoading(false)
+      })
+    return () => {
+      active = false
+    }
+  }, [token])
+
+  const addSurvey = React.useCallback((survey: ApiTicketSurveyResponse) => {
+    setSurveys((prev) => [...prev.filter((item) => item.ticketId !== survey.ticketId), survey])
+  }, [])
+
+  const surveyedTicketIds = React.useMemo(() => new Set(surveys.map((survey) => survey.ticketId)), [surveys])
+
+  return { surveys, loading, surveyedTicketIds, addSurvey }
+}
@@ -0,0 +1,34 @@
+import * as React from "react"
+
+import { useAuth } from "@/lib/auth-context"
+import { DEFAULT_WORKFLOW_SETTINGS, type WorkflowSettings } from "@/lib/ticket-workflow"
+import { WORKFLOW_SETTINGS_EVENT, getWorkflowSettings } from "@/lib/workflow-settings-api"
+
+/**
+ * Current workflow settings, kept in sync when an admin saves new ones.
+ */
+export function useWorkflowSettings(): WorkflowSettings {
+  const { token } = useAuth()
+  const [settings, setSettings] = React.useState<WorkflowSettings>(DEFAULT_WORKFLOW_SETTINGS)
+
+  React.useEffect(() => {
+    let active = true
+    getWorkflowSettings(token)
+      .then((loaded) => {
+        if (active) setSettings(loaded)
+      })
+      .catch((error) => console.warn("[workflow] Failed to load workflow settings, using defaults", error))
+
+    const handleSettingsChanged = (event: Event) => {
+      setSettings((event as CustomEvent<WorkflowSettings>).detail)
+    }
+    window.addEventListener(WORKFLOW_SETTINGS_EVENT, handleSettingsChanged)
+
+    return () => {
+      active = false
+      window.removeEventListener(WORKFLOW_SETTINGS_EVENT, handleSettingsChanged)
+    }
+  }, [token])
+
+  return settings
+}
@@ -0,0 +1,74 @@
+import * as React from "react"
+
+const TIMER_STORAGE_KEY = "ticketing-worklog-timer"
+const TIMER_EVENT = "worklog-timer-changed"
+
+export interface RunningWorklogTimer {
+  ticketId: string
+  startedAt: string
+}
+
+function loadTimer(): RunningWorklogTimer | null {
+  try {
+    const stored = localStorage.getItem(TIMER_STORAGE_KEY)
+    return stored ? (JSON.parse(stored) as RunningWorklogTimer) : null
+  } catch (error) {
+    console.warn("[worklog] Failed to parse running timer from localStorage:", error)
+    return null
+  }
+}
+
+function saveTimer(timer: RunningWorklogTimer | null) {
+  try {
+    if (timer) {
+      localStorage.setItem(TIMER_STORAGE_KEY, JSON.stringify(timer))
+    } else {
+      localStorage.removeItem(TIMER_STORAGE_KEY)
+    }
+  } catch (error) {
+    console.warn("[worklog] Failed to save running timer to localStorage:", error)
+  }
+  window.dispatchEvent(new CustomEvent(TIMER_EVENT, { detail: timer }))
+}
+
+/**
+ * The technician's running timer. Only one ticket is timed at a time; the timer survives
+ * reloads and stays in sync between the dashboard and the ticket detail page.
+ */
+export function useWorklogTimer() {
+  const [timer, setTimer] = React.useState<RunningWorklogTimer | null>(null)
+  const [now, setNow] = React.useState(() => Date.now())
+
+  React.useEffect(() => {
+    setTimer(loadTimer())
+    const handleTimerChanged = (event: Event) => {
+      setTimer((event as CustomEvent<RunningWorklogTimer | null>).detail)
+    }
+    window.addEventListener(TIMER_EVENT, handleTimerChanged)
+    return () => window.removeEventListener(TIMER_EVENT, handleTimerChanged)
+  }, [])
+
+  React.useEffect(() => {
+    if (!timer) return
+    setNow(Date.now())
+    const interval = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(interval)
+  }, [timer])
+
+  const start = React.useCallback((ticketId: string) => {
+    saveTimer({ ticketId, startedAt: new Date().toISOString() })
+  }, [])
+
+  /** Stops the timer and returns what it measured, or null when nothing was running */
+  const stop = React.useCallback(() => {
+    const running = loadTimer()
+    saveTimer(null)
+    if (!running) return null
+    const elapsedMs = Date.now() - new Date(running.startedAt).getTime()
+    return { ...running, minutes: Math.max(1, Math.round(elapsedMs / 60000)) }
+  }, [])
+
+  const elapsedSeconds = timer ? Math.max(0, Math.floor((now - new Date(timer.startedAt).getTime()) / 1000)) : 0
+
+  return { timer, elapsedSeconds, start, stop }
+}
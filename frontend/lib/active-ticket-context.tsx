@@ -0,0 +1,47 @@
+"use client"
+
+import type React from "react"
+import { createContext, useContext, useEffect, useRef, useState } from "react"
+import type { Ticket } from "@/types"
+
+export interface ActiveTicket {
+  ticket: Ticket
+  /** Focus the reply box of the view the ticket is open in */
+  onReply?: () => void
+}
+
+interface ActiveTicketContextType {
+  activeTicket: ActiveTicket | null
+  setActiveTicket: React.Dispatch<React.SetStateAction<ActiveTicket | null>>
+}
+
+const ActiveTicketContext = createContext<ActiveTicketContextType | undefined>(undefined)
+
+/**
+ * The ticket the user has open in a dashboard dialog, so the command palette and the keyboard
+ * shortcuts can act on it without knowing which dashboard opened it.
+ */
+export function ActiveTicketProvider({ children }: { children: React.ReactNode }) {
+  const [activeTicket, setActiveTicket] = useState<ActiveTicket | null>(null)
+  return <ActiveTicketContext.Provider value={{ activeTicket, setActiveTicket }}>{children}</ActiveTicketContext.Provider>
+}
+
+export function useActiveTicket(): ActiveTicket | null {
+  return useContext(ActiveTicketContext)?.activeTicket ?? null
+}
+
+/**
+ * Announce the ticket open in this view; pass null once it closes. Outside an
+ * ActiveTicketProvider this does nothing.
+ */
+export function useRegisterActiveTicket(ticket: Ticket | null, onReply?: () => void) {
+  const setActiveTicket = useContext(ActiveTicketContext)?.setActiveTicket
+  const onReplyRef = useRef(onReply)
+  onReplyRef.current = onReply
+
+  useEffect(() => {
+    if (!setActiveTicket || !ticket) return
+    setActiveTicket({ ticket, onReply: onReplyRef.current ? () => onReplyRef.current?.() : undefined })
+    return () => setActiveTicket((current) => (current?.ticket.id === ticket.id ? null : current))
+  }, [ticket, setActiveTicket])
+}
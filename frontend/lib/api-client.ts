@@ -1,7 +1,29 @@
 // lib/api-client.ts
-const API_BASE_URL =
+export const API_BASE_URL =
   process.env.NEXT_PUBLIC_API_BASE_URL?.replace(/\/+$/, "") || "http://localhost:5000";
 
+/**
+ * Resolve an API path (e.g. "/api/tickets") against the configured backend base URL.
+ */
+export function resolveApiUrl(path: string): string {
+  return `${API_BASE_URL}${path.startsWith("/") ? path : `/${path}`}`;
+}
+
+/**
+ * Thrown by apiRequest for non-2xx responses; `status` and the parsed `body` come from the response.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(message: string, status: number, body: unknown = null) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
 interface ApiRequestOptions {
   method?: string;
   token?: string | null;
@@ -15,7 +37,7 @@ export async function apiRequest<TResponse>(
 ): Promise<TResponse> {
   const { method = "GET", token, body, silent = false } = options;
 
-  const url = `${API_BASE_URL}${path.startsWith("/") ? path : `/${path}`}`;
+  const url = resolveApiUrl(path);
 
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
@@ -95,10 +117,7 @@ export async function apiRequest<TResponse>(
         message: errorMessage,
       });
     }
-    const error = new Error(errorMessage);
-    (error as any).status = res.status;
-    (error as any).body = errorBody;
-    throw error;
+    throw new ApiError(errorMessage, res.status, errorBody);
   }
 
   if (res.status === 204) {
@@ -46,12 +46,41 @@ export interface ApiTicketResponse {
   createdByPhoneNumber?: string | null
   createdByDepartment?: string | null
   assignedToUserId?: string | null
+  /** Technician.Id of the assignee, as assign-technician expects; null when unassigned */
+  technicianId?: string | null
   assignedToName?: string | null
   assignedToEmail?: string | null
   assignedToPhoneNumber?: string | null
   createdAt: string
   updatedAt?: string | null
   dueDate?: string | null
+  /** First reply by support staff that the client could see */
+  firstResponseAt?: string | null
+  /** When the ticket was resolved or closed; null while it is open */
+  resolvedAt?: string | null
+  attachments?: ApiAttachmentResponse[] | null
+  /** How often the client has reopened the ticket after resolution */
+  reopenCount?: number
+  lastReopenedAt?: string | null
+  /** Set when the ticket was closed as a duplicate of another one */
+  mergedIntoTicketId?: string | null
+  /** Number of tickets linked as children of this one */
+  childTicketCount?: number
+}
+
+/** One entry of GET /api/tickets/status-counts */
+export interface ApiTicketStatusCount {
+  status: ApiTicketStatus
+  count: number
+}
+
+export interface ApiTicketCreateRequest {
+  title: string
+  description: string
+  categoryId: number
+  subcategoryId?: number
+  priority: ApiTicketPriority
+  attachmentIds?: string[]
 }
 
 export interface ApiTicketMessageDto {
@@ -62,6 +91,206 @@ export interface ApiTicketMessageDto {
   message: string
   createdAt: string
   status?: ApiTicketStatus | null
+  /** Staff-only note; the backend never returns these to the ticket's client */
+  isInternal?: boolean
+}
+
+export interface ApiTicketReopenRequest {
+  reason: string
+}
+
+/**
+ * Stored direction of a ticket link: the source is the parent of, is related to, or blocks
+ * the target
+ */
+export type ApiTicketLinkType = "parent" | "related" | "blocks"
+
+export interface ApiTicketLinkDto {
+  id: string
+  type: ApiTicketLinkType
+  sourceTicketId: string
+  sourceTitle?: string | null
+  sourceStatus: ApiTicketStatus
+  targetTicketId: string
+  targetTitle?: string | null
+  targetStatus: ApiTicketStatus
+  createdByName?: string | null
+  createdAt: string
+}
+
+export interface ApiTicketLinkCreateRequest {
+  type: ApiTicketLinkType
+  targetTicketId: string
+}
+
+/** Someone following a ticket besides its requester and assignee */
+export interface ApiTicketWatcherDto {
+  userId: string
+  fullName: string
+  email: string
+  role: ApiUserRole
+  department?: string | null
+  addedByUserId?: string | null
+  addedAt: string
+}
+
+export interface ApiTicketWatcherAddRequest {
+  userId: string
+}
+
+/** Time a technician spent on a ticket */
+export interface ApiWorklogEntryDto {
+  id: string
+  ticketId: string
+  technicianId: string
+  technicianName: string
+  minutes: number
+  note?: string | null
+  billable: boolean
+  /** Set for entries recorded with the timer */
+  startedAt?: string | null
+  loggedAt: string
+  categoryId?: number | null
+  categoryName?: string | null
+  /** Department of the ticket's requester */
+  department?: string | null
+}
+
+export interface ApiWorklogCreateRequest {
+  minutes: number
+  note?: string | null
+  billable: boolean
+  startedAt?: string | null
+}
+
+/** Merge `sourceTicketId` into the ticket addressed by the route */
+export interface ApiTicketMergeRequest {
+  sourceTicketId: string
+}
+
+/** Changes for one ticket of a bulk update; omitted fields are left as they are */
+export interface ApiBulkTicketUpdateItem {
+  ticketId: string
+  status?: ApiTicketStatus
+  priority?: ApiTicketPriority
+  /** Technician.Id to assign the ticket to */
+  technicianId?: string
+  unassignTechnician?: boolean
+  categoryId?: number
+  addWatcherUserId?: string
+  removeWatcherUserId?: string
+}
+
+export interface ApiBulkTicketUpdateRequest {
+  items: ApiBulkTicketUpdateItem[]
+}
+
+export interface ApiBulkTicketUpdateResult {
+  ticketId: string
+  success: boolean
+  /** Why the server refused this ticket, e.g. a workflow rule or a missing permission */
+  error?: string | null
+  ticket?: ApiTicketResponse | null
+}
+
+export interface ApiBulkTicketUpdateResponse {
+  results: ApiBulkTicketUpdateResult[]
+}
+
+export interface ApiTicketMessageCreateRequest {
+  message: string
+  /** Omitted for internal notes, which never change the ticket status */
+  status?: ApiTicketStatus
+  isInternal?: boolean
+}
+
+export type ApiTicketActivityField = "status" | "priority" | "assignment" | "dueDate" | "category"
+
+/**
+ * One audited field change. Status and priority values use the API enums, assignment and
+ * category values are display names and due dates are ISO strings.
+ */
+export interface ApiTicketActivityDto {
+  id: string
+  ticketId: string
+  field: ApiTicketActivityField
+  oldValue: string | null
+  newValue: string | null
+  actorUserId?: string | null
+  actorName: string
+  createdAt: string
+}
+
+/**
+ * Admin-curated reply. `body` may contain placeholders such as {{clientName}}; a reply that
+ * also sets a status or priority works as a one-click macro.
+ */
+export interface ApiCannedResponse {
+  id: string
+  title: string
+  body: string
+  /** Limits the reply to one category (and optionally one subcategory); null = all tickets */
+  categoryId?: number | null
+  subcategoryId?: number | null
+  setStatus?: ApiTicketStatus | null
+  setPriority?: ApiTicketPriority | null
+  updatedAt?: string | null
+}
+
+export type ApiCannedResponseUpsertRequest = Omit<ApiCannedResponse, "id" | "updatedAt">
+
+export type ApiSurveyAnswer = number | boolean | string
+
+/** A client's satisfaction survey for one resolved ticket */
+export interface ApiTicketSurveyResponse {
+  id: string
+  ticketId: string
+  /** Overall satisfaction, 1-5 stars */
+  rating: number
+  comment?: string | null
+  /** Answers to the configured questions, keyed by question id */
+  answers: Record<string, ApiSurveyAnswer>
+  technicianId?: string | null
+  technicianName?: string | null
+  categoryId?: number | null
+  categoryName?: string | null
+  submittedByUserId?: string | null
+  submittedAt: string
+}
+
+export interface ApiTicketSurveySubmitRequest {
+  rating: number
+  comment?: string | null
+  answers: Record<string, ApiSurveyAnswer>
+}
+
+export type ApiTicketRealtimeEventType = "ticket-created" | "ticket-updated" | "message-added" | "ticket-assigned"
+
+/**
+ * Payload pushed by the realtime channel (SSE `data:` line or WebSocket text frame)
+ */
+export interface ApiTicketRealtimeEvent {
+  type: ApiTicketRealtimeEventType
+  ticketId: string
+  /** Current state of the ticket; present for everything except message-added */
+  ticket?: ApiTicketResponse | null
+  /** The new message for message-added */
+  message?: ApiTicketMessageDto | null
+  /** User who caused the event, so clients can skip notifying about their own actions */
+  actorUserId?: string | null
+  occurredAt: string
+}
+
+export interface ApiAttachmentResponse {
+  id: string
+  ticketId?: string | null
+  fileName: string
+  fileUrl: string
+  contentType?: string | null
+  size: number
+  uploadedByUserId?: string | null
+  uploadedByName?: string | null
+  uploadedAt: string
 }
 
 export interface ApiSystemSettingsResponse {
@@ -103,6 +332,55 @@ export interface ApiUserPreferencesResponse {
     smsEnabled: boolean
     desktopEnabled: boolean
   }
+  /** Technician ticket board; missing until the user first changes it */
+  ticketBoard?: ApiTicketBoardPreferences
+  /** Saved ticket view applied when admin ticket management opens without a view in the URL */
+  defaultTicketViewId?: string | null
+}
+
+/** Filters, sort and columns of the admin ticket table, as saved in a named view */
+export interface ApiTicketViewState {
+  search: string
+  /** A UI status, or "all" */
+  status: string
+  /** A UI priority, or "all" */
+  priority: string
+  /** A category key, or "all" */
+  category: string
+  /** A technician id, "unassigned" or "all" */
+  technician: string
+  sla: "all" | "at-risk" | "breached"
+  /** Only tickets created at least this many hours ago */
+  minAgeHours: number | null
+  sortBy: "createdAt" | "updatedAt" | "priority" | "status" | "dueDate" | "title"
+  sortDirection: "asc" | "desc"
+  columns: string[]
+}
+
+export interface ApiSavedTicketViewDto {
+  id: string
+  name: string
+  ownerUserId: string
+  ownerName: string
+  /** Visible to every admin, but only editable by its owner */
+  shared: boolean
+  state: ApiTicketViewState
+  createdAt: string
+  updatedAt?: string | null
+}
+
+export interface ApiSavedTicketViewRequest {
+  name: string
+  shared: boolean
+  state: ApiTicketViewState
+}
+
+export interface ApiTicketBoardPreferences {
+  view: "list" | "board"
+  /** Split the board into one row per priority */
+  swimlanes: boolean
+  /** Maximum tickets per status column; a missing status has no limit */
+  wipLimits: Partial<Record<ApiTicketStatus, number>>
 }
 
 export type ApiUserPreferencesUpdateRequest = ApiUserPreferencesResponse
@@ -115,6 +393,8 @@ export interface ApiTechnicianResponse {
   department?: string | null
   isActive: boolean
   createdAt: string
+  /** Linked User.Id; null when the technician has no account */
+  userId?: string | null
 }
 
 export interface ApiTechnicianCreateRequest {
@@ -137,6 +417,34 @@ export interface ApiTechnicianStatusUpdateRequest {
   isActive: boolean
 }
 
+export interface ApiTechnicianWorkingDay {
+  /** 0 = Sunday ... 6 = Saturday */
+  dayOfWeek: number
+  startHour: number
+  endHour: number
+}
+
+export interface ApiTechnicianProfileResponse {
+  technicianId: string
+  /** Backend category ids the technician is qualified for */
+  specialtyCategoryIds: number[]
+  certifications: string[]
+  languages: string[]
+  workingHours: ApiTechnicianWorkingDay[]
+  /** Maximum number of open/in-progress tickets before the technician counts as busy */
+  maxActiveTickets: number
+  /** Assigned tickets that are open, in progress or waiting for the client */
+  activeTickets?: number | null
+  completedTickets?: number | null
+  averageRating?: number | null
+  averageResponseHours?: number | null
+}
+
+export type ApiTechnicianProfileUpdateRequest = Pick<
+  ApiTechnicianProfileResponse,
+  "specialtyCategoryIds" | "certifications" | "languages" | "workingHours" | "maxActiveTickets"
+>
+
 export interface ApiNotificationPreferencesResponse {
   emailEnabled: boolean
   pushEnabled: boolean
@@ -144,4 +452,13 @@ export interface ApiNotificationPreferencesResponse {
   desktopEnabled: boolean
 }
 
-export type ApiNotificationPreferencesUpdateRequest = ApiNotificationPreferencesResponse
\ No newline at end of file
+export type ApiNotificationPreferencesUpdateRequest = ApiNotificationPreferencesResponse
+
+export interface ApiNotificationResponse {
+  id: string
+  message: string
+  isRead: boolean
+  createdAt: string
+  /** Ticket the notification refers to; null for notifications not about a ticket */
+  ticketId?: string | null
+}
@@ -0,0 +1,152 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+
+import type { TechnicianProfile } from "@/data/technician-profiles"
+import {
+  DEFAULT_ASSIGNMENT_CRITERIA,
+  pickBestTechnician,
+  rankTechnicians,
+  scoreTechnician,
+  type AssignmentCriteria,
+  type AssignmentTicket,
+} from "./assignment-scoring"
+
+const networkTicket: AssignmentTicket = { category: "network", categoryLabel: "شبکه", priority: "medium" }
+
+const technician = (overrides: Partial<TechnicianProfile> = {}): TechnicianProfile => ({
+  id: "tech-1",
+  userId: null,
+  name: "کارشناس",
+  email: "tech@example.com",
+  specialtyCategoryIds: [],
+  specialties: [],
+  certifications: [],
+  languages: [],
+  workingHours: [],
+  maxActiveTickets: 5,
+  activeTickets: 0,
+  status: "available",
+  completedTickets: 0,
+  rating: null,
+  avgResponseTime: null,
+  ...overrides,
+})
+
+/** Weights that count a single criterion, so the total equals that criterion's score */
+const only = (criterion: keyof AssignmentCriteria): AssignmentCriteria => ({
+  expertise: 0,
+  availability: 0,
+  workload: 0,
+  performance: 0,
+  responseTime: 0,
+  priority: 0,
+  experience: 0,
+  customerRating: 0,
+  [criterion]: 1,
+})
+
+describe("scoreTechnician", () => {
+  it("rates expertise only for the ticket's category, with a bonus per certification", () => {
+    const specialist = scoreTechnician(technician({ specialties: ["network"], certifications: ["CCNA", "CCNP"] }), networkTicket)
+    const outsider = scoreTechnician(technician({ specialties: ["hardware"] }), networkTicket)
+
+    assert.equal(specialist.breakdown.expertise, 95)
+    assert.equal(outsider.breakdown.expertise, 0)
+  })
+
+  it("rates availability by status", () => {
+    assert.equal(scoreTechnician(technician({ status: "available" }), networkTicket).breakdown.availability, 100)
+    assert.equal(scoreTechnician(technician({ status: "busy" }), networkTicket).breakdown.availability, 30)
+    assert.equal(scoreTechnician(technician({ status: "offline" }), networkTicket).breakdown.availability, 0)
+  })
+
+  it("rates workload by remaining capacity", () => {
+    assert.equal(scoreTechnician(technician({ activeTickets: 2 }), networkTicket).breakdown.workload, 60)
+    assert.equal(scoreTechnician(technician({ activeTickets: 7 }), networkTicket).breakdown.workload, 0)
+    assert.equal(scoreTechnician(technician({ maxActiveTickets: 0 }), networkTicket).breakdown.workload, 0)
+  })
+
+  it("keeps missing statistics neutral", () => {
+    const { breakdown } = scoreTechnician(technician(), networkTicket)
+
+    assert.equal(breakdown.performance, 50)
+    assert.equal(breakdown.responseTime, 50)
+    assert.equal(breakdown.customerRating, 50)
+  })
+
+  it("scores response time against the four-hour target", () => {
+    assert.equal(scoreTechnician(technician({ avgResponseTime: 1 }), networkTicket).breakdown.responseTime, 75)
+    assert.equal(scoreTechnician(technician({ avgResponseTime: 6 }), networkTicket).breakdown.responseTime, 0)
+  })
+
+  it("weighs the total by the criteria", () => {
+    const profile = technician({ specialties: ["network"], status: "busy" })
+
+    assert.equal(scoreTechnician(profile, networkTicket, only("expertise")).score, 85)
+    assert.equal(scoreTechnician(profile, networkTicket, only("availability")).score, 30)
+    assert.equal(scoreTechnician(profile, networkTicket, { ...only("expertise"), availability: 1 }).score, 57.5)
+  })
+
+  it("scores zero when every weight is zero", () => {
+    const criteria = { ...only("expertise"), expertise: 0 }
+
+    assert.equal(scoreTechnician(technician({ specialties: ["network"] }), networkTicket, criteria).score, 0)
+  })
+
+  it("explains why the technician fits", () => {
+    const { reasons } = scoreTechnician(technician({ specialties: ["network"], certifications: ["CCNA"] }), networkTicket)
+
+    assert.ok(reasons.includes("متخصص شبکه"))
+    assert.ok(reasons.includes("دارای مدرک CCNA"))
+    assert.ok(reasons.includes("در دسترس"))
+  })
+})
+
+describe("rankTechnicians", () => {
+  it("puts the best score first", () => {
+    const generalist = technician({ id: "generalist" })
+    const specialist = technician({ id: "specialist", specialties: ["network"] })
+
+    const ranked = rankTechnicians(networkTicket, [generalist, specialist])
+
+    assert.deepEqual(
+      ranked.map((candidate) => candidate.technician.id),
+      ["specialist", "generalist"]
+    )
+    assert.ok(ranked[0].score > ranked[1].score)
+  })
+
+  it("breaks ties in favour of fewer active tickets", () => {
+    const loaded = technician({ id: "loaded", specialties: ["network"], activeTickets: 4 })
+    const idle = technician({ id: "idle", specialties: ["network"], activeTickets: 1 })
+
+    const ranked = rankTechnicians(networkTicket, [loaded, idle], only("expertise"))
+
+    assert.equal(ranked[0].score, ranked[1].score)
+    assert.deepEqual(
+      ranked.map((candidate) => candidate.technician.id),
+      ["idle", "loaded"]
+    )
+  })
+})
+
+describe("pickBestTechnician", () => {
+  it("only considers available technicians", () => {
+    const offlineSpecialist = technician({ id: "offline", specialties: ["network"], status: "offline" })
+    const busySpecialist = technician({ id: "busy", specialties: ["network"], status: "busy" })
+    const availableGeneralist = technician({ id: "available" })
+
+    const best = pickBestTechnician(networkTicket, [offlineSpecialist, busySpecialist, availableGeneralist], {
+      ...DEFAULT_ASSIGNMENT_CRITERIA,
+      availability: 0,
+    })
+
+    assert.equal(best?.technician.id, "available")
+  })
+
+  it("returns null when nobody can take the ticket", () => {
+    const best = pickBestTechnician(networkTicket, [technician({ status: "busy" }), technician({ status: "offline" })])
+
+    assert.equal(best, null)
+  })
+})
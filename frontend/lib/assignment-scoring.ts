@@ -0,0 +1,216 @@
+/**
+ * Technician scoring shared by every assignment view. The functions are pure and take plain data;
+ * see assignment-scoring.test.ts.
+ */
+import type { TechnicianProfile } from "@/data/technician-profiles"
+import type { Ticket } from "@/types"
+
+/** Relative weight (0-100) of each criterion in the overall assignment score */
+export interface AssignmentCriteria {
+  expertise: number
+  availability: number
+  workload: number
+  performance: number
+  responseTime: number
+  priority: number
+  experience: number
+  customerRating: number
+}
+
+export type AssignmentCriterion = keyof AssignmentCriteria
+
+/** Score (0-100) a technician reached on each criterion */
+export type AssignmentScoreBreakdown = Record<AssignmentCriterion, number>
+
+export type AssignmentTicket = Pick<Ticket, "category" | "priority"> & { categoryLabel?: string }
+
+export interface AssignmentCandidate {
+  technician: TechnicianProfile
+  /** Weighted average of the breakdown, 0-100 */
+  score: number
+  breakdown: AssignmentScoreBreakdown
+  /** Human readable (Persian) explanations of why the technician fits */
+  reasons: string[]
+}
+
+export const DEFAULT_ASSIGNMENT_CRITERIA: AssignmentCriteria = {
+  expertise: 40,
+  availability: 30,
+  workload: 20,
+  performance: 10,
+  responseTime: 10,
+  priority: 25,
+  experience: 5,
+  customerRating: 20,
+}
+
+export const assignmentCriteriaLabels: Record<AssignmentCriterion, string> = {
+  expertise: "تخصص و مهارت",
+  availability: "در دسترس بودن",
+  workload: "بار کاری",
+  performance: "عملکرد",
+  responseTime: "زمان پاسخ",
+  priority: "مدیریت اولویت",
+  experience: "تجربه",
+  customerRating: "رضایت مشتری",
+}
+
+const priorityLabels: Record<string, string> = {
+  urgent: "فوری",
+  high: "بالا",
+  medium: "متوسط",
+  low: "کم",
+}
+
+/** Minimum rating and completed tickets a technician should have for each priority */
+const priorityRequirements: Record<string, { minRating: number; minExperience: number }> = {
+  urgent: { minRating: 4.5, minExperience: 50 },
+  high: { minRating: 4.0, minExperience: 30 },
+  medium: { minRating: 3.5, minExperience: 20 },
+  low: { minRating: 3.0, minExperience: 10 },
+}
+
+// Unrated technicians or missing statistics neither help nor hurt
+const NEUTRAL_SCORE = 50
+const TARGET_RESPONSE_HOURS = 4
+const EXPERIENCED_TICKET_COUNT = 100
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value))
+
+function scoreExpertise(technician: TechnicianProfile, ticket: AssignmentTicket): number {
+  if (!technician.specialties.includes(ticket.category)) return 0
+  return clamp(85 + technician.certifications.length * 5)
+}
+
+function scoreAvailability(technician: TechnicianProfile): number {
+  if (technician.status === "available") return 100
+  if (technician.status === "busy") return 30
+  return 0
+}
+
+function scoreWorkload(technician: TechnicianProfile): number {
+  if (technician.maxActiveTickets <= 0) return 0
+  return clamp((1 - technician.activeTickets / technician.maxActiveTickets) * 100)
+}
+
+/** Share of the technician's tickets that are already resolved */
+function scorePerformance(technician: TechnicianProfile): number {
+  const handled = technician.completedTickets + technician.activeTickets
+  return handled > 0 ? clamp((technician.completedTickets / handled) * 100) : NEUTRAL_SCORE
+}
+
+function scoreResponseTime(technician: TechnicianProfile): number {
+  if (technician.avgResponseTime === null) return NEUTRAL_SCORE
+  return clamp(((TARGET_RESPONSE_HOURS - technician.avgResponseTime) / TARGET_RESPONSE_HOURS) * 100)
+}
+
+function scorePriority(technician: TechnicianProfile, ticket: AssignmentTicket): number {
+  const requirement = priorityRequirements[ticket.priority] ?? priorityRequirements.medium
+  const ratingPart =
+    technician.rating === null ? 0.5 : Math.min(1, technician.rating / requirement.minRating)
+  const experiencePart = Math.min(1, technician.completedTickets / requirement.minExperience)
+  return clamp(ratingPart * 60 + experiencePart * 40)
+}
+
+function scoreExperience(technician: TechnicianProfile): number {
+  return clamp((technician.completedTickets / EXPERIENCED_TICKET_COUNT) * 100)
+}
+
+function scoreCustomerRating(technician: TechnicianProfile): number {
+  return technician.rating === null ? NEUTRAL_SCORE : clamp((technician.rating / 5) * 100)
+}
+
+function explainScore(
+  technician: TechnicianProfile,
+  ticket: AssignmentTicket,
+  breakdown: AssignmentScoreBreakdown
+): string[] {
+  const reasons: string[] = []
+
+  if (breakdown.expertise > 0) {
+    reasons.push(`متخصص ${ticket.categoryLabel || ticket.category}`)
+    if (technician.certifications.length > 0) {
+      reasons.push(`دارای مدرک ${technician.certifications.slice(0, 2).join("، ")}`)
+    }
+  }
+
+  if (technician.status === "available") {
+    reasons.push("در دسترس")
+  } else if (technician.status === "offline") {
+    reasons.push("خارج از ساعت کاری")
+  } else {
+    reasons.push("ظرفیت تکمیل")
+  }
+
+  if (breakdown.workload >= 70) reasons.push("بار کاری کم")
+  if (breakdown.responseTime >= 80 && technician.avgResponseTime !== null) reasons.push("پاسخ‌دهی سریع")
+  if (breakdown.customerRating >= 90 && technician.rating !== null) reasons.push("رضایت بالای مشتری")
+  if (breakdown.experience >= 50) reasons.push("تجربه بالا")
+  if (breakdown.priority >= 80) {
+    reasons.push(`مناسب برای اولویت ${priorityLabels[ticket.priority] ?? ticket.priority}`)
+  }
+
+  return reasons
+}
+
+/**
+ * Score one technician for a ticket. Each criterion is rated 0-100 and the total is the
+ * average weighted by `criteria`.
+ */
+export function scoreTechnician(
+  technician: TechnicianProfile,
+  ticket: AssignmentTicket,
+  criteria: AssignmentCriteria = DEFAULT_ASSIGNMENT_CRITERIA
+): AssignmentCandidate {
+  const breakdown: AssignmentScoreBreakdown = {
+    expertise: scoreExpertise(technician, ticket),
+    availability: scoreAvailability(technician),
+    workload: scoreWorkload(technician),
+    performance: scorePerformance(technician),
+    responseTime: scoreResponseTime(technician),
+    priority: scorePriority(technician, ticket),
+    experience: scoreExperience(technician),
+    customerRating: scoreCustomerRating(technician),
+  }
+
+  let weighted = 0
+  let totalWeight = 0
+  for (const criterion of Object.keys(breakdown) as AssignmentCriterion[]) {
+    const weight = Math.max(0, criteria[criterion] ?? 0)
+    weighted += breakdown[criterion] * weight
+    totalWeight += weight
+  }
+
+  return {
+    technician,
+    score: totalWeight > 0 ? Math.round((weighted / totalWeight) * 10) / 10 : 0,
+    breakdown,
+    reasons: explainScore(technician, ticket, breakdown),
+  }
+}
+
+/**
+ * All technicians ranked for a ticket, best first. Ties go to the technician with fewer active tickets.
+ */
+export function rankTechnicians(
+  ticket: AssignmentTicket,
+  technicians: TechnicianProfile[],
+  criteria: AssignmentCriteria = DEFAULT_ASSIGNMENT_CRITERIA
+): AssignmentCandidate[] {
+  return technicians
+    .map((technician) => scoreTechnician(technician, ticket, criteria))
+    .sort((a, b) => b.score - a.score || a.technician.activeTickets - b.technician.activeTickets)
+}
+
+/**
+ * Best technician to assign automatically. Only technicians that are available (on shift and
+ * under capacity) are considered; null when nobody can take the ticket.
+ */
+export function pickBestTechnician(
+  ticket: AssignmentTicket,
+  technicians: TechnicianProfile[],
+  criteria: AssignmentCriteria = DEFAULT_ASSIGNMENT_CRITERIA
+): AssignmentCandidate | null {
+  const available = technicians.filter((technician) => technician.status === "available")
+  return rankTechnicians(ticket, available, criteria)[0] ?? null
+}
@@ -0,0 +1,170 @@
+import { ApiError, apiRequest, resolveApiUrl } from "./api-client"
+import type { ApiAttachmentResponse } from "./api-types"
+
+export interface AttachmentUploadOptions {
+  /** Ticket to attach the file to. Omit to upload a pending attachment for a ticket that is not created yet. */
+  ticketId?: string
+  /** Called with an integer percentage (0-100) as the request body is sent */
+  onProgress?: (percent: number) => void
+  /** Aborts the in-flight request when signalled */
+  signal?: AbortSignal
+}
+
+/**
+ * Upload a single file as multipart/form-data.
+ * Backend routes: POST /api/attachments (pending) or POST /api/tickets/{id}/attachments
+ *
+ * fetch() cannot report upload progress, so this uses XMLHttpRequest. Failed responses reject
+ * with an ApiError like apiRequest does; a cancelled upload rejects with an Error whose name
+ * is "AbortError".
+ */
+export function uploadAttachment(
+  token: string | null,
+  file: File,
+  options: AttachmentUploadOptions = {}
+): Promise<ApiAttachmentResponse> {
+  if (!token) {
+    return Promise.reject(new Error("Authentication required"))
+  }
+
+  const { ticketId, onProgress, signal } = options
+  const url = resolveApiUrl(ticketId ? `/api/tickets/${ticketId}/attachments` : "/api/attachments")
+
+  return new Promise<ApiAttachmentResponse>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError())
+      return
+    }
+
+    const xhr = new XMLHttpRequest()
+    const formData = new FormData()
+    formData.append("file", file, file.name)
+
+    const handleAbort = () => xhr.abort()
+    signal?.addEventListener("abort", handleAbort)
+    const cleanup = () => signal?.removeEventListener("abort", handleAbort)
+
+    xhr.open("POST", url)
+    xhr.setRequestHeader("Authorization", `Bearer ${token}`)
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && onProgress) {
+        onProgress(Math.round((event.loaded / event.total) * 100))
+      }
+    }
+
+    xhr.onload = () => {
+      cleanup()
+      let body: unknown = null
+      try {
+        body = xhr.responseText ? JSON.parse(xhr.responseText) : null
+      } catch {
+        body = xhr.responseText
+      }
+
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(100)
+        resolve(body as ApiAttachmentResponse)
+        return
+      }
+
+      const message =
+        body && typeof body === "object" && typeof (body as Record<string, unknown>).message === "string"
+          ? ((body as Record<string, unknown>).message as string)
+          : `Attachment upload failed with status ${xhr.status}`
+      const error = new ApiError(message, xhr.status, body)
+      console.error(`[attachments-api] ERROR POST ${url}:`, { status: xhr.status, body })
+      reject(error)
+    }
+
+    xhr.onerror = () => {
+      cleanup()
+      reject(new Error("Network error while uploading attachment"))
+    }
+
+    xhr.onabort = () => {
+      cleanup()
+      reject(createAbortError())
+    }
+
+    xhr.send(formData)
+  })
+}
+
+/**
+ * Remove an uploaded attachment (e.g. when the user discards it before submitting the ticket)
+ * Backend route: DELETE /api/attachments/{id}
+ */
+export async function deleteAttachment(token: string | null, attachmentId: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<void>(`/api/attachments/${attachmentId}`, {
+    method: "DELETE",
+    token,
+  })
+}
+
+/**
+ * List attachments of a ticket
+ * Backend route: GET /api/tickets/{id}/attachments
+ */
+export async function getTicketAttachments(
+  token: string | null,
+  ticketId: string
+): Promise<ApiAttachmentResponse[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiAttachmentResponse[]>(`/api/tickets/${ticketId}/attachments`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Download a file that requires the bearer token (attachment content, zip bundles).
+ * <img src> and <a href> cannot send the Authorization header, so callers turn the
+ * blob into an object URL instead. An attachment's fileUrl points at GET /api/attachments/{id}/content.
+ */
+export async function fetchAuthorizedBlob(token: string | null, url: string): Promise<Blob> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const res = await fetch(url.startsWith("http") ? url : resolveApiUrl(url), {
+    headers: { Authorization: `Bearer ${token}` },
+  })
+  if (!res.ok) {
+    throw new ApiError(`Download failed with status ${res.status}`, res.status)
+  }
+  return res.blob()
+}
+
+/**
+ * Download all attachments of a ticket as a single zip archive
+ * Backend route: GET /api/tickets/{id}/attachments/zip
+ */
+export async function downloadTicketAttachmentsZip(token: string | null, ticketId: string): Promise<Blob> {
+  return fetchAuthorizedBlob(token, `/api/tickets/${ticketId}/attachments/zip`)
+}
+
+/**
+ * Hand a blob to the browser as a file download
+ */
+export function saveBlobAs(blob: Blob, fileName: string): void {
+  const objectUrl = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = objectUrl
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 1000)
+}
+
+function createAbortError(): Error {
+  const error = new Error("Upload cancelled")
+  error.name = "AbortError"
+  return error
+}
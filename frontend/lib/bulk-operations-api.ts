@@ -0,0 +1,52 @@
+import { apiRequest } from "./api-client"
+import type {
+  ApiBulkTicketUpdateItem,
+  ApiBulkTicketUpdateRequest,
+  ApiBulkTicketUpdateResponse,
+  ApiBulkTicketUpdateResult,
+} from "./api-types"
+import { BULK_BATCH_SIZE, chunk } from "./bulk-operations"
+
+export interface BulkUpdateOptions {
+  /** Called after every batch with the number of tickets handled so far */
+  onProgress?: (done: number, total: number) => void
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error && error.message) || "خطای ناشناخته"
+
+/**
+ * Apply bulk changes in batches, reporting progress after each one. A ticket that fails does not
+ * stop the others; its result carries the reason.
+ * Backend route: POST /api/tickets/bulk
+ */
+export async function runBulkTicketUpdate(
+  token: string | null,
+  items: ApiBulkTicketUpdateItem[],
+  options: BulkUpdateOptions = {}
+): Promise<ApiBulkTicketUpdateResult[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const results: ApiBulkTicketUpdateResult[] = []
+  options.onProgress?.(0, items.length)
+
+  for (const batch of chunk(items, BULK_BATCH_SIZE)) {
+    try {
+      const body: ApiBulkTicketUpdateRequest = { items: batch }
+      const response = await apiRequest<ApiBulkTicketUpdateResponse>("/api/tickets/bulk", {
+        method: "POST",
+        token,
+        body,
+      })
+      results.push(...(response?.results ?? []))
+    } catch (error) {
+      // The whole batch was refused, e.g. a network error; report it against every ticket
+      console.error("Bulk update request failed", error)
+      results.push(...batch.map((item) => ({ ticketId: item.ticketId, success: false, error: errorMessage(error) })))
+    }
+    options.onProgress?.(results.length, items.length)
+  }
+
+  return results
+}
@@ -0,0 +1,182 @@
+import type { ApiBulkTicketUpdateItem, ApiBulkTicketUpdateResult } from "./api-types"
+import { mapUiPriorityToApi, mapUiStatusToApi } from "./ticket-mappers"
+import { getTransitionBlockReason, ticketStatusLabels } from "./ticket-workflow"
+import type { Ticket, TicketPriority, TicketStatus, UserRole } from "@/types"
+
+export type BulkAction = "status" | "priority" | "assign" | "unassign" | "category" | "add-watcher" | "close"
+
+export type BulkActionInput =
+  | { action: "status"; status: TicketStatus }
+  | { action: "priority"; priority: TicketPriority }
+  | { action: "assign"; technicianId: string; technicianName: string }
+  | { action: "unassign" }
+  | { action: "category"; categoryId: number; categoryLabel: string }
+  | { action: "add-watcher"; userId: string; userName: string }
+  | { action: "close" }
+
+/** How long a finished bulk operation can still be undone */
+export const BULK_UNDO_WINDOW_MS = 60_000
+
+/** Tickets sent per POST /api/tickets/bulk request; the server accepts at most 50 */
+export const BULK_BATCH_SIZE = 20
+
+export const bulkPriorityLabels: Record<TicketPriority, string> = {
+  low: "کم",
+  medium: "متوسط",
+  high: "بالا",
+  urgent: "فوری",
+}
+
+export interface BulkPlan {
+  /** Shown in the progress dialog and on the undo button */
+  label: string
+  items: ApiBulkTicketUpdateItem[]
+  /** Previous values of each planned ticket; only those of tickets that succeeded are restored */
+  undoItems: ApiBulkTicketUpdateItem[]
+  /** Tickets refused before sending anything, with the reason */
+  rejected: ApiBulkTicketUpdateResult[]
+  /** Tickets that already had the requested value */
+  skipped: number
+}
+
+type TicketChange = Omit<ApiBulkTicketUpdateItem, "ticketId">
+
+/** The change for one ticket, a reason to refuse it, or null when there is nothing to change */
+type ChangeFor = (ticket: Ticket) => { item: TicketChange; undo: TicketChange } | string | null
+
+function buildPlan(tickets: Ticket[], label: string, changeFor: ChangeFor): BulkPlan {
+  const plan: BulkPlan = { label, items: [], undoItems: [], rejected: [], skipped: 0 }
+  for (const ticket of tickets) {
+    const change = changeFor(ticket)
+    if (change === null) {
+      plan.skipped++
+    } else if (typeof change === "string") {
+      plan.rejected.push({ ticketId: ticket.id, success: false, error: change })
+    } else {
+      plan.items.push({ ticketId: ticket.id, ...change.item })
+      plan.undoItems.push({ ticketId: ticket.id, ...change.undo })
+    }
+  }
+  return plan
+}
+
+const statusChange = (ticket: Ticket, status: TicketStatus, role: UserRole) => {
+  if (ticket.status === status) return null
+  return (
+    getTransitionBlockReason(role, ticket.status, status) ?? {
+      item: { status: mapUiStatusToApi(status) },
+      undo: { status: mapUiStatusToApi(ticket.status) },
+    }
+  )
+}
+
+const UNKNOWN_ASSIGNEE_REASON = "تکنسین فعلی تیکت مشخص نیست و تغییر واگذاری قابل بازگردانی نخواهد بود"
+
+// assign-technician always moves the ticket to in-progress, so undoing a reassignment puts the
+// previous status back as well
+const restoreStatus = (ticket: Ticket): TicketChange =>
+  ticket.status === "in-progress" ? {} : { status: mapUiStatusToApi(ticket.status) }
+
+const assignmentChange = (ticket: Ticket, technicianId: string) => {
+  if (ticket.assignedTechnicianId === technicianId) return null
+  // Undo needs the Technician id; a ticket assigned by user id alone has none
+  if (ticket.assignedTo && !ticket.assignedTechnicianId) return UNKNOWN_ASSIGNEE_REASON
+  return {
+    item: { technicianId, ...(ticket.status === "in-progress" ? {} : { status: mapUiStatusToApi("in-progress") }) },
+    undo: {
+      ...(ticket.assignedTechnicianId ? { technicianId: ticket.assignedTechnicianId } : { unassignTechnician: true }),
+      ...restoreStatus(ticket),
+    },
+  }
+}
+
+export function describeBulkAction(input: BulkActionInput): string {
+  switch (input.action) {
+    case "status":
+      return `تغییر وضعیت به «${ticketStatusLabels[input.status]}»`
+    case "priority":
+      return `تغییر اولویت به «${bulkPriorityLabels[input.priority]}»`
+    case "assign":
+      return `واگذاری به ${input.technicianName}`
+    case "unassign":
+      return "لغو واگذاری"
+    case "category":
+      return `انتقال به دسته‌بندی «${input.categoryLabel}»`
+    case "add-watcher":
+      return `افزودن ${input.userName} به ناظران`
+    case "close":
+      return "بستن تیکت‌ها"
+  }
+}
+
+/**
+ * Work out what a bulk action changes on each ticket and how to put it back. Tickets the
+ * workflow does not allow `role` to move are rejected up front instead of failing on the server.
+ */
+export function createBulkPlan(tickets: Ticket[], input: BulkActionInput, role: UserRole = "admin"): BulkPlan {
+  const label = describeBulkAction(input)
+  switch (input.action) {
+    case "status":
+      return buildPlan(tickets, label, (ticket) => statusChange(ticket, input.status, role))
+    case "close":
+      return buildPlan(tickets, label, (ticket) => statusChange(ticket, "closed", role))
+    case "priority":
+      return buildPlan(tickets, label, (ticket) =>
+        ticket.priority === input.priority
+          ? null
+          : {
+              item: { priority: mapUiPriorityToApi(input.priority) },
+              undo: { priority: mapUiPriorityToApi(ticket.priority) },
+            }
+      )
+    case "assign":
+      return buildPlan(tickets, label, (ticket) => assignmentChange(ticket, input.technicianId))
+    case "unassign":
+      return buildPlan(tickets, label, (ticket) => {
+        if (!ticket.assignedTo) return null
+        if (!ticket.assignedTechnicianId) return UNKNOWN_ASSIGNEE_REASON
+        return { item: { unassignTechnician: true }, undo: { technicianId: ticket.assignedTechnicianId, ...restoreStatus(ticket) } }
+      })
+    case "category":
+      return buildPlan(tickets, label, (ticket) => {
+        if (ticket.categoryId === input.categoryId) return null
+        if (ticket.categoryId === undefined) return "دسته‌بندی فعلی تیکت مشخص نیست و تغییر آن قابل بازگردانی نخواهد بود"
+        return { item: { categoryId: input.categoryId }, undo: { categoryId: ticket.categoryId } }
+      })
+    case "add-watcher":
+      // Watchers are not part of the ticket list, so a user who already watched is removed again on undo
+      return buildPlan(tickets, label, () => ({
+        item: { addWatcherUserId: input.userId },
+        undo: { removeWatcherUserId: input.userId },
+      }))
+  }
+}
+
+/**
+ * Plan for assigning each ticket to its own technician, e.g. the suggestions of auto-assignment
+ */
+export function createAssignmentPlan(
+  assignments: Array<{ ticket: Ticket; technicianId: string }>,
+  label: string
+): BulkPlan {
+  const technicianByTicket = new Map(assignments.map(({ ticket, technicianId }) => [ticket.id, technicianId]))
+  return buildPlan(
+    assignments.map(({ ticket }) => ticket),
+    label,
+    (ticket) => assignmentChange(ticket, technicianByTicket.get(ticket.id) ?? "")
+  )
+}
+
+/** Undo items of the tickets whose change went through */
+export function getUndoItems(plan: BulkPlan, results: ApiBulkTicketUpdateResult[]): ApiBulkTicketUpdateItem[] {
+  const succeeded = new Set(results.filter((result) => result.success).map((result) => result.ticketId))
+  return plan.undoItems.filter((item) => succeeded.has(item.ticketId))
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let index = 0; index < items.length; index += size) {
+    chunks.push(items.slice(index, index + size))
+  }
+  return chunks
+}
@@ -0,0 +1,53 @@
+import { apiRequest } from "./api-client"
+import type { ApiCannedResponse, ApiCannedResponseUpsertRequest } from "./api-types"
+
+/**
+ * Get the canned response library (technicians and admins)
+ * Backend route: GET /api/canned-responses
+ */
+export async function getCannedResponses(token: string | null): Promise<ApiCannedResponse[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const responses = await apiRequest<ApiCannedResponse[]>("/api/canned-responses", {
+    method: "GET",
+    token,
+  })
+  return responses ?? []
+}
+
+/**
+ * Create or update a canned response (Admin only)
+ * Backend route: POST /api/admin/canned-responses or PUT /api/admin/canned-responses/{id}
+ */
+export async function saveCannedResponse(
+  token: string | null,
+  response: ApiCannedResponseUpsertRequest,
+  id?: string
+): Promise<ApiCannedResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  return apiRequest<ApiCannedResponse>(id ? `/api/admin/canned-responses/${id}` : "/api/admin/canned-responses", {
+    method: id ? "PUT" : "POST",
+    token,
+    body: response,
+  })
+}
+
+/**
+ * Delete a canned response (Admin only)
+ * Backend route: DELETE /api/admin/canned-responses/{id}
+ */
+export async function deleteCannedResponse(token: string | null, id: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  await apiRequest<void>(`/api/admin/canned-responses/${id}`, {
+    method: "DELETE",
+    token,
+  })
+}
@@ -0,0 +1,66 @@
+import type { ApiCannedResponse } from "./api-types"
+import type { Ticket } from "@/types"
+
+/** Values substituted into a canned reply for one ticket */
+export interface CannedResponseContext {
+  clientName: string
+  ticketId: string
+  ticketTitle: string
+  technicianName: string
+  categoryLabel: string
+}
+
+export const CANNED_RESPONSE_PLACEHOLDERS: Array<{ key: keyof CannedResponseContext; label: string }> = [
+  { key: "clientName", label: "نام مشتری" },
+  { key: "ticketId", label: "شماره تیکت" },
+  { key: "ticketTitle", label: "عنوان تیکت" },
+  { key: "technicianName", label: "نام تکنسین" },
+  { key: "categoryLabel", label: "دسته‌بندی" },
+]
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
+/** Replace {{placeholders}} with ticket values; unknown placeholders are left untouched */
+export function fillCannedResponse(body: string, context: CannedResponseContext): string {
+  return body.replace(PLACEHOLDER_PATTERN, (match, key: string) =>
+    key in context ? context[key as keyof CannedResponseContext] : match
+  )
+}
+
+export function buildCannedResponseContext(
+  ticket: Pick<Ticket, "id" | "title" | "clientName" | "category" | "categoryLabel">,
+  technicianName: string
+): CannedResponseContext {
+  return {
+    clientName: ticket.clientName,
+    ticketId: ticket.id,
+    ticketTitle: ticket.title,
+    technicianName,
+    categoryLabel: ticket.categoryLabel ?? ticket.category,
+  }
+}
+
+export const isCannedMacro = (response: ApiCannedResponse) => Boolean(response.setStatus || response.setPriority)
+
+/** 2 = matches the subcategory, 1 = matches the category, 0 = general, -1 = not applicable */
+function specificity(response: ApiCannedResponse, ticket: Pick<Ticket, "categoryId" | "subcategoryId">): number {
+  if (response.categoryId == null) return 0
+  if (response.categoryId !== ticket.categoryId) return -1
+  if (response.subcategoryId == null) return 1
+  return response.subcategoryId === ticket.subcategoryId ? 2 : -1
+}
+
+/**
+ * Replies that apply to a ticket, most specific first: its subcategory, then its category,
+ * then general replies
+ */
+export function getCannedResponsesForTicket(
+  responses: ApiCannedResponse[],
+  ticket: Pick<Ticket, "categoryId" | "subcategoryId">
+): ApiCannedResponse[] {
+  return responses
+    .map((response) => ({ response, rank: specificity(response, ticket) }))
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => b.rank - a.rank || a.response.title.localeCompare(b.response.title, "fa"))
+    .map(({ response }) => response)
+}
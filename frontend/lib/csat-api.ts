@@ -0,0 +1,38 @@
+import { apiRequest } from "./api-client"
+import type { ApiTicketSurveyResponse, ApiTicketSurveySubmitRequest } from "./api-types"
+
+/**
+ * Get submitted satisfaction surveys. The backend scopes the list by role: clients get their
+ * own responses, technicians the responses on their tickets and admins all of them.
+ * Backend route: GET /api/surveys
+ */
+export async function getSurveyResponses(token: string | null): Promise<ApiTicketSurveyResponse[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketSurveyResponse[]>("/api/surveys", {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Submit the client's survey for a resolved ticket. The backend checks the answers against the
+ * question set in the workflow settings and records the technician who handled the ticket so the
+ * report can group by it.
+ * Backend route: POST /api/tickets/{id}/survey
+ */
+export async function submitTicketSurvey(
+  token: string | null,
+  ticketId: string,
+  request: ApiTicketSurveySubmitRequest
+): Promise<ApiTicketSurveyResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketSurveyResponse>(`/api/tickets/${ticketId}/survey`, {
+    method: "POST",
+    token,
+    body: request,
+  })
+}
@@ -0,0 +1,101 @@
+import type { ApiSurveyAnswer, ApiTicketSurveyResponse } from "./api-types"
+import type { Ticket } from "@/types"
+
+export type SurveyQuestionType = "rating" | "yes-no" | "text"
+
+/** Extra question an admin adds to the satisfaction survey */
+export interface SurveyQuestion {
+  id: string
+  text: string
+  type: SurveyQuestionType
+  required: boolean
+}
+
+export const surveyQuestionTypeLabels: Record<SurveyQuestionType, string> = {
+  rating: "امتیاز ۱ تا ۵",
+  "yes-no": "بله / خیر",
+  text: "پاسخ متنی",
+}
+
+export const ratingLabels: Record<number, string> = {
+  1: "خیلی ناراضی",
+  2: "ناراضی",
+  3: "معمولی",
+  4: "راضی",
+  5: "خیلی راضی",
+}
+
+export interface CsatSummary {
+  count: number
+  /** Mean star rating, null without responses */
+  average: number | null
+  /** Share (0-100) of responses rated 4 or 5 stars */
+  satisfiedPercent: number | null
+}
+
+export interface CsatGroup {
+  key: string
+  label: string
+  summary: CsatSummary
+}
+
+/** Tickets the client can rate: resolved or closed and not surveyed yet */
+export function isSurveyPending(ticket: Pick<Ticket, "id" | "status">, surveyedTicketIds: Set<string>): boolean {
+  return (ticket.status === "resolved" || ticket.status === "closed") && !surveyedTicketIds.has(ticket.id)
+}
+
+/** Question ids of required questions that have no answer */
+export function getMissingAnswers(questions: SurveyQuestion[], answers: Record<string, ApiSurveyAnswer>): string[] {
+  return questions
+    .filter((question) => question.required)
+    .filter((question) => {
+      const answer = answers[question.id]
+      return answer === undefined || (typeof answer === "string" && answer.trim() === "")
+    })
+    .map((question) => question.id)
+}
+
+export function summarizeSurveys(responses: ApiTicketSurveyResponse[]): CsatSummary {
+  if (responses.length === 0) {
+    return { count: 0, average: null, satisfiedPercent: null }
+  }
+  const total = responses.reduce((sum, response) => sum + response.rating, 0)
+  const satisfied = responses.filter((response) => response.rating >= 4).length
+  return {
+    count: responses.length,
+    average: Math.round((total / responses.length) * 10) / 10,
+    satisfiedPercent: Math.round((satisfied / responses.length) * 100),
+  }
+}
+
+/**
+ * Responses grouped by a key (technician, category, ...), best average first. Responses without
+ * a key are collected under `fallbackLabel`.
+ */
+export function groupSurveys(
+  responses: ApiTicketSurveyResponse[],
+  getKey: (response: ApiTicketSurveyResponse) => { key: string; label: string } | null,
+  fallbackLabel: string
+): CsatGroup[] {
+  const groups = new Map<string, { label: string; items: ApiTicketSurveyResponse[] }>()
+  for (const response of responses) {
+    const { key, label } = getKey(response) ?? { key: "", label: fallbackLabel }
+    const group = groups.get(key) ?? { label, items: [] }
+    group.items.push(response)
+    groups.set(key, group)
+  }
+
+  return Array.from(groups, ([key, group]) => ({ key, label: group.label, summary: summarizeSurveys(group.items) })).sort(
+    (a, b) => (b.summary.average ?? 0) - (a.summary.average ?? 0) || b.summary.count - a.summary.count
+  )
+}
+
+/** Average survey rating per technician id, used to feed `TechnicianProfile.rating` */
+export function getTechnicianRatings(responses: ApiTicketSurveyResponse[]): Map<string, CsatSummary> {
+  const byTechnician = new Map<string, ApiTicketSurveyResponse[]>()
+  for (const response of responses) {
+    if (!response.technicianId) continue
+    byTechnician.set(response.technicianId, [...(byTechnician.get(response.technicianId) ?? []), response])
+  }
+  return new Map(Array.from(byTechnician, ([technicianId, items]) => [technicianId, summarizeSurveys(items)]))
+}
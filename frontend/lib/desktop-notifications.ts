@@ -0,0 +1,143 @@
+import { apiRequest } from "./api-client"
+import type { ApiNotificationPreferencesResponse } from "./api-types"
+
+const SERVICE_WORKER_URL = "/notification-sw.js"
+
+/** VAPID public key for Web Push. Push subscriptions are skipped when it is not configured. */
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY ?? ""
+
+/** Fired on window after the user saves notification preferences, so live listeners pick them up */
+export const NOTIFICATION_PREFERENCES_EVENT = "notification-preferences-changed"
+
+export interface DesktopNotificationPayload {
+  title: string
+  body: string
+  /** Ticket opened when the notification is clicked */
+  ticketId?: string
+  /** Notifications with the same tag replace each other instead of stacking */
+  tag?: string
+}
+
+export function isDesktopNotificationSupported(): boolean {
+  return typeof window !== "undefined" && "Notification" in window
+}
+
+export function getDesktopNotificationPermission(): NotificationPermission | "unsupported" {
+  return isDesktopNotificationSupported() ? Notification.permission : "unsupported"
+}
+
+/**
+ * Ask the browser for notification permission. Must be called from a user gesture
+ * (e.g. the settings toggle); resolves to the resulting permission.
+ */
+export async function requestDesktopNotificationPermission(): Promise<NotificationPermission | "unsupported"> {
+  if (!isDesktopNotificationSupported()) return "unsupported"
+  if (Notification.permission !== "default") return Notification.permission
+  return Notification.requestPermission()
+}
+
+/**
+ * Register (or reuse) the service worker that displays notifications and handles clicks
+ */
+export async function registerNotificationServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return null
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL)
+  } catch (error) {
+    console.warn("[desktop-notifications] Service worker registration failed", error)
+    return null
+  }
+}
+
+/**
+ * Show a desktop notification through the service worker so clicks can focus or open the
+ * ticket even after the tab was closed. Nothing is shown while the tab is visible (the
+ * in-app toast covers that case) or when permission has not been granted.
+ */
+export async function showDesktopNotification(payload: DesktopNotificationPayload): Promise<void> {
+  if (getDesktopNotificationPermission() !== "granted") return
+  if (typeof document !== "undefined" && document.visibilityState === "visible") return
+
+  const options: NotificationOptions = {
+    body: payload.body,
+    tag: payload.tag,
+    dir: "rtl",
+    lang: "fa",
+    data: { url: payload.ticketId ? `/tickets/${payload.ticketId}` : "/" },
+  }
+
+  const registration = await registerNotificationServiceWorker()
+  if (registration) {
+    await registration.showNotification(payload.title, options)
+    return
+  }
+
+  // Browsers without service workers: a page-level notification with its own click handler
+  const notification = new Notification(payload.title, options)
+  notification.onclick = () => {
+    window.focus()
+    if (payload.ticketId) {
+      window.location.href = `/tickets/${payload.ticketId}`
+    }
+    notification.close()
+  }
+}
+
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padding = "=".repeat((4 - (base64.length % 4)) % 4)
+  const raw = atob((base64 + padding).replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0))
+}
+
+/**
+ * Create or remove this browser's Web Push subscription to match the pushEnabled preference.
+ * Backend routes: POST /api/users/me/push-subscriptions, DELETE /api/users/me/push-subscriptions
+ */
+export async function syncPushSubscription(token: string | null, enabled: boolean): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  if (!VAPID_PUBLIC_KEY || typeof window === "undefined" || !("PushManager" in window)) return
+
+  const registration = await registerNotificationServiceWorker()
+  if (!registration) return
+
+  const existing = await registration.pushManager.getSubscription()
+
+  if (!enabled) {
+    if (existing) {
+      await apiRequest<void>("/api/users/me/push-subscriptions", {
+        method: "DELETE",
+        token,
+        body: { endpoint: existing.endpoint },
+        silent: true,
+      }).catch((error) => console.warn("[desktop-notifications] Failed to remove push subscription", error))
+      await existing.unsubscribe()
+    }
+    return
+  }
+
+  if (getDesktopNotificationPermission() !== "granted") return
+
+  const subscription =
+    existing ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY),
+    }))
+
+  await apiRequest<void>("/api/users/me/push-subscriptions", {
+    method: "POST",
+    token,
+    body: subscription.toJSON(),
+    silent: true,
+  })
+}
+
+/**
+ * Let other parts of the app know the user saved new notification preferences
+ */
+export function announceNotificationPreferences(preferences: ApiNotificationPreferencesResponse): void {
+  if (typeof window === "undefined") return
+  window.dispatchEvent(new CustomEvent(NOTIFICATION_PREFERENCES_EVENT, { detail: preferences }))
+}
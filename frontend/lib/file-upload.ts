@@ -1,3 +1,7 @@
+import { ApiError, resolveApiUrl } from "./api-client"
+import { uploadAttachment } from "./attachments-api"
+import type { ApiAttachmentResponse } from "./api-types"
+
 export interface UploadedFile {
   id: string
   name: string
@@ -5,6 +9,7 @@ export interface UploadedFile {
   type: string
   url: string
   uploadedAt: string
+  uploadedByName?: string | null
 }
 
 export const validateFile = (file: File): string | null => {
@@ -32,17 +37,50 @@ export const validateFile = (file: File): string | null => {
   return null
 }
 
-export const uploadFile = async (file: File): Promise<UploadedFile> => {
-  // Simulate file upload
-  await new Promise((resolve) => setTimeout(resolve, 1000))
-
-  return {
-    id: Math.random().toString(36).substr(2, 9),
-    name: file.name,
-    size: file.size,
-    type: file.type,
-    url: URL.createObjectURL(file),
-    uploadedAt: new Date().toISOString(),
+export interface UploadFileOptions {
+  token: string | null
+  ticketId?: string
+  onProgress?: (percent: number) => void
+  signal?: AbortSignal
+  /** Extra attempts after the first failure (network errors and 5xx only) */
+  retries?: number
+}
+
+export const isUploadCancelled = (error: unknown): boolean =>
+  error instanceof Error && error.name === "AbortError"
+
+const isRetryableUploadError = (error: unknown): boolean => {
+  if (isUploadCancelled(error)) return false
+  return !(error instanceof ApiError) || error.status >= 500
+}
+
+export const mapApiAttachmentToUploadedFile = (attachment: ApiAttachmentResponse): UploadedFile => ({
+  id: attachment.id,
+  name: attachment.fileName,
+  size: attachment.size,
+  type: attachment.contentType ?? "application/octet-stream",
+  url: attachment.fileUrl.startsWith("http") ? attachment.fileUrl : resolveApiUrl(attachment.fileUrl),
+  uploadedAt: attachment.uploadedAt,
+  uploadedByName: attachment.uploadedByName ?? null,
+})
+
+export const uploadFile = async (file: File, options: UploadFileOptions): Promise<UploadedFile> => {
+  const { token, ticketId, onProgress, signal, retries = 2 } = options
+
+  let attempt = 0
+  while (true) {
+    try {
+      onProgress?.(0)
+      const attachment = await uploadAttachment(token, file, { ticketId, onProgress, signal })
+      return mapApiAttachmentToUploadedFile(attachment)
+    } catch (error) {
+      if (attempt >= retries || !isRetryableUploadError(error) || signal?.aborted) {
+        throw error
+      }
+      attempt += 1
+      // Back off 1s, 2s, 4s... before retrying a transient failure
+      await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** (attempt - 1)))
+    }
   }
 }
 
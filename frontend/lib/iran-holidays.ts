@@ -0,0 +1,95 @@
+/**
+ * Official public holidays in Iran, used by the SLA engine to skip non-working days.
+ *
+ * Solar Hijri holidays are fixed in the Persian calendar. Lunar holidays follow the
+ * tabular Islamic calendar, which can be a day off from the officially announced dates;
+ * admins can add corrections as extra holiday dates in the SLA settings.
+ */
+
+/** [month, day] in the Solar Hijri (Persian) calendar */
+const SOLAR_HOLIDAYS: Array<[number, number]> = [
+  [1, 1], // Nowruz
+  [1, 2],
+  [1, 3],
+  [1, 4],
+  [1, 12], // Islamic Republic Day
+  [1, 13], // Sizdah Bedar
+  [3, 14], // Demise of Imam Khomeini
+  [3, 15], // 15 Khordad uprising
+  [11, 22], // Victory of the Islamic Revolution
+  [12, 29], // Nationalization of the oil industry
+]
+
+/** [month, day] in the Islamic (lunar) calendar */
+const LUNAR_HOLIDAYS: Array<[number, number]> = [
+  [1, 9], // Tasua
+  [1, 10], // Ashura
+  [2, 20], // Arbaeen
+  [2, 28], // Demise of the Prophet and martyrdom of Imam Hasan
+  [3, 8], // Martyrdom of Imam Hasan Askari
+  [3, 17], // Birth of the Prophet and Imam Sadegh
+  [6, 3], // Martyrdom of Fatimah
+  [7, 13], // Birth of Imam Ali
+  [7, 27], // Mab'ath
+  [8, 15], // Birth of Imam Mahdi
+  [9, 21], // Martyrdom of Imam Ali
+  [10, 1], // Eid al-Fitr
+  [10, 2],
+  [10, 25], // Martyrdom of Imam Sadegh
+  [12, 10], // Eid al-Adha
+  [12, 18], // Eid al-Ghadir
+]
+
+/** Lunar months whose last day is a holiday; Safar has 29 days in the tabular calendar, 30 in others */
+const LUNAR_MONTH_END_HOLIDAYS: number[] = [
+  2, // Martyrdom of Imam Reza, last day of Safar
+]
+
+const persianFormatter = new Intl.DateTimeFormat("en-US-u-ca-persian", { month: "numeric", day: "numeric" })
+const islamicFormatter = new Intl.DateTimeFormat("en-US-u-ca-islamic-civil", { month: "numeric", day: "numeric" })
+
+function getMonthDay(formatter: Intl.DateTimeFormat, date: Date): [number, number] {
+  const parts = formatter.formatToParts(date)
+  const month = Number(parts.find((part) => part.type === "month")?.value)
+  const day = Number(parts.find((part) => part.type === "day")?.value)
+  return [month, day]
+}
+
+const holidayCache = new Map<string, boolean>()
+
+function isLunarMonthEndHoliday(date: Date, [month]: [number, number]): boolean {
+  if (!LUNAR_MONTH_END_HOLIDAYS.includes(month)) return false
+  const nextDay = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)
+  return getMonthDay(islamicFormatter, nextDay)[0] !== month
+}
+
+const matches = (list: Array<[number, number]>, [month, day]: [number, number]) =>
+  list.some(([holidayMonth, holidayDay]) => holidayMonth === month && holidayDay === day)
+
+/** Local calendar date as YYYY-MM-DD */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * Whether the given local date is an Iranian public holiday.
+ * `extraHolidays` are additional YYYY-MM-DD dates (one-off closures, lunar corrections).
+ */
+export function isIranianHoliday(date: Date, extraHolidays: string[] = []): boolean {
+  const key = toDateKey(date)
+  if (extraHolidays.includes(key)) return true
+
+  // Calendar conversion through Intl is comparatively slow and SLA math asks for the same days repeatedly
+  let holiday = holidayCache.get(key)
+  if (holiday === undefined) {
+    const lunarDate = getMonthDay(islamicFormatter, date)
+    holiday =
+      matches(SOLAR_HOLIDAYS, getMonthDay(persianFormatter, date)) ||
+      matches(LUNAR_HOLIDAYS, lunarDate) ||
+      isLunarMonthEndHoliday(date, lunarDate)
+    holidayCache.set(key, holiday)
+  }
+  return holiday
+}
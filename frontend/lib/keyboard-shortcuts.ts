@@ -0,0 +1,54 @@
+export type ShortcutGroup = "general" | "list" | "ticket"
+
+export interface KeyboardShortcut {
+  /** Keys pressed together; alternatives are listed as separate shortcuts */
+  keys: string[]
+  description: string
+  group: ShortcutGroup
+}
+
+export const shortcutGroupLabels: Record<ShortcutGroup, string> = {
+  general: "عمومی",
+  list: "فهرست تیکت‌ها",
+  ticket: "تیکت باز",
+}
+
+/** Every shortcut of the dashboard, in the order the help overlay lists them */
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { keys: ["Ctrl", "K"], description: "باز کردن فرمان‌یاب", group: "general" },
+  { keys: ["?"], description: "نمایش این راهنما", group: "general" },
+  { keys: ["/"], description: "رفتن به کادر جستجو", group: "general" },
+  { keys: ["J"], description: "تیکت بعدی", group: "list" },
+  { keys: ["K"], description: "تیکت قبلی", group: "list" },
+  { keys: ["Enter"], description: "باز کردن تیکت انتخاب‌شده", group: "list" },
+  { keys: ["O"], description: "باز کردن صفحه کامل تیکت انتخاب‌شده", group: "list" },
+  { keys: ["X"], description: "انتخاب یا لغو انتخاب برای عملیات گروهی", group: "list" },
+  { keys: ["Esc"], description: "بستن پنجره یا پاک کردن انتخاب فهرست", group: "list" },
+  { keys: ["R"], description: "نوشتن پاسخ برای تیکت باز", group: "ticket" },
+  { keys: ["Ctrl", "K"], description: "واگذاری به من یا تغییر وضعیت تیکت باز", group: "ticket" },
+]
+
+/** Single-key shortcuts must not fire while the user types */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+}
+
+/** List shortcuts pause while a dialog covers the list */
+export function isDialogOpen(): boolean {
+  return document.querySelector('[role="dialog"][data-state="open"], [role="alertdialog"][data-state="open"]') !== null
+}
+
+/** Whether a key event is a plain key press, without Ctrl, Alt or Meta */
+export function isPlainKey(event: KeyboardEvent): boolean {
+  return !event.ctrlKey && !event.metaKey && !event.altKey
+}
+
+/** Focus the ticket search box of the current view, if it has one */
+export function focusTicketSearch(): boolean {
+  const input = document.querySelector<HTMLInputElement>("[data-ticket-search]")
+  if (!input) return false
+  input.focus()
+  input.select()
+  return true
+}
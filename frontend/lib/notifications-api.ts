@@ -0,0 +1,49 @@
+import { apiRequest } from "./api-client"
+import type { ApiNotificationResponse } from "./api-types"
+
+/**
+ * Get current user's notifications, newest first
+ * Backend route: GET /api/notifications
+ */
+export async function getMyNotifications(token: string | null): Promise<ApiNotificationResponse[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiNotificationResponse[]>("/api/notifications", {
+    method: "GET",
+    token,
+    silent: true,
+  })
+}
+
+/**
+ * Mark a single notification as read
+ * Backend route: PATCH /api/notifications/{id}/read
+ */
+export async function markNotificationAsRead(token: string | null, notificationId: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<void>(`/api/notifications/${notificationId}/read`, {
+    method: "PATCH",
+    token,
+  })
+}
+
+/**
+ * Mark every given notification as read. The backend has no bulk endpoint, so this
+ * issues one PATCH per unread notification and returns the ids that succeeded.
+ */
+export async function markAllNotificationsAsRead(
+  token: string | null,
+  notifications: ApiNotificationResponse[]
+): Promise<string[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const unread = notifications.filter((notification) => !notification.isRead)
+  const results = await Promise.allSettled(
+    unread.map((notification) => markNotificationAsRead(token, notification.id))
+  )
+  return unread.filter((_, index) => results[index].status === "fulfilled").map((notification) => notification.id)
+}
@@ -0,0 +1,65 @@
+const ARABIC_TO_PERSIAN: Record<string, string> = {
+  "ي": "ی",
+  "ى": "ی",
+  "ك": "ک",
+  "ة": "ه",
+  "أ": "ا",
+  "إ": "ا",
+  "آ": "ا",
+  "ؤ": "و",
+}
+
+// Fathe, kasre, tanvin, tashdid, sokun and the tatweel stretch character
+const DIACRITICS = /[\u064B-\u065F\u0670\u0640]/g
+const PERSIAN_DIGITS = "۰۱۲۳۴۵۶۷۸۹"
+const ARABIC_DIGITS = "٠١٢٣٤٥٦٧٨٩"
+
+/**
+ * Fold the spelling variants users type into one form so text can be compared: Arabic yeh/kaf,
+ * diacritics, half-spaces and Persian digits. Latin text is lower-cased.
+ */
+export function normalizePersian(text: string): string {
+  return text
+    .replace(/[يىكةأإآؤ]/g, (char) => ARABIC_TO_PERSIAN[char] ?? char)
+    .replace(DIACRITICS, "")
+    .replace(/[\u06F0-\u06F9]/g, (digit) => String(PERSIAN_DIGITS.indexOf(digit)))
+    .replace(/[\u0660-\u0669]/g, (digit) => String(ARABIC_DIGITS.indexOf(digit)))
+    .replace(/[\u200C\u200E\u200F]/g, " ")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+const STOP_WORDS = new Set([
+  "و",
+  "در",
+  "به",
+  "از",
+  "که",
+  "با",
+  "این",
+  "را",
+  "است",
+  "برای",
+  "می",
+  "شد",
+  "شده",
+  "نمی",
+  "هم",
+  "یک",
+  "ما",
+  "من",
+  "the",
+  "and",
+  "is",
+  "to",
+])
+
+/** Distinct meaningful words of a text after normalization */
+export function tokenizePersian(text: string): Set<string> {
+  return new Set(
+    normalizePersian(text)
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+  )
+}
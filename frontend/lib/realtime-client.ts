@@ -0,0 +1,230 @@
+import { API_BASE_URL } from "./api-client"
+import type { ApiTicketRealtimeEvent } from "./api-types"
+
+/**
+ * Base URL of the realtime channel. Defaults to the API server; point it at the
+ * stand-in server (`npm run realtime:mock`) to exercise the UI without the backend.
+ */
+export const REALTIME_BASE_URL =
+  process.env.NEXT_PUBLIC_REALTIME_BASE_URL?.replace(/\/+$/, "") || API_BASE_URL
+
+const SSE_PATH = "/api/realtime/tickets"
+const WEBSOCKET_PATH = "/api/realtime/tickets/ws"
+
+const INITIAL_RECONNECT_DELAY_MS = 1000
+const MAX_RECONNECT_DELAY_MS = 30000
+
+export type RealtimeTransport = "sse" | "websocket"
+export type RealtimeStatus = "connecting" | "open" | "reconnecting" | "closed"
+
+export interface RealtimeConnectionOptions {
+  token: string
+  onEvent: (event: ApiTicketRealtimeEvent) => void
+  onStatusChange?: (status: RealtimeStatus, transport: RealtimeTransport | null) => void
+  /** Transport to try first. Defaults to SSE; WebSocket is used when SSE is unavailable or keeps failing. */
+  preferredTransport?: RealtimeTransport
+}
+
+export interface RealtimeConnection {
+  close: () => void
+}
+
+/**
+ * Delay before the given reconnect attempt: exponential backoff capped at 30s, with up to
+ * 20% jitter so many clients do not reconnect in lockstep after a server restart.
+ */
+export function getReconnectDelay(attempt: number): number {
+  const base = Math.min(INITIAL_RECONNECT_DELAY_MS * 2 ** attempt, MAX_RECONNECT_DELAY_MS)
+  return Math.round(base * (0.8 + Math.random() * 0.2))
+}
+
+/**
+ * Build the channel URL. EventSource and the browser WebSocket cannot send an
+ * Authorization header, so the bearer token travels as a query parameter.
+ */
+export function buildRealtimeUrl(transport: RealtimeTransport, token: string): string {
+  const query = `access_token=${encodeURIComponent(token)}`
+  if (transport === "sse") {
+    return `${REALTIME_BASE_URL}${SSE_PATH}?${query}`
+  }
+  return `${REALTIME_BASE_URL.replace(/^http/, "ws")}${WEBSOCKET_PATH}?${query}`
+}
+
+/**
+ * HTTP status of the SSE endpoint, or null when the server cannot be reached. EventSource and
+ * WebSocket hide the status of a failed handshake, so it is asked for separately.
+ */
+async function probeRealtimeStatus(token: string): Promise<number | null> {
+  const controller = new AbortController()
+  try {
+    const response = await fetch(`${REALTIME_BASE_URL}${SSE_PATH}`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal: controller.signal,
+    })
+    return response.status
+  } catch {
+    return null
+  } finally {
+    // Only the status matters; do not keep the event stream open
+    controller.abort()
+  }
+}
+
+function parseEvent(raw: unknown): ApiTicketRealtimeEvent | null {
+  if (typeof raw !== "string") return null
+  try {
+    const parsed = JSON.parse(raw) as ApiTicketRealtimeEvent
+    return parsed && typeof parsed.type === "string" && typeof parsed.ticketId === "string" ? parsed : null
+  } catch {
+    console.warn("[realtime] Ignoring malformed event", raw)
+    return null
+  }
+}
+
+/**
+ * Open a realtime subscription for ticket events.
+ *
+ * Connects over Server-Sent Events and falls back to WebSocket when EventSource is not
+ * available or the SSE endpoint fails before ever opening. Dropped connections are
+ * retried with exponential backoff until close() is called, unless the server answers 404:
+ * then it has no realtime channel and the connection stays closed.
+ */
+export function connectTicketRealtime(options: RealtimeConnectionOptions): RealtimeConnection {
+  const { token, onEvent, onStatusChange } = options
+  const sseSupported = typeof window !== "undefined" && "EventSource" in window
+  const websocketSupported = typeof window !== "undefined" && "WebSocket" in window
+
+  let transport: RealtimeTransport | null =
+    options.preferredTransport === "websocket" || !sseSupported
+      ? websocketSupported
+        ? "websocket"
+        : null
+      : "sse"
+  let attempt = 0
+  let closed = false
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  let eventSource: EventSource | null = null
+  let socket: WebSocket | null = null
+
+  const setStatus = (status: RealtimeStatus) => onStatusChange?.(status, transport)
+
+  const handleMessage = (data: unknown) => {
+    const event = parseEvent(data)
+    if (event) {
+      onEvent(event)
+    }
+  }
+
+  const teardown = () => {
+    if (eventSource) {
+      eventSource.onopen = null
+      eventSource.onmessage = null
+      eventSource.onerror = null
+      eventSource.close()
+      eventSource = null
+    }
+    if (socket) {
+      socket.onopen = null
+      socket.onmessage = null
+      socket.onclose = null
+      socket.onerror = null
+      socket.close()
+      socket = null
+    }
+  }
+
+  const retry = () => {
+    const delay = getReconnectDelay(attempt)
+    attempt += 1
+    setStatus("reconnecting")
+    reconnectTimer = setTimeout(connect, delay)
+  }
+
+  const scheduleReconnect = (openedBeforeFailure: boolean) => {
+    teardown()
+    if (closed) return
+
+    if (openedBeforeFailure) {
+      retry()
+      return
+    }
+
+    void probeRealtimeStatus(token).then((status) => {
+      if (closed) return
+      if (status === 404) {
+        console.info("[realtime] The server has no realtime channel; not reconnecting")
+        setStatus("closed")
+        return
+      }
+
+      // SSE that never opened is most likely blocked by a proxy: switch transport
+      if (transport === "sse" && websocketSupported) {
+        transport = "websocket"
+      }
+      retry()
+    })
+  }
+
+  const connectSse = () => {
+    let opened = false
+    eventSource = new EventSource(buildRealtimeUrl("sse", token))
+    eventSource.onopen = () => {
+      opened = true
+      attempt = 0
+      setStatus("open")
+    }
+    eventSource.onmessage = (message) => handleMessage(message.data)
+    eventSource.onerror = () => {
+      // EventSource retries on its own, but without backoff and without ever giving up on SSE
+      scheduleReconnect(opened)
+    }
+  }
+
+  const connectWebSocket = () => {
+    let opened = false
+    socket = new WebSocket(buildRealtimeUrl("websocket", token))
+    socket.onopen = () => {
+      opened = true
+      attempt = 0
+      setStatus("open")
+    }
+    socket.onmessage = (message) => handleMessage(message.data)
+    socket.onclose = () => scheduleReconnect(opened)
+  }
+
+  function connect() {
+    reconnectTimer = null
+    if (closed) return
+    if (!transport) {
+      console.warn("[realtime] Neither EventSource nor WebSocket is available")
+      setStatus("closed")
+      return
+    }
+
+    setStatus(attempt === 0 ? "connecting" : "reconnecting")
+    try {
+      if (transport === "sse") {
+        connectSse()
+      } else {
+        connectWebSocket()
+      }
+    } catch (error) {
+      console.error("[realtime] Failed to open connection", error)
+      scheduleReconnect(false)
+    }
+  }
+
+  connect()
+
+  return {
+    close: () => {
+      closed = true
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer)
+        reconnectTimer = null
+      }
+      teardown()
+      setStatus("closed")
+    },
+  }
+}
@@ -0,0 +1,68 @@
+import { apiRequest } from "./api-client"
+import type { ApiSavedTicketViewDto, ApiSavedTicketViewRequest } from "./api-types"
+
+/**
+ * The current user's saved ticket views plus the views other admins shared
+ * Backend route: GET /api/ticket-views
+ */
+export async function getSavedTicketViews(token: string | null): Promise<ApiSavedTicketViewDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const views = await apiRequest<ApiSavedTicketViewDto[]>("/api/ticket-views", {
+    method: "GET",
+    token,
+  })
+  return views ?? []
+}
+
+/**
+ * Save the current filters as a named view
+ * Backend route: POST /api/ticket-views
+ */
+export async function createSavedTicketView(
+  token: string | null,
+  request: ApiSavedTicketViewRequest
+): Promise<ApiSavedTicketViewDto> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiSavedTicketViewDto>("/api/ticket-views", {
+    method: "POST",
+    token,
+    body: request,
+  })
+}
+
+/**
+ * Rename, re-share or overwrite one of the user's own views
+ * Backend route: PUT /api/ticket-views/{id}
+ */
+export async function updateSavedTicketView(
+  token: string | null,
+  viewId: string,
+  request: ApiSavedTicketViewRequest
+): Promise<ApiSavedTicketViewDto> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiSavedTicketViewDto>(`/api/ticket-views/${viewId}`, {
+    method: "PUT",
+    token,
+    body: request,
+  })
+}
+
+/**
+ * Delete one of the user's own views
+ * Backend route: DELETE /api/ticket-views/{id}
+ */
+export async function deleteSavedTicketView(token: string | null, viewId: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  await apiRequest<void>(`/api/ticket-views/${viewId}`, {
+    method: "DELETE",
+    token,
+  })
+}
@@ -0,0 +1,120 @@
+import type { ApiTicketViewState } from "./api-types"
+import type { SortDirection, TicketSortField } from "./tickets-api"
+
+export type TicketViewState = ApiTicketViewState
+
+export type TicketColumnId =
+  | "id"
+  | "title"
+  | "status"
+  | "priority"
+  | "sla"
+  | "category"
+  | "requester"
+  | "technician"
+  | "createdAt"
+
+export const TICKET_COLUMNS: TicketColumnId[] = [
+  "id",
+  "title",
+  "status",
+  "priority",
+  "sla",
+  "category",
+  "requester",
+  "technician",
+  "createdAt",
+]
+
+export const ticketColumnLabels: Record<TicketColumnId, string> = {
+  id: "شماره تیکت",
+  title: "عنوان",
+  status: "وضعیت",
+  priority: "اولویت",
+  sla: "SLA",
+  category: "دسته‌بندی",
+  requester: "درخواست‌کننده",
+  technician: "تکنسین",
+  createdAt: "تاریخ ایجاد",
+}
+
+export const ticketSortLabels: Record<TicketSortField, string> = {
+  createdAt: "تاریخ ایجاد",
+  updatedAt: "آخرین به‌روزرسانی",
+  priority: "اولویت",
+  status: "وضعیت",
+  dueDate: "موعد",
+  title: "عنوان",
+}
+
+/** Options of the "waiting at least" filter, in hours */
+export const TICKET_AGE_OPTIONS = [1, 2, 4, 8, 24, 72]
+
+export const DEFAULT_TICKET_VIEW_STATE: TicketViewState = {
+  search: "",
+  status: "all",
+  priority: "all",
+  category: "all",
+  technician: "all",
+  sla: "all",
+  minAgeHours: null,
+  sortBy: "createdAt",
+  sortDirection: "desc",
+  columns: TICKET_COLUMNS,
+}
+
+const FILTER_PARAMS = ["search", "status", "priority", "category", "technician", "sla"] as const
+const SORT_FIELDS: TicketSortField[] = ["createdAt", "updatedAt", "priority", "status", "dueDate", "title"]
+const SLA_FILTERS: TicketViewState["sla"][] = ["all", "at-risk", "breached"]
+
+/**
+ * Query-string form of a view. Only values that differ from the defaults are written, so the
+ * default view keeps a clean URL.
+ */
+export function viewStateToSearchParams(state: TicketViewState): URLSearchParams {
+  const params = new URLSearchParams()
+  for (const key of FILTER_PARAMS) {
+    if (state[key] !== DEFAULT_TICKET_VIEW_STATE[key]) params.set(key, state[key])
+  }
+  if (state.minAgeHours) params.set("minAge", String(state.minAgeHours))
+  if (state.sortBy !== DEFAULT_TICKET_VIEW_STATE.sortBy) params.set("sort", state.sortBy)
+  if (state.sortDirection !== DEFAULT_TICKET_VIEW_STATE.sortDirection) params.set("dir", state.sortDirection)
+  if (state.columns.join(",") !== DEFAULT_TICKET_VIEW_STATE.columns.join(",")) {
+    params.set("cols", state.columns.join(","))
+  }
+  return params
+}
+
+/** The view described by a query string, or null when it carries no view parameters */
+export function viewStateFromSearchParams(params: URLSearchParams): TicketViewState | null {
+  const known = [...FILTER_PARAMS, "minAge", "sort", "dir", "cols"]
+  if (!known.some((key) => params.has(key))) return null
+
+  const state: TicketViewState = { ...DEFAULT_TICKET_VIEW_STATE }
+  for (const key of FILTER_PARAMS) {
+    const value = params.get(key)
+    if (value === null) continue
+    if (key === "sla") {
+      state.sla = SLA_FILTERS.includes(value as TicketViewState["sla"]) ? (value as TicketViewState["sla"]) : "all"
+    } else {
+      state[key] = value
+    }
+  }
+
+  const minAge = Number(params.get("minAge"))
+  state.minAgeHours = Number.isFinite(minAge) && minAge > 0 ? minAge : null
+
+  const sortBy = params.get("sort") as TicketSortField | null
+  if (sortBy && SORT_FIELDS.includes(sortBy)) state.sortBy = sortBy
+  const direction = params.get("dir") as SortDirection | null
+  if (direction === "asc" || direction === "desc") state.sortDirection = direction
+
+  const columns = params.get("cols")?.split(",").filter((column) => TICKET_COLUMNS.includes(column as TicketColumnId))
+  if (columns?.length) state.columns = columns
+
+  return state
+}
+
+export function isSameViewState(a: TicketViewState, b: TicketViewState): boolean {
+  return viewStateToSearchParams(a).toString() === viewStateToSearchParams(b).toString()
+}
@@ -0,0 +1,66 @@
+import { apiRequest } from "./api-client"
+import { createDefaultSlaPolicy, type SlaPolicy } from "./sla"
+
+/** Fired on window after the policy is saved so open dashboards re-evaluate their badges */
+export const SLA_POLICY_EVENT = "sla-policy-changed"
+
+/** GET/PUT /api/settings/sla */
+interface SlaPolicyResponse {
+  /** null until an admin saves a policy */
+  policy?: Partial<SlaPolicy> | null
+  /** Seeds the default policy while none is saved */
+  responseSlaHours: number
+}
+
+let pendingLoad: Promise<SlaPolicy> | null = null
+
+const toPolicy = (response: SlaPolicyResponse): SlaPolicy => ({
+  ...createDefaultSlaPolicy(response.responseSlaHours),
+  ...(response.policy ?? {}),
+})
+
+async function fetchSlaPolicy(token: string | null): Promise<SlaPolicy> {
+  if (!token) {
+    return createDefaultSlaPolicy()
+  }
+  const response = await apiRequest<SlaPolicyResponse>("/api/settings/sla", {
+    method: "GET",
+    token,
+  })
+  return toPolicy(response)
+}
+
+/**
+ * Get the SLA policy. Concurrent callers (every dashboard list) share one request.
+ * Backend route: GET /api/settings/sla
+ */
+export function getSlaPolicy(token: string | null): Promise<SlaPolicy> {
+  if (!pendingLoad) {
+    pendingLoad = fetchSlaPolicy(token).finally(() => {
+      pendingLoad = null
+    })
+  }
+  return pendingLoad
+}
+
+/**
+ * Save the SLA policy for everyone (Admin only)
+ * Backend route: PUT /api/settings/sla
+ */
+export async function updateSlaPolicy(token: string | null, policy: SlaPolicy): Promise<SlaPolicy> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await apiRequest<SlaPolicyResponse>("/api/settings/sla", {
+    method: "PUT",
+    token,
+    body: policy,
+  })
+  const saved = toPolicy(response)
+
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(SLA_POLICY_EVENT, { detail: saved }))
+  }
+  return saved
+}
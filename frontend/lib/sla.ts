@@ -0,0 +1,225 @@
+import type { Ticket, TicketPriority } from "@/types"
+import { isIranianHoliday } from "./iran-holidays"
+
+export interface SlaTargets {
+  /** Business hours until the first response by support staff */
+  responseHours: number
+  /** Business hours until the ticket is resolved */
+  resolutionHours: number
+}
+
+export interface BusinessDayHours {
+  /** Local hour the working day starts, e.g. 8 or 8.5 */
+  startHour: number
+  endHour: number
+}
+
+export interface SlaPolicy {
+  priorities: Record<TicketPriority, SlaTargets>
+  /** Per-category overrides keyed by category slug. The stricter of category and priority target wins. */
+  categories: Record<string, Partial<SlaTargets>>
+  /** Working hours per weekday (0 = Sunday ... 6 = Saturday); null means closed */
+  businessHours: Record<number, BusinessDayHours | null>
+  observeHolidays: boolean
+  /** Additional closed dates as YYYY-MM-DD */
+  extraHolidays: string[]
+  /** A running target is "at risk" once less than this fraction of it remains */
+  atRiskThreshold: number
+}
+
+export type SlaState = "met" | "on-track" | "at-risk" | "breached"
+
+export interface SlaTargetStatus {
+  kind: "response" | "resolution"
+  dueAt: Date
+  state: SlaState
+  /** Business time left until dueAt; negative wall-clock time past dueAt once breached */
+  remainingMs: number
+  completedAt: Date | null
+}
+
+export interface TicketSla {
+  response: SlaTargetStatus
+  resolution: SlaTargetStatus
+  /** The target that currently matters: response until it is met, resolution afterwards */
+  current: SlaTargetStatus
+  /** Worst state across both targets */
+  state: SlaState
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const MAX_SCAN_DAYS = 366
+
+const stateRank: Record<SlaState, number> = {
+  met: 0,
+  "on-track": 1,
+  "at-risk": 2,
+  breached: 3,
+}
+
+/**
+ * Default policy for the Iranian work week (Saturday to Wednesday 8:00-16:00, Thursday
+ * 8:00-12:00, Friday closed). `responseSlaHours` from the system settings is the medium
+ * priority response target; the other priorities scale from it.
+ */
+export function createDefaultSlaPolicy(responseSlaHours = 4): SlaPolicy {
+  const base = Math.max(responseSlaHours, 0.5)
+  const workday: BusinessDayHours = { startHour: 8, endHour: 16 }
+
+  return {
+    priorities: {
+      urgent: { responseHours: Math.max(base / 4, 0.5), resolutionHours: 8 },
+      high: { responseHours: base / 2, resolutionHours: 16 },
+      medium: { responseHours: base, resolutionHours: 40 },
+      low: { responseHours: base * 2, resolutionHours: 80 },
+    },
+    categories: {},
+    businessHours: {
+      0: workday,
+      1: workday,
+      2: workday,
+      3: workday,
+      4: { startHour: 8, endHour: 12 },
+      5: null,
+      6: workday,
+    },
+    observeHolidays: true,
+    extraHolidays: [],
+    atRiskThreshold: 0.25,
+  }
+}
+
+/** Working window of a calendar day, or null if the day is closed */
+function getBusinessWindow(day: Date, policy: SlaPolicy): [number, number] | null {
+  const hours = policy.businessHours[day.getDay()]
+  if (!hours || hours.endHour <= hours.startHour) return null
+  if (policy.observeHolidays && isIranianHoliday(day, policy.extraHolidays)) return null
+
+  const start = new Date(day)
+  start.setHours(0, 0, 0, 0)
+  const midnight = start.getTime()
+  return [midnight + hours.startHour * HOUR_MS, midnight + hours.endHour * HOUR_MS]
+}
+
+/**
+ * Add business hours to a start time, skipping closed days, holidays and out-of-hours time
+ */
+export function addBusinessHours(start: Date, hours: number, policy: SlaPolicy): Date {
+  let remaining = hours * HOUR_MS
+  const cursor = new Date(start)
+
+  for (let scanned = 0; scanned < MAX_SCAN_DAYS; scanned++) {
+    const window = getBusinessWindow(cursor, policy)
+    if (window) {
+      const from = Math.max(window[0], cursor.getTime())
+      const available = window[1] - from
+      if (available >= remaining) {
+        return new Date(from + remaining)
+      }
+      if (available > 0) {
+        remaining -= available
+      }
+    }
+    cursor.setDate(cursor.getDate() + 1)
+    cursor.setHours(0, 0, 0, 0)
+  }
+
+  // No working time configured at all: fall back to wall-clock time
+  return new Date(start.getTime() + hours * HOUR_MS)
+}
+
+/**
+ * Business time between two instants (0 if `to` is not after `from`)
+ */
+export function businessMillisBetween(from: Date, to: Date, policy: SlaPolicy): number {
+  if (to <= from) return 0
+
+  let total = 0
+  const cursor = new Date(from)
+  for (let scanned = 0; scanned < MAX_SCAN_DAYS && cursor < to; scanned++) {
+    const window = getBusinessWindow(cursor, policy)
+    if (window) {
+      const start = Math.max(window[0], cursor.getTime())
+      const end = Math.min(window[1], to.getTime())
+      if (end > start) total += end - start
+    }
+    cursor.setDate(cursor.getDate() + 1)
+    cursor.setHours(0, 0, 0, 0)
+  }
+  return total
+}
+
+/** Effective targets for a ticket: priority target, tightened by a category override */
+export function getSlaTargets(ticket: Pick<Ticket, "priority" | "category">, policy: SlaPolicy): SlaTargets {
+  const byPriority = policy.priorities[ticket.priority] ?? policy.priorities.medium
+  const byCategory = policy.categories[ticket.category] ?? {}
+  return {
+    responseHours: Math.min(byPriority.responseHours, byCategory.responseHours ?? Infinity),
+    resolutionHours: Math.min(byPriority.resolutionHours, byCategory.resolutionHours ?? Infinity),
+  }
+}
+
+function evaluateTarget(
+  kind: SlaTargetStatus["kind"],
+  start: Date,
+  dueAt: Date,
+  completedAt: Date | null,
+  policy: SlaPolicy,
+  now: Date,
+): SlaTargetStatus {
+  if (completedAt) {
+    return {
+      kind,
+      dueAt,
+      completedAt,
+      state: completedAt <= dueAt ? "met" : "breached",
+      remainingMs: completedAt <= dueAt ? businessMillisBetween(completedAt, dueAt, policy) : dueAt.getTime() - completedAt.getTime(),
+    }
+  }
+
+  if (now >= dueAt) {
+    return { kind, dueAt, completedAt, state: "breached", remainingMs: dueAt.getTime() - now.getTime() }
+  }
+
+  const remainingMs = businessMillisBetween(now, dueAt, policy)
+  const totalMs = businessMillisBetween(start, dueAt, policy)
+  const atRisk = totalMs > 0 && remainingMs / totalMs < policy.atRiskThreshold
+  return { kind, dueAt, completedAt, state: atRisk ? "at-risk" : "on-track", remainingMs }
+}
+
+/**
+ * First-response and resolution SLA of a ticket at `now`
+ */
+export function evaluateTicketSla(ticket: Ticket, policy: SlaPolicy, now: Date = new Date()): TicketSla {
+  const createdAt = new Date(ticket.createdAt)
+  const targets = getSlaTargets(ticket, policy)
+
+  const responseDue = addBusinessHours(createdAt, targets.responseHours, policy)
+  const resolutionDue = ticket.dueDate ? new Date(ticket.dueDate) : addBusinessHours(createdAt, targets.resolutionHours, policy)
+
+  // Both are stamped by the server, so later edits of the ticket do not move them
+  const firstResponseAt = ticket.firstResponseAt ? new Date(ticket.firstResponseAt) : null
+  const resolvedAt = ticket.resolvedAt ? new Date(ticket.resolvedAt) : null
+
+  const response = evaluateTarget("response", createdAt, responseDue, firstResponseAt ?? resolvedAt, policy, now)
+  const resolution = evaluateTarget("resolution", createdAt, resolutionDue, resolvedAt, policy, now)
+
+  return {
+    response,
+    resolution,
+    current: response.completedAt ? resolution : response,
+    state: stateRank[response.state] >= stateRank[resolution.state] ? response.state : resolution.state,
+  }
+}
+
+/** Compact Persian duration, e.g. "۲ ساعت ۱۵ دقیقه" */
+export function formatSlaDuration(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(Math.abs(ms) / 60000))
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  const format = (value: number) => value.toLocaleString("fa-IR")
+
+  if (hours === 0) return `${format(minutes)} دقیقه`
+  if (minutes === 0) return `${format(hours)} ساعت`
+  return `${format(hours)} ساعت ${format(minutes)} دقیقه`
+}
@@ -4,6 +4,9 @@ import type {
   ApiTechnicianCreateRequest,
   ApiTechnicianUpdateRequest,
   ApiTechnicianStatusUpdateRequest,
+  ApiTechnicianProfileResponse,
+  ApiTechnicianProfileUpdateRequest,
+  ApiTicketResponse,
 } from "./api-types"
 
 /**
@@ -126,3 +129,49 @@ export async function assignTechnicianToTicket(
   })
 }
 
+/**
+ * Remove the technician from a ticket, leaving its status as it is (Admin only)
+ * Backend route: DELETE /api/tickets/{id}/assign-technician
+ */
+export async function unassignTechnicianFromTicket(token: string | null, ticketId: string): Promise<ApiTicketResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketResponse>(`/api/tickets/${ticketId}/assign-technician`, {
+    method: "DELETE",
+    token,
+  })
+}
+
+/**
+ * Get the skill/capacity profiles of all technicians, with their ticket statistics (Admin only)
+ * Backend route: GET /api/admin/technicians/profiles
+ */
+export async function getTechnicianProfiles(token: string | null): Promise<ApiTechnicianProfileResponse[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTechnicianProfileResponse[]>("/api/admin/technicians/profiles", {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Update a technician's specialties, certifications, languages, working hours and capacity (Admin only)
+ * Backend route: PUT /api/admin/technicians/{id}/profile
+ */
+export async function updateTechnicianProfile(
+  token: string | null,
+  technicianId: string,
+  profile: ApiTechnicianProfileUpdateRequest
+): Promise<ApiTechnicianProfileResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTechnicianProfileResponse>(`/api/admin/technicians/${technicianId}/profile`, {
+    method: "PUT",
+    token,
+    body: profile,
+  })
+}
@@ -0,0 +1,18 @@
+import { apiRequest } from "./api-client"
+import type { ApiTicketActivityDto } from "./api-types"
+
+/**
+ * Field change history of a ticket, recorded by the backend on every change
+ * Backend route: GET /api/tickets/{id}/activity
+ */
+export async function getTicketActivity(token: string | null, ticketId: string): Promise<ApiTicketActivityDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const activity = await apiRequest<ApiTicketActivityDto[]>(`/api/tickets/${ticketId}/activity`, {
+    method: "GET",
+    token,
+  })
+  return activity ?? []
+}
@@ -0,0 +1,80 @@
+import type {
+  ApiTicketActivityDto,
+  ApiTicketActivityField,
+  ApiTicketPriority,
+  ApiTicketStatus,
+} from "./api-types"
+import { mapApiPriorityToUi, mapApiStatusToUi } from "./ticket-mappers"
+import { ticketStatusLabels } from "./ticket-workflow"
+import type { TicketPriority, TicketResponse } from "@/types"
+
+export type TicketTimelineEntry =
+  | { kind: "message"; id: string; timestamp: string; response: TicketResponse }
+  | { kind: "change"; id: string; timestamp: string; activity: ApiTicketActivityDto }
+
+export const activityFieldLabels: Record<ApiTicketActivityField, string> = {
+  status: "وضعیت",
+  priority: "اولویت",
+  assignment: "تکنسین",
+  dueDate: "موعد انجام",
+  category: "دسته‌بندی",
+}
+
+const priorityLabels: Record<TicketPriority, string> = {
+  low: "کم",
+  medium: "متوسط",
+  high: "بالا",
+  urgent: "فوری",
+}
+
+export function formatActivityValue(field: ApiTicketActivityField, value: string | null): string {
+  if (!value) {
+    return field === "assignment" ? "تعیین نشده" : "—"
+  }
+
+  switch (field) {
+    case "status":
+      return ticketStatusLabels[mapApiStatusToUi(value as ApiTicketStatus)]
+    case "priority":
+      return priorityLabels[mapApiPriorityToUi(value as ApiTicketPriority)]
+    case "dueDate": {
+      const date = new Date(value)
+      return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString("fa-IR")
+    }
+    default:
+      return value
+  }
+}
+
+/** Persian sentence describing a field change, e.g. "علی وضعیت را از «باز» به «حل شده» تغییر داد" */
+export function describeActivity(activity: ApiTicketActivityDto): string {
+  const from = formatActivityValue(activity.field, activity.oldValue)
+  const to = formatActivityValue(activity.field, activity.newValue)
+  return `${activity.actorName} ${activityFieldLabels[activity.field]} را از «${from}» به «${to}» تغییر داد`
+}
+
+/**
+ * Messages and field changes merged into one chronological list, oldest first. A change
+ * recorded at the same moment as a message is listed after it.
+ */
+export function buildTicketTimeline(
+  responses: TicketResponse[],
+  activity: ApiTicketActivityDto[]
+): TicketTimelineEntry[] {
+  const entries: TicketTimelineEntry[] = [
+    ...responses.map((response, index) => ({
+      kind: "message" as const,
+      id: response.id ?? `message-${index}`,
+      timestamp: response.timestamp,
+      response,
+    })),
+    ...activity.map((change) => ({
+      kind: "change" as const,
+      id: change.id,
+      timestamp: change.createdAt,
+      activity: change,
+    })),
+  ]
+
+  return entries.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+}
@@ -0,0 +1,32 @@
+import type { ApiTicketBoardPreferences } from "./api-types"
+import { mapUiStatusToApi } from "./ticket-mappers"
+import type { TicketPriority, TicketStatus } from "@/types"
+
+export const DEFAULT_TICKET_BOARD_PREFERENCES: ApiTicketBoardPreferences = {
+  view: "list",
+  swimlanes: false,
+  wipLimits: {},
+}
+
+/** Swimlane order, most urgent on top */
+export const BOARD_SWIMLANES: TicketPriority[] = ["urgent", "high", "medium", "low"]
+
+export function getWipLimit(preferences: ApiTicketBoardPreferences, status: TicketStatus): number | null {
+  const limit = preferences.wipLimits[mapUiStatusToApi(status)]
+  return typeof limit === "number" && limit > 0 ? limit : null
+}
+
+/** Preferences with the limit of `status` replaced; null or 0 removes the limit */
+export function withWipLimit(
+  preferences: ApiTicketBoardPreferences,
+  status: TicketStatus,
+  limit: number | null
+): ApiTicketBoardPreferences {
+  const wipLimits = { ...preferences.wipLimits }
+  if (limit && limit > 0) {
+    wipLimits[mapUiStatusToApi(status)] = limit
+  } else {
+    delete wipLimits[mapUiStatusToApi(status)]
+  }
+  return { ...preferences, wipLimits }
+}
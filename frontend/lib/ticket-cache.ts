@@ -0,0 +1,275 @@
+import type { ApiTicketMessageDto, ApiTicketResponse } from "./api-types"
+import {
+  getTicket,
+  getTicketMessages,
+  queryTickets,
+  type TicketPage,
+  type TicketQuery,
+} from "./tickets-api"
+
+export type TicketListEndpoint = "/api/tickets" | "/api/technician/tickets"
+
+/** How long a fetched list page or message thread is served without revalidating */
+export const TICKET_CACHE_STALE_MS = 30_000
+
+interface CacheEntry<TData> {
+  data: TData
+  fetchedAt: number
+  /** Set by invalidation: the entry is still served, but the next read refetches it */
+  invalidated: boolean
+}
+
+export interface CachedValue<TData> {
+  data: TData
+  isStale: boolean
+}
+
+export interface LoadOptions {
+  /** Refetch even if the cached entry is still fresh */
+  force?: boolean
+  /** Called when a background revalidation fails (the cached value stays in place) */
+  onError?: (error: unknown) => void
+}
+
+type Listener = () => void
+
+/**
+ * Client-side cache for ticket lists (keyed by endpoint + query) and message threads.
+ *
+ * Reads are stale-while-revalidate: a cached value is returned immediately and refetched
+ * in the background once it is older than TICKET_CACHE_STALE_MS or has been invalidated.
+ * Identical requests that are already in flight share a single promise. Subscribers are
+ * notified after every change so React can re-render via useSyncExternalStore.
+ */
+class TicketCache {
+  private lists = new Map<string, CacheEntry<TicketPage<ApiTicketResponse>>>()
+  private threads = new Map<string, CacheEntry<ApiTicketMessageDto[]>>()
+  private threadSnapshot: Record<string, ApiTicketMessageDto[]> = {}
+  private inFlight = new Map<string, Promise<unknown>>()
+  private listeners = new Set<Listener>()
+  private version = 0
+  /** Bumped by clear() so responses to requests issued before it are discarded */
+  private generation = 0
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /** Monotonic counter bumped on every change */
+  getVersion = () => this.version
+
+  /** Cached threads by ticket id. The object is replaced whenever a thread changes. */
+  getThreadsSnapshot = () => this.threadSnapshot
+
+  /** Keyed on the whole query: filters the server ignores still change the page */
+  listKey(endpoint: TicketListEndpoint, query: TicketQuery): string {
+    return `${endpoint}?${JSON.stringify(query, Object.keys(query).sort())}`
+  }
+
+  peekList(endpoint: TicketListEndpoint, query: TicketQuery): CachedValue<TicketPage<ApiTicketResponse>> | null {
+    const entry = this.lists.get(this.listKey(endpoint, query))
+    return entry ? { data: entry.data, isStale: this.isStale(entry) } : null
+  }
+
+  peekMessages(ticketId: string): CachedValue<ApiTicketMessageDto[]> | null {
+    const entry = this.threads.get(ticketId)
+    return entry ? { data: entry.data, isStale: this.isStale(entry) } : null
+  }
+
+  /**
+   * Read a list page. Resolves with the cached page when there is one (revalidating in the
+   * background if stale), otherwise waits for the network.
+   */
+  async loadList(
+    token: string,
+    endpoint: TicketListEndpoint,
+    query: TicketQuery,
+    options: LoadOptions = {}
+  ): Promise<TicketPage<ApiTicketResponse>> {
+    const key = this.listKey(endpoint, query)
+    const fetchPage = () =>
+      this.dedupe(key, async () => {
+        const generation = this.generation
+        const page = await queryTickets(token, query, endpoint)
+        if (generation === this.generation) {
+          this.lists.set(key, { data: page, fetchedAt: Date.now(), invalidated: false })
+          this.notify()
+        }
+        return page
+      })
+
+    return this.readThrough(this.lists.get(key), fetchPage, options)
+  }
+
+  /**
+   * Read the message thread of a ticket with the same stale-while-revalidate rules as loadList
+   */
+  async loadMessages(token: string, ticketId: string, options: LoadOptions = {}): Promise<ApiTicketMessageDto[]> {
+    const fetchThread = () =>
+      this.dedupe(`messages:${ticketId}`, async () => {
+        const generation = this.generation
+        const messages = await getTicketMessages(token, ticketId)
+        if (generation === this.generation) {
+          this.setThread(ticketId, { data: messages, fetchedAt: Date.now(), invalidated: false })
+        }
+        return messages
+      })
+
+    return this.readThrough(this.threads.get(ticketId), fetchThread, options)
+  }
+
+  /**
+   * Refetch a single ticket (and its thread, if one is cached) and write it into every
+   * cached list page that contains it. Other tickets and pages are left untouched.
+   */
+  async revalidateTicket(token: string, ticketId: string): Promise<ApiTicketResponse> {
+    const thread = this.threads.get(ticketId)
+    if (thread) {
+      thread.invalidated = true
+    }
+
+    const generation = this.generation
+    const [ticket] = await Promise.all([
+      this.dedupe(`ticket:${ticketId}`, () => getTicket(token, ticketId)),
+      thread ? this.loadMessages(token, ticketId, { force: true }) : Promise.resolve(null),
+    ])
+    if (generation === this.generation) {
+      this.setTicket(ticket)
+    }
+    return ticket
+  }
+
+  /** Replace a ticket in every cached list page that contains it */
+  setTicket(ticket: ApiTicketResponse): void {
+    let changed = false
+    for (const entry of this.lists.values()) {
+      const index = entry.data.items.findIndex((item) => item.id === ticket.id)
+      if (index === -1) continue
+      const items = [...entry.data.items]
+      items[index] = ticket
+      entry.data = { ...entry.data, items }
+      changed = true
+    }
+    if (changed) {
+      this.notify()
+    }
+  }
+
+  /**
+   * Optimistically apply a patch to a ticket in every cached list page.
+   * Returns a rollback function that restores the previous values.
+   */
+  patchTicket(ticketId: string, patch: Partial<ApiTicketResponse>): () => void {
+    const previous = new Map<CacheEntry<TicketPage<ApiTicketResponse>>, ApiTicketResponse>()
+
+    for (const entry of this.lists.values()) {
+      const index = entry.data.items.findIndex((item) => item.id === ticketId)
+      if (index === -1) continue
+      previous.set(entry, entry.data.items[index])
+      const items = [...entry.data.items]
+      items[index] = { ...items[index], ...patch }
+      entry.data = { ...entry.data, items }
+    }
+
+    if (previous.size > 0) {
+      this.notify()
+    }
+
+    return () => {
+      for (const [entry, original] of previous) {
+        entry.data = {
+          ...entry.data,
+          items: entry.data.items.map((item) => (item.id === ticketId ? original : item)),
+        }
+      }
+      if (previous.size > 0) {
+        this.notify()
+      }
+    }
+  }
+
+  /**
+   * Append a message to a cached thread without a refetch. The same message can arrive both
+   * from the POST response and from the realtime channel, so known ids are ignored.
+   */
+  appendMessage(ticketId: string, message: ApiTicketMessageDto): void {
+    const entry = this.threads.get(ticketId)
+    if (!entry || entry.data.some((existing) => existing.id === message.id)) return
+    this.setThread(ticketId, { ...entry, data: [...entry.data, message] })
+  }
+
+  /**
+   * Mark every cached list page as stale. Used when a change can move tickets between pages
+   * (e.g. a new ticket), so there is no single entry to patch.
+   */
+  invalidateLists(): void {
+    for (const entry of this.lists.values()) {
+      entry.invalidated = true
+    }
+    this.notify()
+  }
+
+  /** Drop everything, e.g. when the user signs out */
+  clear(): void {
+    this.generation += 1
+    this.lists.clear()
+    this.threads.clear()
+    this.threadSnapshot = {}
+    this.inFlight.clear()
+    this.notify()
+  }
+
+  private setThread(ticketId: string, entry: CacheEntry<ApiTicketMessageDto[]>): void {
+    this.threads.set(ticketId, entry)
+    this.threadSnapshot = { ...this.threadSnapshot, [ticketId]: entry.data }
+    this.notify()
+  }
+
+  private isStale(entry: CacheEntry<unknown>): boolean {
+    return entry.invalidated || Date.now() - entry.fetchedAt > TICKET_CACHE_STALE_MS
+  }
+
+  private async readThrough<TData>(
+    entry: CacheEntry<TData> | undefined,
+    fetcher: () => Promise<TData>,
+    options: LoadOptions
+  ): Promise<TData> {
+    if (!entry || options.force) {
+      return fetcher()
+    }
+
+    if (this.isStale(entry)) {
+      fetcher().catch((error) => {
+        console.warn("[ticket-cache] Background revalidation failed", error)
+        options.onError?.(error)
+      })
+    }
+    return entry.data
+  }
+
+  private dedupe<TData>(key: string, fetcher: () => Promise<TData>): Promise<TData> {
+    const existing = this.inFlight.get(key)
+    if (existing) {
+      return existing as Promise<TData>
+    }
+
+    const request: Promise<TData> = fetcher().finally(() => {
+      // clear() may have let a newer request take the key; leave that one in place
+      if (this.inFlight.get(key) === request) {
+        this.inFlight.delete(key)
+      }
+    })
+    this.inFlight.set(key, request)
+    return request
+  }
+
+  private notify(): void {
+    this.version += 1
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const ticketCache = new TicketCache()
@@ -0,0 +1,111 @@
+import type { Ticket } from "@/types"
+import { tokenizePersian } from "./persian-text"
+import { ACTIVE_TICKET_STATUSES } from "./ticket-workflow"
+
+export interface DuplicateDetectionOptions {
+  /** Only tickets filed within this many days of each other are compared */
+  windowDays: number
+  /** Minimum score (0-1) for a pair to be reported */
+  threshold: number
+}
+
+export const DEFAULT_DUPLICATE_DETECTION: DuplicateDetectionOptions = {
+  windowDays: 3,
+  threshold: 0.5,
+}
+
+export interface DuplicateCandidate {
+  /** The newer ticket that looks like a repeat */
+  ticket: Ticket
+  /** The earlier open ticket it repeats */
+  original: Ticket
+  /** 0-1, higher is more likely a duplicate */
+  score: number
+  reasons: string[]
+}
+
+type ComparableTicket = Pick<
+  Ticket,
+  "title" | "description" | "category" | "categoryId" | "clientEmail" | "clientId"
+>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const WEIGHTS = {
+  title: 0.45,
+  description: 0.25,
+  category: 0.15,
+  requester: 0.15,
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  for (const word of a) {
+    if (b.has(word)) shared += 1
+  }
+  return shared / (a.size + b.size - shared)
+}
+
+const sameCategory = (a: ComparableTicket, b: ComparableTicket) =>
+  a.categoryId !== undefined && b.categoryId !== undefined ? a.categoryId === b.categoryId : a.category === b.category
+
+const sameRequester = (a: ComparableTicket, b: ComparableTicket) =>
+  a.clientId && b.clientId ? a.clientId === b.clientId : !!a.clientEmail && a.clientEmail === b.clientEmail
+
+/**
+ * How alike two tickets are, with the reasons shown to the admin. Titles weigh most; the same
+ * category and the same requester add to the score but never make a match on their own.
+ */
+export function scoreDuplicate(a: ComparableTicket, b: ComparableTicket): { score: number; reasons: string[] } {
+  const titleSimilarity = jaccard(tokenizePersian(a.title ?? ""), tokenizePersian(b.title ?? ""))
+  const descriptionSimilarity = jaccard(tokenizePersian(a.description ?? ""), tokenizePersian(b.description ?? ""))
+  if (titleSimilarity === 0 && descriptionSimilarity === 0) {
+    return { score: 0, reasons: [] }
+  }
+
+  const reasons: string[] = []
+  let score = titleSimilarity * WEIGHTS.title + descriptionSimilarity * WEIGHTS.description
+  if (titleSimilarity >= 0.3) reasons.push(`عنوان مشابه (${Math.round(titleSimilarity * 100)}٪)`)
+  if (descriptionSimilarity >= 0.3) reasons.push(`توضیحات مشابه (${Math.round(descriptionSimilarity * 100)}٪)`)
+  if (sameCategory(a, b)) {
+    score += WEIGHTS.category
+    reasons.push("دسته‌بندی یکسان")
+  }
+  if (sameRequester(a, b)) {
+    score += WEIGHTS.requester
+    reasons.push("درخواست‌دهنده یکسان")
+  }
+  return { score: Math.round(score * 100) / 100, reasons }
+}
+
+/**
+ * Likely duplicates among the given tickets: each active ticket is compared with the active
+ * tickets filed before it within the window, and its best match above the threshold is reported.
+ * Highest scores come first.
+ */
+export function findLikelyDuplicates(
+  tickets: Ticket[],
+  options: DuplicateDetectionOptions = DEFAULT_DUPLICATE_DETECTION
+): DuplicateCandidate[] {
+  const active = tickets
+    .filter((ticket) => ACTIVE_TICKET_STATUSES.includes(ticket.status) && !ticket.mergedIntoTicketId)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+
+  const candidates: DuplicateCandidate[] = []
+  active.forEach((ticket, index) => {
+    const createdAt = new Date(ticket.createdAt).getTime()
+    let best: DuplicateCandidate | null = null
+
+    for (const original of active.slice(0, index)) {
+      if (createdAt - new Date(original.createdAt).getTime() > options.windowDays * DAY_MS) continue
+      const { score, reasons } = scoreDuplicate(ticket, original)
+      if (score >= options.threshold && (!best || score > best.score)) {
+        best = { ticket, original, score, reasons }
+      }
+    }
+    if (best) candidates.push(best)
+  })
+
+  return candidates.sort((a, b) => b.score - a.score)
+}
@@ -0,0 +1,61 @@
+import { apiRequest } from "./api-client"
+import type { ApiTicketLinkCreateRequest, ApiTicketLinkDto } from "./api-types"
+import { toStoredLink, type TicketLinkKind } from "./ticket-links"
+
+/**
+ * Links in which the ticket is either side
+ * Backend route: GET /api/tickets/{id}/links
+ */
+export async function getTicketLinks(token: string | null, ticketId: string): Promise<ApiTicketLinkDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const links = await apiRequest<ApiTicketLinkDto[]>(`/api/tickets/${ticketId}/links`, {
+    method: "GET",
+    token,
+  })
+  return links ?? []
+}
+
+/**
+ * Link `ticketId` to another ticket (technicians and admins). `kind` reads from `ticketId`'s
+ * side, e.g. "blocked-by" stores a "blocks" link from the other ticket.
+ * Backend route: POST /api/tickets/{sourceId}/links
+ */
+export async function createTicketLink(
+  token: string | null,
+  ticketId: string,
+  kind: TicketLinkKind,
+  otherTicketId: string
+): Promise<ApiTicketLinkDto> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  if (ticketId === otherTicketId) {
+    throw new Error("یک تیکت را نمی‌توان به خودش پیوند داد")
+  }
+
+  const { sourceTicketId, targetTicketId, type } = toStoredLink(ticketId, kind, otherTicketId)
+  const body: ApiTicketLinkCreateRequest = { type, targetTicketId }
+  return apiRequest<ApiTicketLinkDto>(`/api/tickets/${sourceTicketId}/links`, {
+    method: "POST",
+    token,
+    body,
+  })
+}
+
+/**
+ * Remove a ticket link (technicians and admins)
+ * Backend route: DELETE /api/ticket-links/{id}
+ */
+export async function deleteTicketLink(token: string | null, linkId: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  await apiRequest<void>(`/api/ticket-links/${linkId}`, {
+    method: "DELETE",
+    token,
+  })
+}
@@ -0,0 +1,89 @@
+import type { ApiTicketLinkDto, ApiTicketLinkType } from "./api-types"
+import { mapApiStatusToUi } from "./ticket-mappers"
+import { ACTIVE_TICKET_STATUSES } from "./ticket-workflow"
+
+/** A link as seen from one of its two tickets */
+export type TicketLinkKind = "parent" | "child" | "related" | "blocks" | "blocked-by"
+
+export const TICKET_LINK_KINDS: TicketLinkKind[] = ["parent", "child", "related", "blocks", "blocked-by"]
+
+export const ticketLinkKindLabels: Record<TicketLinkKind, string> = {
+  parent: "تیکت والد",
+  child: "تیکت فرزند",
+  related: "مرتبط",
+  blocks: "مانع پیشرفت",
+  "blocked-by": "منتظر (مسدود توسط)",
+}
+
+/** Wording for "this ticket is <kind> ..." when adding a link */
+export const ticketLinkKindPhrases: Record<TicketLinkKind, string> = {
+  parent: "این تیکت زیرمجموعه تیکت ... است",
+  child: "تیکت ... زیرمجموعه این تیکت است",
+  related: "این تیکت با تیکت ... مرتبط است",
+  blocks: "این تیکت مانع پیشرفت تیکت ... است",
+  "blocked-by": "این تیکت منتظر حل تیکت ... است",
+}
+
+export interface TicketLinkView {
+  link: ApiTicketLinkDto
+  kind: TicketLinkKind
+  otherTicketId: string
+  otherTitle: string | null
+}
+
+/** How the link reads from `ticketId`'s side */
+export function describeLink(link: ApiTicketLinkDto, ticketId: string): TicketLinkView {
+  const outgoing = link.sourceTicketId === ticketId
+  // A stored "parent" link means the source is the parent, so seen from the source the other side is a child
+  const kinds: Record<ApiTicketLinkType, [TicketLinkKind, TicketLinkKind]> = {
+    parent: ["child", "parent"],
+    related: ["related", "related"],
+    blocks: ["blocks", "blocked-by"],
+  }
+  const [outgoingKind, incomingKind] = kinds[link.type]
+  return {
+    link,
+    kind: outgoing ? outgoingKind : incomingKind,
+    otherTicketId: outgoing ? link.targetTicketId : link.sourceTicketId,
+    otherTitle: (outgoing ? link.targetTitle : link.sourceTitle) ?? null,
+  }
+}
+
+/**
+ * Stored form of "`ticketId` has `kind` `otherTicketId`": which ticket is the source and the
+ * stored type
+ */
+export function toStoredLink(
+  ticketId: string,
+  kind: TicketLinkKind,
+  otherTicketId: string
+): { sourceTicketId: string; targetTicketId: string; type: ApiTicketLinkType } {
+  switch (kind) {
+    case "parent":
+      return { sourceTicketId: otherTicketId, targetTicketId: ticketId, type: "parent" }
+    case "child":
+      return { sourceTicketId: ticketId, targetTicketId: otherTicketId, type: "parent" }
+    case "blocks":
+      return { sourceTicketId: ticketId, targetTicketId: otherTicketId, type: "blocks" }
+    case "blocked-by":
+      return { sourceTicketId: otherTicketId, targetTicketId: ticketId, type: "blocks" }
+    default:
+      return { sourceTicketId: ticketId, targetTicketId: otherTicketId, type: "related" }
+  }
+}
+
+/**
+ * Ids of the tickets on the other side of `ticketId`'s links of the given kind that are still
+ * open (new, in progress or waiting for the client)
+ */
+export function getOpenLinkedTicketIds(links: ApiTicketLinkDto[], ticketId: string, kind: TicketLinkKind): string[] {
+  return links
+    .filter((link) => link.sourceTicketId === ticketId || link.targetTicketId === ticketId)
+    .map((link) => describeLink(link, ticketId))
+    .filter((view) => view.kind === kind)
+    .filter(({ link, otherTicketId }) => {
+      const status = otherTicketId === link.targetTicketId ? link.targetStatus : link.sourceStatus
+      return ACTIVE_TICKET_STATUSES.includes(mapApiStatusToUi(status))
+    })
+    .map((view) => view.otherTicketId)
+}
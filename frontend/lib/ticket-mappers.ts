@@ -1,17 +1,19 @@
 import type { ApiTicketMessageDto, ApiTicketPriority, ApiTicketResponse, ApiTicketStatus } from "@/lib/api-types"
+import { mapApiAttachmentToUploadedFile } from "@/lib/file-upload"
 import type { CategoriesData } from "@/services/categories-types"
 import type { Ticket, TicketPriority, TicketResponse, TicketStatus } from "@/types"
 
 const statusFromApi: Record<ApiTicketStatus, TicketStatus> = {
   New: "open",
   InProgress: "in-progress",
-  WaitingForClient: "in-progress",
+  WaitingForClient: "waiting-for-client",
   Resolved: "resolved",
   Closed: "closed",
 }
 
 const statusToApi: Record<TicketStatus, ApiTicketStatus> = {
   "in-progress": "InProgress",
+  "waiting-for-client": "WaitingForClient",
   open: "New",
   resolved: "Resolved",
   closed: "Closed",
@@ -55,6 +57,7 @@ export const mapApiMessageToResponse = (message: ApiTicketMessageDto): TicketRes
   status: message.status ? mapApiStatusToUi(message.status) : "in-progress",
   message: message.message,
   timestamp: message.createdAt,
+  isInternal: message.isInternal ?? false,
 })
 
 export const mapApiTicketToUi = (
@@ -89,10 +92,17 @@ export const mapApiTicketToUi = (
     createdAt: ticket.createdAt,
     updatedAt: ticket.updatedAt ?? null,
     dueDate: ticket.dueDate ?? null,
+    firstResponseAt: ticket.firstResponseAt ?? null,
+    resolvedAt: ticket.resolvedAt ?? null,
     assignedTo: ticket.assignedToUserId ?? null,
+    assignedTechnicianId: ticket.technicianId ?? null,
     assignedTechnicianName: ticket.assignedTechnicianName ?? ticket.assignedToName ?? null,
     assignedTechnicianEmail: ticket.assignedToEmail ?? null,
     assignedTechnicianPhone: ticket.assignedToPhoneNumber ?? null,
     responses,
+    attachments: ticket.attachments?.map(mapApiAttachmentToUploadedFile) ?? [],
+    reopenCount: ticket.reopenCount ?? 0,
+    mergedIntoTicketId: ticket.mergedIntoTicketId ?? null,
+    childCount: ticket.childTicketCount ?? 0,
   }
 }
@@ -0,0 +1,330 @@
+import dayjs from "dayjs"
+import jalaliday from "jalaliday"
+import { normalizePersian } from "./persian-text"
+import { ticketStatusLabels } from "./ticket-workflow"
+import type { Ticket, TicketPriority, TicketStatus } from "@/types"
+
+dayjs.extend(jalaliday)
+
+export type SearchField = "status" | "priority" | "assignee" | "category" | "requester" | "created" | "updated" | "id"
+
+export type SearchOperator = ":" | ">" | "<" | ">=" | "<="
+
+export interface SearchClause {
+  /** null for free text */
+  field: SearchField | null
+  operator: SearchOperator
+  value: string
+  negated: boolean
+}
+
+export interface ParsedSearchQuery {
+  clauses: SearchClause[]
+  /** Normalized free-text words and phrases, for highlighting matches */
+  terms: string[]
+}
+
+export interface SearchContext {
+  /** Resolves `assignee:me` */
+  currentUserId?: string
+}
+
+export const searchFieldLabels: Record<SearchField, string> = {
+  status: "وضعیت",
+  priority: "اولویت",
+  assignee: "تکنسین (me یا none)",
+  category: "دسته‌بندی",
+  requester: "درخواست‌کننده",
+  created: "تاریخ ایجاد، مثلا >1403/07/01",
+  updated: "آخرین به‌روزرسانی",
+  id: "شماره تیکت",
+}
+
+const SEARCH_FIELDS = Object.keys(searchFieldLabels) as SearchField[]
+
+const statusAliases: Record<string, TicketStatus> = {
+  open: "open",
+  new: "open",
+  "in-progress": "in-progress",
+  inprogress: "in-progress",
+  progress: "in-progress",
+  waiting: "waiting-for-client",
+  "waiting-for-client": "waiting-for-client",
+  resolved: "resolved",
+  closed: "closed",
+}
+
+const priorityLabels: Record<TicketPriority, string> = {
+  low: "کم",
+  medium: "متوسط",
+  high: "بالا",
+  urgent: "فوری",
+}
+
+const priorityAliases: Record<string, TicketPriority> = {
+  low: "low",
+  medium: "medium",
+  normal: "medium",
+  high: "high",
+  urgent: "urgent",
+  critical: "urgent",
+}
+
+// Persian labels work as values too, e.g. status:باز or priority:فوری
+for (const [status, label] of Object.entries(ticketStatusLabels)) {
+  statusAliases[normalizePersian(label)] = status as TicketStatus
+}
+for (const [priority, label] of Object.entries(priorityLabels)) {
+  priorityAliases[normalizePersian(label)] = priority as TicketPriority
+}
+
+// Longer operators first so "created:>=x" is not read as "created:" followed by ">=x"
+const TOKEN_PATTERN = /(-?)(?:([a-z]+)(:>=|:<=|:>|:<|>=|<=|>|<|:))?(?:"([^"]*)"?|(\S+))/gi
+
+/**
+ * Parse a query such as `status:open priority:urgent assignee:me created:>1403/07/01 "vpn"`.
+ * Unknown fields are kept as free text, so a stray colon never hides results.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const clauses: SearchClause[] = []
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, minus, field, operator, quoted, bare] = match
+    const value = quoted ?? bare ?? ""
+    const knownField = field && SEARCH_FIELDS.includes(field.toLowerCase() as SearchField)
+
+    if (field && knownField && value) {
+      clauses.push({
+        field: field.toLowerCase() as SearchField,
+        // "created:>x" and "created>x" mean the same thing
+        operator: (operator.length > 1 && operator.startsWith(":") ? operator.slice(1) : operator) as SearchOperator,
+        value,
+        negated: minus === "-",
+      })
+    } else {
+      const text = field ? raw.replace(/^-/, "") : value
+      // A field still being typed ("status:") filters nothing yet
+      const pendingField = /^[a-z]+:$/i.test(text) && SEARCH_FIELDS.includes(text.slice(0, -1).toLowerCase() as SearchField)
+      const normalized = normalizePersian(text.replace(/"/g, ""))
+      if (normalized && !pendingField) {
+        clauses.push({ field: null, operator: ":", value: normalized, negated: minus === "-" })
+      }
+    }
+  }
+
+  return {
+    clauses,
+    terms: clauses.filter((clause) => clause.field === null && !clause.negated).map((clause) => clause.value),
+  }
+}
+
+/** Free text of a query, for TicketQuery.search */
+export function getFreeText(query: ParsedSearchQuery): string {
+  return query.terms.join(" ")
+}
+
+/**
+ * Parse a Jalali (1403/07/01) or Gregorian (2024-09-22) date. Returns the start of that day,
+ * or null when the value is not a date.
+ */
+export function parseSearchDate(value: string): Date | null {
+  const match = normalizePersian(value).match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})$/)
+  if (!match) return null
+  const [, year, month, day] = match.map(Number)
+  const date =
+    year < 1700
+      ? dayjs(`${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`, { jalali: true })
+      : dayjs(new Date(year, month - 1, day))
+  return date.isValid() ? date.startOf("day").toDate() : null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function matchesDate(value: string | undefined | null, clause: SearchClause): boolean {
+  const date = parseSearchDate(clause.value)
+  if (!value || !date) return false
+  const time = new Date(value).getTime()
+  const start = date.getTime()
+  switch (clause.operator) {
+    case ">":
+      return time >= start + DAY_MS
+    case ">=":
+      return time >= start
+    case "<":
+      return time < start
+    case "<=":
+      return time < start + DAY_MS
+    default:
+      return time >= start && time < start + DAY_MS
+  }
+}
+
+const contains = (text: string | null | undefined, value: string) =>
+  !!text && normalizePersian(text).includes(normalizePersian(value))
+
+/** Every text of a ticket free-text search looks at; list tickets carry no message bodies */
+function getSearchableText(ticket: Ticket): string {
+  return normalizePersian(
+    [
+      ticket.id,
+      ticket.title,
+      ticket.description,
+      ticket.clientName,
+      ticket.categoryLabel ?? ticket.category,
+      ticket.assignedTechnicianName,
+    ]
+      .filter(Boolean)
+      .join(" ")
+  )
+}
+
+function matchesClause(ticket: Ticket, clause: SearchClause, context: SearchContext): boolean {
+  const value = normalizePersian(clause.value)
+  switch (clause.field) {
+    case "status":
+      return ticket.status === statusAliases[value]
+    case "priority":
+      return ticket.priority === priorityAliases[value]
+    case "assignee":
+      if (value === "me") return !!context.currentUserId && ticket.assignedTo === context.currentUserId
+      if (value === "none") return !ticket.assignedTo
+      return contains(ticket.assignedTechnicianName, value) || contains(ticket.assignedTechnicianEmail, value)
+    case "category":
+      return (
+        contains(ticket.category, value) ||
+        contains(ticket.categoryLabel, value) ||
+        contains(ticket.subcategory, value) ||
+        contains(ticket.subcategoryLabel, value)
+      )
+    case "requester":
+      return contains(ticket.clientName, value) || contains(ticket.clientEmail, value)
+    case "created":
+      return matchesDate(ticket.createdAt, clause)
+    case "updated":
+      return matchesDate(ticket.updatedAt ?? ticket.createdAt, clause)
+    case "id":
+      return contains(ticket.id, value)
+    default:
+      return getSearchableText(ticket).includes(value)
+  }
+}
+
+export function matchesSearchQuery(ticket: Ticket, query: ParsedSearchQuery, context: SearchContext = {}): boolean {
+  return query.clauses.every((clause) => matchesClause(ticket, clause, context) !== clause.negated)
+}
+
+export interface SearchSuggestion {
+  label: string
+  description?: string
+  /** Replaces the token under the cursor */
+  insertText: string
+}
+
+/**
+ * Completions for the last token of `input`: field names while typing a word, values once a
+ * field and colon were typed.
+ */
+export function getSearchSuggestions(input: string, categories: Array<{ key: string; label: string }> = []): SearchSuggestion[] {
+  const token = input.match(/(\S*)$/)?.[1] ?? ""
+  const negation = token.startsWith("-") ? "-" : ""
+  const bare = token.slice(negation.length).toLowerCase()
+
+  const fieldMatch = bare.match(/^([a-z]+):(.*)$/)
+  if (!fieldMatch) {
+    if (!bare) return []
+    return SEARCH_FIELDS.filter((field) => field.startsWith(bare)).map((field) => ({
+      label: `${field}:`,
+      description: searchFieldLabels[field],
+      insertText: `${negation}${field}:`,
+    }))
+  }
+
+  const [, field, partial] = fieldMatch
+  const values: Array<{ value: string; label: string }> = (() => {
+    switch (field) {
+      case "status":
+        return (Object.keys(ticketStatusLabels) as TicketStatus[]).map((status) => ({
+          value: status,
+          label: ticketStatusLabels[status],
+        }))
+      case "priority":
+        return (Object.keys(priorityLabels) as TicketPriority[]).map((priority) => ({
+          value: priority,
+          label: priorityLabels[priority],
+        }))
+      case "assignee":
+        return [
+          { value: "me", label: "تیکت‌های من" },
+          { value: "none", label: "بدون تکنسین" },
+        ]
+      case "category":
+        return categories.map((category) => ({ value: category.key, label: category.label }))
+      case "created":
+      case "updated":
+        return [
+          { value: ">", label: "بعد از تاریخ" },
+          { value: "<", label: "قبل از تاریخ" },
+        ]
+      default:
+        return []
+    }
+  })()
+
+  const normalizedPartial = normalizePersian(partial)
+  return values
+    .filter(
+      (option) =>
+        option.value.startsWith(normalizedPartial) || normalizePersian(option.label).includes(normalizedPartial)
+    )
+    .filter((option) => option.value !== normalizedPartial)
+    .map((option) => ({
+      label: `${field}:${option.value}`,
+      description: option.label,
+      insertText: `${negation}${field}:${option.value}`,
+    }))
+}
+
+/** Replace the token under the cursor with a suggestion; field values are followed by a space */
+export function applySearchSuggestion(input: string, suggestion: SearchSuggestion): string {
+  const completesValue = !suggestion.insertText.endsWith(":") && !/[<>]$/.test(suggestion.insertText)
+  return input.replace(/(\S*)$/, suggestion.insertText) + (completesValue ? " " : "")
+}
+
+/**
+ * Ranges of `text` matching any of `terms`, compared after Persian normalization so "كيبورد"
+ * highlights "کیبورد". Ranges are sorted and never overlap.
+ */
+export function findHighlightRanges(text: string, terms: string[]): Array<[number, number]> {
+  if (!text || terms.length === 0) return []
+
+  // Normalize character by character so every folded character maps back to the original text
+  let folded = ""
+  const origins: number[] = []
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    const normalized = /\s/.test(char) ? " " : normalizePersian(char)
+    for (const foldedChar of normalized) {
+      folded += foldedChar
+      origins.push(index)
+    }
+  }
+
+  const ranges: Array<[number, number]> = []
+  for (const term of terms) {
+    let from = folded.indexOf(term)
+    while (term && from !== -1) {
+      ranges.push([origins[from], origins[from + term.length - 1] + 1])
+      from = folded.indexOf(term, from + term.length)
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0])
+  return ranges.reduce<Array<[number, number]>>((merged, range) => {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([...range])
+    }
+    return merged
+  }, [])
+}
@@ -0,0 +1,82 @@
+import { apiRequest } from "./api-client"
+import type { ApiTicketResponse, ApiTicketWatcherAddRequest, ApiTicketWatcherDto, ApiUserDto } from "./api-types"
+
+/**
+ * Watchers of a ticket
+ * Backend route: GET /api/tickets/{id}/watchers
+ */
+export async function getTicketWatchers(token: string | null, ticketId: string): Promise<ApiTicketWatcherDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketWatcherDto[]>(`/api/tickets/${ticketId}/watchers`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Add a watcher to a ticket. The backend enforces who may add whom (see `canAddWatcher`) and
+ * sends watchers the same notifications as the requester. Technicians may follow any ticket,
+ * including ones they cannot open yet.
+ * Backend route: POST /api/tickets/{id}/watchers
+ */
+export async function addTicketWatcher(
+  token: string | null,
+  ticketId: string,
+  userId: string
+): Promise<ApiTicketWatcherDto> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const body: ApiTicketWatcherAddRequest = { userId }
+  return apiRequest<ApiTicketWatcherDto>(`/api/tickets/${ticketId}/watchers`, {
+    method: "POST",
+    token,
+    body,
+  })
+}
+
+/**
+ * Remove a watcher from a ticket
+ * Backend route: DELETE /api/tickets/{id}/watchers/{userId}
+ */
+export async function removeTicketWatcher(token: string | null, ticketId: string, userId: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  await apiRequest<void>(`/api/tickets/${ticketId}/watchers/${userId}`, {
+    method: "DELETE",
+    token,
+  })
+}
+
+/**
+ * Tickets the current user watches without being their requester or assignee
+ * Backend route: GET /api/tickets/watching
+ */
+export async function getWatchedTickets(token: string | null): Promise<ApiTicketResponse[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketResponse[]>("/api/tickets/watching", {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Users that may be added as watchers. The backend scopes the directory by role: clients see
+ * colleagues of their own department, staff see everyone.
+ * Backend route: GET /api/users/directory?search=
+ */
+export async function searchUserDirectory(token: string | null, search: string): Promise<ApiUserDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const params = new URLSearchParams({ search })
+  return apiRequest<ApiUserDto[]>(`/api/users/directory?${params.toString()}`, {
+    method: "GET",
+    token,
+  })
+}
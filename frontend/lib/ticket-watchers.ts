@@ -0,0 +1,51 @@
+import type { ApiTicketWatcherDto, ApiUserDto, ApiUserRole } from "./api-types"
+import type { UserRole } from "@/types"
+
+/** The signed-in user, as far as the watcher rules need it */
+export interface WatcherViewer {
+  id: string
+  role: UserRole
+  department?: string | null
+}
+
+const roleToApi: Record<UserRole, ApiUserRole> = {
+  client: "Client",
+  engineer: "Technician",
+  admin: "Admin",
+}
+
+export const watcherRoleLabels: Record<ApiUserRole, string> = {
+  Client: "همکار",
+  Technician: "تکنسین",
+  Admin: "مدیر",
+}
+
+export const toApiUserRole = (role: UserRole): ApiUserRole => roleToApi[role]
+
+/**
+ * Whether `viewer` may add `candidate` as a watcher: clients CC colleagues of their own
+ * department, technicians only follow tickets themselves and admins may add anyone.
+ */
+export function canAddWatcher(viewer: WatcherViewer, candidate: Pick<ApiUserDto, "id" | "role" | "department">): boolean {
+  switch (viewer.role) {
+    case "admin":
+      return true
+    case "engineer":
+      return candidate.id === viewer.id
+    default:
+      return (
+        candidate.id !== viewer.id &&
+        candidate.role === "Client" &&
+        !!viewer.department &&
+        candidate.department === viewer.department
+      )
+  }
+}
+
+/** Admins remove anyone, everyone may stop watching themselves and clients may undo their own CCs */
+export function canRemoveWatcher(viewer: WatcherViewer, watcher: ApiTicketWatcherDto): boolean {
+  return viewer.role === "admin" || watcher.userId === viewer.id || watcher.addedByUserId === viewer.id
+}
+
+export const isWatching = (watchers: ApiTicketWatcherDto[], userId: string) =>
+  watchers.some((watcher) => watcher.userId === userId)
@@ -0,0 +1,141 @@
+import type { Ticket, TicketStatus, UserRole } from "@/types"
+import type { SurveyQuestion } from "./csat"
+
+/** Every UI status in lifecycle order */
+export const TICKET_STATUSES: TicketStatus[] = ["open", "in-progress", "waiting-for-client", "resolved", "closed"]
+
+/** Statuses in which a ticket still occupies its technician */
+export const ACTIVE_TICKET_STATUSES: TicketStatus[] = ["open", "in-progress", "waiting-for-client"]
+
+export const ticketStatusLabels: Record<TicketStatus, string> = {
+  open: "باز",
+  "in-progress": "در حال انجام",
+  "waiting-for-client": "در انتظار پاسخ مشتری",
+  resolved: "حل شده",
+  closed: "بسته",
+}
+
+const roleLabels: Record<UserRole, string> = {
+  client: "مشتری",
+  engineer: "تکنسین",
+  admin: "مدیر",
+}
+
+interface TransitionRule {
+  to: TicketStatus
+  from: TicketStatus[] | "any"
+  roles: UserRole[]
+}
+
+/**
+ * Allowed status changes. Mirrors the backend's permission rules (clients may not close,
+ * staff may set any working status) and adds the team's workflow on top: work is never
+ * moved back to "open" and technicians close only what was resolved first.
+ */
+const transitionRules: TransitionRule[] = [
+  { to: "in-progress", from: "any", roles: ["engineer", "admin"] },
+  // Reopening a finished ticket
+  { to: "in-progress", from: ["resolved", "closed"], roles: ["client"] },
+  { to: "waiting-for-client", from: ["open", "in-progress"], roles: ["engineer", "admin"] },
+  { to: "resolved", from: ["open", "in-progress", "waiting-for-client"], roles: ["engineer", "admin"] },
+  { to: "closed", from: ["resolved"], roles: ["engineer"] },
+  { to: "closed", from: "any", roles: ["admin"] },
+]
+
+const matchesFrom = (rule: TransitionRule, from: TicketStatus) => rule.from === "any" || rule.from.includes(from)
+
+export function canTransition(role: UserRole, from: TicketStatus, to: TicketStatus): boolean {
+  if (from === to) return false
+  return transitionRules.some((rule) => rule.to === to && rule.roles.includes(role) && matchesFrom(rule, from))
+}
+
+/** Statuses the role may move a ticket to from `from`, in lifecycle order */
+export function getAllowedTransitions(role: UserRole, from: TicketStatus): TicketStatus[] {
+  return TICKET_STATUSES.filter((to) => canTransition(role, from, to))
+}
+
+/**
+ * Why `role` cannot move a ticket from `from` to `to`, or null if the move is allowed
+ */
+export function getTransitionBlockReason(role: UserRole, from: TicketStatus, to: TicketStatus): string | null {
+  if (from === to) {
+    return `تیکت هم‌اکنون در وضعیت «${ticketStatusLabels[to]}» است`
+  }
+  if (canTransition(role, from, to)) {
+    return null
+  }
+
+  if (to === "open") {
+    return "تیکتی که بررسی آن شروع شده به وضعیت «باز» برنمی‌گردد؛ از «در حال انجام» استفاده کنید"
+  }
+
+  const sources = transitionRules
+    .filter((rule) => rule.to === to && rule.roles.includes(role))
+    .flatMap((rule) => (rule.from === "any" ? TICKET_STATUSES : rule.from))
+  if (sources.length === 0) {
+    return `نقش ${roleLabels[role]} اجازه تغییر وضعیت به «${ticketStatusLabels[to]}» را ندارد`
+  }
+
+  const sourceLabels = Array.from(new Set(sources)).map((status) => `«${ticketStatusLabels[status]}»`)
+  return `تغییر به «${ticketStatusLabels[to]}» فقط از وضعیت ${sourceLabels.join(" یا ")} ممکن است`
+}
+
+/** Every status other than `from`, each with the reason it is blocked (if any) */
+export function describeTransitions(
+  role: UserRole,
+  from: TicketStatus
+): Array<{ status: TicketStatus; allowed: boolean; reason: string | null }> {
+  return TICKET_STATUSES.filter((status) => status !== from).map((status) => {
+    const reason = getTransitionBlockReason(role, from, status)
+    return { status, allowed: reason === null, reason }
+  })
+}
+
+/** Admin-configurable rules around the ticket lifecycle */
+export interface WorkflowSettings {
+  /** Days after resolution during which the client may reopen a ticket; 0 disables reopening */
+  reopenWindowDays: number
+  /** Resolve a parent's open child tickets together with the parent */
+  resolveChildrenWithParent: boolean
+  /** Ask clients to rate resolved tickets */
+  csatEnabled: boolean
+  /** Questions asked after the star rating; the server keeps the question set */
+  csatQuestions: SurveyQuestion[]
+}
+
+export const DEFAULT_WORKFLOW_SETTINGS: WorkflowSettings = {
+  reopenWindowDays: 7,
+  resolveChildrenWithParent: true,
+  csatEnabled: true,
+  csatQuestions: [],
+}
+
+/** Statuses a client may reopen from */
+export const REOPENABLE_STATUSES: TicketStatus[] = ["resolved", "closed"]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Last moment the client may reopen the ticket, or null if it cannot be reopened at all. The
+ * server enforces the same window from its resolution time; tickets resolved before that time
+ * was recorded fall back to their last update.
+ */
+export function getReopenDeadline(
+  ticket: Pick<Ticket, "status" | "createdAt" | "updatedAt" | "resolvedAt">,
+  settings: WorkflowSettings
+): Date | null {
+  if (!REOPENABLE_STATUSES.includes(ticket.status) || settings.reopenWindowDays <= 0) {
+    return null
+  }
+  const resolvedAt = new Date(ticket.resolvedAt ?? ticket.updatedAt ?? ticket.createdAt)
+  return new Date(resolvedAt.getTime() + settings.reopenWindowDays * DAY_MS)
+}
+
+export function canClientReopen(
+  ticket: Pick<Ticket, "status" | "createdAt" | "updatedAt" | "resolvedAt">,
+  settings: WorkflowSettings,
+  now: Date = new Date()
+): boolean {
+  const deadline = getReopenDeadline(ticket, settings)
+  return deadline !== null && now <= deadline && canTransition("client", ticket.status, "in-progress")
+}
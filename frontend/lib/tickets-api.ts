@@ -0,0 +1,218 @@
+import { apiRequest } from "./api-client"
+import type {
+  ApiTicketMergeRequest,
+  ApiTicketMessageCreateRequest,
+  ApiTicketMessageDto,
+  ApiTicketReopenRequest,
+  ApiTicketResponse,
+  ApiTicketStatusCount,
+} from "./api-types"
+import { mapApiStatusToUi, mapUiPriorityToApi, mapUiStatusToApi } from "./ticket-mappers"
+import { TICKET_STATUSES } from "./ticket-workflow"
+import type { TicketPriority, TicketStatus } from "@/types"
+
+export type TicketSortField = "createdAt" | "updatedAt" | "priority" | "status" | "dueDate" | "title"
+export type SortDirection = "asc" | "desc"
+
+/**
+ * Server-side ticket list query. All filters are optional; empty arrays and
+ * empty strings are treated as "no filter".
+ */
+export interface TicketQuery {
+  page: number
+  pageSize: number
+  status?: TicketStatus[]
+  priority?: TicketPriority[]
+  categoryId?: number | null
+  /** Technician user id, or "unassigned" for tickets without an assignee */
+  assignedTo?: string | null
+  createdBy?: string | null
+  /** ISO date (inclusive) */
+  createdFrom?: string | null
+  /** ISO date (inclusive) */
+  createdTo?: string | null
+  /**
+   * Words matched against the ticket number, title, description, requester and assignee after
+   * Persian normalization on the server; every word must match
+   */
+  search?: string
+  sortBy?: TicketSortField
+  sortDirection?: SortDirection
+}
+
+export interface TicketPage<TItem> {
+  items: TItem[]
+  totalCount: number
+  page: number
+  pageSize: number
+}
+
+export const DEFAULT_TICKET_QUERY: TicketQuery = {
+  page: 1,
+  pageSize: 25,
+  sortBy: "createdAt",
+  sortDirection: "desc",
+}
+
+/**
+ * Serialize a query to the backend's query-string format. Status and priority repeat once per
+ * selected value.
+ */
+export function buildTicketQueryParams(query: TicketQuery): URLSearchParams {
+  const params = new URLSearchParams()
+  params.set("page", String(query.page))
+  params.set("pageSize", String(query.pageSize))
+
+  query.status?.forEach((status) => params.append("status", mapUiStatusToApi(status)))
+  query.priority?.forEach((priority) => params.append("priority", mapUiPriorityToApi(priority)))
+  if (typeof query.categoryId === "number") params.set("categoryId", String(query.categoryId))
+  if (query.assignedTo) params.set("assignedTo", query.assignedTo)
+  if (query.createdBy) params.set("createdBy", query.createdBy)
+  if (query.createdFrom) params.set("createdFrom", query.createdFrom)
+  if (query.createdTo) params.set("createdTo", query.createdTo)
+  if (query.search?.trim()) params.set("search", query.search.trim())
+  if (query.sortBy) params.set("sortBy", query.sortBy)
+  if (query.sortDirection) params.set("sortDirection", query.sortDirection)
+
+  return params
+}
+
+/**
+ * Query one page of tickets visible to the current user
+ * Backend routes: GET /api/tickets (clients, admins) or GET /api/technician/tickets (technicians)
+ */
+export async function queryTickets(
+  token: string | null,
+  query: TicketQuery,
+  endpoint: "/api/tickets" | "/api/technician/tickets" = "/api/tickets"
+): Promise<TicketPage<ApiTicketResponse>> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  return apiRequest<TicketPage<ApiTicketResponse>>(`${endpoint}?${buildTicketQueryParams(query).toString()}`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Count the tickets matching a query in every status, ignoring the query's own status filter
+ * and paging, so summary cards and board columns are not limited to the loaded page.
+ * Backend routes: GET /api/tickets/status-counts or GET /api/technician/tickets/status-counts
+ */
+export async function countTicketsByStatus(
+  token: string | null,
+  query: TicketQuery,
+  endpoint: "/api/tickets" | "/api/technician/tickets" = "/api/tickets"
+): Promise<Record<TicketStatus, number>> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const params = buildTicketQueryParams({ ...query, status: undefined })
+  params.delete("page")
+  params.delete("pageSize")
+  const response = await apiRequest<ApiTicketStatusCount[]>(`${endpoint}/status-counts?${params.toString()}`, {
+    method: "GET",
+    token,
+  })
+
+  const counts = Object.fromEntries(TICKET_STATUSES.map((status) => [status, 0])) as Record<TicketStatus, number>
+  response.forEach(({ status, count }) => {
+    counts[mapApiStatusToUi(status)] += count
+  })
+  return counts
+}
+
+/**
+ * Get a single ticket
+ */
+export async function getTicket(token: string | null, ticketId: string): Promise<ApiTicketResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketResponse>(`/api/tickets/${ticketId}`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Get the message thread of a ticket. Lists no longer embed messages; call this
+ * when a ticket is opened.
+ */
+export async function getTicketMessages(token: string | null, ticketId: string): Promise<ApiTicketMessageDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketMessageDto[]>(`/api/tickets/${ticketId}/messages`, {
+    method: "GET",
+    token,
+  })
+}
+
+/**
+ * Post a reply, optionally changing the status, or a staff-only internal note.
+ * Backend route: POST /api/tickets/{id}/messages
+ */
+export async function addTicketMessage(
+  token: string | null,
+  ticketId: string,
+  body: ApiTicketMessageCreateRequest
+): Promise<ApiTicketMessageDto> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiTicketMessageDto>(`/api/tickets/${ticketId}/messages`, {
+    method: "POST",
+    token,
+    body,
+  })
+}
+
+/**
+ * Reopen a resolved or closed ticket on behalf of its client. The backend posts the reason to
+ * the thread, increments `reopenCount` and routes the ticket back to its technician, or to the
+ * least-loaded active technician when that one is inactive. Clients are held to the reopen
+ * window of the workflow settings.
+ * Backend route: POST /api/tickets/{id}/reopen
+ */
+export async function reopenTicket(token: string | null, ticketId: string, reason: string): Promise<ApiTicketResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const body: ApiTicketReopenRequest = { reason }
+  return apiRequest<ApiTicketResponse>(`/api/tickets/${ticketId}/reopen`, {
+    method: "POST",
+    token,
+    body,
+  })
+}
+
+/**
+ * Merge a duplicate ticket into the surviving one (Admin only). The backend moves the messages
+ * and attachments, closes the duplicate with `mergedIntoTicketId` set and notifies both requesters.
+ * Returns the surviving ticket.
+ * Backend route: POST /api/tickets/{targetId}/merge
+ */
+export async function mergeTickets(
+  token: string | null,
+  sourceTicketId: string,
+  targetTicketId: string
+): Promise<ApiTicketResponse> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  if (sourceTicketId === targetTicketId) {
+    throw new Error("A ticket cannot be merged into itself")
+  }
+
+  const body: ApiTicketMergeRequest = { sourceTicketId }
+  return apiRequest<ApiTicketResponse>(`/api/tickets/${targetTicketId}/merge`, {
+    method: "POST",
+    token,
+    body,
+  })
+}
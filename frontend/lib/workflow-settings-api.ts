@@ -0,0 +1,64 @@
+import { apiRequest } from "./api-client"
+import { DEFAULT_WORKFLOW_SETTINGS, type WorkflowSettings } from "./ticket-workflow"
+
+/** Fired on window after the settings are saved so open dashboards pick them up */
+export const WORKFLOW_SETTINGS_EVENT = "workflow-settings-changed"
+
+let pendingLoad: Promise<WorkflowSettings> | null = null
+
+async function fetchWorkflowSettings(token: string | null): Promise<WorkflowSettings> {
+  if (!token) {
+    return DEFAULT_WORKFLOW_SETTINGS
+  }
+
+  try {
+    const settings = await apiRequest<Partial<WorkflowSettings>>("/api/settings/workflow", {
+      method: "GET",
+      token,
+      silent: true,
+    })
+    return { ...DEFAULT_WORKFLOW_SETTINGS, ...settings }
+  } catch (error) {
+    // The dashboards keep working with the defaults; the server still enforces its own rules
+    console.warn("[workflow-settings-api] Failed to load workflow settings:", error)
+    return DEFAULT_WORKFLOW_SETTINGS
+  }
+}
+
+/**
+ * Get the workflow settings. Readable by every role; concurrent callers share one request.
+ * Backend route: GET /api/settings/workflow
+ */
+export function getWorkflowSettings(token: string | null): Promise<WorkflowSettings> {
+  if (!pendingLoad) {
+    pendingLoad = fetchWorkflowSettings(token).finally(() => {
+      pendingLoad = null
+    })
+  }
+  return pendingLoad
+}
+
+/**
+ * Save the workflow settings (Admin only)
+ * Backend route: PUT /api/settings/workflow
+ */
+export async function updateWorkflowSettings(
+  token: string | null,
+  settings: WorkflowSettings
+): Promise<WorkflowSettings> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+
+  const response = await apiRequest<Partial<WorkflowSettings>>("/api/settings/workflow", {
+    method: "PUT",
+    token,
+    body: settings,
+  })
+  const saved = { ...DEFAULT_WORKFLOW_SETTINGS, ...response }
+
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(WORKFLOW_SETTINGS_EVENT, { detail: saved }))
+  }
+  return saved
+}
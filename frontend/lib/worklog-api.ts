@@ -0,0 +1,69 @@
+import { apiRequest } from "./api-client"
+import type { ApiWorklogCreateRequest, ApiWorklogEntryDto } from "./api-types"
+
+/**
+ * Worklog entries of a ticket (technicians and admins)
+ * Backend route: GET /api/tickets/{id}/worklog
+ */
+export async function getTicketWorklog(token: string | null, ticketId: string): Promise<ApiWorklogEntryDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const entries = await apiRequest<ApiWorklogEntryDto[]>(`/api/tickets/${ticketId}/worklog`, {
+    method: "GET",
+    token,
+  })
+  return entries ?? []
+}
+
+/**
+ * Log time on a ticket for the signed-in technician; the backend only accepts it from the
+ * ticket's assignee
+ * Backend route: POST /api/tickets/{id}/worklog
+ */
+export async function addWorklogEntry(
+  token: string | null,
+  ticketId: string,
+  request: ApiWorklogCreateRequest
+): Promise<ApiWorklogEntryDto> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  return apiRequest<ApiWorklogEntryDto>(`/api/tickets/${ticketId}/worklog`, {
+    method: "POST",
+    token,
+    body: request,
+  })
+}
+
+/**
+ * Delete a worklog entry (its author or an admin)
+ * Backend route: DELETE /api/worklog/{id}
+ */
+export async function deleteWorklogEntry(token: string | null, entryId: string): Promise<void> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  await apiRequest<void>(`/api/worklog/${entryId}`, {
+    method: "DELETE",
+    token,
+  })
+}
+
+/**
+ * All worklog entries logged since `from` (Admin only)
+ * Backend route: GET /api/reports/worklog?from=
+ */
+export async function getWorklogReport(token: string | null, from?: Date): Promise<ApiWorklogEntryDto[]> {
+  if (!token) {
+    throw new Error("Authentication required")
+  }
+  const params = new URLSearchParams()
+  if (from) params.set("from", from.toISOString())
+  const query = params.toString()
+  const entries = await apiRequest<ApiWorklogEntryDto[]>(`/api/reports/worklog${query ? `?${query}` : ""}`, {
+    method: "GET",
+    token,
+  })
+  return entries ?? []
+}
@@ -0,0 +1,100 @@
+import type { ApiWorklogEntryDto } from "./api-types"
+
+export interface WorklogSummary {
+  totalMinutes: number
+  billableMinutes: number
+  entries: number
+}
+
+export interface WorklogGroup {
+  key: string
+  label: string
+  summary: WorklogSummary
+}
+
+/** "2 ساعت و 15 دقیقه" style duration */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = Math.round(minutes % 60)
+  if (hours === 0) return `${rest.toLocaleString("fa-IR")} دقیقه`
+  if (rest === 0) return `${hours.toLocaleString("fa-IR")} ساعت`
+  return `${hours.toLocaleString("fa-IR")} ساعت و ${rest.toLocaleString("fa-IR")} دقیقه`
+}
+
+/** Hours with one decimal, for reports and CSV */
+export const toHours = (minutes: number) => Math.round((minutes / 60) * 10) / 10
+
+/**
+ * Parse a duration typed by a technician: "90" (minutes), "1:30" or "1.5h". Returns minutes, or
+ * null for anything else.
+ */
+export function parseDuration(input: string): number | null {
+  const value = input.trim().toLowerCase()
+  let minutes: number | null = null
+
+  const clock = value.match(/^(\d+):(\d{1,2})$/)
+  const hours = value.match(/^(\d+(?:\.\d+)?)\s*h$/)
+  if (clock) {
+    minutes = Number(clock[1]) * 60 + Number(clock[2])
+  } else if (hours) {
+    minutes = Math.round(Number(hours[1]) * 60)
+  } else if (/^\d+$/.test(value)) {
+    minutes = Number(value)
+  }
+
+  return minutes !== null && minutes > 0 ? minutes : null
+}
+
+export function summarizeWorklog(entries: ApiWorklogEntryDto[]): WorklogSummary {
+  return entries.reduce<WorklogSummary>(
+    (summary, entry) => ({
+      totalMinutes: summary.totalMinutes + entry.minutes,
+      billableMinutes: summary.billableMinutes + (entry.billable ? entry.minutes : 0),
+      entries: summary.entries + 1,
+    }),
+    { totalMinutes: 0, billableMinutes: 0, entries: 0 }
+  )
+}
+
+/** Entries grouped by a key, most hours first; entries without a key go under `fallbackLabel` */
+export function groupWorklog(
+  entries: ApiWorklogEntryDto[],
+  getKey: (entry: ApiWorklogEntryDto) => { key: string; label: string } | null,
+  fallbackLabel: string
+): WorklogGroup[] {
+  const groups = new Map<string, { label: string; items: ApiWorklogEntryDto[] }>()
+  for (const entry of entries) {
+    const { key, label } = getKey(entry) ?? { key: "", label: fallbackLabel }
+    const group = groups.get(key) ?? { label, items: [] }
+    group.items.push(entry)
+    groups.set(key, group)
+  }
+
+  return Array.from(groups, ([key, group]) => ({ key, label: group.label, summary: summarizeWorklog(group.items) })).sort(
+    (a, b) => b.summary.totalMinutes - a.summary.totalMinutes
+  )
+}
+
+const escapeCsvCell = (value: string | number) => {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** One row per entry, with a BOM so Excel opens the Persian text correctly */
+export function worklogToCsv(entries: ApiWorklogEntryDto[]): string {
+  const rows = [
+    ["شماره تیکت", "تکنسین", "دسته‌بندی", "واحد درخواست‌کننده", "تاریخ", "دقیقه", "ساعت", "قابل صورتحساب", "توضیحات"],
+    ...entries.map((entry) => [
+      entry.ticketId,
+      entry.technicianName,
+      entry.categoryName ?? "",
+      entry.department ?? "",
+      new Date(entry.loggedAt).toLocaleDateString("fa-IR"),
+      entry.minutes,
+      toHours(entry.minutes),
+      entry.billable ? "بله" : "خیر",
+      entry.note ?? "",
+    ]),
+  ]
+  return "\ufeff" + rows.map((row) => row.map(escapeCsvCell).join(",")).join("\n")
+}
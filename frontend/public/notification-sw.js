@@ -0,0 +1,47 @@
+// Service worker for desktop notifications (see lib/desktop-notifications.ts).
+// Shows Web Push messages and routes notification clicks to the related ticket.
+
+self.addEventListener("install", () => {
+  self.skipWaiting()
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim())
+})
+
+// Payload: { title, body, ticketId?, tag? }
+self.addEventListener("push", (event) => {
+  let payload = {}
+  try {
+    payload = event.data ? event.data.json() : {}
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "اعلان جدید", {
+      body: payload.body || "",
+      tag: payload.tag,
+      dir: "rtl",
+      lang: "fa",
+      data: { url: payload.ticketId ? `/tickets/${payload.ticketId}` : "/" },
+    })
+  )
+})
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close()
+  const url = (event.notification.data && event.notification.data.url) || "/"
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      // Reuse an open tab of the app when there is one
+      for (const client of windows) {
+        if (new URL(client.url).origin === self.location.origin && "focus" in client) {
+          return client.focus().then((focused) => (focused && "navigate" in focused ? focused.navigate(url) : focused))
+        }
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})
@@ -0,0 +1,155 @@
+// Stand-in for the backend realtime channel, for local development and manual testing.
+//
+//   npm run realtime:mock
+//   NEXT_PUBLIC_REALTIME_BASE_URL=http://localhost:5050 npm run dev
+//
+// Serves ticket events over SSE (GET /api/realtime/tickets) and WebSocket
+// (GET /api/realtime/tickets/ws). Events are injected with
+//
+//   curl -X POST http://localhost:5050/emit -H "Content-Type: application/json" \
+//     -d '{"type":"message-added","ticketId":"...","message":{...}}'
+//
+// The access_token query parameter is accepted but not verified.
+
+import { createHash } from "node:crypto"
+import { createServer } from "node:http"
+
+const PORT = Number(process.env.REALTIME_PORT ?? 5050)
+const SSE_PATH = "/api/realtime/tickets"
+const WEBSOCKET_PATH = "/api/realtime/tickets/ws"
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+const KEEPALIVE_MS = 15000
+
+const sseClients = new Set()
+const websocketClients = new Set()
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+}
+
+/** Encode a single unmasked server-to-client text frame */
+function encodeTextFrame(text) {
+  const payload = Buffer.from(text, "utf8")
+  let header
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length])
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4)
+    header[0] = 0x81
+    header[1] = 126
+    header.writeUInt16BE(payload.length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[0] = 0x81
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(payload.length), 2)
+  }
+  return Buffer.concat([header, payload])
+}
+
+function broadcast(event) {
+  const data = JSON.stringify(event)
+  for (const res of sseClients) {
+    res.write(`data: ${data}\n\n`)
+  }
+  const frame = encodeTextFrame(data)
+  for (const socket of websocketClients) {
+    socket.write(frame)
+  }
+  console.log(`[realtime] ${event.type} ${event.ticketId} -> ${sseClients.size} sse, ${websocketClients.size} ws`)
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let raw = ""
+    req.on("data", (chunk) => {
+      raw += chunk
+    })
+    req.on("end", () => resolve(raw))
+    req.on("error", reject)
+  })
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`)
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, corsHeaders)
+    res.end()
+    return
+  }
+
+  if (req.method === "GET" && url.pathname === SSE_PATH) {
+    res.writeHead(200, {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    })
+    res.write(": connected\n\n")
+    sseClients.add(res)
+    req.on("close", () => sseClients.delete(res))
+    return
+  }
+
+  if (req.method === "POST" && url.pathname === "/emit") {
+    try {
+      const event = JSON.parse(await readBody(req))
+      if (typeof event.type !== "string" || typeof event.ticketId !== "string") {
+        res.writeHead(400, corsHeaders)
+        res.end("type and ticketId are required")
+        return
+      }
+      broadcast({ occurredAt: new Date().toISOString(), ...event })
+      res.writeHead(202, corsHeaders)
+      res.end()
+    } catch {
+      res.writeHead(400, corsHeaders)
+      res.end("Invalid JSON")
+    }
+    return
+  }
+
+  res.writeHead(404, corsHeaders)
+  res.end()
+})
+
+server.on("upgrade", (req, socket) => {
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`)
+  const key = req.headers["sec-websocket-key"]
+  if (url.pathname !== WEBSOCKET_PATH || typeof key !== "string") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n")
+    return
+  }
+
+  const accept = createHash("sha1").update(key + WEBSOCKET_GUID).digest("base64")
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  )
+  websocketClients.add(socket)
+
+  socket.on("data", (chunk) => {
+    // Clients only ever send close frames to this server
+    const opcode = chunk[0] & 0x0f
+    if (opcode === 0x8) {
+      socket.end(Buffer.from([0x88, 0x00]))
+    }
+  })
+  socket.on("close", () => websocketClients.delete(socket))
+  socket.on("error", () => websocketClients.delete(socket))
+})
+
+setInterval(() => {
+  for (const res of sseClients) {
+    res.write(": ping\n\n")
+  }
+}, KEEPALIVE_MS).unref()
+
+server.listen(PORT, () => {
+  console.log(`[realtime] stand-in event server listening on http://localhost:${PORT}`)
+})
@@ -1,4 +1,4 @@
-export type TicketStatus = "open" | "in-progress" | "resolved" | "closed"
+export type TicketStatus = "open" | "in-progress" | "waiting-for-client" | "resolved" | "closed"
 export type TicketPriority = "low" | "medium" | "high" | "urgent"
 export type TicketCategory = string
 
@@ -9,6 +9,18 @@ export interface TicketResponse {
   message: string
   status: TicketStatus
   timestamp: string
+  /** Internal note: shown to technicians and admins only, never to the client */
+  isInternal?: boolean
+}
+
+export interface TicketAttachment {
+  id: string
+  name: string
+  size: number
+  type: string
+  url: string
+  uploadedAt: string
+  uploadedByName?: string | null
 }
 
 export interface Ticket {
@@ -31,15 +43,27 @@ export interface Ticket {
   createdAt: string
   updatedAt?: string | null
   dueDate?: string | null
+  /** First reply by support staff that the client could see, stamped by the server */
+  firstResponseAt?: string | null
+  /** When the ticket was resolved or closed, stamped by the server; null while it is open */
+  resolvedAt?: string | null
   assignedTo?: string | null
+  /** Technician.Id of the assignee, for assign-technician */
+  assignedTechnicianId?: string | null
   assignedTechnicianName?: string | null
   assignedTechnicianEmail?: string | null
   assignedTechnicianPhone?: string | null
   responses?: TicketResponse[]
-  attachments?: Array<Record<string, unknown>>
+  attachments?: TicketAttachment[]
   dynamicFields?: Record<string, unknown>
   lastResponseBy?: string | null
   lastResponseAt?: string | null
+  /** Times the client reopened the ticket after it was resolved or closed */
+  reopenCount?: number
+  /** Surviving ticket this one was merged into as a duplicate */
+  mergedIntoTicketId?: string | null
+  /** Tickets linked as children, e.g. user reports grouped under one outage */
+  childCount?: number
   [key: string]: unknown
 }
 